@@ -9,6 +9,8 @@ const config = {
   
   // Module resolution
   moduleNameMapper: {
+    // Run against the shared package's sources, so tests never see a stale build
+    '^@chykalophia/clickup-mcp-shared$': '<rootDir>/../shared/src/index.ts',
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+import open from 'open';
+import { ClickUpClient } from './clickup-client/index.js';
+import { AuthClient } from './clickup-client/auth.js';
+import {
+  createCredentialStore,
+  credentialFromTokens,
+  normalizeProfileName,
+  StoredCredential,
+} from './clickup-client/credentials.js';
+import { authorize, DEFAULT_REDIRECT_PORT, getOAuthApp } from './clickup-client/oauth.js';
+
+/**
+ * `clickup-mcp-auth` — manage the named credentials the server can use via
+ * the `profile` tool argument (see tools/profiles.ts).
+ *
+ *   clickup-mcp-auth login <profile> [--port 3000] [--no-browser]
+ *   clickup-mcp-auth add <profile> [token]     (reads the token from stdin when omitted)
+ *   clickup-mcp-auth list
+ *   clickup-mcp-auth remove <profile>
+ */
+
+const USAGE = `Usage:
+  clickup-mcp-auth login <profile> [--port ${DEFAULT_REDIRECT_PORT}] [--no-browser]
+      Authorize through your ClickUp OAuth app (CLICKUP_CLIENT_ID / CLICKUP_CLIENT_SECRET)
+  clickup-mcp-auth add <profile> [token]
+      Store a personal API token (pk_...); reads it from stdin when omitted
+  clickup-mcp-auth list
+  clickup-mcp-auth remove <profile>`;
+
+/** Check the token works and record whose it is. */
+async function describeToken(token: string): Promise<Pick<StoredCredential, 'user' | 'workspaces'>> {
+  const auth = new AuthClient(new ClickUpClient({ apiToken: token }));
+  const [user, { teams }] = await Promise.all([auth.getAuthorizedUser(), auth.getWorkspaces()]);
+  return { user: user.email || user.username, workspaces: teams.map(team => team.name) };
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    process.stderr.write('Paste the ClickUp API token and press Enter: ');
+  }
+  let input = '';
+  for await (const chunk of process.stdin) {
+    input += chunk;
+    if (input.includes('\n')) {
+      break;
+    }
+  }
+  return input.trim();
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  const flags = rest.filter(arg => arg.startsWith('--'));
+  const [name, value] = rest.filter((arg, index) => !arg.startsWith('--') && rest[index - 1] !== '--port');
+  const store = createCredentialStore();
+
+  switch (command) {
+    case 'login': {
+      const profile = normalizeProfileName(name ?? '');
+      const portIndex = rest.indexOf('--port');
+      const port = portIndex >= 0 ? Number(rest[portIndex + 1]) : DEFAULT_REDIRECT_PORT;
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port "${rest[portIndex + 1]}"`);
+      }
+      const tokens = await authorize(getOAuthApp(), {
+        port,
+        onAuthorizeUrl: async url => {
+          console.log(`Open this URL to authorize profile "${profile}":\n\n  ${url}\n`);
+          if (!flags.includes('--no-browser')) {
+            await open(url).catch(() => undefined);
+          }
+        },
+      });
+      const identity = await describeToken(tokens.access_token);
+      store.save(profile, {
+        kind: 'oauth',
+        ...credentialFromTokens(tokens),
+        added_at: new Date().toISOString(),
+        ...identity,
+      });
+      console.log(`Saved profile "${profile}" for ${identity.user} (${identity.workspaces?.join(', ')})`);
+      return;
+    }
+
+    case 'add': {
+      const profile = normalizeProfileName(name ?? '');
+      const token = value ?? (await readStdin());
+      if (!token) {
+        throw new Error('No token given');
+      }
+      const identity = await describeToken(token);
+      store.save(profile, {
+        kind: token.startsWith('pk_') ? 'personal' : 'oauth',
+        access_token: token,
+        added_at: new Date().toISOString(),
+        ...identity,
+      });
+      console.log(`Saved profile "${profile}" for ${identity.user} (${identity.workspaces?.join(', ')})`);
+      return;
+    }
+
+    case 'list': {
+      const profiles = store.list();
+      console.log(profiles.length > 0 ? JSON.stringify(profiles, null, 2) : 'No profiles configured.');
+      return;
+    }
+
+    case 'remove': {
+      const profile = normalizeProfileName(name ?? '');
+      console.log(store.remove(profile) ? `Removed profile "${profile}"` : `No profile named "${profile}"`);
+      return;
+    }
+
+    default:
+      console.log(USAGE);
+      if (command && command !== 'help' && command !== '--help') {
+        process.exitCode = 1;
+      }
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
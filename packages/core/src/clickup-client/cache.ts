@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+import { getTokenScope } from './session.js';
+
+/**
+ * Read-through cache for slow-changing ClickUp hierarchy data.
+ *
+ * Agents walk spaces -> folders -> lists (and fetch custom field definitions
+ * and members) over and over within a session. Each of those GETs costs a
+ * request against the per-token rate limit even though the answer rarely
+ * changes. Only the resources in CACHE_RESOURCES are cached — tasks, comments,
+ * time entries and everything else always go to the API.
+ *
+ * Invalidation works in two ways:
+ *   - every write made through ClickUpClient (post/put/patch/delete) drops the
+ *     resource families its endpoint can affect;
+ *   - entries expire after their resource's TTL, which bounds staleness from
+ *     changes made outside this server (the ClickUp UI, other integrations).
+ *
+ * Each entry also records an ETag-style content hash. ClickUp sends no ETags,
+ * so when an expired entry is refetched the hashes are compared and the
+ * refetch is counted as `revalidated_unchanged` when nothing moved — the
+ * figure to watch when tuning TTLs.
+ *
+ * Configuration:
+ *   CLICKUP_CACHE=off|memory|disk   (default off)
+ *   CLICKUP_CACHE_TTLS=spaces=600,lists=120   (seconds, per resource)
+ * The disk store lives under the data directory (see utils/local-store.ts),
+ * one file per API token so credentials never share cached data. HTTP
+ * sessions with their own token get their own keys in the same store.
+ */
+
+/* eslint-disable no-unused-vars */
+export enum CacheMode {
+  OFF = 'off',
+  MEMORY = 'memory',
+  DISK = 'disk',
+}
+/* eslint-enable no-unused-vars */
+
+/** Cacheable resource families: endpoint patterns and default TTL in seconds. */
+export const CACHE_RESOURCES = {
+  workspaces: { ttl: 900, patterns: [/^\/team$/, /^\/team\/[^/]+\/plan$/, /^\/team\/[^/]+\/customroles$/] },
+  spaces: { ttl: 600, patterns: [/^\/team\/[^/]+\/space$/, /^\/space\/[^/]+$/] },
+  folders: { ttl: 300, patterns: [/^\/space\/[^/]+\/folder$/, /^\/folder\/[^/]+$/] },
+  lists: { ttl: 300, patterns: [/^\/(?:space|folder)\/[^/]+\/list$/, /^\/list\/[^/]+$/] },
+  custom_fields: { ttl: 600, patterns: [/^\/(?:team|space|folder|list)\/[^/]+\/field$/] },
+  members: { ttl: 900, patterns: [/^\/team\/[^/]+\/seats$/, /^\/list\/[^/]+\/member$/, /^\/group$/] },
+  tags: { ttl: 600, patterns: [/^\/space\/[^/]+\/tag$/] },
+} as const;
+
+export type CacheResource = keyof typeof CACHE_RESOURCES;
+
+export const ALL_CACHE_RESOURCES = Object.keys(CACHE_RESOURCES) as CacheResource[];
+
+/**
+ * Resource families a write can affect, keyed by the first path segment of
+ * the write endpoint. A new task (POST /list/{id}/task) changes the list's
+ * task_count, so `list` writes drop lists too. Writes under other segments
+ * (task, comment, goal, ...) touch nothing cached here.
+ */
+const INVALIDATED_BY_WRITE: Record<string, CacheResource[]> = {
+  team: ALL_CACHE_RESOURCES,
+  space: ['spaces', 'folders', 'lists', 'custom_fields', 'tags'],
+  folder: ['folders', 'lists', 'custom_fields'],
+  list: ['lists', 'custom_fields', 'members'],
+  group: ['members'],
+};
+
+interface CacheEntry {
+  resource: CacheResource;
+  data: unknown;
+  etag: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStatus {
+  mode: CacheMode;
+  file?: string;
+  entries: number;
+  entries_by_resource: Partial<Record<CacheResource, number>>;
+  ttl_seconds: Record<CacheResource, number>;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  revalidated_unchanged: number;
+  invalidations: number;
+}
+
+export interface ResponseCacheOptions {
+  mode: CacheMode;
+  ttlOverrides?: Partial<Record<CacheResource, number>>;
+  filePath?: string;
+}
+
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? '';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(',')}}`;
+};
+
+const contentHash = (data: unknown): string =>
+  crypto.createHash('sha256').update(stableStringify(data)).digest('hex').slice(0, 16);
+
+// Some clients pass absolute URLs through the shared axios instance
+const API_ORIGIN = /^https?:\/\/[^/]+\/api\/v\d+/;
+
+/** Strip the query string and any absolute API origin so patterns see a bare path. */
+const normalizeEndpoint = (endpoint: string): string => endpoint.replace(API_ORIGIN, '').split('?')[0];
+
+export class ResponseCache {
+  private readonly mode: CacheMode;
+  private readonly ttls: Record<CacheResource, number>;
+  private readonly filePath?: string;
+  private entries = new Map<string, CacheEntry>();
+  // Hashes of expired entries, kept so a refetch can be recognised as unchanged
+  private expiredHashes = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+  private revalidatedUnchanged = 0;
+  private invalidations = 0;
+
+  constructor(options: ResponseCacheOptions) {
+    this.mode = options.mode;
+    this.ttls = Object.fromEntries(
+      ALL_CACHE_RESOURCES.map(resource => [
+        resource,
+        options.ttlOverrides?.[resource] ?? CACHE_RESOURCES[resource].ttl,
+      ])
+    ) as Record<CacheResource, number>;
+
+    if (this.mode === CacheMode.DISK) {
+      this.filePath = options.filePath;
+      if (this.filePath) {
+        const stored = readJsonFile<Record<string, CacheEntry>>(this.filePath, {});
+        const now = Date.now();
+        for (const [key, entry] of Object.entries(stored)) {
+          if (entry && entry.expiresAt > now && entry.resource in CACHE_RESOURCES) {
+            this.entries.set(key, entry);
+          }
+        }
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.mode !== CacheMode.OFF;
+  }
+
+  /** Which resource family an endpoint belongs to, or undefined when it is not cacheable. */
+  resourceFor(endpoint: string): CacheResource | undefined {
+    const path = normalizeEndpoint(endpoint);
+    return ALL_CACHE_RESOURCES.find(resource =>
+      CACHE_RESOURCES[resource].patterns.some(pattern => pattern.test(path))
+    );
+  }
+
+  /** Cache key: the endpoint (including any inline query) plus canonicalised params, per token scope. */
+  keyFor(endpoint: string, params?: unknown): string {
+    const key = `${endpoint.replace(API_ORIGIN, '')}|${stableStringify(params ?? {})}`;
+    const scope = getTokenScope();
+    return scope ? `${scope}:${key}` : key;
+  }
+
+  /**
+   * Serve `endpoint` from the cache when it is cacheable and fresh; otherwise
+   * call `fetcher` and store the result.
+   */
+  async getOrFetch<T>(endpoint: string, params: unknown, fetcher: () => Promise<T>): Promise<T> {
+    const resource = this.enabled ? this.resourceFor(endpoint) : undefined;
+    if (!resource) {
+      return fetcher();
+    }
+
+    const key = this.keyFor(endpoint, params);
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      this.hits++;
+      // Callers post-process responses in place; never hand out the stored copy.
+      return structuredClone(cached.data) as T;
+    }
+    if (cached) {
+      this.entries.delete(key);
+      this.expiredHashes.set(key, cached.etag);
+    }
+
+    this.misses++;
+    const data = await fetcher();
+    const etag = contentHash(data);
+    if (this.expiredHashes.get(key) === etag) {
+      this.revalidatedUnchanged++;
+    }
+    this.expiredHashes.delete(key);
+    this.entries.set(key, { resource, data, etag, storedAt: now, expiresAt: now + this.ttls[resource] * 1000 });
+    this.persist();
+    return structuredClone(data);
+  }
+
+  /** Drop every resource family a write to `endpoint` may have changed. */
+  invalidateForWrite(endpoint: string): number {
+    if (!this.enabled) {
+      return 0;
+    }
+    const segment = normalizeEndpoint(endpoint).split('/')[1] ?? '';
+    const affected = INVALIDATED_BY_WRITE[segment];
+    return affected ? this.clear(affected) : 0;
+  }
+
+  /**
+   * Remove entries for the given resource families (all of them when omitted).
+   * @returns The number of entries removed
+   */
+  clear(resources: readonly CacheResource[] = ALL_CACHE_RESOURCES): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (resources.includes(entry.resource)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.invalidations += removed;
+      this.persist();
+    }
+    return removed;
+  }
+
+  status(): CacheStatus {
+    const now = Date.now();
+    const byResource: Partial<Record<CacheResource, number>> = {};
+    let live = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt > now) {
+        byResource[entry.resource] = (byResource[entry.resource] ?? 0) + 1;
+        live++;
+      }
+    }
+    const lookups = this.hits + this.misses;
+    return {
+      mode: this.mode,
+      ...(this.filePath && { file: this.filePath }),
+      entries: live,
+      entries_by_resource: byResource,
+      ttl_seconds: { ...this.ttls },
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000,
+      revalidated_unchanged: this.revalidatedUnchanged,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private persist(): void {
+    if (this.mode !== CacheMode.DISK || !this.filePath) {
+      return;
+    }
+    try {
+      writeJsonFile(this.filePath, Object.fromEntries(this.entries));
+    } catch (error) {
+      // The in-memory layer still works; losing persistence is not fatal.
+      console.error('Failed to persist ClickUp response cache:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Parse `CLICKUP_CACHE_TTLS` ("spaces=600,lists=120"). Unknown resources and
+ * non-numeric values are ignored rather than failing server start-up.
+ */
+export function parseCacheTtls(raw: string | undefined): Partial<Record<CacheResource, number>> {
+  const ttls: Partial<Record<CacheResource, number>> = {};
+  for (const part of (raw ?? '').split(/[,\s]+/).filter(Boolean)) {
+    const [name, value] = part.split('=');
+    const seconds = Number(value);
+    if ((ALL_CACHE_RESOURCES as string[]).includes(name) && Number.isFinite(seconds) && seconds >= 0) {
+      ttls[name as CacheResource] = seconds;
+    }
+  }
+  return ttls;
+}
+
+/** Build the cache described by the CLICKUP_CACHE* environment variables for a token. */
+export function createResponseCacheFromEnv(apiToken: string): ResponseCache {
+  const rawMode = (process.env.CLICKUP_CACHE ?? '').trim().toLowerCase();
+  const mode = (Object.values(CacheMode) as string[]).includes(rawMode) ? (rawMode as CacheMode) : CacheMode.OFF;
+  const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+  return new ResponseCache({
+    mode,
+    ttlOverrides: parseCacheTtls(process.env.CLICKUP_CACHE_TTLS),
+    filePath: join(getDataDir(), 'cache', `responses-${tokenHash}.json`),
+  });
+}
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+import { getOAuthApp, OAuthApp, OAuthTokens, refreshAccessToken } from './oauth.js';
+
+/**
+ * Named ClickUp credentials ("profiles") for working across several
+ * workspaces from one server — see tools/profiles.ts for the per-call
+ * `profile` argument and auth-cli.ts for adding them.
+ *
+ * The store is a single AES-256-GCM encrypted file under the data directory.
+ * Its key is derived from CLICKUP_CREDENTIALS_KEY when set; otherwise a random
+ * key is generated once into an owner-only key file next to it, which keeps
+ * tokens out of plain-text config and backups of the store alone.
+ */
+
+export type CredentialKind = 'personal' | 'oauth';
+
+export interface StoredCredential {
+  kind: CredentialKind;
+  access_token: string;
+  refresh_token?: string;
+  // Epoch ms; absent for tokens that do not expire
+  expires_at?: number;
+  added_at: string;
+  // Who the token belongs to, recorded when it was added
+  user?: string;
+  workspaces?: string[];
+}
+
+export interface ProfileSummary {
+  name: string;
+  kind: CredentialKind;
+  added_at: string;
+  user?: string;
+  workspaces?: string[];
+  expires_at?: string;
+}
+
+interface EncryptedFile {
+  version: 1;
+  // Present when the key is derived from CLICKUP_CREDENTIALS_KEY
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+// Refresh OAuth tokens this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export const normalizeProfileName = (name: string): string => {
+  const normalized = name.trim().toLowerCase();
+  if (!PROFILE_NAME_PATTERN.test(normalized)) {
+    throw new Error(
+      `Invalid profile name "${name}": use up to 40 letters, digits, "-" or "_", starting with a letter or digit`
+    );
+  }
+  return normalized;
+};
+
+export interface CredentialStoreOptions {
+  filePath?: string;
+  // Random key file used when no passphrase is given
+  keyPath?: string;
+  passphrase?: string;
+  // OAuth app used to refresh expiring tokens
+  oauthApp?: OAuthApp;
+}
+
+export class CredentialStore {
+  private filePath: string;
+  private keyPath: string;
+  private passphrase?: string;
+  private oauthApp?: OAuthApp;
+  private profiles: Record<string, StoredCredential> | null = null;
+  private salt?: Buffer;
+
+  constructor(options: CredentialStoreOptions = {}) {
+    this.filePath = options.filePath ?? join(getDataDir(), 'credentials.enc.json');
+    this.keyPath = options.keyPath ?? join(dirname(this.filePath), 'credentials.key');
+    this.passphrase = options.passphrase;
+    this.oauthApp = options.oauthApp;
+  }
+
+  /** Profiles without their secrets, sorted by name. */
+  list(): ProfileSummary[] {
+    return Object.entries(this.load())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, credential]) => ({
+        name,
+        kind: credential.kind,
+        added_at: credential.added_at,
+        ...(credential.user && { user: credential.user }),
+        ...(credential.workspaces?.length && { workspaces: credential.workspaces }),
+        ...(credential.expires_at && { expires_at: new Date(credential.expires_at).toISOString() }),
+      }));
+  }
+
+  has(name: string): boolean {
+    return normalizeProfileName(name) in this.load();
+  }
+
+  save(name: string, credential: StoredCredential): void {
+    const profiles = this.load();
+    profiles[normalizeProfileName(name)] = credential;
+    this.persist();
+  }
+
+  /** Returns false when there was no such profile. */
+  remove(name: string): boolean {
+    const profiles = this.load();
+    const key = normalizeProfileName(name);
+    if (!(key in profiles)) {
+      return false;
+    }
+    delete profiles[key];
+    this.persist();
+    return true;
+  }
+
+  /**
+   * The access token for a profile, refreshed first when it is an OAuth
+   * token about to expire and a refresh token is available.
+   */
+  async getAccessToken(name: string): Promise<string> {
+    const key = normalizeProfileName(name);
+    const credential = this.load()[key];
+    if (!credential) {
+      const known = Object.keys(this.load());
+      throw new Error(
+        `Unknown profile "${name}"${known.length > 0 ? ` (configured: ${known.join(', ')})` : ''}`
+      );
+    }
+    if (!credential.expires_at || credential.expires_at - REFRESH_MARGIN_MS > Date.now()) {
+      return credential.access_token;
+    }
+    if (!credential.refresh_token) {
+      throw new Error(`The OAuth token of profile "${key}" has expired; run: clickup-mcp-auth login ${key}`);
+    }
+
+    const oauthApp = this.oauthApp ?? getOAuthApp();
+    const tokens = await refreshAccessToken(oauthApp, credential.refresh_token);
+    this.save(key, { ...credential, ...credentialFromTokens(tokens) });
+    return tokens.access_token;
+  }
+
+  private load(): Record<string, StoredCredential> {
+    if (this.profiles) {
+      return this.profiles;
+    }
+    if (!existsSync(this.filePath)) {
+      this.profiles = {};
+      return this.profiles;
+    }
+
+    const file = readJsonFile<EncryptedFile | null>(this.filePath, null);
+    if (!file || file.version !== 1) {
+      throw new Error(`Credential store ${this.filePath} is unreadable; remove it and add the profiles again`);
+    }
+    this.salt = file.salt ? Buffer.from(file.salt, 'base64') : undefined;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key(), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      this.profiles = JSON.parse(plain.toString('utf8')) as Record<string, StoredCredential>;
+    } catch {
+      throw new Error(
+        `Cannot decrypt credential store ${this.filePath}: ${
+          this.passphrase ? 'CLICKUP_CREDENTIALS_KEY does not match' : `the key file ${this.keyPath} does not match`
+        }`
+      );
+    }
+    return this.profiles;
+  }
+
+  private persist(): void {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(this.profiles ?? {}), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      ...(this.salt && { salt: this.salt.toString('base64') }),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    writeJsonFile(this.filePath, file);
+  }
+
+  private key(): Buffer {
+    if (this.passphrase) {
+      this.salt ??= crypto.randomBytes(16);
+      return crypto.scryptSync(this.passphrase, this.salt, 32);
+    }
+    this.salt = undefined;
+    if (!existsSync(this.keyPath)) {
+      mkdirSync(dirname(this.keyPath), { recursive: true, mode: 0o700 });
+      writeFileSync(this.keyPath, crypto.randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+    }
+    return Buffer.from(readFileSync(this.keyPath, 'utf8').trim(), 'base64');
+  }
+}
+
+/** The credential fields that come from an OAuth token response. */
+export const credentialFromTokens = (
+  tokens: OAuthTokens
+): Pick<StoredCredential, 'access_token' | 'refresh_token' | 'expires_at'> => ({
+  access_token: tokens.access_token,
+  ...(tokens.refresh_token && { refresh_token: tokens.refresh_token }),
+  ...(tokens.expires_in && { expires_at: Date.now() + tokens.expires_in * 1000 }),
+});
+
+let _store: CredentialStore | null = null;
+
+/** The server's credential store (CLICKUP_CREDENTIALS_KEY, data directory). */
+export const createCredentialStore = (): CredentialStore => {
+  if (!_store) {
+    const passphrase = process.env.CLICKUP_CREDENTIALS_KEY?.trim();
+    _store = new CredentialStore({ passphrase: passphrase || undefined });
+  }
+  return _store;
+};
@@ -392,9 +392,9 @@ export class EnhancedCustomFieldsClient {
    */
   async getListCustomFields(listId: string): Promise<CustomField[]> {
     try {
-      const url = `https://api.clickup.com/api/v2/list/${listId}/field`;
-      const response = await this.http.get(url);
-      return response.data.fields || [];
+      // Through the client (not raw axios) so definitions hit the response cache
+      const response = await this.client.get<{ fields?: CustomField[] }>(`/list/${listId}/field`);
+      return response.fields || [];
     } catch (error) {
       console.error('Error getting list custom fields:', error instanceof Error ? error.message : error);
       throw this.handleError(error, `Failed to get custom fields for list ${listId}`);
@@ -407,9 +407,8 @@ export class EnhancedCustomFieldsClient {
    */
   async getFolderCustomFields(folderId: string): Promise<CustomField[]> {
     try {
-      const url = `https://api.clickup.com/api/v2/folder/${folderId}/field`;
-      const response = await this.http.get(url);
-      return response.data.fields || [];
+      const response = await this.client.get<{ fields?: CustomField[] }>(`/folder/${folderId}/field`);
+      return response.fields || [];
     } catch (error) {
       console.error('Error getting folder custom fields:', error instanceof Error ? error.message : error);
       throw this.handleError(error, `Failed to get custom fields for folder ${folderId}`);
@@ -422,9 +421,8 @@ export class EnhancedCustomFieldsClient {
    */
   async getSpaceCustomFields(spaceId: string): Promise<CustomField[]> {
     try {
-      const url = `https://api.clickup.com/api/v2/space/${spaceId}/field`;
-      const response = await this.http.get(url);
-      return response.data.fields || [];
+      const response = await this.client.get<{ fields?: CustomField[] }>(`/space/${spaceId}/field`);
+      return response.fields || [];
     } catch (error) {
       console.error('Error getting space custom fields:', error instanceof Error ? error.message : error);
       throw this.handleError(error, `Failed to get custom fields for space ${spaceId}`);
@@ -436,9 +434,8 @@ export class EnhancedCustomFieldsClient {
    */
   async getTeamCustomFields(teamId: string): Promise<CustomField[]> {
     try {
-      const url = `https://api.clickup.com/api/v2/team/${teamId}/field`;
-      const response = await this.http.get(url);
-      return response.data.fields || [];
+      const response = await this.client.get<{ fields?: CustomField[] }>(`/team/${teamId}/field`);
+      return response.fields || [];
     } catch (error) {
       console.error('Error getting workspace custom fields:', error instanceof Error ? error.message : error);
       throw this.handleError(error, `Failed to get custom fields for workspace ${teamId}`);
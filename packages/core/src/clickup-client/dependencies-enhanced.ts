@@ -1,5 +1,9 @@
 import { ClickUpClient } from './index.js';
+import { TasksClient } from './tasks.js';
+import { tokenRateLimitKey, waitForTokenRateLimit } from './secure-client.js';
+import { getSessionToken, getTokenScope } from './session.js';
 import {
+  computeCriticalPath,
   validateDependencyChain,
   type CreateDependencyRequest,
   type DeleteDependencyRequest,
@@ -12,22 +16,67 @@ import {
   type TaskDependency,
   type LinkedTask,
   type TaskRelationships,
-  type DependencyGraphNode,
   type DependencyGraphEdge,
   type DependencyGraphResponse,
   type DependencyConflictResponse,
+  type CriticalPathOptions,
+  type CriticalPathResponse,
+  type SchedulableTask,
 } from '../schemas/dependencies-schemas.js';
 
-// Minimal slice of a Get Task response used for relationship reads
+// Minimal slice of a Get Task response used for relationship reads and scheduling
 interface TaskWithRelationships {
   id: string;
   name?: string;
-  status?: { status: string };
+  status?: { status: string; type?: string; color?: string };
   url?: string;
+  start_date?: string | null;
+  due_date?: string | null;
+  date_done?: string | null;
+  date_closed?: string | null;
+  time_estimate?: number | null;
   dependencies?: TaskDependency[];
   linked_tasks?: LinkedTask[];
 }
 
+// Concurrent Get Task requests while expanding one level of a graph
+const GRAPH_FETCH_CONCURRENCY = 5;
+// Get Task responses are reused by later graph calls for this long
+const TASK_REUSE_MS = 60 * 1000;
+const MAX_REUSED_TASKS = 2000;
+// Cap on tasks read by one list sweep
+const MAX_LIST_SWEEP_TASKS = 2000;
+const listSweepNote =
+  `Stopped after ${MAX_LIST_SWEEP_TASKS} tasks: the list has more, so its graph and figures are partial. ` +
+  'Use a task-rooted graph or split the list to cover the rest.';
+
+/** Run `fn` over `items` with at most `limit` calls in flight, keeping input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const edgeKey = (edge: { task_id: string; depends_on: string }) => `${edge.task_id}->${edge.depends_on}`;
+
+const toSchedulable = (task: TaskWithRelationships): SchedulableTask => ({
+  id: task.id,
+  name: task.name,
+  status: task.status?.status,
+  completed: task.status?.type === 'closed' || task.status?.type === 'done',
+  start_date: task.start_date,
+  due_date: task.due_date,
+  date_done: task.date_done ?? task.date_closed,
+  time_estimate: task.time_estimate,
+});
+
 // Query params accepted by all four Task Relationships endpoints
 interface CustomTaskIdParams {
   custom_task_ids?: boolean;
@@ -35,8 +84,13 @@ interface CustomTaskIdParams {
 }
 
 export class DependenciesEnhancedClient extends ClickUpClient {
+  private apiToken: string;
+  // Recently fetched tasks, keyed by token scope and task ID
+  private recentTasks = new Map<string, { task: TaskWithRelationships; fetchedAt: number }>();
+
   constructor(apiToken: string) {
     super({ apiToken });
+    this.apiToken = apiToken;
   }
 
   /**
@@ -67,6 +121,7 @@ export class DependenciesEnhancedClient extends ClickUpClient {
       `/task/${task_id}/dependency${this.buildCustomIdQuery({ custom_task_ids, team_id })}`,
       payload
     );
+    this.forgetTasks(task_id, depends_on, dependency_of);
     return { success: true };
   }
 
@@ -80,6 +135,7 @@ export class DependenciesEnhancedClient extends ClickUpClient {
     await this.delete(`/task/${task_id}/dependency`, {
       params: { depends_on, dependency_of, custom_task_ids, team_id },
     });
+    this.forgetTasks(task_id, depends_on, dependency_of);
     return { success: true };
   }
 
@@ -111,6 +167,7 @@ export class DependenciesEnhancedClient extends ClickUpClient {
     const response = await this.post<{ task?: Record<string, unknown> }>(
       `/task/${task_id}/link/${links_to}${this.buildCustomIdQuery({ custom_task_ids, team_id })}`
     );
+    this.forgetTasks(task_id, links_to);
     return response.task ?? response;
   }
 
@@ -124,51 +181,145 @@ export class DependenciesEnhancedClient extends ClickUpClient {
       `/task/${task_id}/link/${links_to}`,
       { params: { custom_task_ids, team_id } }
     );
+    this.forgetTasks(task_id, links_to);
     return response.task ?? response;
   }
 
   /**
-   * Build a dependency graph client-side by breadth-first traversal of Get Task
-   * responses (there is no server-side graph endpoint). Nodes beyond the
-   * requested depth may appear in edges without being fetched as nodes.
+   * Build a dependency graph client-side (there is no server-side graph
+   * endpoint): breadth-first from a root task, or from one sweep over a
+   * list's tasks. Nodes beyond the requested depth, or outside the list,
+   * may appear in edges without being fetched as nodes. Rendering (`format`)
+   * is left to utils/dependency-graph-format.ts.
    */
-  async getDependencyGraph(options: DependencyGraphOptions): Promise<DependencyGraphResponse> {
+  async getDependencyGraph(options: Omit<DependencyGraphOptions, 'format'>): Promise<DependencyGraphResponse> {
     const depth = options.depth ?? 3;
-    const nodes = new Map<string, DependencyGraphNode>();
+    const { tasks, edges, truncated } = options.list_id
+      ? await this.collectListDependencies(options.list_id, { refresh: options.refresh })
+      : await this.traverseDependencies(options.task_id as string, depth, { refresh: options.refresh });
+    const { cycles } = validateDependencyChain(edges);
+
+    return {
+      ...(options.list_id ? { list_id: options.list_id } : { root_task_id: options.task_id, depth }),
+      ...(truncated && { truncated, note: listSweepNote }),
+      nodes: tasks.map(task => ({
+        task_id: task.id,
+        name: task.name,
+        status: task.status?.status,
+        status_type: task.status?.type,
+        status_color: task.status?.color,
+        url: task.url,
+      })),
+      edges,
+      cycles,
+    };
+  }
+
+  /**
+   * Compute a critical path schedule (earliest/latest start, slack, projected
+   * finish, infeasible due dates) for the graph around a task, or for a whole
+   * list plus the outside tasks its tasks wait on. See computeCriticalPath.
+   */
+  async getCriticalPath(options: CriticalPathOptions): Promise<CriticalPathResponse> {
+    const fetchOptions = { refresh: options.refresh };
+    const { tasks, edges, truncated } = options.task_id
+      ? await this.traverseDependencies(options.task_id, options.depth ?? 5, fetchOptions)
+      : await this.collectListDependencies(options.list_id as string, { ...fetchOptions, includeBlockers: true });
+
+    const startFrom = options.start_from
+      ? /^\d+$/.test(options.start_from)
+        ? Number(options.start_from)
+        : Date.parse(options.start_from)
+      : Date.now();
+    if (Number.isNaN(startFrom)) {
+      throw new Error(`Invalid start_from "${options.start_from}": use an ISO date or epoch milliseconds`);
+    }
+
+    const schedule = computeCriticalPath(tasks.map(toSchedulable), edges, {
+      start_from: startFrom,
+      hours_per_day: options.hours_per_day ?? 8,
+      default_duration_hours: options.default_duration_hours ?? 8,
+    });
+    return {
+      scope: options.task_id ? { task_id: options.task_id } : { list_id: options.list_id as string },
+      ...schedule,
+      ...(truncated && { truncated, assumptions: [...schedule.assumptions, listSweepNote] }),
+    };
+  }
+
+  /**
+   * Fetch a task, reusing one fetched in the last minute with the same
+   * credentials. Requests are paced by the per-token rate limiter shared
+   * with SecureClickUpClient. Resolves undefined for deleted or inaccessible
+   * tasks.
+   */
+  private async fetchTask(taskId: string, refresh = false): Promise<TaskWithRelationships | undefined> {
+    const key = `${getTokenScope()}:${taskId}`;
+    const recent = this.recentTasks.get(key);
+    if (!refresh && recent && Date.now() - recent.fetchedAt < TASK_REUSE_MS) {
+      return recent.task;
+    }
+
+    await waitForTokenRateLimit(tokenRateLimitKey(getSessionToken() ?? this.apiToken));
+    try {
+      const task = await this.get<TaskWithRelationships>(`/task/${taskId}`);
+      this.rememberTask(task);
+      return task;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private rememberTask(task: TaskWithRelationships): void {
+    const key = `${getTokenScope()}:${task.id}`;
+    this.recentTasks.delete(key);
+    this.recentTasks.set(key, { task, fetchedAt: Date.now() });
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.recentTasks.size > MAX_REUSED_TASKS) {
+      this.recentTasks.delete(this.recentTasks.keys().next().value as string);
+    }
+  }
+
+  /** Drop reused copies of tasks whose relationships just changed. */
+  private forgetTasks(...taskIds: Array<string | undefined>): void {
+    const scope = getTokenScope();
+    for (const taskId of taskIds) {
+      if (taskId) {
+        this.recentTasks.delete(`${scope}:${taskId}`);
+      }
+    }
+  }
+
+  /**
+   * Breadth-first walk over dependencies from a root task. Each level's
+   * tasks are fetched concurrently (GRAPH_FETCH_CONCURRENCY at a time).
+   * Deleted or inaccessible tasks are skipped.
+   */
+  private async traverseDependencies(
+    rootTaskId: string,
+    depth: number,
+    options: { refresh?: boolean } = {}
+  ): Promise<{ tasks: TaskWithRelationships[]; edges: DependencyGraphEdge[]; truncated?: boolean }> {
+    const tasks = new Map<string, TaskWithRelationships>();
     const edges = new Map<string, DependencyGraphEdge>();
-    const visited = new Set<string>();
-    let frontier = [options.task_id];
+    const visited = new Set<string>([rootTaskId]);
+    let frontier = [rootTaskId];
 
     for (let level = 0; level <= depth && frontier.length > 0; level++) {
+      const fetched = await mapWithConcurrency(frontier, GRAPH_FETCH_CONCURRENCY, taskId =>
+        this.fetchTask(taskId, options.refresh)
+      );
       const next: string[] = [];
 
-      for (const taskId of frontier) {
-        if (visited.has(taskId)) continue;
-        visited.add(taskId);
-
-        let task: TaskWithRelationships;
-        try {
-          task = await this.get<TaskWithRelationships>(`/task/${taskId}`);
-        } catch {
-          // Skip tasks that are deleted or inaccessible
-          continue;
-        }
-
-        nodes.set(task.id, {
-          task_id: task.id,
-          name: task.name,
-          status: task.status?.status,
-          url: task.url,
-        });
+      for (const task of fetched) {
+        if (!task) continue;
+        tasks.set(task.id, task);
 
         for (const dep of task.dependencies ?? []) {
-          edges.set(`${dep.task_id}->${dep.depends_on}`, {
-            task_id: dep.task_id,
-            depends_on: dep.depends_on,
-            type: dep.type,
-          });
+          edges.set(edgeKey(dep), { task_id: dep.task_id, depends_on: dep.depends_on, type: dep.type });
           const neighbor = dep.task_id === task.id ? dep.depends_on : dep.task_id;
           if (!visited.has(neighbor)) {
+            visited.add(neighbor);
             next.push(neighbor);
           }
         }
@@ -177,16 +328,55 @@ export class DependenciesEnhancedClient extends ClickUpClient {
       frontier = next;
     }
 
-    const edgeList = Array.from(edges.values());
-    const { cycles } = validateDependencyChain(edgeList);
+    return { tasks: Array.from(tasks.values()), edges: Array.from(edges.values()) };
+  }
 
-    return {
-      root_task_id: options.task_id,
-      depth,
-      nodes: Array.from(nodes.values()),
-      edges: edgeList,
-      cycles,
-    };
+  /**
+   * Every task of a list (subtasks and closed tasks included) with its
+   * dependency edges, read in one paginated sweep instead of per-task GETs.
+   * With `includeBlockers`, outside tasks that list tasks wait on are fetched
+   * too, since they still hold up the list's schedule. `truncated` is set
+   * when the list has more than MAX_LIST_SWEEP_TASKS tasks.
+   */
+  private async collectListDependencies(
+    listId: string,
+    options: { refresh?: boolean; includeBlockers?: boolean } = {}
+  ): Promise<{ tasks: TaskWithRelationships[]; edges: DependencyGraphEdge[]; truncated: boolean }> {
+    const { tasks: listTasks, pagination } = await new TasksClient(this).getAllTasksFromList(
+      listId,
+      { subtasks: true, include_closed: true },
+      { max_tasks: MAX_LIST_SWEEP_TASKS }
+    );
+
+    const tasks = new Map<string, TaskWithRelationships>();
+    const edges = new Map<string, DependencyGraphEdge>();
+    for (const task of listTasks as unknown as TaskWithRelationships[]) {
+      tasks.set(task.id, task);
+      this.rememberTask(task);
+      for (const dep of task.dependencies ?? []) {
+        edges.set(edgeKey(dep), { task_id: dep.task_id, depends_on: dep.depends_on, type: dep.type });
+      }
+    }
+
+    if (options.includeBlockers) {
+      const blockers = Array.from(
+        new Set(
+          Array.from(edges.values())
+            .filter(edge => tasks.has(edge.task_id) && !tasks.has(edge.depends_on))
+            .map(edge => edge.depends_on)
+        )
+      );
+      const fetched = await mapWithConcurrency(blockers, GRAPH_FETCH_CONCURRENCY, taskId =>
+        this.fetchTask(taskId, options.refresh)
+      );
+      for (const task of fetched) {
+        if (task) {
+          tasks.set(task.id, task);
+        }
+      }
+    }
+
+    return { tasks: Array.from(tasks.values()), edges: Array.from(edges.values()), truncated: !pagination.complete };
   }
 
   /**
@@ -196,8 +386,12 @@ export class DependenciesEnhancedClient extends ClickUpClient {
   async checkDependencyConflicts(
     check: DependencyConflictCheck
   ): Promise<DependencyConflictResponse> {
-    const graph = await this.getDependencyGraph({ task_id: check.task_id, depth: 10 });
-    const existingKeys = new Set(graph.edges.map(edge => `${edge.task_id}->${edge.depends_on}`));
+    const graph = await this.getDependencyGraph({
+      task_id: check.task_id,
+      depth: check.depth ?? 10,
+      refresh: check.refresh,
+    });
+    const existingKeys = new Set(graph.edges.map(edgeKey));
 
     const conflicts: DependencyConflictResponse['conflicts'] = [];
     const proposedEdges = (check.proposed_dependencies ?? []).map(proposed =>
@@ -207,7 +401,7 @@ export class DependenciesEnhancedClient extends ClickUpClient {
     );
 
     for (const edge of proposedEdges) {
-      if (existingKeys.has(`${edge.task_id}->${edge.depends_on}`)) {
+      if (existingKeys.has(edgeKey(edge))) {
         conflicts.push({
           type: 'duplicate',
           description: `Task ${edge.task_id} already depends on ${edge.depends_on}`,
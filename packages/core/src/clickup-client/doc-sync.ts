@@ -0,0 +1,424 @@
+import { lstat, mkdir, readdir, readFile, realpath, writeFile } from 'fs/promises';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { EnhancedDocsClient, Page } from './docs-enhanced.js';
+import { normalizeName } from './resolver.js';
+import { formatFrontMatter, parseFrontMatter } from '../utils/front-matter.js';
+import { getDataDir } from '../utils/local-store.js';
+
+/**
+ * Doc export and import: a doc's page hierarchy as a directory of Markdown
+ * files, so docs can be kept in git and published to ClickUp.
+ *
+ * A page is `<slug>.md`; a page with sub-pages is a directory `<slug>/` whose
+ * `index.md` is the page itself. Front-matter carries the page ID, title and
+ * sub-title. On import, a file matches a page by `clickup_page_id`, else by
+ * title among the pages under the same parent, and is created otherwise.
+ * Import never deletes: pages with no local file are only reported.
+ */
+
+export interface DocExportFile {
+  path: string;
+  page_id: string;
+  title: string;
+}
+
+export interface DocExportReport {
+  doc_id: string;
+  directory: string;
+  files: DocExportFile[];
+}
+
+export type DocImportAction = 'created' | 'updated' | 'unchanged' | 'would_create' | 'would_update' | 'failed';
+
+export interface DocImportResult {
+  path: string;
+  title: string;
+  action: DocImportAction;
+  page_id?: string;
+  note?: string;
+  error?: string;
+}
+
+export interface DocImportReport {
+  doc_id: string;
+  directory: string;
+  dry_run: boolean;
+  summary: Partial<Record<DocImportAction, number>>;
+  pages: DocImportResult[];
+  /** Pages in the doc that no local file maps to; import leaves them alone. */
+  remote_only: Array<{ page_id: string; title: string }>;
+}
+
+export interface ImportDocsOptions {
+  dryRun?: boolean;
+  /** Write the page ID of created or title-matched pages back into each file's front-matter. */
+  recordIds?: boolean;
+}
+
+interface LocalPage {
+  path: string;
+  /** Absolute path of the Markdown file; absent for a directory without index.md. */
+  file?: string;
+  title: string;
+  subTitle?: string;
+  pageId?: string;
+  /** Absent when the directory has no index.md: the page's content is not managed locally. */
+  content?: string;
+  children: LocalPage[];
+}
+
+interface RemotePage {
+  page: Page;
+  parentId?: string;
+}
+
+// Where the parent of a page being imported stands
+type ParentState = { id?: string; missing?: 'planned' | 'failed' };
+
+const INDEX_FILE = 'index.md';
+
+const isWithin = (root: string, path: string) => path === root || path.startsWith(root + sep);
+
+const outsideDocsDirectory = () => new Error('directory is outside the docs directory (CLICKUP_DOCS_DIR)');
+
+/**
+ * Throw unless `path` stays inside `root` (both canonical) once symlinks are
+ * followed. Parts of the path that do not exist yet are checked through the
+ * nearest part that does.
+ */
+async function assertInsideDocsDirectory(root: string, path: string): Promise<void> {
+  for (let current = path; ; current = dirname(current)) {
+    const stat = await lstat(current).catch(() => undefined);
+    if (!stat) {
+      continue;
+    }
+    // A dangling symlink has no real path, and writing through it could land anywhere
+    const real = await realpath(current).catch(() => undefined);
+    if (!real || !isWithin(root, real)) {
+      throw outsideDocsDirectory();
+    }
+    return;
+  }
+}
+
+/**
+ * Export and import are confined to CLICKUP_DOCS_DIR, or `<data dir>/docs`
+ * when it is not set, since the caller may be a remote MCP client. Relative
+ * paths resolve against it, and symlinks may not lead out of it. Returns the
+ * canonical directory.
+ */
+async function resolveDocsDirectory(directory: string): Promise<string> {
+  if (directory.includes('\0')) {
+    throw new Error('Invalid directory');
+  }
+  const base = resolve(process.env.CLICKUP_DOCS_DIR?.trim() || join(getDataDir(), 'docs'));
+  const resolved = resolve(base, directory);
+  if (!isWithin(base, resolved)) {
+    throw outsideDocsDirectory();
+  }
+  await mkdir(base, { recursive: true });
+  const root = await realpath(base);
+  const target = join(root, relative(base, resolved));
+  await assertInsideDocsDirectory(root, target);
+  return realpath(target).catch(() => target);
+}
+
+/** File name for a page title: lowercase ASCII words joined by dashes. */
+export const slugify = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'page';
+
+const titleFromFileName = (name: string): string => {
+  const words = name.replace(/\.md$/i, '').replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const sameContent = (a: string, b: string): boolean =>
+  a.replace(/\r\n/g, '\n').trim() === b.replace(/\r\n/g, '\n').trim();
+
+const toPosix = (root: string, path: string): string => relative(root, path).split(sep).join('/');
+
+async function readLocalPage(root: string, file: string): Promise<LocalPage> {
+  const { data, body } = parseFrontMatter(await readFile(file, 'utf8'));
+  let title = data.title;
+  let content = body;
+  if (!title) {
+    // Without a front-matter title, a leading "# Heading" names the page
+    const heading = /^#[ \t]+(.+?)[ \t]*#*[ \t]*(?:\r?\n|$)/.exec(body.trimStart());
+    const name = basename(file).toLowerCase() === INDEX_FILE ? basename(dirname(file)) : basename(file);
+    title = heading ? heading[1] : titleFromFileName(name);
+    content = heading
+      ? body
+          .trimStart()
+          .slice(heading[0].length)
+          .replace(/^(?:[ \t]*\r?\n)+/, '')
+      : body;
+  }
+  return {
+    path: toPosix(root, file),
+    file,
+    title,
+    subTitle: data.sub_title,
+    pageId: data.clickup_page_id,
+    content,
+    children: [],
+  };
+}
+
+/** Read the pages under `dir`, in file-name order; hidden entries and non-Markdown files are skipped. */
+async function readLocalTree(root: string, dir: string): Promise<LocalPage[]> {
+  const entries = (await readdir(dir, { withFileTypes: true }))
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const pages: LocalPage[] = [];
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const children = await readLocalTree(root, path);
+      // Symlinks are skipped like everywhere else in the tree
+      const index = (await readdir(path, { withFileTypes: true })).find(
+        file => file.isFile() && file.name.toLowerCase() === INDEX_FILE
+      )?.name;
+      if (!index && children.length === 0) {
+        continue;
+      }
+      const page: LocalPage = index
+        ? await readLocalPage(root, join(path, index))
+        : { path: `${toPosix(root, path)}/`, title: titleFromFileName(entry.name), children: [] };
+      page.children = children;
+      pages.push(page);
+    } else if (entry.isFile() && /\.md$/i.test(entry.name)) {
+      // A directory's index.md is the directory's own page, read above
+      if (dir !== root && entry.name.toLowerCase() === INDEX_FILE) {
+        continue;
+      }
+      pages.push(await readLocalPage(root, path));
+    }
+  }
+  return pages;
+}
+
+export class DocSyncClient {
+  private docs: EnhancedDocsClient;
+
+  constructor(docs: EnhancedDocsClient) {
+    this.docs = docs;
+  }
+
+  /**
+   * Write every page of a doc to `directory` as Markdown with front-matter.
+   * Existing files at the same paths are overwritten; other files are left alone.
+   */
+  async exportDoc(workspaceId: string, docId: string, directory: string): Promise<DocExportReport> {
+    const root = await resolveDocsDirectory(directory);
+    const pages = await this.docs.getDocPages(workspaceId, docId, 'text/md');
+    const files: DocExportFile[] = [];
+
+    const write = async (siblings: Page[], dir: string): Promise<void> => {
+      // index.md inside a page directory is that page's own file
+      const taken = new Set<string>(dir === root ? [] : ['index']);
+      for (const page of siblings) {
+        let slug = slugify(page.name);
+        for (let n = 2; taken.has(slug); n++) {
+          slug = `${slugify(page.name)}-${n}`;
+        }
+        taken.add(slug);
+
+        const children = page.pages ?? [];
+        const file = children.length > 0 ? join(dir, slug, INDEX_FILE) : join(dir, `${slug}.md`);
+        const content = page.content ?? '';
+        const frontMatter = {
+          clickup_doc_id: docId,
+          clickup_page_id: page.id,
+          title: page.name,
+          sub_title: page.sub_title || undefined,
+        };
+        // A symlink already in the tree must not redirect the write
+        await assertInsideDocsDirectory(root, file);
+        await mkdir(dirname(file), { recursive: true });
+        const body = content.endsWith('\n') ? content : `${content}\n`;
+        await writeFile(file, formatFrontMatter(frontMatter, body), 'utf8');
+        files.push({ path: toPosix(root, file), page_id: page.id, title: page.name });
+
+        if (children.length > 0) {
+          await write(children, join(dir, slug));
+        }
+      }
+    };
+
+    await mkdir(root, { recursive: true });
+    await write(Array.isArray(pages) ? pages : [], root);
+    return { doc_id: docId, directory: root, files };
+  }
+
+  /**
+   * Create or update pages of a doc to mirror `directory`. Pages are
+   * processed parents first; a failed page is reported and its sub-pages
+   * are skipped, and the rest of the tree still imports.
+   */
+  async importDocs(
+    workspaceId: string,
+    docId: string,
+    directory: string,
+    options: ImportDocsOptions = {}
+  ): Promise<DocImportReport> {
+    const root = await resolveDocsDirectory(directory);
+    const dryRun = options.dryRun ?? false;
+    const local = await readLocalTree(root, root);
+    if (local.length === 0) {
+      throw new Error(`No Markdown files found in ${root}`);
+    }
+
+    const remote = new Map<string, RemotePage>();
+    const collect = (pages: Page[], parentId?: string) => {
+      for (const page of pages) {
+        remote.set(page.id, { page, parentId: page.parent_page_id ?? parentId });
+        collect(page.pages ?? [], page.id);
+      }
+    };
+    const remotePages = await this.docs.getDocPages(workspaceId, docId, 'text/md');
+    collect(Array.isArray(remotePages) ? remotePages : []);
+
+    const claimed = new Set<string>();
+    const results: DocImportResult[] = [];
+
+    const visit = async (pages: LocalPage[], parent: ParentState): Promise<void> => {
+      for (const page of pages) {
+        const result: DocImportResult = { path: page.path, title: page.title, action: 'failed' };
+        results.push(result);
+        let state: ParentState;
+        try {
+          if (parent.missing === 'failed') {
+            throw new Error('Parent page was not imported');
+          }
+          const match = parent.missing ? undefined : this.matchPage(page, parent.id, remote, claimed);
+          state = match
+            ? await this.updateExisting(workspaceId, docId, page, match, parent.id, dryRun, result)
+            : await this.createNew(workspaceId, docId, page, parent.id, dryRun, result);
+          if (options.recordIds && !dryRun && page.file && state.id && state.id !== page.pageId) {
+            await this.recordPageId(page.file, docId, state.id);
+          }
+        } catch (error: unknown) {
+          result.action = 'failed';
+          result.error = error instanceof Error ? error.message : String(error);
+          state = { missing: 'failed' };
+        }
+        await visit(page.children, state);
+      }
+    };
+    await visit(local, {});
+
+    const summary: DocImportReport['summary'] = {};
+    for (const result of results) {
+      summary[result.action] = (summary[result.action] ?? 0) + 1;
+    }
+    const remoteOnly = [...remote.values()]
+      .filter(({ page }) => !claimed.has(page.id))
+      .map(({ page }) => ({ page_id: page.id, title: page.name }));
+
+    return { doc_id: docId, directory: root, dry_run: dryRun, summary, pages: results, remote_only: remoteOnly };
+  }
+
+  private matchPage(
+    page: LocalPage,
+    parentId: string | undefined,
+    remote: Map<string, RemotePage>,
+    claimed: Set<string>
+  ): RemotePage | undefined {
+    const byId = page.pageId ? remote.get(page.pageId) : undefined;
+    const match =
+      byId && !claimed.has(byId.page.id)
+        ? byId
+        : [...remote.values()].find(
+            candidate =>
+              candidate.parentId === parentId &&
+              !claimed.has(candidate.page.id) &&
+              normalizeName(candidate.page.name) === normalizeName(page.title)
+          );
+    if (match) {
+      claimed.add(match.page.id);
+    }
+    return match;
+  }
+
+  private async updateExisting(
+    workspaceId: string,
+    docId: string,
+    page: LocalPage,
+    match: RemotePage,
+    parentId: string | undefined,
+    dryRun: boolean,
+    result: DocImportResult
+  ): Promise<ParentState> {
+    const current = match.page;
+    result.page_id = current.id;
+    if (match.parentId !== parentId) {
+      result.note = 'Moved locally; the API cannot move pages, so it keeps its place in ClickUp';
+    }
+
+    const changed =
+      current.name !== page.title ||
+      (page.subTitle !== undefined && page.subTitle !== (current.sub_title ?? '')) ||
+      (page.content !== undefined && !sameContent(page.content, current.content ?? ''));
+    if (!changed) {
+      result.action = 'unchanged';
+    } else if (dryRun) {
+      result.action = 'would_update';
+    } else {
+      await this.docs.updatePage(workspaceId, docId, current.id, {
+        name: page.title,
+        sub_title: page.subTitle,
+        ...(page.content !== undefined ? { content: page.content, content_format: 'text/md' as const } : {}),
+      });
+      result.action = 'updated';
+    }
+    return { id: current.id };
+  }
+
+  private async createNew(
+    workspaceId: string,
+    docId: string,
+    page: LocalPage,
+    parentId: string | undefined,
+    dryRun: boolean,
+    result: DocImportResult
+  ): Promise<ParentState> {
+    if (dryRun) {
+      result.action = 'would_create';
+      return { missing: 'planned' };
+    }
+    const created = await this.docs.createPage(workspaceId, docId, {
+      name: page.title,
+      content: page.content ?? '',
+      sub_title: page.subTitle,
+      content_format: 'text/md',
+      parent_page_id: parentId,
+    });
+    result.action = 'created';
+    result.page_id = created.id;
+    return { id: created.id };
+  }
+
+  private async recordPageId(file: string, docId: string, pageId: string): Promise<void> {
+    const { data, body } = parseFrontMatter(await readFile(file, 'utf8'));
+    await writeFile(file, formatFrontMatter({ ...data, clickup_doc_id: docId, clickup_page_id: pageId }, body), 'utf8');
+  }
+}
+
+// One sync client per docs client
+const syncClients = new WeakMap<EnhancedDocsClient, DocSyncClient>();
+
+export const createDocSyncClient = (docs: EnhancedDocsClient): DocSyncClient => {
+  let client = syncClients.get(docs);
+  if (!client) {
+    client = new DocSyncClient(docs);
+    syncClients.set(docs, client);
+  }
+  return client;
+};
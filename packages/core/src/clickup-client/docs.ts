@@ -1,5 +1,6 @@
 /* eslint-disable no-console, max-len */
 import { ClickUpClient } from './index.js';
+import { getSessionToken } from './session.js';
 import axios from 'axios';
 
 // Updated Doc interface based on v3 API response
@@ -58,8 +59,8 @@ export class DocsClient {
     workspaceId: string,
     params?: GetDocsParams
   ): Promise<{ docs: Doc[]; next_cursor: string }> {
-    // Get the API token directly from the environment variable
-    const apiToken = process.env.CLICKUP_API_TOKEN;
+    // Get the API token from the HTTP session, falling back to the environment variable
+    const apiToken = getSessionToken() ?? process.env.CLICKUP_API_TOKEN;
 
     try {
       const url = `https://api.clickup.com/api/v3/workspaces/${workspaceId}/docs`;
@@ -94,8 +95,8 @@ export class DocsClient {
     docId: string,
     contentFormat: string = 'text/md'
   ): Promise<any> {
-    // Get the API token directly from the environment variable
-    const apiToken = process.env.CLICKUP_API_TOKEN;
+    // Get the API token from the HTTP session, falling back to the environment variable
+    const apiToken = getSessionToken() ?? process.env.CLICKUP_API_TOKEN;
 
     try {
       const url = `https://api.clickup.com/api/v3/workspaces/${workspaceId}/docs/${docId}/pages`;
@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Dry-run ("plan") mode for writes.
+ *
+ * Every write this server makes — through ClickUpClient.post/put/patch/delete
+ * or a client that uses the shared axios instance directly — passes the
+ * request interceptor installed by installWriteGuard(). Depending on the mode
+ * the write is sent, refused, or recorded in a MutationPlan and answered with
+ * an empty synthetic response so the calling code carries on as if it worked.
+ * Reads are always sent, so a plan can look up names of the entities involved.
+ *
+ * Modes:
+ *   - a plan is active (runWithPlan, e.g. a tool called with dry_run: true):
+ *     writes are recorded, never sent;
+ *   - CLICKUP_DRY_RUN=true: every mutating tool runs under a plan, and any
+ *     write outside one is dropped with a warning;
+ *   - CLICKUP_READ_ONLY=true: as CLICKUP_DRY_RUN, except a write outside a
+ *     plan is rejected with an error instead of silently dropped.
+ */
+
+export type WriteMode = 'live' | 'dry_run' | 'read_only';
+
+export interface PlannedMutation {
+  step: number;
+  method: string;
+  endpoint: string;
+  params?: unknown;
+  body?: unknown;
+  // Filled in by describePlanEntities once the plan is complete
+  entity?: { type: string; id: string; name?: string };
+}
+
+export class MutationPlan {
+  readonly mutations: PlannedMutation[] = [];
+
+  record(method: string, endpoint: string, body?: unknown, params?: unknown): PlannedMutation {
+    const mutation: PlannedMutation = {
+      step: this.mutations.length + 1,
+      method: method.toUpperCase(),
+      endpoint,
+      ...(params !== undefined && { params }),
+      ...(body !== undefined && { body }),
+    };
+    this.mutations.push(mutation);
+    return mutation;
+  }
+}
+
+const isTruthy = (value: string | undefined): boolean =>
+  ['1', 'true', 'yes', 'on'].includes((value ?? '').trim().toLowerCase());
+
+/** The process-wide write mode from CLICKUP_READ_ONLY / CLICKUP_DRY_RUN. Read-only wins. */
+export const getWriteMode = (): WriteMode => {
+  if (isTruthy(process.env.CLICKUP_READ_ONLY)) {
+    return 'read_only';
+  }
+  return isTruthy(process.env.CLICKUP_DRY_RUN) ? 'dry_run' : 'live';
+};
+
+const planStorage = new AsyncLocalStorage<MutationPlan>();
+
+/** The plan recording writes for the current async context, if any. */
+export const getActivePlan = (): MutationPlan | undefined => planStorage.getStore();
+
+/** Run `fn` with writes recorded into a fresh plan instead of being sent. */
+export async function runWithPlan<T>(fn: () => Promise<T>): Promise<{ result: T; plan: MutationPlan }> {
+  const plan = new MutationPlan();
+  const result = await planStorage.run(plan, fn);
+  return { result, plan };
+}
+
+const WRITE_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+
+// Absolute URLs are used for v3 endpoints; keep the version so the plan is unambiguous
+const API_ORIGIN = /^https?:\/\/[^/]+\/api(?=\/v\d+)/;
+
+const planEndpoint = (config: InternalAxiosRequestConfig): string => {
+  const url = config.url ?? '';
+  return API_ORIGIN.test(url) ? url.replace(API_ORIGIN, '') : url;
+};
+
+/** JSON bodies are kept as-is; multipart and other binary bodies are summarised. */
+const planBody = (data: unknown): unknown => {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  if (typeof data === 'object' && !Array.isArray(data) && Object.getPrototypeOf(data) !== Object.prototype) {
+    return `[${data.constructor?.name ?? 'binary'} body]`;
+  }
+  return data;
+};
+
+/**
+ * Install the write guard on an axios instance. Must run before any other
+ * request interceptor that should see only real requests.
+ */
+export function installWriteGuard(instance: AxiosInstance): void {
+  instance.interceptors.request.use(config => {
+    const method = (config.method ?? 'get').toLowerCase();
+    if (!WRITE_METHODS.has(method)) {
+      return config;
+    }
+
+    const endpoint = planEndpoint(config);
+    const plan = getActivePlan();
+    const mode = getWriteMode();
+    if (!plan) {
+      if (mode === 'live') {
+        return config;
+      }
+      if (mode === 'read_only') {
+        throw new Error(
+          `Refusing ${method.toUpperCase()} ${endpoint}: the server is in read-only mode (CLICKUP_READ_ONLY)`
+        );
+      }
+      console.error(`ClickUp dry run: skipped ${method.toUpperCase()} ${endpoint}`);
+    } else {
+      plan.record(method, endpoint, planBody(config.data), config.params);
+    }
+
+    // Answer locally; the request never leaves the process
+    config.adapter = async adapterConfig => ({
+      data: {},
+      status: 200,
+      statusText: 'OK (dry run)',
+      headers: {},
+      config: adapterConfig,
+    });
+    return config;
+  });
+}
+
+/** Path prefixes whose entity names can be looked up with a GET, and where the name sits. */
+const NAMED_ENTITIES: Array<{ type: string; pattern: RegExp; lookup: (id: string) => string; key?: string }> = [
+  { type: 'task', pattern: /^\/(?:v2\/)?task\/([^/?]+)/, lookup: id => `/task/${id}` },
+  { type: 'list', pattern: /^\/(?:v2\/)?list\/([^/?]+)/, lookup: id => `/list/${id}` },
+  { type: 'folder', pattern: /^\/(?:v2\/)?folder\/([^/?]+)/, lookup: id => `/folder/${id}` },
+  { type: 'space', pattern: /^\/(?:v2\/)?space\/([^/?]+)/, lookup: id => `/space/${id}` },
+  { type: 'goal', pattern: /^\/(?:v2\/)?goal\/([^/?]+)/, lookup: id => `/goal/${id}`, key: 'goal' },
+  { type: 'view', pattern: /^\/(?:v2\/)?view\/([^/?]+)/, lookup: id => `/view/${id}`, key: 'view' },
+];
+
+/** The entity type and ID a write endpoint targets, when it is one we can name. */
+export function entityForEndpoint(endpoint: string): { type: string; id: string } | undefined {
+  for (const { type, pattern } of NAMED_ENTITIES) {
+    const match = endpoint.match(pattern);
+    if (match) {
+      return { type, id: match[1] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Annotate each planned mutation with the entity it targets and that
+ * entity's current name, fetched with `get` (reads still go through in plan
+ * mode). Lookups are shared across steps and failures leave the name unset.
+ */
+export async function describePlanEntities(
+  plan: MutationPlan,
+  get: (endpoint: string) => Promise<unknown>
+): Promise<PlannedMutation[]> {
+  const names = new Map<string, Promise<string | undefined>>();
+  for (const mutation of plan.mutations) {
+    const entity = entityForEndpoint(mutation.endpoint);
+    if (!entity) {
+      continue;
+    }
+    const spec = NAMED_ENTITIES.find(candidate => candidate.type === entity.type)!;
+    const key = `${entity.type}:${entity.id}`;
+    if (!names.has(key)) {
+      names.set(
+        key,
+        get(spec.lookup(entity.id))
+          .then(response => {
+            const record = (spec.key ? (response as Record<string, unknown>)?.[spec.key] : response) as
+              | { name?: unknown }
+              | undefined;
+            return typeof record?.name === 'string' ? record.name : undefined;
+          })
+          .catch(() => undefined)
+      );
+    }
+    const name = await names.get(key);
+    mutation.entity = { ...entity, ...(name !== undefined && { name }) };
+  }
+  return plan.mutations;
+}
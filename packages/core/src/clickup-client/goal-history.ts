@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import type { Goal } from './goals-enhanced.js';
+import { getTokenScope } from './session.js';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+
+/**
+ * Local history of goal progress, the input for clickup_forecast_goal.
+ *
+ * EnhancedGoalsClient records a snapshot of every goal it reads (getGoals,
+ * getGoal, and so the goal summary and target sync too). A run of unchanged
+ * readings is stored as its first and latest snapshot only, so polling a
+ * stalled goal does not grow the file but the plateau still shows in the
+ * series.
+ *
+ * Series are kept per API token under the data directory (see
+ * utils/local-store.ts), capped at MAX_SNAPSHOTS_PER_GOAL per goal. Series
+ * recorded by an HTTP session with its own ClickUp token are tagged with its
+ * token scope and only visible to sessions using that token.
+ * CLICKUP_GOAL_HISTORY=off disables recording.
+ */
+
+const MAX_SNAPSHOTS_PER_GOAL = 500;
+
+export interface GoalSnapshot {
+  // Unix ms
+  taken_at: number;
+  percent_completed: number;
+  // steps_current per target ID
+  targets: Record<string, number>;
+}
+
+interface GoalSeries {
+  goal_id: string;
+  scope?: string;
+  snapshots: GoalSnapshot[];
+}
+
+const sameProgress = (a: GoalSnapshot, b: GoalSnapshot): boolean =>
+  a.percent_completed === b.percent_completed &&
+  Object.keys(a.targets).length === Object.keys(b.targets).length &&
+  Object.entries(a.targets).every(([id, value]) => b.targets[id] === value);
+
+export class GoalHistory {
+  private readonly filePath?: string;
+  private readonly enabled: boolean;
+  private series: GoalSeries[];
+
+  constructor(options: { filePath?: string; enabled?: boolean } = {}) {
+    this.filePath = options.filePath;
+    this.enabled = options.enabled ?? true;
+    this.series = this.filePath ? readJsonFile<GoalSeries[]>(this.filePath, []) : [];
+  }
+
+  /** Add a snapshot of each goal as it stands now. */
+  record(goals: Goal[], takenAt = Date.now()): void {
+    if (!this.enabled || goals.length === 0) {
+      return;
+    }
+    const scope = getTokenScope();
+    for (const goal of goals) {
+      if (!goal?.id || typeof goal.percent_completed !== 'number') {
+        continue;
+      }
+      const snapshot: GoalSnapshot = {
+        taken_at: takenAt,
+        percent_completed: goal.percent_completed,
+        targets: Object.fromEntries((goal.key_results ?? []).map(target => [target.id, target.steps_current])),
+      };
+
+      let series = this.find(goal.id, scope);
+      if (!series) {
+        series = { goal_id: goal.id, ...(scope && { scope }), snapshots: [] };
+        this.series.push(series);
+      }
+      const { snapshots } = series;
+      const last = snapshots[snapshots.length - 1];
+      const previous = snapshots[snapshots.length - 2];
+      if (last && takenAt < last.taken_at) {
+        continue;
+      }
+      if (last && previous && sameProgress(snapshot, last) && sameProgress(last, previous)) {
+        // Extend the plateau instead of adding a third identical reading
+        last.taken_at = takenAt;
+      } else {
+        snapshots.push(snapshot);
+      }
+      if (snapshots.length > MAX_SNAPSHOTS_PER_GOAL) {
+        snapshots.splice(0, snapshots.length - MAX_SNAPSHOTS_PER_GOAL);
+      }
+    }
+    this.persist();
+  }
+
+  /** A goal's snapshots, oldest first. */
+  snapshots(goalId: string): GoalSnapshot[] {
+    return [...(this.find(goalId, getTokenScope())?.snapshots ?? [])];
+  }
+
+  private find(goalId: string, scope: string): GoalSeries | undefined {
+    return this.series.find(series => series.goal_id === goalId && (series.scope ?? '') === scope);
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      writeJsonFile(this.filePath, this.series);
+    } catch (error) {
+      // The in-memory history still works for this session
+      console.error('Failed to persist goal history:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// One history per API token, shared by every goals client
+const histories = new Map<string, GoalHistory>();
+
+/** The goal history for an API token, as configured by CLICKUP_GOAL_HISTORY. */
+export const createGoalHistory = (apiToken: string): GoalHistory => {
+  const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+  let history = histories.get(tokenHash);
+  if (!history) {
+    history = new GoalHistory({
+      filePath: join(getDataDir(), 'goal-history', `snapshots-${tokenHash}.json`),
+      enabled: (process.env.CLICKUP_GOAL_HISTORY ?? '').trim().toLowerCase() !== 'off',
+    });
+    histories.set(tokenHash, history);
+  }
+  return history;
+};
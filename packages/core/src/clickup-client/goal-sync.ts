@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import { ClickUpClient } from './index.js';
+import { getActivePlan } from './dry-run.js';
+import { createGoalHistory, GoalHistory } from './goal-history.js';
+import { EnhancedGoalsClient, Goal, GoalTarget } from './goals-enhanced.js';
+import { getTokenScope } from './session.js';
+import { GetFilteredTeamTasksParams, MAX_TASKS_PER_CALL, Task, TasksClient } from './tasks.js';
+import { EnhancedTimeTrackingClient } from './time-tracking-enhanced.js';
+import type { GoalTargetSource } from '../schemas/goals-schemas.js';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+
+/**
+ * Goal targets that keep themselves up to date.
+ *
+ * A number or currency target is bound to a source — closed tasks in a
+ * location, the sum of a number/currency custom field, or hours tracked — and
+ * syncing recomputes the source and writes the result to the target's
+ * steps_current through updateGoalTarget. A dry run returns the same diff
+ * without writing. Goals that changed are read again afterwards so the goal
+ * history records their new progress.
+ *
+ * Bindings are kept per API token under the data directory (see
+ * utils/local-store.ts). Bindings made by an HTTP session with its own
+ * ClickUp token are tagged with its token scope and only visible to sessions
+ * using that token.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+// Target types whose steps_current is a free-form quantity
+const SYNCABLE_TARGET_TYPES = new Set<GoalTarget['type']>(['number', 'currency']);
+
+export interface GoalTargetBinding {
+  target_id: string;
+  goal_id: string;
+  source: GoalTargetSource;
+  created_at: string;
+  // Token scope of an HTTP session that used its own ClickUp token
+  scope?: string;
+  last_synced_at?: string;
+  last_value?: number;
+}
+
+export interface GoalTargetSyncResult {
+  target_id: string;
+  goal_id: string;
+  goal_name?: string;
+  target_name?: string;
+  unit?: string | null;
+  source: string;
+  previous?: number;
+  value?: number;
+  change?: number;
+  progress_before?: number;
+  progress_after?: number;
+  status: 'updated' | 'unchanged' | 'would_update' | 'failed';
+  error?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** One line naming what a source measures, also used as the update note. */
+export function describeTargetSource(source: GoalTargetSource): string {
+  const location = source.list_id
+    ? `list ${source.list_id}`
+    : source.folder_id
+      ? `folder ${source.folder_id}`
+      : source.space_id
+        ? `space ${source.space_id}`
+        : 'the workspace';
+  switch (source.type) {
+    case 'closed_tasks':
+      return `closed tasks in ${location}`;
+    case 'custom_field_sum':
+      return `sum of custom field ${source.field_id} across ${source.closed_only ? 'closed ' : ''}tasks in ${location}`;
+    default:
+      return `hours tracked in ${location}${source.assignee !== undefined ? ` by ${source.assignee}` : ''}`;
+  }
+}
+
+const isClosed = (task: Task & { date_done?: string | null; status?: { type?: string } }): boolean =>
+  Boolean(task.date_done || task.date_closed) || ['closed', 'done'].includes(task.status?.type ?? '');
+
+/** A number or currency custom field value as a number; ClickUp sends these as strings. */
+function numericFieldValue(task: Task, fieldId: string): number {
+  const field = (task.custom_fields ?? []).find(candidate => candidate?.id === fieldId);
+  const value = Number(field?.value);
+  return field?.value !== undefined && field?.value !== null && field?.value !== '' && Number.isFinite(value)
+    ? value
+    : 0;
+}
+
+export class GoalTargetSync {
+  private readonly client: ClickUpClient;
+  private readonly goals: EnhancedGoalsClient;
+  private readonly filePath?: string;
+  private bindings: GoalTargetBinding[];
+
+  constructor(client: ClickUpClient, options: { filePath?: string; history?: GoalHistory } = {}) {
+    this.client = client;
+    this.goals = new EnhancedGoalsClient(client, { history: options.history });
+    this.filePath = options.filePath;
+    this.bindings = this.filePath ? readJsonFile<GoalTargetBinding[]>(this.filePath, []) : [];
+  }
+
+  /** Bindings visible to the current session, optionally for one goal. */
+  list(goalId?: string): GoalTargetBinding[] {
+    const scope = getTokenScope();
+    return this.bindings.filter(
+      binding => (binding.scope ?? '') === scope && (goalId === undefined || binding.goal_id === goalId)
+    );
+  }
+
+  /**
+   * Bind a target to a source, replacing any earlier binding. The target must
+   * exist on the goal and be a number or currency target. Nothing is stored
+   * while a dry-run plan is active.
+   */
+  async bind(goalId: string, targetId: string, source: GoalTargetSource): Promise<GoalTargetBinding> {
+    const goal = await this.goals.getGoal(goalId);
+    const target = (goal.key_results ?? []).find(candidate => candidate.id === targetId);
+    if (!target) {
+      throw new Error(`Goal ${goalId} has no target ${targetId}`);
+    }
+    if (!SYNCABLE_TARGET_TYPES.has(target.type)) {
+      throw new Error(
+        `Target "${target.name}" is a ${target.type} target; only number and currency targets can be synced`
+      );
+    }
+
+    const scope = getTokenScope();
+    const binding: GoalTargetBinding = {
+      target_id: targetId,
+      goal_id: goalId,
+      source,
+      created_at: new Date().toISOString(),
+      ...(scope && { scope }),
+    };
+    if (!getActivePlan()) {
+      this.bindings = [...this.bindings.filter(existing => !this.matches(existing, targetId)), binding];
+      this.persist();
+    }
+    return binding;
+  }
+
+  /** Remove a target's binding. Returns false when it had none. */
+  unbind(targetId: string): boolean {
+    const remaining = this.bindings.filter(existing => !this.matches(existing, targetId));
+    if (remaining.length === this.bindings.length) {
+      return false;
+    }
+    if (!getActivePlan()) {
+      this.bindings = remaining;
+      this.persist();
+    }
+    return true;
+  }
+
+  /**
+   * Recompute every selected binding and write changed values to ClickUp.
+   * With dryRun nothing is written and changed targets report 'would_update'.
+   * A failing binding is reported and does not stop the others.
+   */
+  async sync(
+    filter: { goalId?: string; targetIds?: string[] } = {},
+    options: { dryRun?: boolean } = {}
+  ): Promise<GoalTargetSyncResult[]> {
+    const selected = this.list(filter.goalId).filter(
+      binding => !filter.targetIds || filter.targetIds.includes(binding.target_id)
+    );
+    const goals = new Map<string, Promise<Goal>>();
+    const results: GoalTargetSyncResult[] = [];
+
+    for (const binding of selected) {
+      const result: GoalTargetSyncResult = {
+        target_id: binding.target_id,
+        goal_id: binding.goal_id,
+        source: describeTargetSource(binding.source),
+        status: 'failed',
+      };
+      results.push(result);
+      try {
+        let pending = goals.get(binding.goal_id);
+        if (!pending) {
+          pending = this.goals.getGoal(binding.goal_id);
+          goals.set(binding.goal_id, pending);
+        }
+        const goal = await pending;
+        const target = (goal.key_results ?? []).find(candidate => candidate.id === binding.target_id);
+        if (!target) {
+          throw new Error(`Target no longer exists on goal ${goal.name}; remove the binding`);
+        }
+
+        const value = round(await this.measure(binding.source, goal));
+        Object.assign(result, {
+          goal_name: goal.name,
+          target_name: target.name,
+          unit: target.unit,
+          previous: target.steps_current,
+          value,
+          change: round(value - target.steps_current),
+          progress_before: round(
+            this.goals.calculateTargetProgress(target.steps_start, target.steps_current, target.steps_end)
+          ),
+          progress_after: round(this.goals.calculateTargetProgress(target.steps_start, value, target.steps_end)),
+        });
+
+        if (value === target.steps_current) {
+          result.status = 'unchanged';
+        } else if (options.dryRun) {
+          result.status = 'would_update';
+        } else {
+          await this.goals.updateGoalTarget(binding.target_id, {
+            steps_current: value,
+            note: `Synced from ${result.source}`,
+          });
+          result.status = 'updated';
+        }
+        if (!options.dryRun) {
+          binding.last_synced_at = new Date().toISOString();
+          binding.last_value = value;
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (!options.dryRun && selected.length > 0) {
+      this.persist();
+      const changedGoals = new Set(results.filter(result => result.status === 'updated').map(result => result.goal_id));
+      for (const goalId of changedGoals) {
+        // Only for the history snapshot; the targets are already written
+        await this.goals.getGoal(goalId).catch(() => undefined);
+      }
+    }
+    return results;
+  }
+
+  /** The current value of a source. */
+  async measure(source: GoalTargetSource, goal: Goal): Promise<number> {
+    if (source.type === 'tracked_hours') {
+      // Without an assignee the API only returns the caller's own entries
+      const people = new Set([...(goal.members ?? []), ...(goal.owners ?? [])].map(member => member.id));
+      const entries = await new EnhancedTimeTrackingClient(this.client).getTimeEntries(goal.team_id, {
+        start_date: source.start_date ?? Number(goal.start_date || goal.date_created),
+        end_date: source.end_date ?? Date.now(),
+        ...(source.assignee !== undefined
+          ? { assignee: source.assignee }
+          : people.size > 0 && { assignee: Array.from(people).join(',') }),
+        ...(source.list_id && { list_id: source.list_id }),
+        ...(source.folder_id && { folder_id: source.folder_id }),
+        ...(source.space_id && { space_id: source.space_id }),
+      });
+      // Running timers have a negative duration and are left out
+      return entries.reduce((sum, entry) => sum + Math.max(0, Number(entry.duration) || 0), 0) / HOUR;
+    }
+
+    const params: GetFilteredTeamTasksParams = {
+      ...(source.list_id && { list_ids: [source.list_id] }),
+      ...(source.folder_id && { project_ids: [source.folder_id] }),
+      ...(source.space_id && { space_ids: [source.space_id] }),
+      include_closed: true,
+      subtasks: true,
+      ...(source.type === 'closed_tasks' && source.start_date !== undefined && { date_done_gt: source.start_date }),
+      ...(source.type === 'closed_tasks' && source.end_date !== undefined && { date_done_lt: source.end_date }),
+    };
+    const { tasks, pagination } = await new TasksClient(this.client).getAllFilteredTeamTasks(goal.team_id, params, {
+      max_tasks: MAX_TASKS_PER_CALL,
+    });
+    if (!pagination.complete) {
+      throw new Error(`The source has more than ${MAX_TASKS_PER_CALL} tasks; bind a narrower location`);
+    }
+
+    if (source.type === 'closed_tasks') {
+      return tasks.filter(isClosed).length;
+    }
+    return tasks
+      .filter(task => !source.closed_only || isClosed(task))
+      .reduce((sum, task) => sum + numericFieldValue(task, source.field_id), 0);
+  }
+
+  private matches(binding: GoalTargetBinding, targetId: string): boolean {
+    return binding.target_id === targetId && (binding.scope ?? '') === getTokenScope();
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      writeJsonFile(this.filePath, this.bindings);
+    } catch (error) {
+      // The in-memory bindings still work for this session
+      console.error('Failed to persist goal target bindings:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// One binding store per client, shared by every tool module
+const syncs = new WeakMap<ClickUpClient, GoalTargetSync>();
+
+/** The goal target sync for a client, with bindings stored per API token. */
+export const createGoalTargetSync = (client: ClickUpClient, apiToken: string): GoalTargetSync => {
+  let sync = syncs.get(client);
+  if (!sync) {
+    const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+    sync = new GoalTargetSync(client, {
+      filePath: join(getDataDir(), 'goal-sync', `bindings-${tokenHash}.json`),
+      history: createGoalHistory(apiToken),
+    });
+    syncs.set(client, sync);
+  }
+  return sync;
+};
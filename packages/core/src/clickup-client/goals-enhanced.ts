@@ -1,6 +1,8 @@
 /* eslint-disable no-console */
 import { ClickUpClient } from './index.js';
+import type { GoalHistory } from './goal-history.js';
 import axios from 'axios';
+import { forecastGoal, GoalForecast, GoalForecastOptions } from '../utils/goal-forecast.js';
 import { validateResponse, GoalsResponseSchema, GoalResponseSchema, GoalTargetResponseSchema } from '../schemas/response-schemas.js';
 
 // ========================================
@@ -111,9 +113,12 @@ export interface GoalSummary {
 
 export class EnhancedGoalsClient {
   private client: ClickUpClient;
+  private history?: GoalHistory;
 
-  constructor(client: ClickUpClient) {
+  /** With a history, every goal read through this client is snapshotted into it. */
+  constructor(client: ClickUpClient, options: { history?: GoalHistory } = {}) {
     this.client = client;
+    this.history = options.history;
   }
 
   private getAxiosInstance() {
@@ -146,6 +151,7 @@ export class EnhancedGoalsClient {
         }
       }
 
+      this.history?.record(goals);
       return goals;
     } catch (error) {
       console.error('Error getting goals:', error instanceof Error ? error.message : error);
@@ -207,7 +213,9 @@ export class EnhancedGoalsClient {
       const response = await this.getAxiosInstance().get(endpoint);
 
       const validated = validateResponse(GoalResponseSchema, response.data, 'getGoal');
-      return validated.goal as unknown as Goal;
+      const goal = validated.goal as unknown as Goal;
+      this.history?.record([goal]);
+      return goal;
     } catch (error) {
       console.error('Error getting goal:', error instanceof Error ? error.message : error);
       throw this.handleError(error, `Failed to get goal ${goalId}`);
@@ -337,6 +345,32 @@ export class EnhancedGoalsClient {
     }
   }
 
+  /**
+   * Forecast one goal, or every goal of a team, from the progress history.
+   * The goals are read first, so today's progress is part of the series.
+   */
+  async forecastGoals(
+    scope: { goalId?: string; teamId?: string; includeCompleted?: boolean },
+    options: GoalForecastOptions
+  ): Promise<GoalForecast[]> {
+    const goals = scope.goalId
+      ? [await this.getGoal(scope.goalId)]
+      : await this.getGoals(scope.teamId as string, scope.includeCompleted ?? false);
+    return goals.map(goal =>
+      forecastGoal(
+        {
+          id: goal.id,
+          name: goal.name,
+          start: this.normalizeGoalDate(Number(goal.start_date || goal.date_created)) || undefined,
+          due: this.normalizeGoalDate(Number(goal.due_date)) || undefined,
+          percent_completed: goal.percent_completed,
+          snapshots: this.history?.snapshots(goal.id) ?? [],
+        },
+        options
+      )
+    );
+  }
+
   // ========================================
   // UTILITY METHODS
   // ========================================
@@ -479,6 +513,9 @@ export class EnhancedGoalsClient {
   }
 }
 
-export const createEnhancedGoalsClient = (client: ClickUpClient): EnhancedGoalsClient => {
-  return new EnhancedGoalsClient(client);
+export const createEnhancedGoalsClient = (
+  client: ClickUpClient,
+  options: { history?: GoalHistory } = {}
+): EnhancedGoalsClient => {
+  return new EnhancedGoalsClient(client, options);
 };
@@ -1,4 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { ResponseCache, CacheMode, createResponseCacheFromEnv } from './cache.js';
+import { installWriteGuard } from './dry-run.js';
+import { getSessionToken } from './session.js';
 
 // ClickUp API base URL
 const API_BASE_URL = 'https://api.clickup.com/api/v2';
@@ -19,16 +22,21 @@ export const formatAuthorizationHeader = (apiToken: string): string => {
 export interface ClickUpClientConfig {
   apiToken: string;
   baseUrl?: string;
+  // Optional read-through cache for hierarchy GETs (see cache.ts)
+  cache?: ResponseCache;
 }
 
 export class ClickUpClient {
   private axiosInstance: AxiosInstance;
+  private cache: ResponseCache;
 
   constructor(config: ClickUpClientConfig) {
     if (!config.apiToken) {
       throw new Error('ClickUp API token is required');
     }
 
+    this.cache = config.cache ?? new ResponseCache({ mode: CacheMode.OFF });
+
     this.axiosInstance = axios.create({
       baseURL: config.baseUrl || API_BASE_URL,
       timeout: 30000,
@@ -39,6 +47,19 @@ export class ClickUpClient {
       },
     });
 
+    // Dry-run / read-only handling for every write, including clients that
+    // use the axios instance directly (see dry-run.ts)
+    installWriteGuard(this.axiosInstance);
+
+    // HTTP sessions may carry their own ClickUp token (see session.ts)
+    this.axiosInstance.interceptors.request.use(requestConfig => {
+      const token = getSessionToken();
+      if (token) {
+        requestConfig.headers.Authorization = formatAuthorizationHeader(token);
+      }
+      return requestConfig;
+    });
+
     // Add response interceptor for rate-limit retries and error handling
     this.axiosInstance.interceptors.response.use(
       response => response,
@@ -88,33 +109,46 @@ export class ClickUpClient {
     return this.axiosInstance;
   }
 
-  // Basic API methods that can be used directly
+  // The response cache, for status reporting and manual clearing
+  getCache(): ResponseCache {
+    return this.cache;
+  }
+
+  // Basic API methods that can be used directly.
+  // GETs of hierarchy endpoints are served through the response cache; every
+  // write invalidates the cached resources its endpoint can affect.
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async get<T = unknown>(endpoint: string, params?: any): Promise<T> {
-    const response = await this.axiosInstance.get(endpoint, { params });
-    return response.data as T;
+    return this.cache.getOrFetch(endpoint, params, async () => {
+      const response = await this.axiosInstance.get(endpoint, { params });
+      return response.data as T;
+    });
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async post<T = unknown>(endpoint: string, data?: any): Promise<T> {
     const response = await this.axiosInstance.post(endpoint, data);
+    this.cache.invalidateForWrite(endpoint);
     return response.data as T;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async put<T = unknown>(endpoint: string, data?: any): Promise<T> {
     const response = await this.axiosInstance.put(endpoint, data);
+    this.cache.invalidateForWrite(endpoint);
     return response.data as T;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async patch<T = unknown>(endpoint: string, data?: any): Promise<T> {
     const response = await this.axiosInstance.patch(endpoint, data);
+    this.cache.invalidateForWrite(endpoint);
     return response.data as T;
   }
 
   async delete<T = unknown>(endpoint: string, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.axiosInstance.delete(endpoint, config);
+    this.cache.invalidateForWrite(endpoint);
     return response.data as T;
   }
 }
@@ -134,7 +168,7 @@ export const createClickUpClient = (): ClickUpClient => {
     throw new Error('CLICKUP_API_TOKEN environment variable is required');
   }
 
-  _clientInstance = new ClickUpClient({ apiToken });
+  _clientInstance = new ClickUpClient({ apiToken, cache: createResponseCacheFromEnv(apiToken) });
   return _clientInstance;
 };
 
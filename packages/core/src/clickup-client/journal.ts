@@ -0,0 +1,476 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import { ClickUpClient } from './index.js';
+import { createChecklistsClient } from './checklists.js';
+import { getActivePlan } from './dry-run.js';
+import { getTokenScope } from './session.js';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+
+/**
+ * Local journal of task mutations, so they can be undone.
+ *
+ * Before a journaled tool changes a task it snapshots the task as it stands:
+ * core fields, markdown description, assignees, tags, custom field values and
+ * checklists (and, for deletes, every subtask). The journal entry records
+ * which of those fields the operation touched; undo writes back only those,
+ * leaving anything else that changed since alone. A deleted task is recreated
+ * in its original list from the snapshot — it comes back with a new ID.
+ *
+ * Entries are kept per API token under the data directory (see
+ * utils/local-store.ts), newest last, capped at MAX_JOURNAL_ENTRIES.
+ * Entries made by an HTTP session with its own ClickUp token are tagged with
+ * its token scope and only visible to sessions using that token.
+ * CLICKUP_JOURNAL=off disables journaling. Nothing is journaled while a dry-run
+ * plan is active, since nothing is written.
+ */
+
+const MAX_JOURNAL_ENTRIES = 200;
+
+// Custom field types ClickUp computes itself; their values cannot be written back
+const READ_ONLY_FIELD_TYPES = new Set(['automatic_progress', 'formula', 'rollup']);
+
+// Task attributes undo can restore with a single Update Task call
+const CORE_FIELDS = ['name', 'description', 'status', 'priority', 'due_date', 'start_date', 'time_estimate'] as const;
+
+export type JournalOperation = 'update' | 'delete';
+
+export interface TaskSnapshot {
+  id: string;
+  name: string;
+  list_id?: string;
+  parent?: string | null;
+  markdown_description?: string;
+  status?: string;
+  priority?: number | null;
+  due_date?: number | null;
+  start_date?: number | null;
+  time_estimate?: number | null;
+  assignees: number[];
+  tags: string[];
+  custom_fields: Array<{ id: string; name?: string; type?: string; value?: unknown }>;
+  checklists: Array<{ name: string; items: Array<{ name: string; resolved: boolean; assignee?: number | null }> }>;
+  // Only captured for deletes, which take subtasks with them
+  subtasks?: TaskSnapshot[];
+}
+
+export interface JournaledTask {
+  before: TaskSnapshot;
+  // Fields the operation changed: core field names, 'assignees', 'tags', or 'custom_field:<id>'
+  touched: string[];
+}
+
+export interface JournalEntry {
+  id: string;
+  tool: string;
+  operation: JournalOperation;
+  created_at: string;
+  // Token scope of an HTTP session that used its own ClickUp token
+  scope?: string;
+  tasks: JournaledTask[];
+  undone_at?: string;
+  undo_result?: UndoTaskResult[];
+}
+
+export interface UndoTaskResult {
+  task_id: string;
+  name: string;
+  restored: string[];
+  skipped: Array<{ field: string; reason: string }>;
+  recreated_as?: string;
+  error?: string;
+}
+
+export interface CaptureQuery {
+  custom_task_ids?: boolean;
+  team_id?: string;
+}
+
+/** Map Update Task parameter names onto the snapshot fields they change. */
+export function touchedFieldsForUpdate(params: Record<string, unknown>): string[] {
+  const touched = new Set<string>();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === 'markdown_content' || key === 'markdown_description') {
+      touched.add('description');
+    } else if (key === 'due_date_time') {
+      touched.add('due_date');
+    } else if (key === 'start_date_time') {
+      touched.add('start_date');
+    } else if (key === 'custom_fields' && Array.isArray(value)) {
+      value.forEach((field: { id: string }) => touched.add(`custom_field:${field.id}`));
+    } else if ((CORE_FIELDS as readonly string[]).includes(key) || key === 'assignees' || key === 'tags') {
+      touched.add(key);
+    }
+  }
+  return [...touched];
+}
+
+const toTimestamp = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+const userIds = (value: unknown): number[] =>
+  Array.isArray(value) ? value.map(user => (typeof user === 'object' ? user?.id : user)).filter(Boolean) : [];
+
+/**
+ * Convert a custom field value as Get Task returns it into the shape Set
+ * Custom Field Value accepts. `current` is the field's value now, needed for
+ * the add/rem envelope of people and task-relationship fields.
+ */
+function writableFieldValue(field: { type?: string; value?: unknown }, current: unknown): unknown {
+  switch (field.type) {
+    case 'users':
+    case 'tasks': {
+      const before = userIds(field.value).map(String);
+      const now = userIds(current).map(String);
+      const parse = (id: string) => (field.type === 'users' ? Number(id) : id);
+      return {
+        add: before.filter(id => !now.includes(id)).map(parse),
+        rem: now.filter(id => !before.includes(id)).map(parse),
+      };
+    }
+    case 'date':
+      return toTimestamp(field.value);
+    case 'labels':
+      return Array.isArray(field.value)
+        ? field.value.map(label => (typeof label === 'object' ? label?.id : label))
+        : field.value;
+    default:
+      return field.value;
+  }
+}
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export class OperationJournal {
+  private readonly client: ClickUpClient;
+  private readonly filePath?: string;
+  private readonly enabled: boolean;
+  private entries: JournalEntry[];
+
+  constructor(client: ClickUpClient, options: { filePath?: string; enabled?: boolean } = {}) {
+    this.client = client;
+    this.filePath = options.filePath;
+    this.enabled = options.enabled ?? true;
+    this.entries = this.filePath ? readJsonFile<JournalEntry[]>(this.filePath, []) : [];
+  }
+
+  /**
+   * Start a journal entry. Call capture() for each task before changing it
+   * and commit() once the tool is done; an entry without captured tasks is
+   * dropped. Inactive (every method a no-op) when journaling is off or a
+   * dry-run plan is recording the writes.
+   */
+  begin(tool: string, operation: JournalOperation): JournalRecorder {
+    const active = this.enabled && !getActivePlan();
+    return new JournalRecorder(this, tool, operation, active);
+  }
+
+  /** Snapshot a task's restorable state. Deletes also snapshot subtasks, recursively. */
+  async snapshotTask(taskId: string, query?: CaptureQuery, withSubtasks = false): Promise<TaskSnapshot> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const raw = await this.client.get<any>(`/task/${taskId}`, {
+      include_markdown_description: true,
+      ...(withSubtasks && { include_subtasks: true }),
+      ...query,
+    });
+    const snapshot: TaskSnapshot = {
+      id: raw.id,
+      name: raw.name,
+      list_id: raw.list?.id,
+      parent: raw.parent ?? null,
+      markdown_description: raw.markdown_description ?? raw.description ?? '',
+      status: raw.status?.status,
+      priority: raw.priority?.id ? parseInt(raw.priority.id, 10) : null,
+      due_date: toTimestamp(raw.due_date),
+      start_date: toTimestamp(raw.start_date),
+      time_estimate: raw.time_estimate ?? null,
+      assignees: userIds(raw.assignees),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      tags: (raw.tags ?? []).map((tag: any) => tag.name),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      custom_fields: (raw.custom_fields ?? []).map((field: any) => ({
+        id: field.id,
+        name: field.name,
+        type: field.type,
+        value: field.value,
+      })),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      checklists: (raw.checklists ?? []).map((checklist: any) => ({
+        name: checklist.name,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        items: [...(checklist.items ?? [])]
+          .sort((a, b) => (a.orderindex ?? 0) - (b.orderindex ?? 0))
+          .map(item => ({ name: item.name, resolved: Boolean(item.resolved), assignee: item.assignee?.id ?? null })),
+      })),
+    };
+    if (withSubtasks && Array.isArray(raw.subtasks) && raw.subtasks.length > 0) {
+      snapshot.subtasks = [];
+      for (const subtask of raw.subtasks) {
+        snapshot.subtasks.push(await this.snapshotTask(subtask.id, undefined, true));
+      }
+    }
+    return snapshot;
+  }
+
+  /** Most recent entries first. */
+  list(limit = 20, includeUndone = true): JournalEntry[] {
+    const scope = getTokenScope();
+    return [...this.entries]
+      .reverse()
+      .filter(entry => (entry.scope ?? '') === scope && (includeUndone || !entry.undone_at))
+      .slice(0, limit);
+  }
+
+  get(entryId: string): JournalEntry | undefined {
+    const scope = getTokenScope();
+    return this.entries.find(entry => entry.id === entryId && (entry.scope ?? '') === scope);
+  }
+
+  /** Append an entry, trimming the oldest beyond the cap. */
+  add(entry: JournalEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_JOURNAL_ENTRIES) {
+      this.entries = this.entries.slice(-MAX_JOURNAL_ENTRIES);
+    }
+    this.persist();
+  }
+
+  /**
+   * Write back the before-state of every task in an entry. Each task is
+   * undone independently; failures are reported per task, not thrown.
+   */
+  async undo(entryId: string): Promise<UndoTaskResult[]> {
+    const entry = this.get(entryId);
+    if (!entry) {
+      throw new Error(`No journal entry "${entryId}". Use clickup_list_recent_operations to see recent IDs.`);
+    }
+    if (entry.undone_at) {
+      throw new Error(`Journal entry ${entryId} was already undone at ${entry.undone_at}`);
+    }
+
+    const results: UndoTaskResult[] = [];
+    for (const task of entry.tasks) {
+      const result: UndoTaskResult = { task_id: task.before.id, name: task.before.name, restored: [], skipped: [] };
+      try {
+        if (entry.operation === 'delete') {
+          await this.recreateTask(task.before, result);
+        } else {
+          await this.restoreFields(task, result);
+        }
+      } catch (error: unknown) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      results.push(result);
+    }
+
+    // A dry run only previews the undo; the entry stays undoable
+    if (!getActivePlan()) {
+      entry.undone_at = new Date().toISOString();
+      entry.undo_result = results;
+      this.persist();
+    }
+    return results;
+  }
+
+  private async restoreFields(task: JournaledTask, result: UndoTaskResult): Promise<void> {
+    const { before, touched } = task;
+    const current = await this.snapshotTask(before.id);
+
+    const update: Record<string, unknown> = {};
+    for (const field of CORE_FIELDS) {
+      if (!touched.includes(field)) {
+        continue;
+      }
+      if (field === 'description') {
+        update.markdown_description = before.markdown_description ?? '';
+      } else {
+        update[field] = before[field] ?? null;
+      }
+      result.restored.push(field);
+    }
+    if (touched.includes('assignees')) {
+      const add = before.assignees.filter(id => !current.assignees.includes(id));
+      const rem = current.assignees.filter(id => !before.assignees.includes(id));
+      if (add.length > 0 || rem.length > 0) {
+        update.assignees = { add, rem };
+      }
+      result.restored.push('assignees');
+    }
+    if (Object.keys(update).length > 0) {
+      await this.client.put(`/task/${before.id}`, update);
+    }
+
+    if (touched.includes('tags')) {
+      for (const tag of before.tags.filter(name => !current.tags.includes(name))) {
+        await this.client.post(`/task/${before.id}/tag/${encodeURIComponent(tag)}`, {});
+      }
+      for (const tag of current.tags.filter(name => !before.tags.includes(name))) {
+        await this.client.delete(`/task/${before.id}/tag/${encodeURIComponent(tag)}`);
+      }
+      result.restored.push('tags');
+    }
+
+    for (const key of touched.filter(name => name.startsWith('custom_field:'))) {
+      const fieldId = key.slice('custom_field:'.length);
+      const field = before.custom_fields.find(candidate => candidate.id === fieldId);
+      const now = current.custom_fields.find(candidate => candidate.id === fieldId);
+      if (!field) {
+        result.skipped.push({ field: key, reason: 'field was not on the task when it was snapshotted' });
+      } else if (READ_ONLY_FIELD_TYPES.has(field.type ?? '')) {
+        result.skipped.push({ field: key, reason: `${field.type} fields are computed by ClickUp` });
+      } else if (isEmptyValue(field.value)) {
+        await this.client.delete(`/task/${before.id}/field/${fieldId}`);
+        result.restored.push(key);
+      } else {
+        await this.client.post(`/task/${before.id}/field/${fieldId}`, {
+          value: writableFieldValue(field, now?.value),
+        });
+        result.restored.push(key);
+      }
+    }
+  }
+
+  private async recreateTask(before: TaskSnapshot, result: UndoTaskResult, parentId?: string): Promise<void> {
+    const stillExists = await this.client
+      .get(`/task/${before.id}`)
+      .then(() => true)
+      .catch(() => false);
+    if (stillExists) {
+      result.skipped.push({ field: 'task', reason: 'task still exists; nothing to recreate' });
+      return;
+    }
+    if (!before.list_id) {
+      throw new Error('snapshot has no list to recreate the task in');
+    }
+
+    const customFields = before.custom_fields
+      .filter(field => !isEmptyValue(field.value) && !READ_ONLY_FIELD_TYPES.has(field.type ?? ''))
+      .map(field => ({ id: field.id, value: writableFieldValue(field, undefined) }));
+    const created = await this.client.post<{ id?: string }>(`/list/${before.list_id}/task`, {
+      name: before.name,
+      markdown_description: before.markdown_description ?? '',
+      ...(before.status && { status: before.status }),
+      ...(before.priority && { priority: before.priority }),
+      ...(before.due_date && { due_date: before.due_date }),
+      ...(before.start_date && { start_date: before.start_date }),
+      ...(before.time_estimate && { time_estimate: before.time_estimate }),
+      assignees: before.assignees,
+      tags: before.tags,
+      ...((parentId ?? before.parent) && { parent: parentId ?? before.parent }),
+      ...(customFields.length > 0 && { custom_fields: customFields }),
+    });
+    const newId = created.id ?? '';
+    result.recreated_as = newId;
+    result.restored.push('task', ...(customFields.length > 0 ? ['custom_fields'] : []));
+
+    const checklists = createChecklistsClient(this.client);
+    for (const checklist of before.checklists) {
+      const { id: checklistId } = await checklists.createChecklist(newId, { name: checklist.name });
+      for (const item of checklist.items) {
+        const updated = await checklists.createChecklistItem(checklistId, {
+          name: item.name,
+          ...(item.assignee && { assignee: item.assignee }),
+        });
+        const createdItem = [...(updated?.items ?? [])].reverse().find(candidate => candidate.name === item.name);
+        if (item.resolved && createdItem) {
+          await checklists.updateChecklistItem(checklistId, createdItem.id, { resolved: true });
+        }
+      }
+    }
+    if (before.checklists.length > 0) {
+      result.restored.push('checklists');
+    }
+
+    for (const subtask of before.subtasks ?? []) {
+      const subResult: UndoTaskResult = { task_id: subtask.id, name: subtask.name, restored: [], skipped: [] };
+      await this.recreateTask(subtask, subResult, newId);
+      result.restored.push(`subtask ${subtask.name} -> ${subResult.recreated_as}`);
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      writeJsonFile(this.filePath, this.entries);
+    } catch (error) {
+      // The in-memory journal still works for this session
+      console.error('Failed to persist ClickUp operation journal:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/** Collects snapshots for one tool call; see OperationJournal.begin. */
+export class JournalRecorder {
+  private readonly journal: OperationJournal;
+  private readonly tool: string;
+  private readonly operation: JournalOperation;
+  private readonly active: boolean;
+  private readonly tasks: JournaledTask[] = [];
+
+  constructor(journal: OperationJournal, tool: string, operation: JournalOperation, active: boolean) {
+    this.journal = journal;
+    this.tool = tool;
+    this.operation = operation;
+    this.active = active;
+  }
+
+  /** Snapshot a task before it is changed. `touched` is ignored for deletes. */
+  async capture(taskId: string, touched: string[] = [], query?: CaptureQuery): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    const before = await this.journal.snapshotTask(taskId, query, this.operation === 'delete');
+    this.tasks.push({ before, touched });
+  }
+
+  /**
+   * Store the entry. Returns its ID, or undefined when nothing was captured.
+   * Call even when the tool failed part-way: undo copes with tasks the
+   * operation never reached (it rewrites the same values, or finds the task
+   * still exists).
+   */
+  commit(): string | undefined {
+    if (!this.active || this.tasks.length === 0) {
+      return undefined;
+    }
+    const id = `op_${Date.now().toString(36)}${crypto.randomBytes(3).toString('hex')}`;
+    const scope = getTokenScope();
+    this.journal.add({
+      id,
+      tool: this.tool,
+      operation: this.operation,
+      created_at: new Date().toISOString(),
+      ...(scope && { scope }),
+      tasks: this.tasks,
+    });
+    return id;
+  }
+}
+
+// One journal per client, shared by every tool module
+const journals = new WeakMap<ClickUpClient, OperationJournal>();
+
+/** The journal for a client, stored per API token as configured by CLICKUP_JOURNAL. */
+export const createOperationJournal = (client: ClickUpClient, apiToken: string): OperationJournal => {
+  let journal = journals.get(client);
+  if (!journal) {
+    const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').slice(0, 12);
+    journal = new OperationJournal(client, {
+      filePath: join(getDataDir(), 'journal', `operations-${tokenHash}.json`),
+      enabled: (process.env.CLICKUP_JOURNAL ?? '').trim().toLowerCase() !== 'off',
+    });
+    journals.set(client, journal);
+  }
+  return journal;
+};
+
+/** Line appended to a tool's output so the caller knows how to undo it. */
+export const formatJournalNote = (operationId: string | undefined): string =>
+  operationId ? `\n\n↩️ Journaled as ${operationId} — pass it to clickup_undo_operation to revert.` : '';
@@ -0,0 +1,432 @@
+import { ClickUpClient } from './index.js';
+import { AuthClient } from './auth.js';
+import { ListsClient } from './lists.js';
+import { normalizeName } from './resolver.js';
+import type { ClickUpCommentBlock } from '../utils/clickup-comment-formatter.js';
+
+/**
+ * @mention resolution for task comments (clickup_create_task_comment) and
+ * chat messages (clickup_send_chat_message).
+ *
+ * Recognised in text:
+ *   - `@alice@corp.com` — a member's email address;
+ *   - `@alice`, `@alice.smith` — a username, first name or email local part;
+ *   - `@[Alice Smith]` — a full name, the text-only tag of the comment
+ *     formatter; `@[Alice Smith](user:11)` is already resolved.
+ * Code spans, code blocks and link text are left alone.
+ *
+ * Names resolve against the workspace roster (getWorkspaces members plus
+ * getWorkspaceSeats). A bare `@word` that matches nobody stays plain text, so
+ * "@here" or "@types/node" are not errors; an email, a bracketed name or any
+ * ambiguous match that cannot be resolved fails, listing the candidates.
+ *
+ * For task comments, mentions and the comment assignee must also be able to
+ * see the task: workspace owners and admins, members of the task's list
+ * (getListMembers), the task's own members, assignees and watchers, and its
+ * creator. Anyone else would get no notification, so the comment is rejected.
+ */
+
+// Workspace roles, as in Workspace.members[].role
+const OWNER_ROLE = 1;
+const ADMIN_ROLE = 2;
+const MAX_LISTED_CANDIDATES = 10;
+
+// `@` not preceded by a word character, `@`, `.`, `/` or `\` (emails, URLs, escapes)
+const MENTION_TOKEN_PATTERN =
+  /(?<![\p{L}\p{N}_@./\\])@(?:([\w.+-]+@[\w-]+(?:\.[\w-]+)+)|([\p{L}\p{N}_](?:[\p{L}\p{N}_.'-]*[\p{L}\p{N}_])?))/gu;
+// Chat content: a bracketed tag (name, optional user ID) or a bare mention token
+const CHAT_MENTION_PATTERN = new RegExp(
+  `${/@\[((?:\\.|[^\]\\])*)\](?:\(user:(\d+)\))?/.source}|${MENTION_TOKEN_PATTERN.source}`,
+  'gu'
+);
+
+export interface MentionMember {
+  id: number;
+  username: string;
+  email: string;
+  role?: number;
+}
+
+export interface ResolvedComment {
+  comment: ClickUpCommentBlock[];
+  assignee?: number;
+  mentioned: MentionMember[];
+}
+
+export interface ResolvedChatMessage {
+  content: string;
+  mentioned: MentionMember[];
+}
+
+interface TaskAudience {
+  taskId: string;
+  listName?: string;
+  visible: Set<number>;
+}
+
+interface TaskRecord {
+  id: string;
+  team_id?: string;
+  list?: { id: string; name?: string };
+  creator?: { id?: number };
+  assignees?: Array<{ id?: number }>;
+  watchers?: Array<{ id?: number }>;
+}
+
+const compact = (value: string): string => normalizeName(value).replace(/[^a-z0-9]/g, '');
+
+const describeMember = (member: MentionMember): string =>
+  `${member.username || '(no username)'} <${member.email || 'no email'}> (user ${member.id})`;
+
+const displayName = (member: MentionMember): string => member.username || member.email || String(member.id);
+
+/**
+ * 3 = username, email or email local part, 2 = first name, 1 = username
+ * prefix (only for bracketed names), 0 = no match.
+ */
+const mentionScore = (member: MentionMember, ref: string, allowPrefix: boolean): number => {
+  const query = compact(ref);
+  if (!query) {
+    return 0;
+  }
+  if (ref.includes('@')) {
+    return member.email.toLowerCase() === ref.toLowerCase() ? 3 : 0;
+  }
+  const username = normalizeName(member.username);
+  if (compact(member.username) === query || compact(member.email.split('@')[0]) === query) {
+    return 3;
+  }
+  if (username.split(' ')[0] === query) {
+    return 2;
+  }
+  return allowPrefix && username.startsWith(normalizeName(ref)) ? 1 : 0;
+};
+
+/**
+ * Find the member a mention names. Returns undefined when nobody matches and
+ * throws, listing the candidates, when several match equally well.
+ */
+export function matchMention(
+  members: MentionMember[],
+  ref: string,
+  options: { allowPrefix?: boolean } = {}
+): MentionMember | undefined {
+  const scored = members.map(member => ({
+    member,
+    score: mentionScore(member, ref, options.allowPrefix ?? false),
+  }));
+  const best = Math.max(0, ...scored.map(entry => entry.score));
+  const winners = scored.filter(entry => best > 0 && entry.score === best).map(entry => entry.member);
+  if (winners.length > 1) {
+    const listed = winners.slice(0, MAX_LISTED_CANDIDATES).map(member => `  - ${describeMember(member)}`);
+    if (winners.length > MAX_LISTED_CANDIDATES) {
+      listed.push(`  …and ${winners.length - MAX_LISTED_CANDIDATES} more`);
+    }
+    throw new Error(
+      `Ambiguous mention "@${ref}" matches ${winners.length} members — use their email ` +
+        `(@name@example.com) or @[Name](user:<id>):\n${listed.join('\n')}`
+    );
+  }
+  return winners[0];
+}
+
+const unknownMention = (ref: string): Error =>
+  new Error(`No workspace member matches the mention "@${ref}". Check the name or use their email address.`);
+
+/** Is this text block part of a code span, code block or link, where @ is literal? */
+function literalBlocks(blocks: ClickUpCommentBlock[]): boolean[] {
+  const literal = blocks.map(() => false);
+  // Walk backwards so each block knows the newline block that ends its line
+  let lineIsCode = false;
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i];
+    const attributes = block.attributes ?? {};
+    if (typeof block.text === 'string' && block.text.includes('\n')) {
+      lineIsCode = attributes['code-block'] !== undefined;
+      literal[i] = lineIsCode || Boolean(attributes.code || attributes.link);
+      // Text before the newline belongs to this line, which we can't split here
+      continue;
+    }
+    literal[i] = lineIsCode || Boolean(attributes.code || attributes.link);
+  }
+  return literal;
+}
+
+/**
+ * Turn the @mentions in comment blocks into tag blocks with user IDs.
+ * Existing tag blocks with a user ID are kept; text-only tags are resolved
+ * by name. Returns the blocks and every member mentioned, once each.
+ */
+export function resolveCommentMentions(
+  blocks: ClickUpCommentBlock[],
+  members: MentionMember[]
+): { comment: ClickUpCommentBlock[]; mentioned: MentionMember[] } {
+  const mentioned = new Map<number, MentionMember>();
+  const mention = (member: MentionMember): ClickUpCommentBlock => {
+    mentioned.set(member.id, member);
+    return { type: 'tag', user: { id: member.id } };
+  };
+  const literal = literalBlocks(blocks);
+  const comment: ClickUpCommentBlock[] = [];
+
+  blocks.forEach((block, index) => {
+    if (block.type === 'tag') {
+      if (block.user?.id !== undefined) {
+        const member = members.find(candidate => candidate.id === block.user?.id);
+        mentioned.set(block.user.id, member ?? { id: block.user.id, username: '', email: '' });
+        comment.push(block);
+        return;
+      }
+      const name = (block.text ?? '').replace(/^@/, '').trim();
+      const member = name ? matchMention(members, name, { allowPrefix: true }) : undefined;
+      if (!member) {
+        throw unknownMention(name);
+      }
+      comment.push(mention(member));
+      return;
+    }
+    if (
+      (block.type !== undefined && block.type !== 'text') ||
+      typeof block.text !== 'string' ||
+      literal[index] ||
+      !block.text.includes('@')
+    ) {
+      comment.push(block);
+      return;
+    }
+
+    const { text } = block;
+    let last = 0;
+    for (const match of text.matchAll(MENTION_TOKEN_PATTERN)) {
+      const [token, email, name] = match;
+      const member = matchMention(members, email ?? name);
+      if (!member) {
+        if (email) {
+          throw unknownMention(email);
+        }
+        continue;
+      }
+      const start = match.index ?? 0;
+      if (start > last) {
+        comment.push({ ...block, text: text.slice(last, start) });
+      }
+      comment.push(mention(member));
+      last = start + token.length;
+    }
+    if (last < text.length) {
+      comment.push(last === 0 ? block : { ...block, text: text.slice(last) });
+    }
+  });
+
+  return { comment, mentioned: [...mentioned.values()] };
+}
+
+/**
+ * Turn the @mentions in chat Markdown into ClickUp's mention links,
+ * `[@Name](#user_mention#<id>)`, skipping fenced code blocks and code spans.
+ */
+export function resolveMarkdownMentions(markdown: string, members: MentionMember[]): ResolvedChatMessage {
+  const mentioned = new Map<number, MentionMember>();
+  const link = (member: MentionMember): string => {
+    mentioned.set(member.id, member);
+    return `[@${displayName(member).replace(/[[\]]/g, '\\$&')}](#user_mention#${member.id})`;
+  };
+
+  const resolveText = (text: string): string =>
+    text.replace(CHAT_MENTION_PATTERN, (token, rawName?: string, id?: string, email?: string, name?: string) => {
+      if (rawName !== undefined) {
+        const tagged = rawName.replace(/\\(.)/g, '$1').trim();
+        if (id) {
+          return link(
+            members.find(candidate => candidate.id === Number(id)) ?? { id: Number(id), username: tagged, email: '' }
+          );
+        }
+        const member = matchMention(members, tagged, { allowPrefix: true });
+        if (!member) {
+          throw unknownMention(tagged);
+        }
+        return link(member);
+      }
+      const member = matchMention(members, email ?? name ?? '');
+      if (!member && email) {
+        throw unknownMention(email);
+      }
+      return member ? link(member) : token;
+    });
+
+  let inFence = false;
+  const lines = markdown.split('\n').map(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    if (inFence) {
+      return line;
+    }
+    // Odd parts are code spans, kept as written
+    return line
+      .split(/(`+[^`]*`+)/)
+      .map((part, index) => (index % 2 === 1 ? part : resolveText(part)))
+      .join('');
+  });
+
+  return { content: lines.join('\n'), mentioned: [...mentioned.values()] };
+}
+
+export class MentionResolver {
+  private client: ClickUpClient;
+  private authClient: AuthClient;
+  private listsClient: ListsClient;
+
+  constructor(client: ClickUpClient) {
+    this.client = client;
+    this.authClient = new AuthClient(client);
+    this.listsClient = new ListsClient(client);
+  }
+
+  /** Members and guests of a workspace, with their roles where known. */
+  async getWorkspaceMembers(workspaceId: string): Promise<MentionMember[]> {
+    const members = new Map<number, MentionMember>();
+    const addMember = (raw: unknown): void => {
+      const record = raw as {
+        user?: Partial<MentionMember>;
+        role?: number;
+      } & Partial<MentionMember>;
+      const user = record?.user ?? record;
+      if (typeof user?.id === 'number' && !members.has(user.id)) {
+        const role = user.role ?? record.role;
+        members.set(user.id, {
+          id: user.id,
+          username: user.username ?? '',
+          email: user.email ?? '',
+          ...(role !== undefined && { role }),
+        });
+      }
+    };
+
+    const { teams } = await this.authClient.getWorkspaces();
+    const team = teams.find(candidate => String(candidate.id) === String(workspaceId));
+    if (!team) {
+      throw new Error(`Workspace ${workspaceId} is not available to this token`);
+    }
+    (team.members ?? []).forEach(addMember);
+    const seats = await this.authClient.getWorkspaceSeats(team.id).catch(() => undefined);
+    (seats?.members ?? []).forEach(addMember);
+    (seats?.guests ?? []).forEach(addMember);
+    return [...members.values()];
+  }
+
+  /**
+   * Resolve the mentions and assignee of a task comment, rejecting anyone who
+   * cannot see the task. `query` is the task's custom_task_ids/team_id query
+   * string, if any. A comment without an `@` or tag block, assigned to a
+   * numeric user ID or no one, is returned as is without any API calls.
+   */
+  async resolveTaskComment(
+    taskId: string,
+    blocks: ClickUpCommentBlock[],
+    options: { assignee?: number | string; query?: string } = {}
+  ): Promise<ResolvedComment> {
+    const mayMention = blocks.some(
+      block => block.type === 'tag' || (typeof block.text === 'string' && block.text.includes('@'))
+    );
+    const numericAssignee =
+      options.assignee === undefined ||
+      typeof options.assignee === 'number' ||
+      /^@?\d+$/.test(options.assignee.trim());
+    if (!mayMention && numericAssignee) {
+      const assignee = await this.resolveAssignee(options.assignee, []);
+      return { comment: blocks, ...(assignee !== undefined && { assignee }), mentioned: [] };
+    }
+
+    const task = await this.client.get<TaskRecord>(`/task/${taskId}${options.query ?? ''}`);
+    if (!task.team_id) {
+      throw new Error(`Task ${taskId} did not report its workspace; cannot resolve mentions`);
+    }
+    const members = await this.getWorkspaceMembers(task.team_id);
+    const { comment, mentioned } = resolveCommentMentions(blocks, members);
+    const assignee = await this.resolveAssignee(options.assignee, members);
+
+    const involved = [...mentioned];
+    if (assignee !== undefined && !involved.some(member => member.id === assignee)) {
+      involved.push(members.find(member => member.id === assignee) ?? { id: assignee, username: '', email: '' });
+    }
+    if (involved.length > 0) {
+      const audience = await this.getTaskAudience(task, members);
+      const hidden = involved.filter(member => !audience.visible.has(member.id));
+      if (hidden.length > 0) {
+        const where = audience.listName ? ` or its list "${audience.listName}"` : '';
+        throw new Error(
+          `These people cannot see task ${audience.taskId}, so they would not be notified:\n` +
+            `${hidden.map(member => `  - ${describeMember(member)}`).join('\n')}\n` +
+            `Share the task${where} with them first, or drop the @ to name them without a mention.`
+        );
+      }
+    }
+
+    return { comment, ...(assignee !== undefined && { assignee }), mentioned };
+  }
+
+  /** Resolve the mentions in a chat message's Markdown content. */
+  async resolveChatMessage(workspaceId: string, content: string): Promise<ResolvedChatMessage> {
+    if (!content.includes('@')) {
+      return { content, mentioned: [] };
+    }
+    return resolveMarkdownMentions(content, await this.getWorkspaceMembers(workspaceId));
+  }
+
+  private async resolveAssignee(
+    assignee: number | string | undefined,
+    members: MentionMember[]
+  ): Promise<number | undefined> {
+    if (assignee === undefined || typeof assignee === 'number') {
+      return assignee;
+    }
+    const value = assignee.trim().replace(/^@(?=[^@]+$)/, '');
+    if (/^\d+$/.test(value)) {
+      return parseInt(value, 10);
+    }
+    if (value.toLowerCase() === 'me') {
+      return (await this.authClient.getAuthorizedUser()).id;
+    }
+    const member = matchMention(members, value, { allowPrefix: true });
+    if (!member) {
+      throw new Error(`No workspace member matches the assignee "${assignee}"`);
+    }
+    return member.id;
+  }
+
+  private async getTaskAudience(task: TaskRecord, members: MentionMember[]): Promise<TaskAudience> {
+    const visible = new Set<number>();
+    const add = (id: unknown): void => {
+      if (typeof id === 'number') {
+        visible.add(id);
+      }
+    };
+    members.filter(member => member.role === OWNER_ROLE || member.role === ADMIN_ROLE).forEach(m => add(m.id));
+    add(task.creator?.id);
+    (task.assignees ?? []).forEach(user => add(user.id));
+    (task.watchers ?? []).forEach(user => add(user.id));
+
+    const [listMembers, taskMembers] = await Promise.all([
+      task.list?.id ? this.listsClient.getListMembers(task.list.id) : Promise.resolve({ members: [] }),
+      this.client.get<{ members?: Array<{ id?: number }> }>(`/task/${task.id}/member`),
+    ]);
+    (listMembers.members ?? []).forEach(member => add(member.id));
+    (taskMembers.members ?? []).forEach(member => add(member.id));
+
+    return { taskId: task.id, listName: task.list?.name, visible };
+  }
+}
+
+// One resolver per client, shared by the comment and chat tools
+const resolvers = new WeakMap<ClickUpClient, MentionResolver>();
+
+export const createMentionResolver = (client: ClickUpClient): MentionResolver => {
+  let resolver = resolvers.get(client);
+  if (!resolver) {
+    resolver = new MentionResolver(client);
+    resolvers.set(client, resolver);
+  }
+  return resolver;
+};
@@ -0,0 +1,171 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { createServer } from 'http';
+
+/**
+ * OAuth 2 authorization-code flow for ClickUp apps (CLICKUP_CLIENT_ID /
+ * CLICKUP_CLIENT_SECRET, created under Settings → Apps in ClickUp).
+ *
+ * A local listener receives the redirect, the code is exchanged for an access
+ * token, and the caller stores it (see credentials.ts). ClickUp's access
+ * tokens currently do not expire; refresh is supported for when a token
+ * response carries `refresh_token` / `expires_in`.
+ */
+
+const AUTHORIZE_URL = 'https://app.clickup.com/api';
+const TOKEN_URL = 'https://api.clickup.com/api/v2/oauth/token';
+
+// Matches scripts/get-access-token.js, so existing app registrations keep working
+export const DEFAULT_REDIRECT_PORT = 3000;
+const REDIRECT_PATH = '/auth/callback';
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface OAuthApp {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface OAuthTokens {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  // Seconds
+  expires_in?: number;
+}
+
+/** The OAuth app from CLICKUP_CLIENT_ID / CLICKUP_CLIENT_SECRET. */
+export const getOAuthApp = (env: Record<string, string | undefined> = process.env): OAuthApp => {
+  const clientId = env.CLICKUP_CLIENT_ID?.trim();
+  const clientSecret = env.CLICKUP_CLIENT_SECRET?.trim();
+  if (!clientId || !clientSecret) {
+    throw new Error('CLICKUP_CLIENT_ID and CLICKUP_CLIENT_SECRET environment variables are required for OAuth');
+  }
+  return { clientId, clientSecret };
+};
+
+export const buildAuthorizeUrl = (app: OAuthApp, redirectUri: string, state: string): string => {
+  const query = new URLSearchParams({ client_id: app.clientId, redirect_uri: redirectUri, state });
+  return `${AUTHORIZE_URL}?${query.toString()}`;
+};
+
+async function requestToken(params: Record<string, string>): Promise<OAuthTokens> {
+  try {
+    const response = await axios.post<OAuthTokens>(TOKEN_URL, undefined, { params, timeout: 30000 });
+    if (!response.data?.access_token) {
+      throw new Error('the response contained no access_token');
+    }
+    return response.data;
+  } catch (error: unknown) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const detail = (error as any)?.response?.data?.err ?? (error instanceof Error ? error.message : String(error));
+    throw new Error(`ClickUp OAuth token request failed: ${detail}`);
+  }
+}
+
+/** Exchange an authorization code for tokens. */
+export const exchangeAuthorizationCode = (app: OAuthApp, code: string): Promise<OAuthTokens> =>
+  requestToken({ client_id: app.clientId, client_secret: app.clientSecret, code });
+
+/** Trade a refresh token for a new access token. */
+export const refreshAccessToken = (app: OAuthApp, refreshToken: string): Promise<OAuthTokens> =>
+  requestToken({
+    client_id: app.clientId,
+    client_secret: app.clientSecret,
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+
+export interface RedirectListener {
+  redirectUri: string;
+  // Resolves with the authorization code; rejects on a denied or forged redirect, or timeout
+  code: Promise<string>;
+  close: () => void;
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// The message may come from the redirect's query string, so both are escaped
+const page = (title: string, message: string) =>
+  `<!doctype html><html><head><title>${escapeHtml(title)}</title></head>` +
+  `<body style="font-family: sans-serif; max-width: 40em; margin: 4em auto"><h1>${escapeHtml(title)}</h1>` +
+  `<p>${escapeHtml(message)}</p></body></html>`;
+
+/**
+ * Listen on loopback for the OAuth redirect. The listener closes after the
+ * first redirect carrying the expected `state`, or after five minutes.
+ */
+export async function startRedirectListener(
+  state: string,
+  port: number = DEFAULT_REDIRECT_PORT,
+  timeoutMs: number = AUTHORIZATION_TIMEOUT_MS
+): Promise<RedirectListener> {
+  let settle: { resolve: (code: string) => void; reject: (error: Error) => void } | undefined;
+  const code = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== REDIRECT_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    // A redirect with the wrong state did not come from our authorize URL
+    if (url.searchParams.get('state') !== state) {
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(page('Authorization failed', 'Invalid state.'));
+      return;
+    }
+
+    const received = url.searchParams.get('code');
+    if (received) {
+      res
+        .writeHead(200, { 'Content-Type': 'text/html' })
+        .end(page('Authorization received', 'You can close this window and return to the terminal.'));
+      settle?.resolve(received);
+    } else {
+      const reason = url.searchParams.get('error') ?? 'no authorization code was returned';
+      res.writeHead(400, { 'Content-Type': 'text/html' }).end(page('Authorization failed', reason));
+      settle?.reject(new Error(`ClickUp authorization failed: ${reason}`));
+    }
+    close();
+  });
+
+  const timer = setTimeout(() => {
+    settle?.reject(new Error('Timed out waiting for the ClickUp authorization redirect'));
+    close();
+  }, timeoutMs);
+  const close = () => {
+    clearTimeout(timer);
+    server.close();
+    server.closeAllConnections();
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+
+  return { redirectUri: `http://localhost:${boundPort}${REDIRECT_PATH}`, code, close };
+}
+
+export interface AuthorizeOptions {
+  port?: number;
+  // Shown the authorize URL; typically opens a browser
+  onAuthorizeUrl: (url: string) => void | Promise<void>;
+}
+
+/** Run the whole authorization-code flow and return the tokens. */
+export async function authorize(app: OAuthApp, options: AuthorizeOptions): Promise<OAuthTokens> {
+  const state = crypto.randomBytes(16).toString('hex');
+  const listener = await startRedirectListener(state, options.port);
+  try {
+    await options.onAuthorizeUrl(buildAuthorizeUrl(app, listener.redirectUri, state));
+    return await exchangeAuthorizationCode(app, await listener.code);
+  } finally {
+    listener.close();
+  }
+}
@@ -0,0 +1,369 @@
+import { ClickUpClient } from './index.js';
+import { AuthClient } from './auth.js';
+import { getTokenScope } from './session.js';
+
+/**
+ * Workspace-wide name resolution, so tools can take "Marketing / Q3 Launch"
+ * or "alice@corp.com" where the API wants a numeric ID.
+ *
+ * The hierarchy (spaces, folders, lists) and the member roster are indexed
+ * lazily on the first name lookup — from AuthClient.getWorkspaces/getSpaces/
+ * getFolders/getListsFromSpace and getWorkspaceSeats — and kept for
+ * INDEX_TTL_MS. A name that misses triggers one rebuild before failing, so
+ * something created a moment ago still resolves. HTTP sessions with their
+ * own ClickUp token each get a separate index (see session.ts).
+ *
+ * Matching rules:
+ *   - an all-digit value is taken as an ID and returned untouched;
+ *   - `/` (or `>`) separates path segments: the last segment names the item,
+ *     earlier segments must match its ancestors in order (any may be skipped,
+ *     so "Marketing / Q3 Launch" finds a list in any folder of Marketing);
+ *   - names compare case-, accent- and punctuation-insensitively; an exact
+ *     match beats a prefix match, which beats a substring match;
+ *   - when more than one item ties for the best match, resolution fails and
+ *     the error lists every candidate with its path and ID.
+ */
+
+const INDEX_TTL_MS = 5 * 60 * 1000;
+// Don't rebuild on a miss if the index is fresher than this
+const MIN_REBUILD_INTERVAL_MS = 5000;
+// How many tied candidates an ambiguity error lists
+const MAX_LISTED_CANDIDATES = 10;
+
+export type HierarchyKind = 'space' | 'folder' | 'list';
+
+export interface HierarchyEntry {
+  kind: HierarchyKind;
+  id: string;
+  name: string;
+  // Ancestor names from workspace down to the parent, e.g. ['Acme', 'Marketing', 'Campaigns']
+  ancestors: string[];
+}
+
+export interface MemberEntry {
+  id: number;
+  username: string;
+  email: string;
+}
+
+export interface ResolveOptions {
+  // Only accept an exact (normalised) name match — for destructive tools,
+  // where "Mark" must not quietly select "Marketing".
+  exact?: boolean;
+}
+
+interface ResolverIndex {
+  builtAt: number;
+  hierarchy: HierarchyEntry[];
+  members: MemberEntry[];
+}
+
+/** Lowercase, strip accents and punctuation, collapse whitespace. */
+export const normalizeName = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9@.]+/g, ' ')
+    .trim();
+
+/** 3 = exact, 2 = prefix, 1 = substring, 0 = no match. */
+const matchScore = (candidate: string, query: string): number => {
+  const c = normalizeName(candidate);
+  const q = normalizeName(query);
+  if (!q) {
+    return 0;
+  }
+  if (c === q) {
+    return 3;
+  }
+  if (c.startsWith(q)) {
+    return 2;
+  }
+  return c.includes(q) ? 1 : 0;
+};
+
+const isNumericId = (value: string): boolean => /^\d+$/.test(value.trim());
+
+const splitPath = (ref: string): string[] =>
+  ref
+    .split(/\s*[/>]\s*/)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+
+/** Do the leading path segments match the entry's ancestors, in order? */
+const ancestorsMatch = (ancestors: string[], segments: string[]): boolean => {
+  let next = 0;
+  for (const segment of segments) {
+    while (next < ancestors.length && matchScore(ancestors[next], segment) === 0) {
+      next++;
+    }
+    if (next === ancestors.length) {
+      return false;
+    }
+    next++;
+  }
+  return true;
+};
+
+const describeEntry = (entry: HierarchyEntry): string =>
+  `${[...entry.ancestors, entry.name].join(' / ')} (${entry.kind} ${entry.id})`;
+
+const describeMember = (member: MemberEntry): string =>
+  `${member.username || '(no username)'} <${member.email || 'no email'}> (user ${member.id})`;
+
+/**
+ * Pick the single best-scoring candidate. Returns undefined when nothing
+ * matched and throws, listing the tied candidates, when the best is ambiguous.
+ */
+function pickBest<T>(
+  scored: Array<{ item: T; score: number }>,
+  describe: (item: T) => string,
+  what: string,
+  ref: string
+): T | undefined {
+  const best = Math.max(0, ...scored.map(s => s.score));
+  const winners = scored.filter(s => s.score === best && best > 0).map(s => s.item);
+  if (winners.length === 1) {
+    return winners[0];
+  }
+  if (winners.length > 1) {
+    const listed = winners.slice(0, MAX_LISTED_CANDIDATES).map(item => `  - ${describe(item)}`);
+    if (winners.length > MAX_LISTED_CANDIDATES) {
+      listed.push(`  …and ${winners.length - MAX_LISTED_CANDIDATES} more`);
+    }
+    throw new Error(
+      `Ambiguous ${what} "${ref}" matches ${winners.length} items — use an ID or a longer path:\n${listed.join('\n')}`
+    );
+  }
+  return undefined;
+}
+
+const notFound = (what: string, ref: string): Error =>
+  new Error(`No ${what} matches "${ref}". Check the name, or pass the ID instead.`);
+
+export class NameResolver {
+  private authClient: AuthClient;
+  private client: ClickUpClient;
+  // Keyed by token scope
+  private indexes = new Map<string, ResolverIndex>();
+  private building = new Map<string, Promise<ResolverIndex>>();
+
+  constructor(client: ClickUpClient) {
+    this.client = client;
+    this.authClient = new AuthClient(client);
+  }
+
+  /** Resolve a space ID, name, or "Workspace / Space" path to a space ID. */
+  async resolveSpaceId(ref: string, options?: ResolveOptions): Promise<string> {
+    return this.resolveHierarchy('space', ref, options);
+  }
+
+  /** Resolve a folder ID, name, or "Space / Folder" path to a folder ID. */
+  async resolveFolderId(ref: string, options?: ResolveOptions): Promise<string> {
+    return this.resolveHierarchy('folder', ref, options);
+  }
+
+  /** Resolve a list ID, name, or "Space / Folder / List" path to a list ID. */
+  async resolveListId(ref: string, options?: ResolveOptions): Promise<string> {
+    return this.resolveHierarchy('list', ref, options);
+  }
+
+  /** Resolve a space or folder reference, as used by tools taking a container_type. */
+  async resolveContainerId(kind: 'space' | 'folder', ref: string, options?: ResolveOptions): Promise<string> {
+    return this.resolveHierarchy(kind, ref, options);
+  }
+
+  /**
+   * Resolve a user reference to a numeric user ID: a number or digit string
+   * is returned as-is, "me" is the token's own user, an address containing
+   * `@` matches by email, and anything else matches usernames.
+   */
+  async resolveUserId(ref: string | number): Promise<number> {
+    if (typeof ref === 'number') {
+      return ref;
+    }
+    const value = ref.trim().replace(/^@(?=[^@]+$)/, '');
+    if (isNumericId(value)) {
+      return parseInt(value, 10);
+    }
+    if (value.toLowerCase() === 'me') {
+      return (await this.authClient.getAuthorizedUser()).id;
+    }
+
+    const attempt = (index: ResolverIndex): MemberEntry | undefined => {
+      if (value.includes('@')) {
+        const byEmail = index.members.filter(m => m.email.toLowerCase() === value.toLowerCase());
+        if (byEmail.length === 1) {
+          return byEmail[0];
+        }
+      }
+      return pickBest(
+        index.members.map(member => ({
+          item: member,
+          score: Math.max(matchScore(member.username, value), matchScore(member.email.split('@')[0], value)),
+        })),
+        describeMember,
+        'workspace member',
+        ref
+      );
+    };
+    const member = await this.withRetryOnMiss(attempt);
+    if (!member) {
+      throw notFound('workspace member', ref);
+    }
+    return member.id;
+  }
+
+  async resolveUserIds(refs: Array<string | number>): Promise<number[]> {
+    const ids: number[] = [];
+    for (const ref of refs) {
+      ids.push(await this.resolveUserId(ref));
+    }
+    return ids;
+  }
+
+  /**
+   * Resolve a status name against the statuses configured on a list,
+   * returning ClickUp's exact spelling. Unlike hierarchy names, statuses are
+   * read fresh from the list each time (through the response cache when on).
+   */
+  async resolveStatus(listId: string, ref: string): Promise<string> {
+    const list = await this.client.get<{ statuses?: Array<{ status: string }> }>(`/list/${listId}`);
+    const statuses = (list.statuses ?? []).map(s => s.status);
+    if (statuses.length === 0) {
+      return ref;
+    }
+    const what = `status on list ${listId} (${statuses.join(', ')})`;
+    const status = pickBest(
+      statuses.map(candidate => ({ item: candidate, score: matchScore(candidate, ref) })),
+      candidate => `"${candidate}"`,
+      what,
+      ref
+    );
+    if (!status) {
+      throw notFound(what, ref);
+    }
+    return status;
+  }
+
+  /** Forget the index, e.g. after the hierarchy changed. */
+  invalidate(): void {
+    this.indexes.delete(getTokenScope());
+  }
+
+  private async resolveHierarchy(kind: HierarchyKind, ref: string, options?: ResolveOptions): Promise<string> {
+    const value = ref.trim();
+    if (isNumericId(value)) {
+      return value;
+    }
+    const segments = splitPath(value);
+    const name = segments.pop() ?? value;
+
+    const attempt = (index: ResolverIndex): HierarchyEntry | undefined =>
+      pickBest(
+        index.hierarchy
+          .filter(entry => entry.kind === kind && ancestorsMatch(entry.ancestors, segments))
+          .map(entry => ({ item: entry, score: matchScore(entry.name, name) }))
+          .filter(scored => !options?.exact || scored.score === 3),
+        describeEntry,
+        kind,
+        ref
+      );
+    const entry = await this.withRetryOnMiss(attempt);
+    if (!entry) {
+      throw notFound(kind, ref);
+    }
+    return entry.id;
+  }
+
+  /**
+   * Run a lookup against the index; if it finds nothing (ambiguity throws
+   * straight through), rebuild the index once and try again.
+   */
+  private async withRetryOnMiss<T>(attempt: (index: ResolverIndex) => T | undefined): Promise<T | undefined> {
+    const index = await this.getIndex();
+    const found = attempt(index);
+    if (found !== undefined || Date.now() - index.builtAt < MIN_REBUILD_INTERVAL_MS) {
+      return found;
+    }
+    this.invalidate();
+    return attempt(await this.getIndex());
+  }
+
+  private async getIndex(): Promise<ResolverIndex> {
+    const scope = getTokenScope();
+    const cached = this.indexes.get(scope);
+    if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+      return cached;
+    }
+    let building = this.building.get(scope);
+    if (!building) {
+      building = this.buildIndex().finally(() => {
+        this.building.delete(scope);
+      });
+      this.building.set(scope, building);
+    }
+    const index = await building;
+    this.indexes.set(scope, index);
+    return index;
+  }
+
+  private async buildIndex(): Promise<ResolverIndex> {
+    const hierarchy: HierarchyEntry[] = [];
+    const members = new Map<number, MemberEntry>();
+    const addMember = (raw: unknown): void => {
+      const record = raw as { user?: Partial<MemberEntry> } & Partial<MemberEntry>;
+      const user = record?.user ?? record;
+      if (typeof user?.id === 'number' && !members.has(user.id)) {
+        members.set(user.id, { id: user.id, username: user.username ?? '', email: user.email ?? '' });
+      }
+    };
+
+    const { teams } = await this.authClient.getWorkspaces();
+    for (const team of teams) {
+      (team.members ?? []).forEach(addMember);
+      const seats = await this.authClient.getWorkspaceSeats(team.id).catch(() => undefined);
+      (seats?.members ?? []).forEach(addMember);
+
+      const { spaces } = await this.authClient.getSpaces(team.id);
+      await Promise.all(
+        spaces.map(async space => {
+          hierarchy.push({ kind: 'space', id: space.id, name: space.name, ancestors: [team.name] });
+          const [{ folders }, { lists }] = await Promise.all([
+            this.authClient.getFolders(space.id),
+            this.authClient.getListsFromSpace(space.id),
+          ]);
+          for (const folder of folders) {
+            hierarchy.push({ kind: 'folder', id: folder.id, name: folder.name, ancestors: [team.name, space.name] });
+            for (const list of folder.lists ?? []) {
+              hierarchy.push({
+                kind: 'list',
+                id: list.id,
+                name: list.name,
+                ancestors: [team.name, space.name, folder.name],
+              });
+            }
+          }
+          for (const list of lists) {
+            hierarchy.push({ kind: 'list', id: list.id, name: list.name, ancestors: [team.name, space.name] });
+          }
+        })
+      );
+    }
+
+    return { builtAt: Date.now(), hierarchy, members: [...members.values()] };
+  }
+}
+
+// One resolver (and so one index) per client, shared by every tool module
+const resolvers = new WeakMap<ClickUpClient, NameResolver>();
+
+export const createNameResolver = (client: ClickUpClient): NameResolver => {
+  let resolver = resolvers.get(client);
+  if (!resolver) {
+    resolver = new NameResolver(client);
+    resolvers.set(client, resolver);
+  }
+  return resolver;
+};
@@ -17,6 +17,30 @@ const API_BASE_URL = 'https://api.clickup.com/api/v2';
 // (100 requests/minute on Free/Unlimited/Business plans)
 const CLICKUP_TOKEN_RATE_LIMIT: RateLimitConfig = { windowMs: 60000, maxRequests: 100 };
 
+/**
+ * Derive a non-reversible rate-limit bucket key from the API token.
+ */
+export const tokenRateLimitKey = (apiToken: string): string => {
+  const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').substring(0, 16);
+  return `api_token_${tokenHash}`;
+};
+
+/**
+ * Wait until the per-token rate limit window allows another request. Other
+ * clients that fan out requests (e.g. dependency graph traversal) draw from
+ * the same bucket as SecureClickUpClient.
+ */
+export async function waitForTokenRateLimit(rateLimitKey: string, maxWaitMs = 60000): Promise<void> {
+  const deadline = Date.now() + maxWaitMs;
+  while (!rateLimiter.isAllowed(rateLimitKey, CLICKUP_TOKEN_RATE_LIMIT)) {
+    if (Date.now() >= deadline) {
+      throw new Error('Rate limit wait exceeded maximum duration');
+    }
+    // Jitter avoids synchronized polling across queued requests.
+    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 250));
+  }
+}
+
 export interface SecureClickUpClientConfig {
   apiToken: string;
   baseUrl?: string;
@@ -45,7 +69,7 @@ export class SecureClickUpClient {
     this.retryManager = new RetryManager(config.maxRetries || 3);
     // ClickUp rate limits are enforced per token across all endpoints,
     // so use a single bucket keyed by (a hash of) the token
-    this.rateLimitKey = SecureClickUpClient.buildRateLimitKey(config.apiToken);
+    this.rateLimitKey = tokenRateLimitKey(config.apiToken);
 
     this.axiosInstance = axios.create({
       baseURL: config.baseUrl || API_BASE_URL,
@@ -68,7 +92,7 @@ export class SecureClickUpClient {
 
         // Rate limiting: delay until the window frees instead of failing the request
         if (this.enableRateLimit) {
-          await this.waitForRateLimit();
+          await waitForTokenRateLimit(this.rateLimitKey);
         }
 
         // NOTE: outbound payloads are intentionally NOT sanitized — ClickUp accepts
@@ -106,28 +130,6 @@ export class SecureClickUpClient {
     );
   }
 
-  /**
-   * Derive a non-reversible rate-limit bucket key from the API token.
-   */
-  private static buildRateLimitKey(apiToken: string): string {
-    const tokenHash = crypto.createHash('sha256').update(apiToken).digest('hex').substring(0, 16);
-    return `api_token_${tokenHash}`;
-  }
-
-  /**
-   * Wait until the per-token rate limit window allows another request.
-   */
-  private async waitForRateLimit(maxWaitMs = 60000): Promise<void> {
-    const deadline = Date.now() + maxWaitMs;
-    while (!rateLimiter.isAllowed(this.rateLimitKey, CLICKUP_TOKEN_RATE_LIMIT)) {
-      if (Date.now() >= deadline) {
-        throw new Error('Rate limit wait exceeded maximum duration');
-      }
-      // Jitter avoids synchronized polling across queued requests.
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 250));
-    }
-  }
-
   /**
    * Secure GET request with retry logic
    */
@@ -380,7 +382,7 @@ export class SecureClickUpClient {
       this.axiosInstance.defaults.headers['Authorization'] = formatAuthorizationHeader(
         config.apiToken
       );
-      this.rateLimitKey = SecureClickUpClient.buildRateLimitKey(config.apiToken);
+      this.rateLimitKey = tokenRateLimitKey(config.apiToken);
     }
 
     if (config.timeout) {
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/**
+ * Per-session ClickUp credentials for the shared HTTP server.
+ *
+ * Over stdio every call uses CLICKUP_API_TOKEN. Over HTTP (see http-server.ts)
+ * each MCP session may bring its own ClickUp token, and every request of that
+ * session runs inside runWithClickUpToken(). ClickUpClient then sends that
+ * token instead of the one it was constructed with, and the stores that hold
+ * workspace data — response cache, name resolver index, operation journal —
+ * partition by getTokenScope() so sessions never see each other's data.
+ */
+
+const sessionToken = new AsyncLocalStorage<string>();
+
+/** Run `fn` with ClickUp requests authenticated as `token` (the default token when undefined). */
+export function runWithClickUpToken<T>(token: string | undefined, fn: () => T): T {
+  return token ? sessionToken.run(token, fn) : fn();
+}
+
+/** The ClickUp token of the current session, if it brought one. */
+export const getSessionToken = (): string | undefined => sessionToken.getStore();
+
+/**
+ * Short, stable identifier for the credentials in effect: '' for the
+ * server's own token, otherwise a hash of the session's token.
+ */
+export const getTokenScope = (): string => {
+  const token = getSessionToken();
+  return token ? crypto.createHash('sha256').update(token).digest('hex').slice(0, 12) : '';
+};
@@ -158,6 +158,54 @@ export interface GetFilteredTeamTasksParams {
   }>;
 }
 
+/**
+ * Options for walking a paginated task endpoint server-side.
+ *
+ * `max_tasks` caps how many tasks one call may return so a large list cannot
+ * produce an unbounded tool response; it is clamped to MAX_TASKS_PER_CALL.
+ * `cursor` resumes a walk that previously stopped at the cap — pass back the
+ * `next_cursor` from the earlier result.
+ */
+export interface PaginateTasksOptions {
+  max_tasks?: number;
+  cursor?: string;
+}
+
+export interface PaginatedTasksResult {
+  tasks: Task[];
+  pagination: {
+    start_page: number;
+    pages_fetched: number;
+    tasks_returned: number;
+    duplicates_skipped: number;
+    // True when the final page was reached; false when stopped at the cap.
+    complete: boolean;
+    // Present only when incomplete: resumes exactly where this call stopped.
+    next_cursor?: string;
+  };
+}
+
+// ClickUp returns at most 100 tasks per page on both task list endpoints
+export const TASKS_PAGE_SIZE = 100;
+// Default and hard ceiling for tasks returned by one paginated call
+export const DEFAULT_MAX_TASKS = 1000;
+export const MAX_TASKS_PER_CALL = 5000;
+
+/**
+ * Encode a resumption point as an opaque cursor. The offset matters when the
+ * cap lands mid-page: the rest of that page must not be skipped on resume.
+ */
+export const encodeTasksCursor = (page: number, offset: number): string =>
+  Buffer.from(`${page}:${offset}`, 'utf8').toString('base64url');
+
+export const decodeTasksCursor = (cursor: string): { page: number; offset: number } => {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!match) {
+    throw new Error('Invalid pagination cursor — pass the next_cursor value from a previous result unchanged');
+  }
+  return { page: parseInt(match[1], 10), offset: parseInt(match[2], 10) };
+};
+
 export interface CustomTaskIdParams {
   custom_task_ids?: boolean;
   team_id?: string;
@@ -244,6 +292,120 @@ export class TasksClient {
     return result as unknown as { tasks: Task[]; last_page?: boolean };
   }
 
+  /**
+   * Get every task from a list, walking pages until the last page or the cap
+   * @param listId The ID of the list to get tasks from
+   * @param params Filters as for getTasksFromList; `page` sets the first page
+   * @param options Task cap and resumption cursor
+   * @returns Deduplicated tasks plus a summary of the pages fetched
+   */
+  async getAllTasksFromList(
+    listId: string,
+    params?: GetTasksParams,
+    options?: PaginateTasksOptions
+  ): Promise<PaginatedTasksResult> {
+    return this.collectTaskPages(
+      page => this.getTasksFromList(listId, { ...params, page }),
+      params?.page,
+      options
+    );
+  }
+
+  /**
+   * Get every matching task across a workspace, walking pages until the last
+   * page or the cap
+   * @param teamId The ID of the workspace (team) to search
+   * @param params Filters as for getFilteredTeamTasks; `page` sets the first page
+   * @param options Task cap and resumption cursor
+   * @returns Deduplicated tasks plus a summary of the pages fetched
+   */
+  async getAllFilteredTeamTasks(
+    teamId: string,
+    params?: GetFilteredTeamTasksParams,
+    options?: PaginateTasksOptions
+  ): Promise<PaginatedTasksResult> {
+    return this.collectTaskPages(
+      page => this.getFilteredTeamTasks(teamId, { ...params, page }),
+      params?.page,
+      options
+    );
+  }
+
+  /**
+   * Shared page walker for the task list endpoints.
+   *
+   * Tasks are deduplicated by ID because pages are offset-based: a task created
+   * or re-ordered while we walk shifts later pages and would otherwise appear
+   * twice. Deduplication only spans a single call, not resumed calls.
+   */
+  private async collectTaskPages(
+    fetchPage: (page: number) => Promise<{ tasks: Task[]; last_page?: boolean }>,
+    firstPage: number | undefined,
+    options?: PaginateTasksOptions
+  ): Promise<PaginatedTasksResult> {
+    const maxTasks = Math.min(Math.max(options?.max_tasks ?? DEFAULT_MAX_TASKS, 1), MAX_TASKS_PER_CALL);
+    const start = options?.cursor ? decodeTasksCursor(options.cursor) : { page: firstPage ?? 0, offset: 0 };
+
+    const tasks: Task[] = [];
+    const seen = new Set<string>();
+    let duplicatesSkipped = 0;
+    let pagesFetched = 0;
+    let page = start.page;
+    let offset = start.offset;
+    let nextCursor: string | undefined;
+
+    for (;;) {
+      const result = await fetchPage(page);
+      pagesFetched++;
+      const pageTasks = result.tasks ?? [];
+
+      let index = offset;
+      for (; index < pageTasks.length && tasks.length < maxTasks; index++) {
+        const task = pageTasks[index];
+        if (seen.has(task.id)) {
+          duplicatesSkipped++;
+          continue;
+        }
+        seen.add(task.id);
+        tasks.push(task);
+      }
+      offset = 0;
+
+      if (index < pageTasks.length) {
+        // Cap reached mid-page: resume from the first task not returned.
+        nextCursor = encodeTasksCursor(page, index);
+        break;
+      }
+
+      // Older responses omit last_page; a short page means there is no next one.
+      const isLastPage =
+        result.last_page === true ||
+        pageTasks.length === 0 ||
+        (result.last_page === undefined && pageTasks.length < TASKS_PAGE_SIZE);
+      if (isLastPage) {
+        break;
+      }
+
+      page++;
+      if (tasks.length >= maxTasks) {
+        nextCursor = encodeTasksCursor(page, 0);
+        break;
+      }
+    }
+
+    return {
+      tasks,
+      pagination: {
+        start_page: start.page,
+        pages_fetched: pagesFetched,
+        tasks_returned: tasks.length,
+        duplicates_skipped: duplicatesSkipped,
+        complete: nextCursor === undefined,
+        ...(nextCursor !== undefined && { next_cursor: nextCursor }),
+      },
+    };
+  }
+
   // Removed pseudo endpoints for getting tasks from spaces and folders
 
   /**
@@ -1,6 +1,19 @@
 /* eslint-disable no-console */
 import { ClickUpClient } from './index.js';
+import { MAX_TASKS_PER_CALL, Task, TasksClient } from './tasks.js';
 import axios from 'axios';
+import {
+  buildTimesheetReport,
+  TimesheetReport,
+  TimesheetReportOptions,
+} from '../utils/timesheet-report.js';
+import { auditTimeEntries, TimeEntryAuditOptions, TimeEntryAuditReport } from '../utils/time-entry-audit.js';
+import {
+  analyzeEstimateAccuracy,
+  EstimateAccuracyOptions,
+  EstimateAccuracyReport,
+  EstimatedTask,
+} from '../utils/estimate-accuracy.js';
 import {
   validateResponse,
   TimeEntriesResponseSchema,
@@ -123,6 +136,15 @@ export interface TimeEntry {
   tags: TimeEntryTag[];
   source: string; // "manual", "timer", etc.
   at: string; // Creation timestamp
+  // Only returned with include_location_names
+  task_location?: {
+    list_id?: string;
+    list_name?: string;
+    folder_id?: string;
+    folder_name?: string;
+    space_id?: string;
+    space_name?: string;
+  };
 }
 
 export interface RunningTimer {
@@ -560,6 +582,123 @@ export class EnhancedTimeTrackingClient {
     }
   }
 
+  /**
+   * Build a grouped, bucketed timesheet. Fetches location names so entries
+   * can be grouped by list, folder and space, and clips entries to the
+   * requested range.
+   */
+  async getTimesheetReport(
+    teamId: string,
+    params: GetTimeEntriesParams,
+    options: Omit<TimesheetReportOptions, 'start_date' | 'end_date'>
+  ): Promise<TimesheetReport> {
+    try {
+      const timeEntries = await this.getTimeEntries(teamId, { ...params, include_location_names: true });
+      return buildTimesheetReport(timeEntries, {
+        ...options,
+        start_date: params.start_date,
+        end_date: params.end_date,
+      });
+    } catch (error) {
+      console.error('Error building timesheet report:', error instanceof Error ? error.message : error);
+      throw this.handleError(error, `Failed to build timesheet report for team ${teamId}`);
+    }
+  }
+
+  /**
+   * Audit time entries in a range together with the running timers of the
+   * same users. Users named in assignee are checked against the daily
+   * target even when they logged nothing.
+   */
+  async auditTimeEntries(
+    teamId: string,
+    params: GetTimeEntriesParams & { start_date: number; end_date: number },
+    options: Omit<TimeEntryAuditOptions, 'start_date' | 'end_date' | 'members'>
+  ): Promise<TimeEntryAuditReport> {
+    try {
+      const assignees = params.assignee === undefined ? [] : String(params.assignee).split(',').map(Number);
+      const [timeEntries, runningTimers] = await Promise.all([
+        this.getTimeEntries(teamId, params),
+        Promise.all(
+          assignees.length > 0
+            ? assignees.map(assignee => this.getRunningTimer(teamId, assignee))
+            : [this.getRunningTimer(teamId)]
+        ),
+      ]);
+
+      const running = runningTimers
+        .filter((timer): timer is RunningTimer => timer !== null)
+        .map(timer => ({ ...timer, end: null, duration: String(-Number(timer.start)) }));
+      return auditTimeEntries(timeEntries, running, {
+        ...options,
+        start_date: params.start_date,
+        end_date: params.end_date,
+        members: assignees.map(id => ({ id })),
+      });
+    } catch (error) {
+      console.error('Error auditing time entries:', error instanceof Error ? error.message : error);
+      throw this.handleError(error, `Failed to audit time entries for team ${teamId}`);
+    }
+  }
+
+  /**
+   * Compare time estimates with tracked time for tasks completed in a list,
+   * folder or space and/or date range. Time entries are read from the
+   * earliest task creation date so work logged before the range still
+   * counts towards the tasks finished inside it.
+   */
+  async getEstimateAccuracy(
+    teamId: string,
+    scope: { list_id?: string; folder_id?: string; space_id?: string; start_date?: number; end_date?: number },
+    options: EstimateAccuracyOptions
+  ): Promise<EstimateAccuracyReport> {
+    try {
+      const { tasks, pagination } = await new TasksClient(this.client).getAllFilteredTeamTasks(
+        teamId,
+        {
+          ...(scope.list_id && { list_ids: [scope.list_id] }),
+          ...(scope.folder_id && { project_ids: [scope.folder_id] }),
+          ...(scope.space_id && { space_ids: [scope.space_id] }),
+          ...(scope.start_date !== undefined && { date_done_gt: scope.start_date }),
+          ...(scope.end_date !== undefined && { date_done_lt: scope.end_date }),
+          include_closed: true,
+          subtasks: true,
+        },
+        { max_tasks: MAX_TASKS_PER_CALL }
+      );
+      // Task does not declare date_done, tags or points, but ClickUp returns them
+      const completed = (tasks as Array<Task & EstimatedTask>).filter(
+        task => Number(task.date_done ?? task.date_closed) > 0
+      );
+
+      let timeEntries: TimeEntry[] = [];
+      if (completed.length > 0) {
+        const assignees = new Set(completed.flatMap(task => (task.assignees ?? []).map(assignee => assignee.id)));
+        const created = completed.map(task => Number(task.date_created)).filter(ms => ms > 0);
+        timeEntries = await this.getTimeEntries(teamId, {
+          start_date: created.length > 0 ? Math.min(...created) : scope.start_date,
+          end_date: Date.now(),
+          ...(assignees.size > 0 && { assignee: Array.from(assignees).join(',') }),
+          ...(scope.list_id && { list_id: scope.list_id }),
+          ...(scope.folder_id && { folder_id: scope.folder_id }),
+          ...(scope.space_id && { space_id: scope.space_id }),
+          include_task_tags: true,
+        });
+      }
+
+      const report = analyzeEstimateAccuracy(completed, timeEntries, options);
+      if (!pagination.complete) {
+        report.notes.push(
+          `Stopped after ${pagination.tasks_returned} tasks; narrow the list, folder or date range to cover the rest.`
+        );
+      }
+      return report;
+    } catch (error) {
+      console.error('Error analyzing estimate accuracy:', error instanceof Error ? error.message : error);
+      throw this.handleError(error, `Failed to analyze estimate accuracy for team ${teamId}`);
+    }
+  }
+
   // ========================================
   // UTILITY METHODS
   // ========================================
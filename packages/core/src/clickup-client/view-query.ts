@@ -0,0 +1,133 @@
+import { ClickUpClient } from './index.js';
+import { createNameResolver, NameResolver, normalizeName } from './resolver.js';
+import { viewParentType } from './views-enhanced.js';
+import type { ViewParentType } from '../schemas/views-schemas.js';
+import {
+  compileViewQuery,
+  CompiledViewQuery,
+  parseViewQuery,
+  ViewQueryCustomField,
+  ViewQueryResolvers,
+} from '../utils/view-query.js';
+
+/**
+ * Compiles view queries (see utils/view-query.ts) against their target: the
+ * list for clickup_get_tasks, or the view's parent for clickup_set_view_filters.
+ *
+ * Statuses resolve against the list's (or space's) configured statuses,
+ * users through the NameResolver member roster ("me", emails, usernames),
+ * and custom fields by name or ID against the fields accessible from the
+ * target. Folders and the Workspace have no status set of their own, so
+ * status names are taken as written there.
+ */
+
+const PARENT_ENDPOINTS: Record<ViewParentType, string> = {
+  team: '/team',
+  space: '/space',
+  folder: '/folder',
+  list: '/list',
+};
+
+export interface ViewQueryTarget {
+  type: ViewParentType;
+  id: string;
+}
+
+export interface CompileViewQueryOptions {
+  timeZone?: string;
+  now?: number;
+}
+
+/** Exact (normalised) name first, then a unique prefix. */
+function pickByName<T>(items: T[], name: (item: T) => string, ref: string, what: string): T {
+  const wanted = normalizeName(ref);
+  const exact = items.filter(item => normalizeName(name(item)) === wanted);
+  const candidates = exact.length > 0 ? exact : items.filter(item => normalizeName(name(item)).startsWith(wanted));
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+  const known = (candidates.length > 1 ? candidates : items).map(item => `"${name(item)}"`).join(', ');
+  throw new Error(
+    candidates.length > 1
+      ? `Ambiguous ${what} "${ref}" matches ${known}`
+      : `No ${what} matches "${ref}" (${known || 'none available'})`
+  );
+}
+
+export class ViewQueryCompiler {
+  private client: ClickUpClient;
+  private resolver: NameResolver;
+
+  constructor(client: ClickUpClient) {
+    this.client = client;
+    this.resolver = createNameResolver(client);
+  }
+
+  /** Compile a query against a list, a space, a folder or the Workspace. */
+  async compile(
+    query: string,
+    target: ViewQueryTarget,
+    options: CompileViewQueryOptions = {}
+  ): Promise<CompiledViewQuery> {
+    const parsed = parseViewQuery(query);
+    return compileViewQuery(parsed, this.resolversFor(target), options);
+  }
+
+  /** Compile a query against the parent of a view. */
+  async compileForView(
+    query: string,
+    viewId: string,
+    options: CompileViewQueryOptions = {}
+  ): Promise<CompiledViewQuery> {
+    const { view } = await this.client.get<{ view: { parent?: { id: string; type: number } } }>(`/view/${viewId}`);
+    const type = view?.parent ? viewParentType(view.parent.type) : undefined;
+    if (!type || !view.parent) {
+      throw new Error(`View ${viewId} has no list, folder, space or Workspace parent to resolve names against`);
+    }
+    return this.compile(query, { type, id: String(view.parent.id) }, options);
+  }
+
+  private resolversFor(target: ViewQueryTarget): ViewQueryResolvers {
+    let statuses: Promise<string[] | undefined> | undefined;
+    let fields: Promise<ViewQueryCustomField[]> | undefined;
+
+    return {
+      status: async name => {
+        statuses ??= this.loadStatuses(target);
+        const known = await statuses;
+        return known ? pickByName(known, status => status, name, `status on ${target.type} ${target.id}`) : name;
+      },
+      user: ref => this.resolver.resolveUserId(ref),
+      customField: async ref => {
+        fields ??= this.client
+          .get<{ fields?: ViewQueryCustomField[] }>(`${PARENT_ENDPOINTS[target.type]}/${target.id}/field`)
+          .then(response => response.fields ?? []);
+        const known = await fields;
+        return known.find(field => field.id === ref) ?? pickByName(known, field => field.name, ref, 'custom field');
+      },
+    };
+  }
+
+  private async loadStatuses(target: ViewQueryTarget): Promise<string[] | undefined> {
+    if (target.type !== 'list' && target.type !== 'space') {
+      return undefined;
+    }
+    const container = await this.client.get<{ statuses?: Array<{ status: string }> }>(
+      `${PARENT_ENDPOINTS[target.type]}/${target.id}`
+    );
+    const statuses = (container.statuses ?? []).map(status => status.status);
+    return statuses.length > 0 ? statuses : undefined;
+  }
+}
+
+// One compiler per client, shared by the view and task tools
+const compilers = new WeakMap<ClickUpClient, ViewQueryCompiler>();
+
+export const createViewQueryCompiler = (client: ClickUpClient): ViewQueryCompiler => {
+  let compiler = compilers.get(client);
+  if (!compiler) {
+    compiler = new ViewQueryCompiler(client);
+    compilers.set(client, compiler);
+  }
+  return compiler;
+};
@@ -0,0 +1,423 @@
+import { createNameResolver, NameResolver, normalizeName } from './resolver.js';
+import { ViewConfig, ViewResponse, ViewsEnhancedClient, viewParentType } from './views-enhanced.js';
+import { VIEW_TEMPLATE_FORMAT, ViewTemplate, ViewTemplateField, ViewTemplateTarget } from '../schemas/views-schemas.js';
+import type { ViewQueryCustomField } from '../utils/view-query.js';
+
+/**
+ * View templates: a view's configuration with its custom fields written by
+ * name, so the same view can be recreated on lists that each have their own
+ * copy of the fields.
+ *
+ * A field slot (a filter condition, the grouping, the divide, a sort or a
+ * column) holding `cf_<id>` becomes `cf:<name>` on export, and drop-down or
+ * label option IDs in its filter values and collapsed groups become option
+ * names. Applying reverses this against the target's accessible fields.
+ * Anything that does not map is left out of the created view and reported
+ * as a mismatch rather than failing the target.
+ */
+
+export type ViewTemplatePart = 'filters' | 'grouping' | 'divide' | 'sorting' | 'columns';
+
+export interface ViewTemplateMismatch {
+  part: ViewTemplatePart;
+  field: string;
+  problem: string;
+  effect: string;
+}
+
+export type ViewTemplateAction = 'created' | 'updated' | 'skipped' | 'would_create' | 'would_update' | 'failed';
+
+export interface ViewTemplateTargetResult {
+  type: ViewTemplateTarget['type'];
+  target: string;
+  id?: string;
+  action: ViewTemplateAction;
+  view_id?: string;
+  mismatches: ViewTemplateMismatch[];
+  error?: string;
+}
+
+export interface ApplyViewTemplateOptions {
+  /** View name on the targets; defaults to the template's name. */
+  name?: string;
+  /** What to do when a target already has a view with that name (default "update"). */
+  onExisting?: 'update' | 'skip' | 'create';
+  dryRun?: boolean;
+}
+
+export interface ApplyViewTemplateReport {
+  name: string;
+  dry_run: boolean;
+  summary: Partial<Record<ViewTemplateAction, number>>;
+  results: ViewTemplateTargetResult[];
+}
+
+type ConfigParts = Pick<ViewConfig, ViewTemplatePart>;
+
+/** Field and value rewrites applied to every field slot of a configuration. */
+interface FieldMapping {
+  /** The field to write in place of `field`, or undefined to drop the slot. */
+  field(field: string, part: ViewTemplatePart): string | undefined;
+  /** The value to write in place of `value`, or undefined to drop it. */
+  value(field: string, value: unknown, part: ViewTemplatePart): unknown;
+}
+
+const DROPPED: Record<ViewTemplatePart, string> = {
+  filters: 'condition dropped',
+  grouping: 'grouping removed',
+  divide: 'divide removed',
+  sorting: 'sort dropped',
+  columns: 'column dropped',
+};
+
+const TEMPLATE_PREFIX = 'cf:';
+
+const customFieldId = (field: string): string | undefined => (field.startsWith('cf_') ? field.slice(3) : undefined);
+
+const optionLabel = (option: { name?: string; label?: string }): string => option.name ?? option.label ?? '';
+
+const fieldOptions = (field: ViewQueryCustomField | undefined) => field?.type_config?.options ?? [];
+
+function mapValues(field: string, values: unknown[], part: ViewTemplatePart, mapping: FieldMapping): unknown[] {
+  return values.map(value => mapping.value(field, value, part)).filter(value => value !== undefined);
+}
+
+// Collapsed groups are identified by the grouped value (an option ID for custom fields)
+const mapCollapsed = (field: string, collapsed: string[] | null, part: ViewTemplatePart, mapping: FieldMapping) =>
+  mapValues(field, collapsed ?? [], part, mapping) as string[];
+
+/** Rewrite the field slots of a configuration; parts it does not contain stay absent. */
+function remapConfig(config: ConfigParts, mapping: FieldMapping): ConfigParts {
+  const result: ConfigParts = {};
+
+  if (config.filters) {
+    const fields = (config.filters.fields ?? []).flatMap(condition => {
+      const field = mapping.field(condition.field, 'filters');
+      if (field === undefined) {
+        return [];
+      }
+      const original = condition.values ?? [];
+      const values = mapValues(condition.field, original, 'filters', mapping);
+      // A condition whose every option was dropped would match something else entirely
+      return original.length > 0 && values.length === 0 ? [] : [{ ...condition, field, values }];
+    });
+    result.filters = { ...config.filters, fields };
+  }
+
+  if (config.grouping) {
+    const field = mapping.field(config.grouping.field, 'grouping');
+    result.grouping =
+      field === undefined
+        ? { ...config.grouping, field: 'none', collapsed: [] }
+        : {
+            ...config.grouping,
+            field,
+            collapsed: mapCollapsed(config.grouping.field, config.grouping.collapsed, 'grouping', mapping),
+          };
+  }
+
+  if (config.divide) {
+    const field = config.divide.field === null ? null : mapping.field(config.divide.field, 'divide');
+    result.divide =
+      field === undefined || field === null
+        ? { ...config.divide, field: null, collapsed: [] }
+        : {
+            ...config.divide,
+            field,
+            collapsed: mapCollapsed(config.divide.field!, config.divide.collapsed, 'divide', mapping),
+          };
+  }
+
+  if (config.sorting) {
+    result.sorting = {
+      ...config.sorting,
+      fields: (config.sorting.fields ?? []).flatMap(sort => {
+        const field = mapping.field(sort.field, 'sorting');
+        return field === undefined ? [] : [{ ...sort, field }];
+      }),
+    };
+  }
+
+  if (config.columns) {
+    result.columns = {
+      ...config.columns,
+      fields: (config.columns.fields ?? []).flatMap(column => {
+        const field = mapping.field(column.field, 'columns');
+        return field === undefined ? [] : [{ ...column, field }];
+      }),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Turn a view into a template, given the custom fields accessible from its
+ * parent. Custom fields that are not accessible there stay as IDs, with a
+ * warning: they only apply to targets that share the field itself.
+ */
+export function toViewTemplate(
+  view: ViewResponse,
+  fields: ViewQueryCustomField[]
+): { template: ViewTemplate; warnings: string[] } {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const used = new Map<string, ViewTemplateField>();
+  const warnings = new Set<string>();
+
+  const mapping: FieldMapping = {
+    field: (field, part) => {
+      const id = customFieldId(field);
+      if (id === undefined) {
+        return field;
+      }
+      const definition = byId.get(id);
+      if (!definition) {
+        warnings.add(`${part}: custom field ${id} is not accessible from the view's parent and is kept as an ID`);
+        return field;
+      }
+      const options = fieldOptions(definition).map(optionLabel);
+      used.set(id, { name: definition.name, type: definition.type, ...(options.length > 0 ? { options } : {}) });
+      return `${TEMPLATE_PREFIX}${definition.name}`;
+    },
+    value: (field, value) => {
+      const id = customFieldId(field);
+      const options = fieldOptions(id === undefined ? undefined : byId.get(id));
+      const option = options.find(candidate => candidate.id === value);
+      return option ? optionLabel(option) : value;
+    },
+  };
+
+  const parts = remapConfig(view, mapping);
+
+  const names = new Map<string, number>();
+  for (const field of used.values()) {
+    const key = normalizeName(field.name);
+    names.set(key, (names.get(key) ?? 0) + 1);
+  }
+  for (const field of used.values()) {
+    if ((names.get(normalizeName(field.name)) ?? 0) > 1) {
+      warnings.add(`Several custom fields used by the view are named "${field.name}"; targets match them by type`);
+    }
+  }
+
+  const parentType = view.parent ? viewParentType(view.parent.type) : undefined;
+  const template: ViewTemplate = {
+    format: VIEW_TEMPLATE_FORMAT,
+    version: 1,
+    name: view.name,
+    type: view.type,
+    ...parts,
+    ...(view.team_sidebar ? { team_sidebar: view.team_sidebar } : {}),
+    ...(view.settings ? { settings: view.settings } : {}),
+    custom_fields: [...used.values()],
+    ...(parentType ? { source: { view_id: view.id, parent_type: parentType, parent_id: String(view.parent.id) } } : {}),
+  };
+
+  return { template, warnings: [...warnings] };
+}
+
+/**
+ * Instantiate a template for a target, given the custom fields accessible
+ * there. Custom fields match by name, and by type when several share a name.
+ */
+export function instantiateViewTemplate(
+  template: ViewTemplate,
+  fields: ViewQueryCustomField[],
+  name = template.name
+): { config: ViewConfig; mismatches: ViewTemplateMismatch[] } {
+  const mismatches = new Map<string, ViewTemplateMismatch>();
+  const report = (mismatch: ViewTemplateMismatch) => mismatches.set(JSON.stringify(mismatch), mismatch);
+  const resolved = new Map<string, ViewQueryCustomField | undefined>();
+
+  const resolve = (field: string): ViewQueryCustomField | undefined => {
+    if (!resolved.has(field)) {
+      resolved.set(field, lookup(field));
+    }
+    return resolved.get(field);
+  };
+  const lookup = (field: string): ViewQueryCustomField | undefined => {
+    const id = customFieldId(field);
+    if (id !== undefined) {
+      return fields.find(candidate => candidate.id === id);
+    }
+    const wanted = field.slice(TEMPLATE_PREFIX.length);
+    const expected = template.custom_fields.find(candidate => candidate.name === wanted);
+    const named = fields.filter(candidate => normalizeName(candidate.name) === normalizeName(wanted));
+    return named.find(candidate => !expected || candidate.type === expected.type);
+  };
+
+  const mapping: FieldMapping = {
+    field: (field, part) => {
+      if (!field.startsWith(TEMPLATE_PREFIX) && customFieldId(field) === undefined) {
+        return field;
+      }
+      const match = resolve(field);
+      if (match) {
+        return `cf_${match.id}`;
+      }
+
+      const wanted = field.startsWith(TEMPLATE_PREFIX) ? field.slice(TEMPLATE_PREFIX.length) : field;
+      const expected = template.custom_fields.find(candidate => candidate.name === wanted);
+      const other = fields.find(candidate => normalizeName(candidate.name) === normalizeName(wanted));
+      report({
+        part,
+        field: wanted,
+        problem:
+          other && expected
+            ? `custom field is a ${other.type} field here, not ${expected.type}`
+            : 'custom field not found',
+        effect: DROPPED[part],
+      });
+      return undefined;
+    },
+    value: (field, value, part) => {
+      const options = fieldOptions(resolve(field));
+      if (options.length === 0 || typeof value !== 'string') {
+        return value;
+      }
+      const option =
+        options.find(candidate => candidate.id === value) ??
+        options.find(candidate => normalizeName(optionLabel(candidate)) === normalizeName(value));
+      if (option) {
+        return option.id;
+      }
+      report({
+        part,
+        field: field.startsWith(TEMPLATE_PREFIX) ? field.slice(TEMPLATE_PREFIX.length) : field,
+        problem: `option "${value}" not found`,
+        effect: part === 'filters' ? 'value dropped' : 'collapsed group dropped',
+      });
+      return undefined;
+    },
+  };
+
+  const parts = remapConfig(template as ConfigParts, mapping);
+  const config: ViewConfig = {
+    name,
+    type: template.type,
+    ...parts,
+    ...(template.team_sidebar ? { team_sidebar: template.team_sidebar as ViewConfig['team_sidebar'] } : {}),
+    ...(template.settings ? { settings: template.settings as ViewConfig['settings'] } : {}),
+  };
+
+  return { config, mismatches: [...mismatches.values()] };
+}
+
+export class ViewTemplateClient {
+  private views: ViewsEnhancedClient;
+  private resolver: NameResolver;
+
+  constructor(views: ViewsEnhancedClient) {
+    this.views = views;
+    this.resolver = createNameResolver(views);
+  }
+
+  /** Export a view as a template, with its custom fields written by name. */
+  async exportView(viewId: string): Promise<{ template: ViewTemplate; warnings: string[] }> {
+    const view = await this.views.getView(viewId);
+    const parentType = view.parent ? viewParentType(view.parent.type) : undefined;
+    const fields = parentType ? (await this.views.getViewFields(parentType, String(view.parent.id))).fields : [];
+    return toViewTemplate(view, fields);
+  }
+
+  /**
+   * Create or update the template's view on each target. Targets are
+   * independent: one that fails is reported and the rest still apply.
+   */
+  async applyTemplate(
+    template: ViewTemplate,
+    targets: ViewTemplateTarget[],
+    options: ApplyViewTemplateOptions = {}
+  ): Promise<ApplyViewTemplateReport> {
+    const name = options.name ?? template.name;
+    const dryRun = options.dryRun ?? false;
+    const results: ViewTemplateTargetResult[] = [];
+
+    for (const target of targets) {
+      const result: ViewTemplateTargetResult = {
+        type: target.type,
+        target: target.id,
+        action: 'failed',
+        mismatches: [],
+      };
+      results.push(result);
+      try {
+        await this.applyToTarget(template, target, name, options.onExisting ?? 'update', dryRun, result);
+      } catch (error: unknown) {
+        result.action = 'failed';
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const summary: ApplyViewTemplateReport['summary'] = {};
+    for (const result of results) {
+      summary[result.action] = (summary[result.action] ?? 0) + 1;
+    }
+    return { name, dry_run: dryRun, summary, results };
+  }
+
+  private async applyToTarget(
+    template: ViewTemplate,
+    target: ViewTemplateTarget,
+    name: string,
+    onExisting: NonNullable<ApplyViewTemplateOptions['onExisting']>,
+    dryRun: boolean,
+    result: ViewTemplateTargetResult
+  ): Promise<void> {
+    const id =
+      target.type === 'list'
+        ? await this.resolver.resolveListId(target.id)
+        : await this.resolver.resolveContainerId(target.type, target.id);
+    result.id = id;
+
+    const { fields } = await this.views.getViewFields(target.type, id);
+    const { config, mismatches } = instantiateViewTemplate(template, fields, name);
+    result.mismatches = mismatches;
+
+    const existing =
+      onExisting === 'create'
+        ? []
+        : (await this.views.getViews({ parent_type: target.type, parent_id: id })).views.filter(
+            view => normalizeName(view.name) === normalizeName(name)
+          );
+    if (existing.length > 1) {
+      throw new Error(
+        `${existing.length} views are named "${name}" here (${existing.map(view => view.id).join(', ')}); ` +
+          'rename one or use on_existing "create"'
+      );
+    }
+
+    if (existing.length === 1) {
+      result.view_id = existing[0].id;
+      if (onExisting === 'skip') {
+        result.action = 'skipped';
+      } else if (dryRun) {
+        result.action = 'would_update';
+      } else {
+        await this.views.replaceViewConfig(existing[0].id, config);
+        result.action = 'updated';
+      }
+      return;
+    }
+
+    if (dryRun) {
+      result.action = 'would_create';
+      return;
+    }
+    const view = await this.views.createViewFromConfig(target.type, id, config);
+    result.view_id = view.id;
+    result.action = 'created';
+  }
+}
+
+// One template client per views client
+const templateClients = new WeakMap<ViewsEnhancedClient, ViewTemplateClient>();
+
+export const createViewTemplateClient = (views: ViewsEnhancedClient): ViewTemplateClient => {
+  let client = templateClients.get(views);
+  if (!client) {
+    client = new ViewTemplateClient(views);
+    templateClients.set(views, client);
+  }
+  return client;
+};
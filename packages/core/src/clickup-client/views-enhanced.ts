@@ -20,6 +20,7 @@ import type {
   ViewDivide,
   ViewSorting,
   ViewColumn,
+  ViewParentType,
 } from '../schemas/views-schemas.js';
 
 export interface ViewResponse {
@@ -92,6 +93,18 @@ export interface ViewListResponse {
   views: ViewResponse[];
 }
 
+/** The configuration part of a view: what Create View takes and Update View replaces. */
+export type ViewConfig = Pick<ViewResponse, 'name' | 'type'> &
+  Partial<
+    Pick<ViewResponse, 'grouping' | 'divide' | 'sorting' | 'filters' | 'columns' | 'team_sidebar' | 'settings'>
+  >;
+
+// View parent.type codes, as returned by Get View
+const VIEW_PARENT_TYPES: Record<number, ViewParentType> = { 4: 'space', 5: 'folder', 6: 'list', 7: 'team' };
+
+/** The parent type of a view, from Get View's numeric parent.type. */
+export const viewParentType = (code: number): ViewParentType | undefined => VIEW_PARENT_TYPES[code];
+
 export class ViewsEnhancedClient extends ClickUpClient {
   constructor(apiToken: string) {
     super({ apiToken });
@@ -184,7 +197,7 @@ export class ViewsEnhancedClient extends ClickUpClient {
    */
   async setViewFilters(request: SetViewFiltersRequest): Promise<ViewResponse> {
     return this.putFullView(request.view_id, () => ({
-      filters: this.formatFilters(request.filters),
+      filters: this.formatFilters(request.filters, request.op),
     }));
   }
 
@@ -278,6 +291,28 @@ export class ViewsEnhancedClient extends ClickUpClient {
     return response.view;
   }
 
+  /**
+   * Create a view from a configuration in the API's own shape, such as one
+   * read from another view (filters, grouping, … are sent as-is).
+   */
+  async createViewFromConfig(
+    parentType: ViewParentType,
+    parentId: string,
+    config: ViewConfig
+  ): Promise<ViewResponse> {
+    const endpoint = this.getParentEndpoint(parentType, parentId);
+    const response = await this.post<{ view: ViewResponse }>(`${endpoint}/view`, config);
+    return response.view;
+  }
+
+  /**
+   * Replace a view's configuration with one in the API's own shape. Parts the
+   * configuration leaves out keep their current value.
+   */
+  async replaceViewConfig(viewId: string, config: ViewConfig): Promise<ViewResponse> {
+    return this.putFullView(viewId, () => ({ ...config }));
+  }
+
   // Helper methods
 
   private getParentEndpoint(parentType: string, parentId: string): string {
@@ -349,9 +384,9 @@ export class ViewsEnhancedClient extends ClickUpClient {
     };
   }
 
-  private formatFilters(filters: ViewFilter[]): any {
+  private formatFilters(filters: ViewFilter[], op: 'AND' | 'OR' = 'AND'): any {
     return {
-      op: 'AND',
+      op,
       fields: filters.map(filter => ({
         field: filter.field,
         op: filter.op,
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import {
+  parseWebhookFixture as parseFixture,
+  readWebhookFixture as readFixture,
+  replayWebhookDeliveries,
+  type ReplayPacing,
+  type WebhookFixtureDelivery as FixtureDelivery,
+} from '@chykalophia/clickup-mcp-shared';
+import { WebhookPayloadSchema, type WebhookPayload } from '../schemas/webhook-schemas.js';
+import { sanitizeObject } from '../utils/security.js';
+
+/**
+ * Recorded webhook deliveries, for testing rules and automations against
+ * real ClickUp payloads without a live workspace.
+ *
+ * A fixture is a JSON Lines file with one delivery per line, in the format
+ * that @chykalophia/clickup-mcp-shared reads and paces for both this server
+ * and the intelligence server's replay. Deliveries are scrubbed before they
+ * are written: sanitizeObject drops prototype-polluting keys, and personal
+ * fields of the users in history items (e-mail, username, initials, profile
+ * picture) are replaced; IDs are kept so rules that match on them still work.
+ * Only harmless headers are kept. The original X-Signature cannot survive
+ * scrubbing, so replayWebhookFixture signs each body again with a secret of
+ * the test's choosing.
+ */
+
+export const REDACTED = '[redacted]';
+
+/** Keys whose string values are replaced when a delivery is scrubbed. */
+export const DEFAULT_REDACTED_KEYS = ['email', 'username', 'initials', 'profilePicture'];
+
+// Signature and delivery-specific headers are dropped
+const RECORDED_HEADERS = ['content-type', 'user-agent'];
+
+export type WebhookFixtureDelivery = FixtureDelivery<WebhookPayload>;
+
+export interface ScrubOptions {
+  redactKeys?: string[];
+}
+
+/** A scrubbed copy of a delivery payload; the input is left as it was. */
+export function scrubWebhookPayload(payload: unknown, options: ScrubOptions = {}): WebhookPayload {
+  const redactKeys = new Set(options.redactKeys ?? DEFAULT_REDACTED_KEYS);
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        redactKeys.has(key) && typeof entry === 'string' && entry !== '' ? REDACTED : redact(entry),
+      ])
+    );
+  };
+  // JSON round trip: a deep copy for sanitizeObject to modify in place
+  return WebhookPayloadSchema.parse(redact(sanitizeObject(JSON.parse(JSON.stringify(payload)))));
+}
+
+const recordedHeaders = (headers: Record<string, string | string[] | undefined>): Record<string, string> =>
+  Object.fromEntries(
+    RECORDED_HEADERS.flatMap(name => {
+      const value = headers[name];
+      return typeof value === 'string' ? [[name, value]] : [];
+    })
+  );
+
+/** Appends scrubbed deliveries to a fixture file. */
+export class WebhookRecorder {
+  readonly filePath: string;
+  private readonly options: ScrubOptions;
+
+  constructor(filePath: string, options: ScrubOptions = {}) {
+    this.filePath = filePath;
+    this.options = options;
+  }
+
+  record(
+    payload: unknown,
+    headers: Record<string, string | string[] | undefined>,
+    receivedAt = Date.now()
+  ): WebhookFixtureDelivery {
+    const delivery: WebhookFixtureDelivery = {
+      received_at: receivedAt,
+      headers: recordedHeaders(headers),
+      payload: scrubWebhookPayload(payload, this.options),
+    };
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    appendFileSync(this.filePath, `${JSON.stringify(delivery)}\n`, { encoding: 'utf8', mode: 0o600 });
+    return delivery;
+  }
+}
+
+/** Parse fixture text; each line must be a delivery with a valid ClickUp payload. */
+export const parseWebhookFixture = (text: string): WebhookFixtureDelivery[] =>
+  parseFixture(text, payload => WebhookPayloadSchema.parse(payload));
+
+export const readWebhookFixture = (filePath: string): WebhookFixtureDelivery[] =>
+  readFixture(filePath, payload => WebhookPayloadSchema.parse(payload));
+
+export interface ReplayedDelivery {
+  index: number;
+  received_at: number;
+  // Raw body as it would arrive, and its headers (with X-Signature when a secret is given)
+  body: string;
+  headers: Record<string, string>;
+  payload: WebhookPayload;
+}
+
+export interface ReplayOptions extends ReplayPacing {
+  // Sign each body with this secret, as ClickUp would
+  secret?: string;
+}
+
+/**
+ * Feed recorded deliveries to `deliver` in order, one at a time, waiting
+ * between them according to `speed`. Returns what `deliver` returned for each.
+ */
+export async function replayWebhookFixture<T>(
+  deliveries: WebhookFixtureDelivery[],
+  deliver: (delivery: ReplayedDelivery) => Promise<T> | T,
+  options: ReplayOptions = {}
+): Promise<T[]> {
+  return replayWebhookDeliveries(
+    deliveries,
+    (delivery, index) => {
+      const body = JSON.stringify(delivery.payload);
+      const headers = { ...delivery.headers };
+      if (options.secret) {
+        headers['x-signature'] = crypto.createHmac('sha256', options.secret).update(body).digest('hex');
+      }
+      return deliver({ index, received_at: delivery.received_at, body, headers, payload: delivery.payload });
+    },
+    options
+  );
+}
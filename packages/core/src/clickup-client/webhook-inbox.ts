@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { appendFileSync, closeSync, fstatSync, mkdirSync, openSync, readSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { WebhookPayload } from '../schemas/webhook-schemas.js';
+import { getDataDir } from '../utils/local-store.js';
+import { getTokenScope } from './session.js';
+
+/**
+ * Durable inbox of webhook deliveries, filled by the webhook receiver
+ * (src/webhook-receiver.ts) and read by clickup_get_webhook_events.
+ *
+ * The inbox is an append-only JSON Lines file under the data directory: a
+ * line per event and a line per acknowledgement. Readers fold in whatever
+ * was appended since they last looked, so a receiver running in one server
+ * process and tools in another share one inbox. ClickUp redelivers with the
+ * same history items, so a delivery whose history item IDs are all stored
+ * already is a duplicate; one without history items is matched by body hash.
+ * Past MAX_INBOX_EVENTS events the file is rewritten with the newest
+ * COMPACT_TO_EVENTS, so rewrites happen once per thousand or so deliveries
+ * rather than on every one.
+ *
+ * Each event carries the token scope that owns its webhook (see
+ * webhook-secrets.ts). Listing and acknowledging only see the events of the
+ * caller's scope, like the journal and goal history, so HTTP sessions with
+ * different ClickUp tokens cannot read or hide each other's deliveries.
+ */
+
+const MAX_INBOX_EVENTS = 5000;
+// Low-water mark a compaction trims the inbox down to
+const COMPACT_TO_RATIO = 0.8;
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface WebhookInboxEvent {
+  id: string;
+  // Unix ms
+  received_at: number;
+  webhook_id: string;
+  event: string;
+  task_id?: string;
+  // History item IDs, or a hash of the body when the delivery has none
+  dedupe_keys: string[];
+  payload: WebhookPayload;
+  acknowledged_at?: number;
+  // Token scope of the webhook's owner; omitted for the server's own token
+  scope?: string;
+}
+
+type InboxLine = { kind: 'event'; event: WebhookInboxEvent } | { kind: 'ack'; ids: string[]; at: number };
+
+export interface WebhookEventFilter {
+  // Unix ms; events received at or after
+  since?: number;
+  eventTypes?: string[];
+  taskId?: string;
+  includeAcknowledged?: boolean;
+  limit?: number;
+}
+
+export interface WebhookEventPage {
+  events: WebhookInboxEvent[];
+  // Matching events beyond the limit
+  remaining: number;
+}
+
+export class WebhookInbox {
+  private readonly filePath?: string;
+  private readonly maxEvents: number;
+  private events: WebhookInboxEvent[] = [];
+  private byId = new Map<string, WebhookInboxEvent>();
+  private seen = new Set<string>();
+  // Bytes of the file folded in so far, and the file they came from
+  private offset = 0;
+  private inode?: number;
+
+  constructor(options: { filePath?: string; maxEvents?: number } = {}) {
+    this.filePath = options.filePath;
+    this.maxEvents = options.maxEvents ?? MAX_INBOX_EVENTS;
+  }
+
+  /**
+   * Store a delivery. `body` is the raw request body, hashed for deliveries
+   * without history items. A redelivery is reported as a duplicate and not
+   * stored again. `scope` is the token scope the event belongs to.
+   */
+  add(
+    payload: WebhookPayload,
+    body: string,
+    receivedAt = Date.now(),
+    scope = ''
+  ): { duplicate: boolean; event: WebhookInboxEvent } {
+    this.sync();
+    const itemIds = (payload.history_items ?? []).map(item => item.id).filter((id): id is string => !!id);
+    const dedupeKeys =
+      itemIds.length > 0 ? itemIds : [`sha256:${crypto.createHash('sha256').update(body).digest('hex')}`];
+    if (dedupeKeys.every(key => this.seen.has(key))) {
+      const original = this.events.find(event => event.dedupe_keys.some(key => dedupeKeys.includes(key)))!;
+      return { duplicate: true, event: original };
+    }
+
+    const event: WebhookInboxEvent = {
+      id: crypto.randomUUID(),
+      received_at: receivedAt,
+      webhook_id: payload.webhook_id,
+      event: payload.event,
+      ...(payload.task_id && { task_id: payload.task_id }),
+      dedupe_keys: dedupeKeys,
+      payload,
+      ...(scope && { scope }),
+    };
+    this.append({ kind: 'event', event });
+    if (this.events.length > this.maxEvents) {
+      this.compact();
+    }
+    return { duplicate: false, event: this.byId.get(event.id) ?? event };
+  }
+
+  /** Matching events of the caller's token scope, oldest first. */
+  list(filter: WebhookEventFilter = {}): WebhookEventPage {
+    this.sync();
+    const scope = getTokenScope();
+    const eventTypes = filter.eventTypes?.length ? new Set(filter.eventTypes) : undefined;
+    const matching = this.events.filter(
+      event =>
+        (event.scope ?? '') === scope &&
+        (filter.includeAcknowledged || event.acknowledged_at === undefined) &&
+        (filter.since === undefined || event.received_at >= filter.since) &&
+        (!eventTypes || eventTypes.has(event.event)) &&
+        (!filter.taskId || event.task_id === filter.taskId)
+    );
+    const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+    return { events: matching.slice(0, limit), remaining: Math.max(0, matching.length - limit) };
+  }
+
+  /**
+   * Mark events as handled; returns the IDs that were not acknowledged before.
+   * Unknown IDs, and those of another token scope's events, are ignored.
+   */
+  acknowledge(ids: string[], at = Date.now()): string[] {
+    this.sync();
+    const scope = getTokenScope();
+    const pending = [...new Set(ids)].filter(id => {
+      const event = this.byId.get(id);
+      return event !== undefined && (event.scope ?? '') === scope && event.acknowledged_at === undefined;
+    });
+    if (pending.length > 0) {
+      this.append({ kind: 'ack', ids: pending, at });
+    }
+    return pending;
+  }
+
+  private apply(line: InboxLine): void {
+    if (line.kind === 'ack') {
+      for (const id of line.ids) {
+        const event = this.byId.get(id);
+        if (event && event.acknowledged_at === undefined) {
+          event.acknowledged_at = line.at;
+        }
+      }
+      return;
+    }
+    const { event } = line;
+    if (this.byId.has(event.id)) {
+      return;
+    }
+    this.events.push(event);
+    this.byId.set(event.id, event);
+    event.dedupe_keys.forEach(key => this.seen.add(key));
+  }
+
+  private append(line: InboxLine): void {
+    if (!this.filePath) {
+      this.apply(line);
+      return;
+    }
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    appendFileSync(this.filePath, `${JSON.stringify(line)}\n`, { encoding: 'utf8', mode: 0o600 });
+    // Fold it in through the file, with anything another process appended first
+    this.sync();
+  }
+
+  /** Fold in the lines appended to the file since the last look. */
+  private sync(): void {
+    if (!this.filePath) {
+      return;
+    }
+    let fd: number;
+    try {
+      fd = openSync(this.filePath, 'r');
+    } catch {
+      return;
+    }
+    try {
+      const { size, ino } = fstatSync(fd);
+      if (ino !== this.inode || size < this.offset) {
+        // First read, or the file was compacted by another process
+        this.events = [];
+        this.byId.clear();
+        this.seen.clear();
+        this.offset = 0;
+        this.inode = ino;
+      }
+      if (size === this.offset) {
+        return;
+      }
+      const buffer = Buffer.alloc(size - this.offset);
+      readSync(fd, buffer, 0, buffer.length, this.offset);
+      // A line still being written has no newline yet; leave it for next time
+      const end = buffer.lastIndexOf(0x0a);
+      if (end < 0) {
+        return;
+      }
+      for (const text of buffer.subarray(0, end).toString('utf8').split('\n')) {
+        try {
+          this.apply(JSON.parse(text) as InboxLine);
+        } catch {
+          // Skip a damaged line rather than lose the rest of the inbox
+        }
+      }
+      this.offset += end + 1;
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Rewrite the file with the newest events, down to the low-water mark.
+   * Lines another process appends to the old file while the copy is written
+   * are carried over to the new one after the rename.
+   */
+  private compact(): void {
+    const keep = (events: WebhookInboxEvent[]) => events.slice(-Math.floor(this.maxEvents * COMPACT_TO_RATIO));
+    if (!this.filePath) {
+      const kept = keep(this.events);
+      this.events = [];
+      this.byId.clear();
+      this.seen.clear();
+      kept.forEach(event => this.apply({ kind: 'event', event }));
+      return;
+    }
+
+    // Hold the old file open: after the rename it is the only way to reach it
+    const fd = openSync(this.filePath, 'r');
+    try {
+      this.sync();
+      if (fstatSync(fd).ino !== this.inode || this.events.length <= this.maxEvents) {
+        // Another process compacted the file first
+        return;
+      }
+      const copied = this.offset;
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(
+        tempPath,
+        keep(this.events)
+          .map(event => `${JSON.stringify({ kind: 'event', event })}\n`)
+          .join(''),
+        { encoding: 'utf8', mode: 0o600 }
+      );
+      renameSync(tempPath, this.filePath);
+
+      const { size } = fstatSync(fd);
+      if (size > copied) {
+        const buffer = Buffer.alloc(size - copied);
+        readSync(fd, buffer, 0, buffer.length, copied);
+        const end = buffer.lastIndexOf(0x0a);
+        if (end >= 0) {
+          appendFileSync(this.filePath, buffer.subarray(0, end + 1), { mode: 0o600 });
+        }
+      }
+    } finally {
+      closeSync(fd);
+    }
+    this.inode = undefined;
+    this.sync();
+  }
+}
+
+let _inbox: WebhookInbox | null = null;
+
+/** The server's webhook inbox, under the data directory. */
+export const createWebhookInbox = (): WebhookInbox => {
+  if (!_inbox) {
+    _inbox = new WebhookInbox({ filePath: join(getDataDir(), 'webhooks', 'inbox.jsonl') });
+  }
+  return _inbox;
+};
@@ -0,0 +1,312 @@
+import { readFileSync, realpathSync } from 'fs';
+import { resolve, sep } from 'path';
+import { Webhook, WebhooksEnhancedClient } from './webhooks-enhanced.js';
+import { WebhookSecretStore } from './webhook-secrets.js';
+import { DesiredWebhook, WebhookConfig, WebhookConfigSchema, WebhookEvent } from '../schemas/webhook-schemas.js';
+
+/**
+ * Webhook reconciliation: bring a workspace's webhooks in line with a
+ * declarative list of the webhooks it should have.
+ *
+ * A desired webhook matches an existing one with the same endpoint and scope
+ * (space, folder, list or task). A match whose event set differs is updated,
+ * and one ClickUp has suspended after failed deliveries is reactivated. A
+ * desired webhook without a match is created, and its secret stored for the
+ * webhook receiver. Existing webhooks that match nothing (including extra
+ * copies of a matched one) are strays: reported, and deleted only when asked.
+ */
+
+export type WebhookScope = Pick<DesiredWebhook, 'space_id' | 'folder_id' | 'list_id' | 'task_id'>;
+
+export type WebhookReconcileAction =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'unchanged'
+  | 'stray'
+  | 'would_create'
+  | 'would_update'
+  | 'would_delete'
+  | 'failed';
+
+export interface WebhookReconcileResult {
+  action: WebhookReconcileAction;
+  webhook_id?: string;
+  endpoint: string;
+  scope: WebhookScope;
+  events: string[];
+  // What was (or would be) changed, e.g. "events: +taskMoved -taskDeleted"
+  changes: string[];
+  health?: Webhook['health'];
+  error?: string;
+}
+
+export interface WebhookReconcileReport {
+  workspace_id: string;
+  dry_run: boolean;
+  delete_strays: boolean;
+  summary: Partial<Record<WebhookReconcileAction, number>>;
+  results: WebhookReconcileResult[];
+}
+
+export interface ReconcileWebhooksOptions {
+  /** Delete existing webhooks that match no desired webhook (default false: report them). */
+  deleteStrays?: boolean;
+  dryRun?: boolean;
+}
+
+/** A step of a reconciliation, before anything is written. */
+export type WebhookReconcileStep =
+  | { kind: 'create'; desired: DesiredWebhook }
+  | { kind: 'update'; desired: DesiredWebhook; webhook: Webhook; events?: WebhookEvent[]; reactivate: boolean }
+  | { kind: 'unchanged'; desired: DesiredWebhook; webhook: Webhook }
+  | { kind: 'stray'; webhook: Webhook };
+
+const SCOPE_KEYS = ['space_id', 'folder_id', 'list_id', 'task_id'] as const;
+
+const scopeOf = (webhook: Webhook | DesiredWebhook): WebhookScope =>
+  Object.fromEntries(
+    SCOPE_KEYS.flatMap(key => {
+      const value = webhook[key];
+      return value === null || value === undefined || value === '' ? [] : [[key, String(value)]];
+    })
+  );
+
+const identity = (webhook: Webhook | DesiredWebhook): string => {
+  const scope = scopeOf(webhook);
+  return JSON.stringify([webhook.endpoint, ...SCOPE_KEYS.map(key => scope[key] ?? '')]);
+};
+
+const isSuspended = (webhook: Webhook) => webhook.health?.status === 'suspended';
+
+/** Events to add and remove to turn `current` into `desired`. */
+export function eventDrift(current: string[], desired: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: [...new Set(desired)].filter(event => !current.includes(event)).sort(),
+    removed: [...new Set(current)].filter(event => !desired.includes(event)).sort(),
+  };
+}
+
+/**
+ * Work out what reconciling `existing` webhooks to `desired` takes. Throws
+ * when the config lists the same endpoint and scope twice.
+ */
+export function planWebhookReconciliation(desired: DesiredWebhook[], existing: Webhook[]): WebhookReconcileStep[] {
+  const seen = new Set<string>();
+  for (const webhook of desired) {
+    const key = identity(webhook);
+    if (seen.has(key)) {
+      throw new Error(`Webhook config lists ${webhook.endpoint} with the same scope more than once`);
+    }
+    seen.add(key);
+  }
+
+  const unmatched = [...existing];
+  const steps: WebhookReconcileStep[] = desired.map(entry => {
+    const candidates = unmatched.filter(webhook => identity(webhook) === identity(entry));
+    // Of several copies, keep one that is still delivering
+    const webhook = candidates.find(candidate => !isSuspended(candidate)) ?? candidates[0];
+    if (!webhook) {
+      return { kind: 'create', desired: entry };
+    }
+    unmatched.splice(unmatched.indexOf(webhook), 1);
+
+    const { added, removed } = eventDrift(webhook.events, entry.events);
+    const drifted = added.length > 0 || removed.length > 0;
+    if (!drifted && !isSuspended(webhook)) {
+      return { kind: 'unchanged', desired: entry, webhook };
+    }
+    return {
+      kind: 'update',
+      desired: entry,
+      webhook,
+      ...(drifted && { events: entry.events }),
+      reactivate: isSuspended(webhook),
+    };
+  });
+
+  return [...steps, ...unmatched.map(webhook => ({ kind: 'stray' as const, webhook }))];
+}
+
+const isWithin = (root: string, path: string) => path === root || path.startsWith(root + sep);
+
+/**
+ * Read a webhook config file ({ "webhooks": [...] }, JSON) from
+ * CLICKUP_WEBHOOK_CONFIG_DIR; relative paths resolve against it. Without that
+ * directory config files are refused, since the caller may be a remote MCP
+ * client. Errors name the file as given; a JSON syntax error is reported
+ * without the parser's message, which quotes the file.
+ */
+export function readWebhookConfig(filePath: string): WebhookConfig {
+  const root = process.env.CLICKUP_WEBHOOK_CONFIG_DIR?.trim();
+  if (!root) {
+    throw new Error('config_file needs CLICKUP_WEBHOOK_CONFIG_DIR to be set; pass webhooks instead');
+  }
+  if (filePath.includes('\0')) {
+    throw new Error('Invalid config_file');
+  }
+  const base = resolve(root);
+  const outside = new Error('config_file is outside the configured CLICKUP_WEBHOOK_CONFIG_DIR');
+  if (!isWithin(base, resolve(base, filePath))) {
+    throw outside;
+  }
+  let text: string;
+  try {
+    // Canonicalize both sides so symlinks inside the directory cannot escape it
+    const path = realpathSync(resolve(base, filePath));
+    if (!isWithin(realpathSync(base), path)) {
+      throw outside;
+    }
+    text = readFileSync(path, 'utf8');
+  } catch (error: unknown) {
+    if (error === outside) {
+      throw error;
+    }
+    const code = (error as { code?: string }).code;
+    throw new Error(`Cannot read webhook config ${filePath}${code ? ` (${code})` : ''}`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`Invalid webhook config ${filePath}: invalid JSON`);
+  }
+  try {
+    return WebhookConfigSchema.parse(json);
+  } catch (error: unknown) {
+    throw new Error(`Invalid webhook config ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const describeUpdate = (step: Extract<WebhookReconcileStep, { kind: 'update' }>): string[] => {
+  const changes: string[] = [];
+  if (step.events) {
+    const { added, removed } = eventDrift(step.webhook.events, step.events);
+    changes.push(`events: ${[...added.map(event => `+${event}`), ...removed.map(event => `-${event}`)].join(' ')}`);
+  }
+  if (step.reactivate) {
+    changes.push(`reactivate (suspended after ${step.webhook.health?.fail_count ?? 0} failed deliveries)`);
+  }
+  return changes;
+};
+
+const numericId = (value: string | undefined): number | undefined => (value === undefined ? undefined : Number(value));
+
+export class WebhookReconciler {
+  private webhooks: WebhooksEnhancedClient;
+  private secrets: WebhookSecretStore;
+
+  constructor(webhooks: WebhooksEnhancedClient, secrets: WebhookSecretStore) {
+    this.webhooks = webhooks;
+    this.secrets = secrets;
+  }
+
+  /**
+   * Reconcile a workspace's webhooks with `desired`. Steps are independent:
+   * one that fails is reported and the rest still run.
+   */
+  async reconcile(
+    workspaceId: string,
+    desired: DesiredWebhook[],
+    options: ReconcileWebhooksOptions = {}
+  ): Promise<WebhookReconcileReport> {
+    const dryRun = options.dryRun ?? false;
+    const deleteStrays = options.deleteStrays ?? false;
+    const { webhooks: existing } = await this.webhooks.getWebhooks({ workspace_id: workspaceId });
+    const steps = planWebhookReconciliation(desired, existing);
+
+    const results: WebhookReconcileResult[] = [];
+    for (const step of steps) {
+      const webhook = step.kind === 'create' ? undefined : step.webhook;
+      const source = step.kind === 'stray' ? step.webhook : step.desired;
+      const result: WebhookReconcileResult = {
+        action: 'failed',
+        ...(webhook && { webhook_id: webhook.id }),
+        endpoint: source.endpoint,
+        scope: scopeOf(source),
+        events: source.events,
+        changes: [],
+        ...(webhook?.health && { health: webhook.health }),
+      };
+      results.push(result);
+      try {
+        await this.apply(workspaceId, step, result, dryRun, deleteStrays);
+      } catch (error: unknown) {
+        result.action = 'failed';
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const summary: WebhookReconcileReport['summary'] = {};
+    for (const result of results) {
+      summary[result.action] = (summary[result.action] ?? 0) + 1;
+    }
+    return { workspace_id: workspaceId, dry_run: dryRun, delete_strays: deleteStrays, summary, results };
+  }
+
+  private async apply(
+    workspaceId: string,
+    step: WebhookReconcileStep,
+    result: WebhookReconcileResult,
+    dryRun: boolean,
+    deleteStrays: boolean
+  ): Promise<void> {
+    switch (step.kind) {
+      case 'unchanged':
+        result.action = 'unchanged';
+        return;
+      case 'create': {
+        result.changes = ['create'];
+        if (dryRun) {
+          result.action = 'would_create';
+          return;
+        }
+        const created = await this.webhooks.createWebhook({
+          workspace_id: workspaceId,
+          endpoint: step.desired.endpoint,
+          events: step.desired.events,
+          space_id: numericId(step.desired.space_id),
+          folder_id: numericId(step.desired.folder_id),
+          list_id: numericId(step.desired.list_id),
+          task_id: step.desired.task_id,
+        });
+        if (created.webhook?.secret) {
+          this.secrets.save(created.id, created.webhook.secret);
+        }
+        result.action = 'created';
+        result.webhook_id = created.id;
+        return;
+      }
+      case 'update':
+        result.changes = describeUpdate(step);
+        if (dryRun) {
+          result.action = 'would_update';
+          return;
+        }
+        await this.webhooks.updateWebhook({
+          webhook_id: step.webhook.id,
+          workspace_id: workspaceId,
+          ...(step.events && { events: step.events }),
+          ...(step.reactivate && { status: 'active' as const }),
+        });
+        result.action = 'updated';
+        return;
+      case 'stray':
+        if (!deleteStrays) {
+          result.action = 'stray';
+          return;
+        }
+        result.changes = ['delete'];
+        if (dryRun) {
+          result.action = 'would_delete';
+          return;
+        }
+        await this.webhooks.deleteWebhook(step.webhook.id);
+        this.secrets.remove(step.webhook.id);
+        result.action = 'deleted';
+    }
+  }
+}
+
+export const createWebhookReconciler = (webhooks: WebhooksEnhancedClient, secrets: WebhookSecretStore) =>
+  new WebhookReconciler(webhooks, secrets);
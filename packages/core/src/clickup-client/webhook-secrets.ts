@@ -0,0 +1,95 @@
+import { join } from 'path';
+import { getDataDir, readJsonFile, writeJsonFile } from '../utils/local-store.js';
+import { getTokenScope } from './session.js';
+
+/**
+ * Signing secrets of webhooks, for the webhook receiver to verify
+ * X-Signature. ClickUp returns a webhook's secret only when it is created,
+ * so clickup_create_webhook stores it here (an owner-only file under the
+ * data directory). Secrets of webhooks created elsewhere can be supplied as
+ * CLICKUP_WEBHOOK_SECRETS="<webhook id>=<secret>,…", which takes precedence.
+ *
+ * Each stored secret also records the token scope (see session.ts) that
+ * created the webhook, so the inbox only shows its deliveries to sessions
+ * with the same ClickUp token. Configured secrets belong to the server's own
+ * token.
+ */
+
+interface StoredSecret {
+  secret: string;
+  created_at: string;
+  // Token scope of the creator; omitted for the server's own token
+  scope?: string;
+}
+
+/** Parse CLICKUP_WEBHOOK_SECRETS: comma-separated `<webhook id>=<secret>` pairs. */
+export function parseWebhookSecrets(value: string | undefined): Map<string, string> {
+  const secrets = new Map<string, string>();
+  for (const pair of (value ?? '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      const id = pair.slice(0, separator).trim();
+      const secret = pair.slice(separator + 1).trim();
+      if (id && secret) {
+        secrets.set(id, secret);
+      }
+    }
+  }
+  return secrets;
+}
+
+export class WebhookSecretStore {
+  private readonly filePath?: string;
+  private readonly configured: Map<string, string>;
+
+  constructor(options: { filePath?: string; configured?: Map<string, string> } = {}) {
+    this.filePath = options.filePath;
+    this.configured = options.configured ?? new Map();
+  }
+
+  /** The secret for a webhook, or undefined when none is known. */
+  get(webhookId: string): string | undefined {
+    return this.configured.get(webhookId) ?? this.load()[webhookId]?.secret;
+  }
+
+  /** Token scope that owns a webhook's deliveries ('' for the server's own token). */
+  getScope(webhookId: string): string {
+    return this.configured.has(webhookId) ? '' : (this.load()[webhookId]?.scope ?? '');
+  }
+
+  /** Store a new webhook's secret, owned by the caller's token scope. */
+  save(webhookId: string, secret: string, scope = getTokenScope()): void {
+    if (!this.filePath) {
+      return;
+    }
+    // Re-read first: the receiver may run in another server process
+    const secrets = this.load();
+    secrets[webhookId] = { secret, created_at: new Date().toISOString(), ...(scope && { scope }) };
+    writeJsonFile(this.filePath, secrets);
+  }
+
+  remove(webhookId: string): void {
+    const secrets = this.load();
+    if (this.filePath && webhookId in secrets) {
+      delete secrets[webhookId];
+      writeJsonFile(this.filePath, secrets);
+    }
+  }
+
+  private load(): Record<string, StoredSecret> {
+    return this.filePath ? readJsonFile<Record<string, StoredSecret>>(this.filePath, {}) : {};
+  }
+}
+
+let _secrets: WebhookSecretStore | null = null;
+
+/** The server's webhook secret store (data directory, CLICKUP_WEBHOOK_SECRETS). */
+export const createWebhookSecretStore = (): WebhookSecretStore => {
+  if (!_secrets) {
+    _secrets = new WebhookSecretStore({
+      filePath: join(getDataDir(), 'webhooks', 'secrets.json'),
+      configured: parseWebhookSecrets(process.env.CLICKUP_WEBHOOK_SECRETS),
+    });
+  }
+  return _secrets;
+};
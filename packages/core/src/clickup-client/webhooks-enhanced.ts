@@ -43,6 +43,32 @@ export interface WebhookListResponse {
   webhooks: Webhook[];
 }
 
+/**
+ * Check a delivery's X-Signature (HMAC-SHA256 of the raw body with the
+ * webhook's secret). Shared by clickup_validate_webhook_signature and the
+ * webhook receiver, which has no API client of its own.
+ */
+export function verifyWebhookSignature(request: ValidateWebhookSignatureRequest): boolean {
+  try {
+    const expectedSignature = crypto
+      .createHmac('sha256', request.secret)
+      .update(request.payload)
+      .digest('hex');
+
+    // ClickUp's X-Signature header is the bare lowercase hex HMAC-SHA256 digest.
+    // Strip a 'sha256=' prefix defensively in case a caller forwards one.
+    const receivedSignature = request.signature.replace('sha256=', '');
+
+    return crypto.timingSafeEqual(
+      Buffer.from(expectedSignature, 'hex'),
+      Buffer.from(receivedSignature, 'hex')
+    );
+  } catch (error) {
+    console.error('Error validating webhook signature:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
 export class WebhooksEnhancedClient extends ClickUpClient {
   constructor(apiToken: string) {
     super({ apiToken });
@@ -138,24 +164,7 @@ export class WebhooksEnhancedClient extends ClickUpClient {
    * re-serialized JSON is not byte-identical and will fail verification.
    */
   validateWebhookSignature(request: ValidateWebhookSignatureRequest): boolean {
-    try {
-      const expectedSignature = crypto
-        .createHmac('sha256', request.secret)
-        .update(request.payload)
-        .digest('hex');
-
-      // ClickUp's X-Signature header is the bare lowercase hex HMAC-SHA256 digest.
-      // Strip a 'sha256=' prefix defensively in case a caller forwards one.
-      const receivedSignature = request.signature.replace('sha256=', '');
-
-      return crypto.timingSafeEqual(
-        Buffer.from(expectedSignature, 'hex'),
-        Buffer.from(receivedSignature, 'hex')
-      );
-    } catch (error) {
-      console.error('Error validating webhook signature:', error instanceof Error ? error.message : error);
-      return false;
-    }
+    return verifyWebhookSignature(request);
   }
 
   /**
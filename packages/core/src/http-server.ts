@@ -0,0 +1,361 @@
+/* eslint-disable no-console */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { runWithClickUpToken } from './clickup-client/session.js';
+
+/**
+ * Shared HTTP transport for the core server (`--transport http`).
+ *
+ *   POST/GET/DELETE /mcp   Streamable HTTP (current MCP spec)
+ *   GET /sse + POST /messages?sessionId=…   legacy HTTP+SSE, for older clients
+ *   GET /health            liveness, no auth
+ *
+ * Every MCP request must carry `Authorization: Bearer <token>` matching one of
+ * CLICKUP_MCP_AUTH_TOKENS; without that variable the server only binds to
+ * loopback. A session belongs to the bearer token that opened it.
+ *
+ * Browsers can reach a loopback server from any web page through DNS
+ * rebinding, so on loopback the Host header must name this server, and a
+ * request with an Origin header is only served when that origin is the host
+ * it was sent to.
+ *
+ * A session may send `X-ClickUp-Token` when it opens; all of its ClickUp calls
+ * then use that token (see clickup-client/session.ts) instead of
+ * CLICKUP_API_TOKEN. Each session gets its own McpServer, since a server
+ * instance holds exactly one transport.
+ */
+
+export type TransportKind = 'stdio' | 'http';
+
+export interface TransportOptions {
+  transport: TransportKind;
+  port: number;
+  host: string;
+  // Bearer tokens accepted on incoming connections
+  authTokens: string[];
+  // Reject sessions that don't bring their own ClickUp token
+  requireClickUpToken: boolean;
+}
+
+export interface HttpServerHandle {
+  server: Server;
+  url: string;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Sessions nobody has used for this long are closed
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  // Hash of the bearer token that opened the session ('' when auth is off)
+  owner: string;
+  clickUpToken?: string;
+  lastSeen: number;
+}
+
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+/** Read `--name value` or `--name=value` from argv. */
+const readFlag = (argv: string[], name: string): string | undefined => {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Transport settings from command-line flags, falling back to environment
+ * variables: --transport / CLICKUP_MCP_TRANSPORT, --port / CLICKUP_MCP_PORT,
+ * --host / CLICKUP_MCP_HOST, plus CLICKUP_MCP_AUTH_TOKENS and
+ * CLICKUP_MCP_REQUIRE_CLICKUP_TOKEN.
+ */
+export function parseTransportOptions(
+  argv: string[] = process.argv.slice(2),
+  env: Record<string, string | undefined> = process.env
+): TransportOptions {
+  const transport = (readFlag(argv, 'transport') ?? env.CLICKUP_MCP_TRANSPORT ?? 'stdio').trim().toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}" — use stdio or http`);
+  }
+  const rawPort = readFlag(argv, 'port') ?? env.CLICKUP_MCP_PORT;
+  const port = rawPort === undefined ? DEFAULT_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${rawPort}"`);
+  }
+  return {
+    transport,
+    port,
+    host: (readFlag(argv, 'host') ?? env.CLICKUP_MCP_HOST ?? DEFAULT_HOST).trim(),
+    authTokens: (env.CLICKUP_MCP_AUTH_TOKENS ?? '')
+      .split(',')
+      .map(token => token.trim())
+      .filter(Boolean),
+    requireClickUpToken: ['1', 'true', 'yes'].includes((env.CLICKUP_MCP_REQUIRE_CLICKUP_TOKEN ?? '').toLowerCase()),
+  };
+}
+
+const sha256 = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+
+/**
+ * Identify the caller by bearer token. Returns '' when auth is off, the
+ * token's hash when it matches, and undefined when it is missing or wrong.
+ */
+function authenticate(req: IncomingMessage, authTokens: string[]): string | undefined {
+  if (authTokens.length === 0) {
+    return '';
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return undefined;
+  }
+  const presented = sha256(match[1].trim());
+  // Compare digests in constant time against every configured token
+  const valid = authTokens.some(token => crypto.timingSafeEqual(sha256(token), presented));
+  return valid ? presented.toString('hex') : undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw httpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw httpError(400, 'Request body is not valid JSON');
+  }
+}
+
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string): void => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+};
+
+const headerValue = (req: IncomingMessage, name: string): string | undefined => {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+};
+
+/**
+ * Reject requests from web pages that are not this server: a Host header
+ * outside `allowedHosts` (when given) or an Origin on another host.
+ */
+function checkRequestOrigin(req: IncomingMessage, allowedHosts: Set<string> | undefined): void {
+  const host = headerValue(req, 'host')?.toLowerCase();
+  if (allowedHosts && (!host || !allowedHosts.has(host))) {
+    throw httpError(403, 'Host header does not name this server');
+  }
+  const origin = headerValue(req, 'origin');
+  if (origin === undefined) {
+    return;
+  }
+  let originHost: string | undefined;
+  try {
+    originHost = new URL(origin).host.toLowerCase();
+  } catch {
+    // "null" and other opaque origins
+  }
+  if (originHost !== host) {
+    throw httpError(403, `Cross-origin requests from ${origin} are not allowed`);
+  }
+}
+
+/**
+ * Start serving MCP over HTTP. `createMcpServer` must return a fresh server
+ * with every tool and resource registered; it is called once per session.
+ */
+export async function startHttpServer(
+  options: TransportOptions,
+  createMcpServer: () => McpServer
+): Promise<HttpServerHandle> {
+  if (options.authTokens.length === 0 && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(
+      `Refusing to serve on ${options.host} without authentication — set CLICKUP_MCP_AUTH_TOKENS or bind to 127.0.0.1`
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  // Host headers a loopback server answers to, once its port is known
+  let allowedHosts: Set<string> | undefined;
+
+  const findSession = (sessionId: string, owner: string): Session => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      throw httpError(404, `Session ${sessionId} not found — start a new session with initialize`);
+    }
+    if (session.owner !== owner) {
+      throw httpError(403, 'Session belongs to a different client');
+    }
+    session.lastSeen = Date.now();
+    return session;
+  };
+
+  const openSession = (
+    req: IncomingMessage,
+    owner: string,
+    transport: StreamableHTTPServerTransport | SSEServerTransport
+  ): Session => {
+    const clickUpToken = headerValue(req, 'x-clickup-token');
+    if (!clickUpToken && options.requireClickUpToken) {
+      throw httpError(401, 'This server requires each session to send its ClickUp token in X-ClickUp-Token');
+    }
+    return { transport, server: createMcpServer(), owner, clickUpToken, lastSeen: Date.now() };
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse, owner: string): Promise<void> => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = findSession(sessionId, owner);
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw httpError(400, `Session ${sessionId} uses the SSE transport; post to /messages instead`);
+      }
+      const transport = session.transport;
+      await runWithClickUpToken(session.clickUpToken, () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw httpError(400, 'No mcp-session-id header — the first request of a session must be initialize');
+    }
+    let session: Session | undefined = undefined;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, session!);
+      },
+    });
+    session = openSession(req, owner, transport);
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await session.server.connect(transport);
+    await runWithClickUpToken(session.clickUpToken, () => transport.handleRequest(req, res, body));
+  };
+
+  const handleSseOpen = async (req: IncomingMessage, res: ServerResponse, owner: string): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res);
+    const session = openSession(req, owner, transport);
+    sessions.set(transport.sessionId, session);
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+    });
+    await session.server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    owner: string,
+    url: URL
+  ): Promise<void> => {
+    const session = findSession(url.searchParams.get('sessionId') ?? '', owner);
+    if (!(session.transport instanceof SSEServerTransport)) {
+      throw httpError(400, 'Session uses Streamable HTTP; send requests to /mcp instead');
+    }
+    const transport = session.transport;
+    const body = await readJsonBody(req);
+    await runWithClickUpToken(session.clickUpToken, () => transport.handlePostMessage(req, res, body));
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+        return;
+      }
+
+      checkRequestOrigin(req, allowedHosts);
+      const owner = authenticate(req, options.authTokens);
+      if (owner === undefined) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw httpError(401, 'Missing or invalid bearer token');
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res, owner);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseOpen(req, res, owner);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, owner, url);
+      } else {
+        throw httpError(404, `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error: unknown) {
+      const status = (error as Partial<HttpError>).status ?? 500;
+      if (status === 500) {
+        console.error('ClickUp MCP HTTP error:', error instanceof Error ? error.message : error);
+      }
+      if (!res.headersSent) {
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        sessions.delete(id);
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  if (LOOPBACK_HOSTS.has(options.host)) {
+    allowedHosts = new Set(['127.0.0.1', 'localhost', '[::1]'].map(name => `${name}:${port}`));
+  }
+
+  return {
+    server,
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map(session => session.transport.close().catch(() => undefined)));
+      sessions.clear();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -18,6 +18,21 @@ import { setupSpaceTools } from './tools/space-tools.js';
 import { setupChecklistTools } from './tools/checklist-tools.js';
 import { setupCommentTools } from './tools/comment-tools.js';
 import { setupChatTools } from './tools/chat-tools.js';
+import { setupCacheTools } from './tools/cache-tools.js';
+import { setupJournalTools } from './tools/journal-tools.js';
+import { enablePlanMode } from './tools/plan-mode.js';
+import { enableProfiles } from './tools/profiles.js';
+import { createCredentialStore } from './clickup-client/credentials.js';
+import { getWriteMode } from './clickup-client/dry-run.js';
+import { parseTransportOptions, startHttpServer, type TransportOptions } from './http-server.js';
+import { createWebhookInbox } from './clickup-client/webhook-inbox.js';
+import { createWebhookSecretStore } from './clickup-client/webhook-secrets.js';
+import {
+  parseWebhookReceiverOptions,
+  startWebhookReceiver,
+  type WebhookReceiverHandle,
+  type WebhookReceiverOptions,
+} from './webhook-receiver.js';
 import { setupTaskResources } from './resources/task-resources.js';
 import { setupDocResources } from './resources/doc-resources.js';
 import { setupChecklistResources } from './resources/checklist-resources.js';
@@ -42,29 +57,30 @@ const DEBUG_TOOLS_ENABLED = ['1', 'true', 'yes'].includes(
 );
 
 class ClickUpServer {
-  private server: McpServer;
   private toolsets: ResolvedToolsets;
+  private transportOptions: TransportOptions;
+  private webhookReceiverOptions?: WebhookReceiverOptions;
 
   constructor() {
     this.toolsets = resolveToolsets();
+    this.transportOptions = parseTransportOptions();
+    this.webhookReceiverOptions = parseWebhookReceiverOptions();
+  }
 
-    this.server = new McpServer({
+  /** A server with every enabled tool and resource registered. HTTP mode creates one per session. */
+  private createServer(): McpServer {
+    const server = new McpServer({
       name: 'clickup-mcp-server',
       version: VERSION,
     });
 
-    // Handle process termination
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-
     // Set up tools and resources
-    this.setupTools();
-    this.setupResources();
+    this.setupTools(server);
+    this.setupResources(server);
+    return server;
   }
 
-  private setupTools() {
+  private setupTools(server: McpServer) {
     // Each toolset is registered only when enabled — see tools/toolsets.ts and
     // the CLICKUP_TOOLSETS environment variable. Default is every toolset.
     const registrars: Array<[ToolsetName, (server: McpServer) => void]> = [
@@ -84,29 +100,74 @@ class ClickUpServer {
       ['checklists', setupChecklistTools],
       ['comments', (server) => setupCommentTools(server, { includeDebugTools: DEBUG_TOOLS_ENABLED })],
       ['chat', setupChatTools], // Chat messaging and channels
+      ['cache', setupCacheTools], // Local response cache
+      ['journal', setupJournalTools], // Operation journal and undo
     ];
 
+    // Over stdio, every tool gets a profile argument when named credentials are
+    // configured (clickup-mcp-auth); HTTP sessions bring their own token instead
+    if (this.transportOptions.transport === 'stdio') {
+      enableProfiles(server, createCredentialStore());
+    }
+
+    // Mutating tools get a dry_run argument (and honour CLICKUP_DRY_RUN / CLICKUP_READ_ONLY)
+    enablePlanMode(server);
+
     for (const [name, register] of registrars) {
       if (this.toolsets.enabled.has(name)) {
-        register(this.server);
+        register(server);
       }
     }
   }
 
-  private setupResources() {
+  private setupResources(server: McpServer) {
     // Set up all resources
-    setupTaskResources(this.server);
-    setupDocResources(this.server);
-    setupChecklistResources(this.server);
-    setupCommentResources(this.server);
-    setupSpaceResources(this.server);
-    setupFolderResources(this.server);
-    setupListResources(this.server);
+    setupTaskResources(server);
+    setupDocResources(server);
+    setupChecklistResources(server);
+    setupCommentResources(server);
+    setupSpaceResources(server);
+    setupFolderResources(server);
+    setupListResources(server);
   }
 
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    let close: () => Promise<void>;
+    let listening: string;
+    if (this.transportOptions.transport === 'http') {
+      const http = await startHttpServer(this.transportOptions, () => this.createServer());
+      close = http.close;
+      listening = `on ${http.url}/mcp (Streamable HTTP; legacy SSE at /sse)`;
+    } else {
+      const server = this.createServer();
+      await server.connect(new StdioServerTransport());
+      close = () => server.close();
+      listening = 'on stdio';
+    }
+
+    let receiver: WebhookReceiverHandle | undefined;
+    if (this.webhookReceiverOptions) {
+      try {
+        receiver = await startWebhookReceiver(
+          this.webhookReceiverOptions,
+          createWebhookInbox(),
+          createWebhookSecretStore()
+        );
+      } catch (error) {
+        // Typically another server process already runs the receiver; the inbox is shared
+        console.error(
+          'ClickUp MCP server: webhook receiver not started:',
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    // Handle process termination
+    process.on('SIGINT', async () => {
+      await receiver?.close();
+      await close();
+      process.exit(0);
+    });
 
     // stderr only — stdout carries the JSON-RPC stream.
     if (this.toolsets.unknown.length > 0) {
@@ -114,7 +175,20 @@ class ClickUpServer {
         `ClickUp MCP server: ignoring unknown CLICKUP_TOOLSETS entries: ${this.toolsets.unknown.join(', ')}`
       );
     }
-    console.error(`ClickUp MCP server running on stdio with ${describeToolsets(this.toolsets)}`);
+    console.error(`ClickUp MCP server running ${listening} with ${describeToolsets(this.toolsets)}`);
+    if (receiver) {
+      console.error(`ClickUp MCP server: receiving webhooks on ${receiver.url}`);
+      if (receiver.recordingTo) {
+        console.error(`ClickUp MCP server: recording webhook deliveries to ${receiver.recordingTo}`);
+      }
+    }
+    if (this.transportOptions.transport === 'http' && this.transportOptions.authTokens.length === 0) {
+      console.error('ClickUp MCP server: CLICKUP_MCP_AUTH_TOKENS is not set — accepting unauthenticated local clients');
+    }
+    const writeMode = getWriteMode();
+    if (writeMode !== 'live') {
+      console.error(`ClickUp MCP server: ${writeMode} mode — mutating tools return a plan and write nothing`);
+    }
   }
 }
 
@@ -16,3 +16,15 @@ export const idSchema = (message = 'ID is required') =>
     (value) => (typeof value === 'number' ? String(value) : value),
     z.string().min(1, message)
   );
+
+/**
+ * Description suffixes for hierarchy parameters that also accept names.
+ * Tools pass these values through NameResolver (clickup-client/resolver.ts).
+ */
+export const NAME_REF_HINT = {
+  space: ' (ID or space name)',
+  folder: ' (ID, folder name, or "Space / Folder" path)',
+  list: ' (ID, list name, or "Space / Folder / List" path)',
+  container: ' (ID, name, or "Space / Folder" path)',
+  user: 'user IDs, emails, usernames, or "me"',
+} as const;
@@ -95,15 +95,36 @@ export const DeleteTaskLinkSchema = z
   })
   .refine(requiresTeamIdWithCustomIds, { message: TEAM_ID_ERROR });
 
-// Dependency graph options schema (client-side traversal of Get Task data)
-export const DependencyGraphOptionsSchema = z.object({
-  task_id: z.string().min(1).describe('The root task ID for the dependency graph'),
-  depth: z.number().min(1).max(10).default(3).describe('Maximum depth to traverse in the graph'),
-});
+// Reuse of recently fetched tasks across graph calls (see DependenciesEnhancedClient)
+const refreshField = z
+  .boolean()
+  .optional()
+  .describe('Re-fetch every task instead of reusing ones fetched in the last minute');
+
+// Renderings of a dependency graph (see utils/dependency-graph-format.ts)
+export const DEPENDENCY_GRAPH_FORMATS = ['json', 'mermaid', 'graphviz_dot', 'json_graph', 'markdown_table'] as const;
+export type DependencyGraphFormat = (typeof DEPENDENCY_GRAPH_FORMATS)[number];
+
+// Dependency graph options schema (client-side traversal of Get Task data, or one list sweep)
+export const DependencyGraphOptionsSchema = z
+  .object({
+    task_id: z.string().min(1).optional().describe('The root task ID for the dependency graph'),
+    list_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Build the graph of every task in this list from one list read instead'),
+    depth: z.number().min(1).max(10).default(3).describe('Maximum depth to traverse in the graph'),
+    refresh: refreshField,
+    format: z.enum(DEPENDENCY_GRAPH_FORMATS).default('json').describe('How to render the graph'),
+  })
+  .refine(data => !!data.task_id !== !!data.list_id, { message: 'Provide exactly one of task_id or list_id' });
 
 // Dependency conflict check schema (client-side cycle/duplicate detection)
 export const DependencyConflictCheckSchema = z.object({
   task_id: z.string().min(1).describe('The task ID to check for conflicts'),
+  depth: z.number().min(1).max(10).default(10).describe('How far to traverse existing dependencies'),
+  refresh: refreshField,
   proposed_dependencies: z
     .array(
       z
@@ -117,6 +138,31 @@ export const DependencyConflictCheckSchema = z.object({
     .describe('Proposed new dependencies for the task, to check for conflicts before creating'),
 });
 
+// Critical path schema (client-side schedule over a task graph or a whole list)
+export const CriticalPathOptionsSchema = z
+  .object({
+    task_id: idSchema().optional().describe('Root task: schedule the dependency graph around this task'),
+    list_id: idSchema().optional().describe('Schedule every task in this list, plus outside tasks they wait on'),
+    depth: z.number().min(1).max(10).default(5).describe('Graph traversal depth in task_id mode'),
+    start_from: z
+      .string()
+      .optional()
+      .describe('Earliest date work can start (ISO date or epoch ms; default now)'),
+    hours_per_day: z
+      .number()
+      .min(1)
+      .max(24)
+      .default(8)
+      .describe('Working hours per calendar day, used to turn time estimates into calendar time'),
+    default_duration_hours: z
+      .number()
+      .min(0)
+      .default(8)
+      .describe('Work assumed for open tasks with neither a time estimate nor start and due dates'),
+    refresh: refreshField,
+  })
+  .refine(data => !!data.task_id !== !!data.list_id, { message: 'Provide exactly one of task_id or list_id' });
+
 // Bulk dependency operations schema (client-side loop of real per-task calls)
 export const BulkDependencyOperationSchema = z.object({
   operation: z.enum(['create', 'delete']).describe('The bulk operation to perform'),
@@ -146,6 +192,7 @@ export type DeleteTaskLinkRequest = z.infer<typeof DeleteTaskLinkSchema>;
 export type DependencyGraphOptions = z.infer<typeof DependencyGraphOptionsSchema>;
 export type DependencyConflictCheck = z.infer<typeof DependencyConflictCheckSchema>;
 export type BulkDependencyOperation = z.infer<typeof BulkDependencyOperationSchema>;
+export type CriticalPathOptions = z.infer<typeof CriticalPathOptionsSchema>;
 
 // ============================================================================
 // API response shapes
@@ -181,6 +228,9 @@ export interface DependencyGraphNode {
   task_id: string;
   name?: string;
   status?: string;
+  // ClickUp status type ('open', 'custom', 'done', 'closed') and display color
+  status_type?: string;
+  status_color?: string;
   url?: string;
 }
 
@@ -191,8 +241,14 @@ export interface DependencyGraphEdge {
 }
 
 export interface DependencyGraphResponse {
-  root_task_id: string;
-  depth: number;
+  // Set for graphs traversed from a root task
+  root_task_id?: string;
+  depth?: number;
+  // Set for graphs built from a list sweep
+  list_id?: string;
+  // Set when the list sweep stopped at its task cap; `note` says what is missing
+  truncated?: boolean;
+  note?: string;
   nodes: DependencyGraphNode[];
   edges: DependencyGraphEdge[];
   cycles: string[][];
@@ -207,6 +263,46 @@ export interface DependencyConflictResponse {
   }>;
 }
 
+// Per-task result of a critical path analysis. Dates are ISO strings.
+export interface ScheduledTask {
+  task_id: string;
+  name?: string;
+  status?: string;
+  duration_hours: number;
+  duration_source: 'time_estimate' | 'dates' | 'default' | 'completed';
+  earliest_start: string;
+  earliest_finish: string;
+  latest_start: string;
+  latest_finish: string;
+  slack_hours: number;
+  critical: boolean;
+  due_date?: string;
+  waits_on: string[];
+}
+
+export interface InfeasibleDueDate {
+  task_id: string;
+  name?: string;
+  due_date: string;
+  earliest_finish: string;
+  overrun_hours: number;
+  // The chain of unfinished tasks that pushes this one past its due date
+  driven_by: string[];
+}
+
+export interface CriticalPathResponse {
+  scope: { task_id: string } | { list_id: string };
+  project_start: string;
+  projected_finish: string;
+  total_duration_hours: number;
+  critical_path: Array<{ task_id: string; name?: string }>;
+  infeasible_due_dates: InfeasibleDueDate[];
+  tasks: ScheduledTask[];
+  assumptions: string[];
+  // Set when the list sweep stopped at its task cap (explained in assumptions)
+  truncated?: boolean;
+}
+
 // ============================================================================
 // Utility functions (client-side, no HTTP)
 // ============================================================================
@@ -286,3 +382,222 @@ export const validateDependencyChain = (
     errors,
   };
 };
+
+// Task fields used for scheduling; timestamps are ClickUp's epoch-ms strings
+export interface SchedulableTask {
+  id: string;
+  name?: string;
+  status?: string;
+  // True for done/closed statuses
+  completed?: boolean;
+  start_date?: string | null;
+  due_date?: string | null;
+  date_done?: string | null;
+  // Milliseconds of work
+  time_estimate?: number | null;
+}
+
+export interface ScheduleOptions {
+  // Epoch ms
+  start_from: number;
+  hours_per_day: number;
+  default_duration_hours: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Float noise tolerance when comparing computed times
+const SLACK_EPSILON_MS = 60 * 1000;
+
+const toTime = (value?: string | null): number | undefined => {
+  const time = value ? Number(value) : NaN;
+  return Number.isFinite(time) && time > 0 ? time : undefined;
+};
+const toIso = (time: number): string => new Date(time).toISOString();
+const toHours = (ms: number): number => Math.round((ms / HOUR_MS) * 10) / 10;
+
+/**
+ * Critical path method over a set of tasks and their "waits on" edges.
+ *
+ * Durations are calendar time: a time estimate is spread over
+ * `hours_per_day` working hours per day; without one, the span between the
+ * task's start and due dates is used, else `default_duration_hours`.
+ * Completed tasks take no time and finish when they were done. A task starts
+ * no earlier than `start_from`, its own start date, and the finish of every
+ * task it waits on. Edges to tasks outside `tasks` are ignored. Throws on
+ * circular dependencies, which have no schedule.
+ */
+export const computeCriticalPath = (
+  tasks: SchedulableTask[],
+  edges: DependencyEdge[],
+  options: ScheduleOptions
+): Omit<CriticalPathResponse, 'scope'> => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const relevant = edges.filter(
+    edge => byId.has(edge.task_id) && byId.has(edge.depends_on) && edge.task_id !== edge.depends_on
+  );
+  const { cycles } = validateDependencyChain(relevant);
+  if (cycles.length > 0) {
+    throw new Error(
+      `Cannot compute a schedule with circular dependencies: ${cycles.map(cycle => cycle.join(' -> ')).join('; ')}`
+    );
+  }
+
+  const predecessors = new Map<string, Set<string>>(tasks.map(task => [task.id, new Set()]));
+  const successors = new Map<string, Set<string>>(tasks.map(task => [task.id, new Set()]));
+  for (const edge of relevant) {
+    predecessors.get(edge.task_id)?.add(edge.depends_on);
+    successors.get(edge.depends_on)?.add(edge.task_id);
+  }
+
+  // Kahn's algorithm: every task after all the tasks it waits on
+  const order: string[] = [];
+  const remaining = new Map(tasks.map(task => [task.id, predecessors.get(task.id)?.size ?? 0]));
+  const ready = tasks.filter(task => remaining.get(task.id) === 0).map(task => task.id);
+  while (ready.length > 0) {
+    const id = ready.shift() as string;
+    order.push(id);
+    for (const next of successors.get(id) ?? []) {
+      remaining.set(next, (remaining.get(next) ?? 0) - 1);
+      if (remaining.get(next) === 0) {
+        ready.push(next);
+      }
+    }
+  }
+
+  let defaulted = 0;
+  const duration = new Map<string, { ms: number; source: ScheduledTask['duration_source'] }>();
+  for (const task of tasks) {
+    const start = toTime(task.start_date);
+    const due = toTime(task.due_date);
+    if (task.completed) {
+      duration.set(task.id, { ms: 0, source: 'completed' });
+    } else if (task.time_estimate && task.time_estimate > 0) {
+      duration.set(task.id, { ms: (task.time_estimate * 24) / options.hours_per_day, source: 'time_estimate' });
+    } else if (start !== undefined && due !== undefined && due > start) {
+      duration.set(task.id, { ms: due - start, source: 'dates' });
+    } else {
+      defaulted++;
+      duration.set(task.id, {
+        ms: (options.default_duration_hours * HOUR_MS * 24) / options.hours_per_day,
+        source: 'default',
+      });
+    }
+  }
+
+  // Forward pass
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  for (const id of order) {
+    const task = byId.get(id) as SchedulableTask;
+    if (task.completed) {
+      const doneAt = toTime(task.date_done) ?? options.start_from;
+      earliestStart.set(id, doneAt);
+      earliestFinish.set(id, doneAt);
+      continue;
+    }
+    let start = Math.max(options.start_from, toTime(task.start_date) ?? 0);
+    for (const pred of predecessors.get(id) ?? []) {
+      start = Math.max(start, earliestFinish.get(pred) ?? start);
+    }
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + (duration.get(id)?.ms ?? 0));
+  }
+  const projectFinish = Math.max(options.start_from, ...earliestFinish.values());
+
+  // Backward pass
+  const latestFinish = new Map<string, number>();
+  const latestStart = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    let finish = projectFinish;
+    for (const next of successors.get(id) ?? []) {
+      finish = Math.min(finish, latestStart.get(next) ?? finish);
+    }
+    latestFinish.set(id, finish);
+    latestStart.set(id, finish - (duration.get(id)?.ms ?? 0));
+  }
+
+  const slack = (id: string) => (latestStart.get(id) ?? 0) - (earliestStart.get(id) ?? 0);
+  const isOpen = (id: string) => !byId.get(id)?.completed;
+  const isCritical = (id: string) => isOpen(id) && slack(id) <= SLACK_EPSILON_MS;
+
+  // The unfinished predecessor whose finish sets this task's earliest start
+  const drivingPredecessor = (id: string): string | undefined =>
+    [...(predecessors.get(id) ?? [])].find(
+      pred =>
+        isOpen(pred) &&
+        Math.abs((earliestFinish.get(pred) ?? 0) - (earliestStart.get(id) ?? 0)) <= SLACK_EPSILON_MS
+    );
+  const drivingChain = (id: string): string[] => {
+    const chain: string[] = [];
+    for (let pred = drivingPredecessor(id); pred && !chain.includes(pred); pred = drivingPredecessor(pred)) {
+      chain.unshift(pred);
+    }
+    return chain;
+  };
+
+  // Walk back from the task that finishes last along zero-slack drivers
+  const last = order
+    .filter(isCritical)
+    .find(id => Math.abs((earliestFinish.get(id) ?? 0) - projectFinish) <= SLACK_EPSILON_MS);
+  const criticalPath = last ? [...drivingChain(last), last] : [];
+
+  const infeasible: InfeasibleDueDate[] = [];
+  for (const id of order) {
+    const task = byId.get(id) as SchedulableTask;
+    const due = toTime(task.due_date);
+    const finish = earliestFinish.get(id) ?? 0;
+    if (isOpen(id) && due !== undefined && finish - due > SLACK_EPSILON_MS) {
+      infeasible.push({
+        task_id: id,
+        name: task.name,
+        due_date: toIso(due),
+        earliest_finish: toIso(finish),
+        overrun_hours: toHours(finish - due),
+        driven_by: drivingChain(id),
+      });
+    }
+  }
+
+  const scheduled: ScheduledTask[] = order
+    .map(id => {
+      const task = byId.get(id) as SchedulableTask;
+      const due = toTime(task.due_date);
+      return {
+        task_id: id,
+        name: task.name,
+        status: task.status,
+        duration_hours: toHours(duration.get(id)?.ms ?? 0),
+        duration_source: duration.get(id)?.source ?? 'default',
+        earliest_start: toIso(earliestStart.get(id) ?? 0),
+        earliest_finish: toIso(earliestFinish.get(id) ?? 0),
+        latest_start: toIso(latestStart.get(id) ?? 0),
+        latest_finish: toIso(latestFinish.get(id) ?? 0),
+        slack_hours: isOpen(id) ? toHours(slack(id)) : 0,
+        critical: isCritical(id),
+        ...(due !== undefined && { due_date: toIso(due) }),
+        waits_on: [...(predecessors.get(id) ?? [])],
+      };
+    })
+    .sort((a, b) => a.earliest_start.localeCompare(b.earliest_start));
+
+  const assumptions = [
+    `Time estimates are spread over ${options.hours_per_day} working hours per calendar day; ` +
+      'weekends and holidays are not skipped.',
+  ];
+  if (defaulted > 0) {
+    assumptions.push(
+      `${defaulted} open task(s) had no time estimate or start/due dates ` +
+        `and were given ${options.default_duration_hours}h of work.`
+    );
+  }
+
+  return {
+    project_start: toIso(options.start_from),
+    projected_finish: toIso(projectFinish),
+    total_duration_hours: toHours(projectFinish - options.start_from),
+    critical_path: criticalPath.map(id => ({ task_id: id, name: byId.get(id)?.name })),
+    infeasible_due_dates: infeasible,
+    tasks: scheduled,
+    assumptions,
+  };
+};
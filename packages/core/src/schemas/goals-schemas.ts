@@ -116,6 +116,71 @@ export const GoalProgressSchema = z.object({
   unit: z.string().nullable(),
 });
 
+// ========================================
+// GOAL TARGET SYNC SCHEMAS
+// ========================================
+
+// Where a task-based source reads from; exactly one is required
+const SourceLocationShape = {
+  list_id: z.string().optional(),
+  folder_id: z.string().optional(),
+  space_id: z.string().optional(),
+};
+
+// Source a number or currency target's current value is computed from
+export const GoalTargetSourceSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.literal('closed_tasks'),
+      ...SourceLocationShape,
+      // Only count tasks closed in this range (Unix ms)
+      start_date: z.number().positive().optional(),
+      end_date: z.number().positive().optional(),
+    }),
+    z.object({
+      type: z.literal('custom_field_sum'),
+      ...SourceLocationShape,
+      field_id: z.string().min(1, 'Custom field ID is required'),
+      closed_only: z.boolean().optional().default(false),
+    }),
+    z.object({
+      type: z.literal('tracked_hours'),
+      ...SourceLocationShape,
+      assignee: z.union([UserIdSchema, z.string().regex(/^\d+(,\d+)*$/)]).optional(),
+      start_date: z.number().positive().optional(),
+      end_date: z.number().positive().optional(),
+    }),
+  ])
+  .superRefine((source, ctx) => {
+    const locations = [source.list_id, source.folder_id, source.space_id].filter(Boolean).length;
+    if (locations > 1 || (locations === 0 && source.type !== 'tracked_hours')) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          source.type === 'tracked_hours'
+            ? 'Give at most one of list_id, folder_id and space_id'
+            : 'Give exactly one of list_id, folder_id and space_id',
+      });
+    }
+  });
+
+export type GoalTargetSource = z.infer<typeof GoalTargetSourceSchema>;
+
+// Bind a target to a source schema
+export const SetGoalTargetSourceSchema = z.object({
+  goal_id: GoalIdSchema,
+  target_id: TargetIdSchema,
+  source: GoalTargetSourceSchema.optional(),
+  remove: z.boolean().optional().default(false),
+});
+
+// Sync bound targets schema
+export const SyncGoalTargetsSchema = z.object({
+  goal_id: GoalIdSchema.optional(),
+  target_ids: z.array(TargetIdSchema).optional(),
+  dry_run: z.boolean().optional().default(false),
+});
+
 // ========================================
 // RESPONSE TYPE SCHEMAS
 // ========================================
@@ -300,4 +365,8 @@ export const GoalsToolSchemas = {
 
   // Progress operations
   updateGoalProgress: UpdateGoalProgressSchema,
+
+  // Target sync operations
+  setGoalTargetSource: SetGoalTargetSourceSchema,
+  syncGoalTargets: SyncGoalTargetsSchema,
 };
@@ -166,6 +166,89 @@ export const GetTimeSummarySchema = z.object({
   billable_only: z.boolean().optional().default(false),
 });
 
+// ========================================
+// TIMESHEET REPORT SCHEMAS
+// ========================================
+
+export const TIMESHEET_DIMENSIONS = ['user', 'task', 'list', 'folder', 'space', 'tag', 'billable'] as const;
+export type TimesheetDimension = (typeof TIMESHEET_DIMENSIONS)[number];
+
+export const TIMESHEET_BUCKETS = ['day', 'week', 'month', 'none'] as const;
+export type TimesheetBucket = (typeof TIMESHEET_BUCKETS)[number];
+
+export const TIMESHEET_FORMATS = ['markdown', 'csv', 'json'] as const;
+export type TimesheetFormat = (typeof TIMESHEET_FORMATS)[number];
+
+// IANA zone names, checked against the runtime's Intl data
+export const TimeZoneSchema = z.string().refine(
+  (zone) => {
+    try {
+      return Boolean(new Intl.DateTimeFormat('en-US', { timeZone: zone }).resolvedOptions().timeZone);
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Unknown IANA time zone (e.g. "UTC", "Europe/Berlin", "America/New_York")' }
+);
+
+// Get timesheet report schema
+export const GetTimesheetReportSchema = z.object({
+  team_id: TeamIdSchema,
+  start_date: z.number().positive().optional(),
+  end_date: z.number().positive().optional(),
+  assignee: z.union([UserIdSchema, z.string().regex(/^\d+(,\d+)*$/)]).optional(),
+  task_id: z.string().optional(),
+  list_id: z.string().optional(),
+  folder_id: z.string().optional(),
+  space_id: z.string().optional(),
+  group_by: z.array(z.enum(TIMESHEET_DIMENSIONS)).min(1).optional().default(['user']),
+  bucket: z.enum(TIMESHEET_BUCKETS).optional().default('week'),
+  timezone: TimeZoneSchema.optional().default('UTC'),
+  week_start: z.enum(['monday', 'sunday']).optional().default('monday'),
+  billable: z.enum(['all', 'billable', 'non_billable']).optional().default('all'),
+  format: z.enum(TIMESHEET_FORMATS).optional().default('markdown'),
+});
+
+// ========================================
+// TIME ENTRY AUDIT SCHEMAS
+// ========================================
+
+// Index matches Date#getUTCDay (0 = Sunday)
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Audit time entries schema
+export const AuditTimeEntriesSchema = z.object({
+  team_id: TeamIdSchema,
+  start_date: z.number().positive().optional(),
+  end_date: z.number().positive().optional(),
+  assignee: z.union([UserIdSchema, z.string().regex(/^\d+(,\d+)*$/)]).optional(),
+  timezone: TimeZoneSchema.optional().default('UTC'),
+  max_timer_hours: z.number().positive().optional().default(10),
+  expected_hours_per_day: z.number().min(0).max(24).optional().default(8),
+  working_days: z.array(z.enum(WEEKDAYS)).optional().default(['monday', 'tuesday', 'wednesday', 'thursday', 'friday']),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')).optional().default([]),
+});
+
+// ========================================
+// ESTIMATE ACCURACY SCHEMAS
+// ========================================
+
+// Get estimate accuracy schema
+export const GetEstimateAccuracySchema = z.object({
+  team_id: TeamIdSchema,
+  list_id: z.string().optional(),
+  folder_id: z.string().optional(),
+  space_id: z.string().optional(),
+  // Range of task completion dates (Unix ms)
+  start_date: z.number().positive().optional(),
+  end_date: z.number().positive().optional(),
+  timezone: TimeZoneSchema.optional().default('UTC'),
+  period: z.enum(['week', 'month']).optional().default('week'),
+  underestimate_threshold: z.number().min(1).optional().default(1.2),
+  min_tasks: z.number().int().min(1).optional().default(3),
+  include_tasks: z.boolean().optional().default(false),
+});
+
 // ========================================
 // HELPER SCHEMAS
 // ========================================
@@ -321,6 +404,9 @@ export const TimeTrackingToolSchemas = {
 
   // Time analytics
   getTimeSummary: GetTimeSummarySchema,
+  getTimesheetReport: GetTimesheetReportSchema,
+  auditTimeEntries: AuditTimeEntriesSchema,
+  getEstimateAccuracy: GetEstimateAccuracySchema,
 
   // Utility schemas
   timeFormat: TimeFormatSchema,
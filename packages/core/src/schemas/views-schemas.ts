@@ -134,10 +134,14 @@ export const GetViewsFilterSchema = z.object({
   type: ViewTypeSchema.optional(),
 });
 
+// How a view combines its filter conditions
+export const FilterConnectiveSchema = z.enum(['AND', 'OR']);
+
 // Set view filters schema
 export const SetViewFiltersSchema = z.object({
   view_id: z.string(),
   filters: z.array(ViewFilterSchema),
+  op: FilterConnectiveSchema.default('AND'),
 });
 
 // Set view grouping schema
@@ -166,6 +170,39 @@ export const DuplicateViewSchema = z.object({
   parent_type: ViewParentTypeSchema,
 });
 
+// Portable view definition (clickup_export_view_config / clickup_apply_view_template).
+// Parts keep the API's own shape, with custom fields written as "cf:<name>".
+export const VIEW_TEMPLATE_FORMAT = 'clickup-view-template';
+
+export const ViewTemplateFieldSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  options: z.array(z.string()).optional(),
+});
+
+export const ViewTemplateSchema = z
+  .object({
+    format: z.literal(VIEW_TEMPLATE_FORMAT),
+    version: z.literal(1),
+    name: z.string().min(1),
+    type: z.string().min(1),
+    grouping: z.record(z.any()).optional(),
+    divide: z.record(z.any()).optional(),
+    sorting: z.record(z.any()).optional(),
+    filters: z.record(z.any()).optional(),
+    columns: z.record(z.any()).optional(),
+    team_sidebar: z.record(z.any()).optional(),
+    settings: z.record(z.any()).optional(),
+    custom_fields: z.array(ViewTemplateFieldSchema).default([]),
+    source: z.object({ view_id: z.string(), parent_type: z.string(), parent_id: z.string() }).optional(),
+  })
+  .passthrough();
+
+export const ViewTemplateTargetSchema = z.object({
+  type: z.enum(['list', 'folder', 'space']),
+  id: z.string().min(1).describe('ID, name, or "Space / Folder / List" path of the target'),
+});
+
 // Type exports
 export type ViewType = z.infer<typeof ViewTypeSchema>;
 export type ViewParentType = z.infer<typeof ViewParentTypeSchema>;
@@ -185,3 +222,6 @@ export type SetViewGroupingRequest = z.infer<typeof SetViewGroupingSchema>;
 export type SetViewSortingRequest = z.infer<typeof SetViewSortingSchema>;
 export type UpdateViewSettingsRequest = z.infer<typeof UpdateViewSettingsSchema>;
 export type DuplicateViewRequest = z.infer<typeof DuplicateViewSchema>;
+export type ViewTemplateField = z.infer<typeof ViewTemplateFieldSchema>;
+export type ViewTemplate = z.infer<typeof ViewTemplateSchema>;
+export type ViewTemplateTarget = z.infer<typeof ViewTemplateTargetSchema>;
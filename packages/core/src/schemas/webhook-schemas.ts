@@ -117,6 +117,23 @@ export const ProcessWebhookSchema = z.object({
   { message: 'signature and secret are required when validate_signature is true' }
 );
 
+// One webhook a workspace should have, for clickup_reconcile_webhooks. A
+// webhook is identified by its endpoint and scope; events are compared as a set.
+export const DesiredWebhookSchema = z.object({
+  endpoint: z.string().url(),
+  events: z.array(WebhookEventSchema).min(1),
+  space_id: idSchema().optional(),
+  folder_id: idSchema().optional(),
+  list_id: idSchema().optional(),
+  task_id: idSchema().optional(),
+});
+
+// A webhook config file: { "webhooks": [...] }, optionally with the workspace_id
+export const WebhookConfigSchema = z.object({
+  workspace_id: idSchema().optional(),
+  webhooks: z.array(DesiredWebhookSchema),
+});
+
 // Type exports
 export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
 export type WebhookHistoryItem = z.infer<typeof WebhookHistoryItemSchema>;
@@ -126,6 +143,8 @@ export type UpdateWebhookRequest = z.infer<typeof UpdateWebhookSchema>;
 export type WebhookFilter = z.infer<typeof WebhookFilterSchema>;
 export type ValidateWebhookSignatureRequest = z.infer<typeof ValidateWebhookSignatureSchema>;
 export type ProcessWebhookRequest = z.infer<typeof ProcessWebhookSchema>;
+export type DesiredWebhook = z.infer<typeof DesiredWebhookSchema>;
+export type WebhookConfig = z.infer<typeof WebhookConfigSchema>;
 
 // Utility function for webhook processing
 export const extractWebhookObjectInfo = (payload: WebhookPayload) => {
@@ -1,4 +1,6 @@
 /* eslint-disable no-console */
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import {
   markdownToClickUpComment,
   clickUpCommentToMarkdown,
@@ -15,6 +17,14 @@ import {
   ClickUpCommentFormat,
 } from '../utils/clickup-comment-formatter';
 
+// Same CommonJS/ESM guard as version.test.ts
+const FIXTURES =
+  typeof __dirname !== 'undefined'
+    ? join(__dirname, 'fixtures', 'comment-formatting')
+    : join(process.cwd(), 'src', 'tests', 'fixtures', 'comment-formatting');
+
+const readFixture = (name: string): string => readFileSync(join(FIXTURES, name), 'utf8');
+
 describe('ClickUp Comment Formatter', () => {
   describe('createPlainTextComment', () => {
     it('should create a plain text comment', () => {
@@ -322,32 +332,43 @@ describe('ClickUp Comment Formatter', () => {
     it('should handle headers', () => {
       const result = parseMarkdownToClickUpComment('# Header 1\n\nSome text');
 
-      expect(result.comment).toContainEqual({
-        text: 'Header 1',
-        attributes: { bold: true },
-      });
+      expect(result.comment).toEqual([
+        { text: 'Header 1', attributes: {} },
+        { text: '\n', attributes: { header: 1 } },
+        { text: '\n', attributes: {} },
+        { text: 'Some text', attributes: {} },
+      ]);
     });
 
     it('should handle list items', () => {
       const result = parseMarkdownToClickUpComment('- Item 1\n- Item 2');
 
-      expect(result.comment[0].text).toContain('• Item 1');
+      expect(result.comment).toEqual([
+        { text: 'Item 1', attributes: {} },
+        { text: '\n', attributes: { list: { list: 'bullet' } } },
+        { text: 'Item 2', attributes: {} },
+        { text: '\n', attributes: { list: { list: 'bullet' } } },
+      ]);
     });
 
     it('should handle blockquotes', () => {
       const result = parseMarkdownToClickUpComment('> This is a quote');
 
-      expect(result.comment[0].text).toBe('> ');
-      expect(result.comment[1].text).toBe('This is a quote');
+      expect(result.comment).toEqual([
+        { text: 'This is a quote', attributes: {} },
+        { text: '\n', attributes: { blockquote: {} } },
+      ]);
     });
 
     it('should handle code blocks', () => {
       const result = parseMarkdownToClickUpComment('```\nconst x = 1;\nconsole.log(x);\n```');
 
-      expect(result.comment).toContainEqual({
-        text: 'const x = 1;\nconsole.log(x);',
-        attributes: { code: true },
-      });
+      expect(result.comment).toEqual([
+        { text: 'const x = 1;', attributes: {} },
+        { text: '\n', attributes: { 'code-block': { 'code-block': 'plain' } } },
+        { text: 'console.log(x);', attributes: {} },
+        { text: '\n', attributes: { 'code-block': { 'code-block': 'plain' } } },
+      ]);
     });
 
     it('should handle complex markdown', () => {
@@ -367,10 +388,10 @@ Visit [ClickUp](https://clickup.com) for more info.`;
       const result = parseMarkdownToClickUpComment(markdown);
 
       // Should contain header
-      expect(result.comment).toContainEqual({
-        text: 'Status Update',
-        attributes: { bold: true },
-      });
+      expect(result.comment.slice(0, 2)).toEqual([
+        { text: 'Status Update', attributes: {} },
+        { text: '\n', attributes: { header: 1 } },
+      ]);
 
       // Should contain formatted text
       expect(result.comment).toContainEqual({
@@ -381,7 +402,11 @@ Visit [ClickUp](https://clickup.com) for more info.`;
       // Should contain code block
       expect(result.comment).toContainEqual({
         text: "const user = { name: 'John' };",
-        attributes: { code: true },
+        attributes: {},
+      });
+      expect(result.comment).toContainEqual({
+        text: '\n',
+        attributes: { 'code-block': { 'code-block': 'javascript' } },
       });
 
       // Should contain link
@@ -474,6 +499,43 @@ Visit [ClickUp](https://clickup.com) for more info.`;
     });
   });
 
+  describe('Golden files', () => {
+    // Each .md fixture is canonical: it parses to the .json beside it and the
+    // .json renders back to exactly the same Markdown.
+    it.each(['inline', 'lists', 'blocks', 'mentions-colors', 'emoticon-lookalikes'])('round-trips %s', name => {
+      const markdown = readFixture(`${name}.md`);
+      const blocks: ClickUpCommentBlock[] = JSON.parse(readFixture(`${name}.json`));
+
+      expect(markdownToClickUpComment(markdown).comment).toEqual(blocks);
+      expect(clickUpCommentToMarkdown({ comment: blocks })).toBe(markdown);
+    });
+
+    it('reads a comment as returned by the API and writes it back unchanged', () => {
+      const blocks: ClickUpCommentBlock[] = JSON.parse(readFixture('clickup-response.json'));
+      const markdown = readFixture('clickup-response.md');
+
+      // Extra user fields and attributes without a Markdown form are dropped
+      expect(clickUpCommentToMarkdown({ comment: blocks })).toBe(markdown);
+      const written = prepareCommentForClickUp(markdown).comment;
+      expect(written).toContainEqual({ type: 'tag', text: '@Jane Doe', user: { id: 38366580 } });
+      expect(written).toContainEqual({ type: 'emoticon', emoticon: { code: '1f680' } });
+      expect(clickUpCommentToMarkdown({ comment: written })).toBe(markdown);
+    });
+
+    it('accepts list formats given as plain strings', () => {
+      const markdown = clickUpCommentToMarkdown({
+        comment: [
+          { text: 'one' },
+          { text: '\n', attributes: { list: 'ordered' } },
+          { text: 'two' },
+          { text: '\n', attributes: { list: 'ordered' } },
+        ],
+      });
+
+      expect(markdown).toBe('1. one\n2. two\n');
+    });
+  });
+
   describe('processCommentBlocks — mention/tag pass-through', () => {
     it('preserves UI-shape tag block ({type:"tag", text:"@Name"})', () => {
       const blocks: ClickUpCommentBlock[] = [
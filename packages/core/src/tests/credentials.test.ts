@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import axios from 'axios';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CredentialStore } from '../clickup-client/credentials.js';
+import { buildAuthorizeUrl, startRedirectListener } from '../clickup-client/oauth.js';
+import { getSessionToken } from '../clickup-client/session.js';
+import { enableProfiles } from '../tools/profiles.js';
+
+const oauthApp = { clientId: 'client-1', clientSecret: 'secret-1' };
+
+describe('CredentialStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clickup-credentials-'));
+    filePath = join(dir, 'credentials.enc.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('keeps tokens encrypted on disk and lists profiles without them', async () => {
+    const store = new CredentialStore({ filePath });
+    store.save('Acme', {
+      kind: 'personal',
+      access_token: 'pk_acme_secret',
+      added_at: '2026-01-01T00:00:00.000Z',
+      workspaces: ['Acme Inc'],
+    });
+
+    expect(readFileSync(filePath, 'utf8')).not.toContain('pk_acme_secret');
+    const reloaded = new CredentialStore({ filePath });
+    expect(reloaded.list()).toEqual([
+      { name: 'acme', kind: 'personal', added_at: '2026-01-01T00:00:00.000Z', workspaces: ['Acme Inc'] },
+    ]);
+    expect(await reloaded.getAccessToken('ACME')).toBe('pk_acme_secret');
+    await expect(reloaded.getAccessToken('globex')).rejects.toThrow('Unknown profile "globex" (configured: acme)');
+    expect(reloaded.remove('acme')).toBe(true);
+    expect(new CredentialStore({ filePath }).list()).toEqual([]);
+  });
+
+  it('derives the key from a passphrase and rejects the wrong one', () => {
+    new CredentialStore({ filePath, passphrase: 'correct horse' }).save('acme', {
+      kind: 'personal',
+      access_token: 'pk_1',
+      added_at: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(new CredentialStore({ filePath, passphrase: 'correct horse' }).has('acme')).toBe(true);
+    expect(() => new CredentialStore({ filePath, passphrase: 'battery staple' }).list()).toThrow(
+      'CLICKUP_CREDENTIALS_KEY does not match'
+    );
+  });
+
+  it('rejects profile names that are not simple identifiers', () => {
+    const store = new CredentialStore({ filePath });
+    expect(() =>
+      store.save('../acme', { kind: 'personal', access_token: 'pk_1', added_at: '2026-01-01T00:00:00.000Z' })
+    ).toThrow('Invalid profile name');
+  });
+
+  it('refreshes an expiring OAuth token and stores the new one', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({
+      data: { access_token: 'fresh-token', refresh_token: 'refresh-2', expires_in: 3600 },
+    });
+    const store = new CredentialStore({ filePath, oauthApp });
+    store.save('acme', {
+      kind: 'oauth',
+      access_token: 'stale-token',
+      refresh_token: 'refresh-1',
+      expires_at: Date.now() + 10_000,
+      added_at: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(await store.getAccessToken('acme')).toBe('fresh-token');
+    expect(post).toHaveBeenCalledWith('https://api.clickup.com/api/v2/oauth/token', undefined, {
+      params: {
+        client_id: 'client-1',
+        client_secret: 'secret-1',
+        grant_type: 'refresh_token',
+        refresh_token: 'refresh-1',
+      },
+      timeout: 30000,
+    });
+    expect(await new CredentialStore({ filePath, oauthApp }).getAccessToken('acme')).toBe('fresh-token');
+  });
+});
+
+describe('OAuth redirect listener', () => {
+  it('builds the ClickUp authorize URL', () => {
+    expect(buildAuthorizeUrl(oauthApp, 'http://localhost:3000/auth/callback', 'abc')).toBe(
+      'https://app.clickup.com/api?client_id=client-1&redirect_uri=http%3A%2F%2Flocalhost%3A3000%2Fauth%2Fcallback&state=abc'
+    );
+  });
+
+  it('resolves with the code of a redirect carrying the expected state', async () => {
+    const listener = await startRedirectListener('expected-state', 0);
+    try {
+      const forged = await fetch(`${listener.redirectUri}?code=evil&state=other`);
+      expect(forged.status).toBe(400);
+
+      const response = await fetch(`${listener.redirectUri}?code=auth-code&state=expected-state`);
+      expect(response.status).toBe(200);
+      expect(await listener.code).toBe('auth-code');
+    } finally {
+      listener.close();
+    }
+  });
+
+  it('rejects when the user denies access', async () => {
+    const listener = await startRedirectListener('s1', 0);
+    const outcome = listener.code.catch((error: Error) => error.message);
+    await fetch(`${listener.redirectUri}?error=access_denied&state=s1`);
+    expect(await outcome).toBe('ClickUp authorization failed: access_denied');
+  });
+
+  it('escapes the error it shows in the browser', async () => {
+    const listener = await startRedirectListener('s1', 0);
+    listener.code.catch(() => undefined);
+    const response = await fetch(`${listener.redirectUri}?error=${encodeURIComponent('<script>x</script>')}&state=s1`);
+    const html = await response.text();
+    expect(html).toContain('&lt;script&gt;x&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+});
+
+describe('enableProfiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clickup-profiles-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const connect = async (store: CredentialStore) => {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    enableProfiles(server, store);
+    server.tool('clickup_whoami', 'Report the token in effect', {}, async () => ({
+      content: [{ type: 'text', text: getSessionToken() ?? 'default' }],
+    }));
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  };
+
+  it('runs a call with the selected profile token', async () => {
+    const store = new CredentialStore({ filePath: join(dir, 'credentials.enc.json') });
+    store.save('acme', {
+      kind: 'personal',
+      access_token: 'pk_acme',
+      added_at: '2026-01-01T00:00:00.000Z',
+      workspaces: ['Acme Inc'],
+    });
+    const client = await connect(store);
+
+    const { tools } = await client.listTools();
+    expect(tools[0].inputSchema.properties?.profile).toMatchObject({
+      description: expect.stringContaining('acme (Acme Inc)'),
+    });
+    expect(await client.callTool({ name: 'clickup_whoami', arguments: { profile: 'acme' } })).toMatchObject({
+      content: [{ text: 'pk_acme' }],
+    });
+    expect(await client.callTool({ name: 'clickup_whoami', arguments: {} })).toMatchObject({
+      content: [{ text: 'default' }],
+    });
+    expect(await client.callTool({ name: 'clickup_whoami', arguments: { profile: 'globex' } })).toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining('Unknown profile "globex"') }],
+    });
+    await client.close();
+  });
+
+  it('starts without profiles when the store cannot be read', async () => {
+    const filePath = join(dir, 'credentials.enc.json');
+    writeFileSync(filePath, 'not json');
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const client = await connect(new CredentialStore({ filePath }));
+
+    const { tools } = await client.listTools();
+    expect(tools[0].inputSchema.properties).not.toHaveProperty('profile');
+    expect(logged).toHaveBeenCalledWith('ClickUp credential profiles are unavailable:', expect.any(String));
+    await client.close();
+  });
+
+  it('leaves schemas alone when no profiles are configured', async () => {
+    const client = await connect(new CredentialStore({ filePath: join(dir, 'credentials.enc.json') }));
+    const { tools } = await client.listTools();
+    expect(tools[0].inputSchema.properties).not.toHaveProperty('profile');
+    await client.close();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import { computeCriticalPath, SchedulableTask } from '../schemas/dependencies-schemas.js';
+import { DependenciesEnhancedClient } from '../clickup-client/dependencies-enhanced.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5);
+const at = (hours: number) => String(START + hours * HOUR);
+const iso = (hours: number) => new Date(START + hours * HOUR).toISOString();
+const options = { start_from: START, hours_per_day: 24, default_duration_hours: 8 };
+
+// design (10h) -> build (20h) -> launch (5h); copy (4h) -> launch
+const tasks: SchedulableTask[] = [
+  { id: 'design', name: 'Design', time_estimate: 10 * HOUR },
+  { id: 'build', name: 'Build', time_estimate: 20 * HOUR },
+  { id: 'copy', name: 'Copy', time_estimate: 4 * HOUR },
+  { id: 'launch', name: 'Launch', time_estimate: 5 * HOUR, due_date: at(30) },
+];
+const edges = [
+  { task_id: 'build', depends_on: 'design' },
+  { task_id: 'launch', depends_on: 'build' },
+  { task_id: 'launch', depends_on: 'copy' },
+];
+
+describe('computeCriticalPath', () => {
+  it('computes earliest/latest times, slack and the critical path', () => {
+    const result = computeCriticalPath(tasks, edges, options);
+
+    expect(result.projected_finish).toBe(iso(35));
+    expect(result.total_duration_hours).toBe(35);
+    expect(result.critical_path.map(task => task.task_id)).toEqual(['design', 'build', 'launch']);
+
+    const copy = result.tasks.find(task => task.task_id === 'copy');
+    expect(copy).toMatchObject({
+      earliest_start: iso(0),
+      earliest_finish: iso(4),
+      latest_start: iso(26),
+      latest_finish: iso(30),
+      slack_hours: 26,
+      critical: false,
+    });
+    expect(result.tasks.find(task => task.task_id === 'launch')).toMatchObject({
+      earliest_start: iso(30),
+      slack_hours: 0,
+      critical: true,
+      waits_on: ['build', 'copy'],
+    });
+  });
+
+  it('flags due dates that the blocking chain makes impossible', () => {
+    const result = computeCriticalPath(tasks, edges, options);
+
+    expect(result.infeasible_due_dates).toEqual([
+      {
+        task_id: 'launch',
+        name: 'Launch',
+        due_date: iso(30),
+        earliest_finish: iso(35),
+        overrun_hours: 5,
+        driven_by: ['design', 'build'],
+      },
+    ]);
+  });
+
+  it('spreads estimates over working hours and falls back to dates, then the default', () => {
+    const result = computeCriticalPath(
+      [
+        { id: 'a', time_estimate: 16 * HOUR },
+        { id: 'b', start_date: at(0), due_date: at(12) },
+        { id: 'c' },
+      ],
+      [],
+      { ...options, hours_per_day: 8 }
+    );
+
+    expect(result.tasks.map(task => [task.task_id, task.duration_hours, task.duration_source])).toEqual([
+      ['a', 48, 'time_estimate'],
+      ['b', 12, 'dates'],
+      ['c', 24, 'default'],
+    ]);
+    expect(result.assumptions).toContainEqual(expect.stringContaining('1 open task(s) had no time estimate'));
+  });
+
+  it('lets completed blockers release their dependents immediately', () => {
+    const result = computeCriticalPath(
+      [
+        { ...tasks[0], completed: true, date_done: at(-48) },
+        { ...tasks[1], start_date: at(6) },
+      ],
+      [edges[0]],
+      options
+    );
+
+    expect(result.tasks.find(task => task.task_id === 'build')).toMatchObject({
+      earliest_start: iso(6),
+      earliest_finish: iso(26),
+    });
+    expect(result.critical_path.map(task => task.task_id)).toEqual(['build']);
+  });
+
+  it('refuses to schedule circular dependencies', () => {
+    expect(() =>
+      computeCriticalPath(tasks, [...edges, { task_id: 'design', depends_on: 'launch' }], options)
+    ).toThrow('Cannot compute a schedule with circular dependencies');
+  });
+});
+
+describe('DependenciesEnhancedClient.getCriticalPath', () => {
+  it('schedules a list and pulls in blockers from other lists', async () => {
+    const client = new DependenciesEnhancedClient('pk_test');
+    const requests: string[] = [];
+    client.getAxiosInstance().defaults.adapter = async config => {
+      requests.push(String(config.url));
+      const data =
+        config.url === '/list/l1/task'
+          ? {
+              tasks: [
+                {
+                  id: 'launch',
+                  name: 'Launch',
+                  time_estimate: 5 * HOUR,
+                  dependencies: [{ task_id: 'launch', depends_on: 'api', type: 1 }],
+                },
+              ],
+              last_page: true,
+            }
+          : { id: 'api', name: 'API', time_estimate: 10 * HOUR, status: { status: 'open', type: 'open' } };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const result = await client.getCriticalPath({
+      list_id: 'l1',
+      depth: 5,
+      start_from: new Date(START).toISOString(),
+      hours_per_day: 24,
+      default_duration_hours: 8,
+    });
+
+    expect(requests).toEqual(['/list/l1/task', '/task/api']);
+    expect(result.scope).toEqual({ list_id: 'l1' });
+    expect(result.projected_finish).toBe(iso(15));
+    expect(result.critical_path.map(task => task.name)).toEqual(['API', 'Launch']);
+  });
+});
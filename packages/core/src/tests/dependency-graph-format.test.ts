@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderDependencyGraph } from '../utils/dependency-graph-format.js';
+import type { DependencyGraphResponse } from '../schemas/dependencies-schemas.js';
+
+// design (done) -> build (blocked by review) ; build <-> review cycle ; build waits on "ext" (not loaded)
+const graph: DependencyGraphResponse = {
+  root_task_id: 'build',
+  depth: 2,
+  nodes: [
+    { task_id: 'design', name: 'Design', status: 'complete', status_type: 'closed', status_color: '#6bc950' },
+    { task_id: 'build', name: 'Build "v2"', status: 'in progress', status_type: 'custom', status_color: '#4194f6' },
+    { task_id: 'review', name: 'Review | QA', status: 'to do', status_type: 'open', url: 'https://app.clickup.com/t/review' },
+  ],
+  edges: [
+    { task_id: 'build', depends_on: 'design', type: 1 },
+    { task_id: 'build', depends_on: 'review', type: 1 },
+    { task_id: 'review', depends_on: 'build', type: 1 },
+    { task_id: 'build', depends_on: 'ext', type: 1 },
+  ],
+  cycles: [['build', 'review']],
+};
+
+describe('renderDependencyGraph', () => {
+  it('renders Mermaid with status fills, blocked markers and a highlighted cycle', () => {
+    const text = renderDependencyGraph(graph, 'mermaid');
+
+    expect(text.startsWith('```mermaid\nflowchart LR')).toBe(true);
+    expect(text).toContain('t0["✅ Design<br/><i>complete</i>"]');
+    expect(text).toContain('style t0 fill:#6bc950');
+    expect(text).toContain('t1["⛔ Build #quot;v2#quot;<br/><i>in progress</i>"]');
+    expect(text).toContain('t3["ext"]');
+    expect(text).toContain('t0 --> t1');
+    expect(text).toContain('t2 -. cycle .-> t1');
+    expect(text).toContain('t1 -. cycle .-> t2');
+    expect(text).toContain('linkStyle 1 stroke:#e03131,stroke-width:2px');
+    expect(text).toContain('linkStyle 2 stroke:#e03131,stroke-width:2px');
+    expect(text).toContain('class t1,t2 blocked');
+    expect(text).toContain('class t3 unloaded');
+    expect(text).toContain('class t1,t2 cycle');
+    expect(text.endsWith('\n```')).toBe(true);
+  });
+
+  it('renders Graphviz DOT with escaped labels and cycle edges', () => {
+    const text = renderDependencyGraph(graph, 'graphviz_dot');
+
+    expect(text).toContain('digraph dependencies {');
+    expect(text).toContain('"build" [label="BLOCKED: Build \\"v2\\"\\nin progress", fillcolor="#4194f6"');
+    expect(text).toContain('"design" -> "build";');
+    expect(text).toContain('"review" -> "build" [color="#e03131", penwidth=2, label="cycle"];');
+    expect(text).toContain('"ext" [label="ext", style="rounded,dashed"');
+  });
+
+  it('renders JSON Graph Format', () => {
+    const parsed = JSON.parse(renderDependencyGraph(graph, 'json_graph'));
+
+    expect(parsed.graph.directed).toBe(true);
+    expect(parsed.graph.metadata).toEqual({ root_task_id: 'build', depth: 2, cycles: [['build', 'review']] });
+    expect(parsed.graph.nodes.build.metadata).toMatchObject({ blocked: true, blocked_by: ['review'], in_cycle: true });
+    expect(parsed.graph.nodes.ext.metadata.loaded).toBe(false);
+    expect(parsed.graph.edges[0]).toEqual({
+      source: 'design',
+      target: 'build',
+      relation: 'blocks',
+      directed: true,
+      metadata: { type: 1, in_cycle: false },
+    });
+  });
+
+  it('renders a markdown table with flags and the cycles spelled out', () => {
+    const text = renderDependencyGraph(graph, 'markdown_table');
+
+    expect(text.split('\n').slice(0, 5)).toEqual([
+      '| Task | Status | Waits on | Blocks | Flags |',
+      '|---|---|---|---|---|',
+      '| Design | complete | — | Build "v2" | ✅ done |',
+      '| Build "v2" | in progress | Design, Review \\| QA, ext | Review \\| QA | ⛔ blocked, 🔁 in cycle |',
+      '| [Review \\| QA](https://app.clickup.com/t/review) | to do | Build "v2" | Build "v2" | ⛔ blocked, 🔁 in cycle |',
+    ]);
+    expect(text).toContain('**Cycles:** Build "v2" → Review | QA → Build "v2"');
+  });
+
+  it('keeps the raw JSON by default', () => {
+    expect(JSON.parse(renderDependencyGraph(graph, 'json'))).toEqual(graph);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import { DependenciesEnhancedClient } from '../clickup-client/dependencies-enhanced.js';
+import { tokenRateLimitKey } from '../clickup-client/secure-client.js';
+import { rateLimiter } from '../utils/security.js';
+
+// root waits on a1..a8; each aN waits on bN
+const dependenciesOf = (id: string) => {
+  if (id === 'root') {
+    return Array.from({ length: 8 }, (_, i) => ({ task_id: 'root', depends_on: `a${i + 1}` }));
+  }
+  if (id.startsWith('a')) {
+    return [
+      { task_id: 'root', depends_on: id },
+      { task_id: id, depends_on: `b${id.slice(1)}` },
+    ];
+  }
+  return [{ task_id: `a${id.slice(1)}`, depends_on: id }];
+};
+
+describe('DependenciesEnhancedClient graph traversal', () => {
+  let client: DependenciesEnhancedClient;
+  let requests: string[];
+  let inFlight: number;
+  let maxInFlight: number;
+
+  beforeEach(() => {
+    rateLimiter.reset();
+    client = new DependenciesEnhancedClient('pk_graph');
+    requests = [];
+    inFlight = 0;
+    maxInFlight = 0;
+    client.getAxiosInstance().defaults.adapter = async config => {
+      const url = String(config.url);
+      requests.push(`${config.method?.toUpperCase()} ${url}`);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+
+      let data: unknown = {};
+      if (url === '/list/big/task') {
+        // A list that never reaches its last page
+        const page = Number(config.params?.page ?? 0);
+        data = { tasks: Array.from({ length: 100 }, (_, i) => ({ id: `t${page * 100 + i}` })), last_page: false };
+      } else if (url === '/list/l1/task') {
+        data = {
+          tasks: ['root', 'a1', 'a2'].map(id => ({ id, name: id, dependencies: dependenciesOf(id) })),
+          last_page: true,
+        };
+      } else if (url.startsWith('/task/') && config.method === 'get') {
+        const id = url.slice('/task/'.length);
+        data = { id, name: id, status: { status: 'open' }, dependencies: dependenciesOf(id) };
+      }
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  it('fetches each level concurrently within the pool limit', async () => {
+    const graph = await client.getDependencyGraph({ task_id: 'root', depth: 3 });
+
+    expect(graph.nodes).toHaveLength(17);
+    expect(graph.edges).toHaveLength(16);
+    expect(requests).toHaveLength(17);
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(maxInFlight).toBeLessThanOrEqual(5);
+  });
+
+  it('draws from the per-token rate limit bucket shared with SecureClickUpClient', async () => {
+    await client.getDependencyGraph({ task_id: 'root', depth: 1 });
+
+    // 9 fetches already spent: the 100-request window has 91 left
+    const key = tokenRateLimitKey('pk_graph');
+    const allowed = Array.from({ length: 92 }, () =>
+      rateLimiter.isAllowed(key, { windowMs: 60000, maxRequests: 100 })
+    );
+    expect(allowed.filter(Boolean)).toHaveLength(91);
+  });
+
+  it('reuses recently fetched tasks until refreshed or changed', async () => {
+    await client.getDependencyGraph({ task_id: 'root', depth: 1 });
+    requests = [];
+
+    await client.checkDependencyConflicts({ task_id: 'root', depth: 1 });
+    expect(requests).toEqual([]);
+
+    await client.createDependency({ task_id: 'a1', depends_on: 'b2' });
+    await client.getDependencyGraph({ task_id: 'root', depth: 1 });
+    expect(requests).toEqual(['POST /task/a1/dependency', 'GET /task/a1']);
+
+    requests = [];
+    await client.getDependencyGraph({ task_id: 'root', depth: 1, refresh: true });
+    expect(requests).toHaveLength(9);
+  });
+
+  it('builds a list graph from one list read', async () => {
+    const graph = await client.getDependencyGraph({ list_id: 'l1', depth: 3 });
+
+    expect(requests).toEqual(['GET /list/l1/task']);
+    expect(graph.list_id).toBe('l1');
+    expect(graph.nodes.map(node => node.task_id)).toEqual(['root', 'a1', 'a2']);
+    expect(graph.edges).toContainEqual({ task_id: 'a1', depends_on: 'b1', type: undefined });
+
+    // The sweep also primes reuse for task-rooted graphs: only b1 is new
+    requests = [];
+    await client.getDependencyGraph({ task_id: 'a1', depth: 1 });
+    expect(requests).toEqual(['GET /task/b1']);
+  });
+
+  it('flags a list graph cut off at the sweep cap', async () => {
+    const graph = await client.getDependencyGraph({ list_id: 'big', depth: 3 });
+
+    expect(graph.nodes).toHaveLength(2000);
+    expect(graph.truncated).toBe(true);
+    expect(graph.note).toContain('Stopped after 2000 tasks');
+
+    const complete = await client.getDependencyGraph({ list_id: 'l1', depth: 3 });
+    expect(complete).not.toHaveProperty('truncated');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DocSyncClient } from '../clickup-client/doc-sync.js';
+import type { EnhancedDocsClient, Page } from '../clickup-client/docs-enhanced.js';
+import { formatFrontMatter, parseFrontMatter } from '../utils/front-matter.js';
+
+const page = (id: string, name: string, content: string, pages: Page[] = []): Page =>
+  ({ id, name, content, doc_id: 'doc1', pages }) as Page;
+
+const remotePages = (): Page[] => [
+  page('p1', 'Onboarding', 'Welcome aboard.\n'),
+  page('p2', 'Engineering', 'How we build.\n', [
+    page('p3', 'Code Review', 'One approval.\n'),
+    page('p4', 'Index', 'A page named index.\n'),
+  ]),
+];
+
+const fakeDocs = (pages: Page[]) => {
+  let next = 10;
+  return {
+    getDocPages: jest.fn(async () => pages),
+    createPage: jest.fn(async () => ({ id: `p${next++}` })),
+    updatePage: jest.fn(async (_ws: string, _doc: string, id: string) => ({ id })),
+  };
+};
+
+describe('front-matter', () => {
+  it('round-trips fields and body', () => {
+    const text = formatFrontMatter({ title: 'Say "hi": now', sub_title: undefined, id: '42' }, '# Body\n');
+
+    expect(text).toBe('---\ntitle: "Say \\"hi\\": now"\nid: "42"\n---\n\n# Body\n');
+    expect(parseFrontMatter(text)).toEqual({ data: { title: 'Say "hi": now', id: '42' }, body: '# Body\n' });
+    expect(parseFrontMatter("---\ntitle: 'It''s'\nbare: value\n---\nText")).toEqual({
+      data: { title: "It's", bare: 'value' },
+      body: 'Text',
+    });
+    expect(parseFrontMatter('No front-matter').data).toEqual({});
+  });
+});
+
+describe('DocSyncClient', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doc-sync-'));
+    process.env.CLICKUP_DOCS_DIR = dir;
+  });
+
+  afterEach(() => {
+    delete process.env.CLICKUP_DOCS_DIR;
+    delete process.env.CLICKUP_DATA_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exports the page tree and imports it back unchanged', async () => {
+    const docs = fakeDocs(remotePages());
+    const client = new DocSyncClient(docs as unknown as EnhancedDocsClient);
+
+    const exported = await client.exportDoc('ws1', 'doc1', dir);
+
+    expect(exported.files.map(file => file.path)).toEqual([
+      'onboarding.md',
+      'engineering/index.md',
+      'engineering/code-review.md',
+      'engineering/index-2.md',
+    ]);
+    expect(readFileSync(join(dir, 'engineering/code-review.md'), 'utf8')).toBe(
+      '---\nclickup_doc_id: "doc1"\nclickup_page_id: "p3"\ntitle: "Code Review"\n---\n\nOne approval.\n'
+    );
+
+    const imported = await client.importDocs('ws1', 'doc1', dir);
+    expect(imported.summary).toEqual({ unchanged: 4 });
+    expect(imported.remote_only).toEqual([]);
+    expect(docs.updatePage).not.toHaveBeenCalled();
+    expect(docs.createPage).not.toHaveBeenCalled();
+  });
+
+  it('creates, updates and matches by title, leaving unknown pages alone', async () => {
+    const docs = fakeDocs(remotePages());
+    const client = new DocSyncClient(docs as unknown as EnhancedDocsClient);
+    writeFileSync(join(dir, 'onboarding.md'), '# Onboarding\n\nWelcome aboard, again.\n');
+    mkdirSync(join(dir, 'engineering'));
+    writeFileSync(join(dir, 'engineering', 'code-review.md'), '---\ntitle: "Code Review"\n---\n\nOne approval.\n');
+    writeFileSync(join(dir, 'engineering', 'on-call.md'), 'Rotations.\n');
+    writeFileSync(join(dir, 'notes.txt'), 'not a page');
+
+    const preview = await client.importDocs('ws1', 'doc1', dir, { dryRun: true });
+    expect(preview.pages.map(({ path, title, action }) => ({ path, title, action }))).toEqual([
+      { path: 'engineering/', title: 'Engineering', action: 'unchanged' },
+      { path: 'engineering/code-review.md', title: 'Code Review', action: 'unchanged' },
+      { path: 'engineering/on-call.md', title: 'On call', action: 'would_create' },
+      { path: 'onboarding.md', title: 'Onboarding', action: 'would_update' },
+    ]);
+    expect(preview.remote_only).toEqual([{ page_id: 'p4', title: 'Index' }]);
+    expect(docs.createPage).not.toHaveBeenCalled();
+
+    const report = await client.importDocs('ws1', 'doc1', dir, { recordIds: true });
+    expect(report.summary).toEqual({ unchanged: 2, created: 1, updated: 1 });
+    expect(docs.createPage).toHaveBeenCalledWith('ws1', 'doc1', {
+      name: 'On call',
+      content: 'Rotations.\n',
+      sub_title: undefined,
+      content_format: 'text/md',
+      parent_page_id: 'p2',
+    });
+    expect(docs.updatePage).toHaveBeenCalledWith('ws1', 'doc1', 'p1', {
+      name: 'Onboarding',
+      sub_title: undefined,
+      content: 'Welcome aboard, again.\n',
+      content_format: 'text/md',
+    });
+    expect(parseFrontMatter(readFileSync(join(dir, 'engineering', 'on-call.md'), 'utf8'))).toEqual({
+      data: { clickup_doc_id: 'doc1', clickup_page_id: 'p10' },
+      body: 'Rotations.\n',
+    });
+  });
+
+  it('skips the sub-pages of a page that failed', async () => {
+    const docs = fakeDocs([]);
+    docs.createPage.mockRejectedValueOnce(new Error('Failed to create page: Rate limit exceeded'));
+    const client = new DocSyncClient(docs as unknown as EnhancedDocsClient);
+    mkdirSync(join(dir, 'guides'));
+    writeFileSync(join(dir, 'guides', 'index.md'), 'Guides.\n');
+    writeFileSync(join(dir, 'guides', 'setup.md'), 'Setup.\n');
+    writeFileSync(join(dir, 'zz-last.md'), 'Last.\n');
+
+    const report = await client.importDocs('ws1', 'doc1', dir);
+
+    expect(report.pages.map(({ path, action, error }) => ({ path, action, error }))).toEqual([
+      { path: 'guides/index.md', action: 'failed', error: 'Failed to create page: Rate limit exceeded' },
+      { path: 'guides/setup.md', action: 'failed', error: 'Parent page was not imported' },
+      { path: 'zz-last.md', action: 'created', error: undefined },
+    ]);
+  });
+
+  it('stays inside the docs directory', async () => {
+    const docs = fakeDocs(remotePages());
+    const client = new DocSyncClient(docs as unknown as EnhancedDocsClient);
+    const root = join(dir, 'handbook');
+    const elsewhere = join(dir, 'elsewhere');
+    mkdirSync(root);
+    mkdirSync(elsewhere);
+    writeFileSync(join(elsewhere, 'secret.md'), 'Not for ClickUp.\n');
+    process.env.CLICKUP_DOCS_DIR = root;
+
+    await expect(client.exportDoc('ws1', 'doc1', elsewhere)).rejects.toThrow('directory is outside the docs directory');
+    await expect(client.importDocs('ws1', 'doc1', '../elsewhere')).rejects.toThrow('outside the docs directory');
+
+    // A symlink inside the root leads out of it
+    symlinkSync(elsewhere, join(root, 'linked'));
+    await expect(client.importDocs('ws1', 'doc1', 'linked')).rejects.toThrow('outside the docs directory');
+    // The walker skips links, so the linked file is never uploaded
+    writeFileSync(join(root, 'readme.md'), 'Hello.\n');
+    const report = await client.importDocs('ws1', 'doc1', '.', { dryRun: true });
+    expect(report.pages.map(result => result.path)).toEqual(['readme.md']);
+    // and an export does not write through a linked page directory
+    symlinkSync(elsewhere, join(root, 'engineering'));
+    await expect(client.exportDoc('ws1', 'doc1', '.')).rejects.toThrow('outside the docs directory');
+    expect(existsSync(join(elsewhere, 'index.md'))).toBe(false);
+  });
+
+  it('defaults to docs under the data directory', async () => {
+    const docs = fakeDocs(remotePages());
+    const client = new DocSyncClient(docs as unknown as EnhancedDocsClient);
+    delete process.env.CLICKUP_DOCS_DIR;
+    process.env.CLICKUP_DATA_DIR = dir;
+
+    const exported = await client.exportDoc('ws1', 'doc1', 'handbook');
+    expect(exported.directory).toBe(join(realpathSync(dir), 'docs', 'handbook'));
+    expect(existsSync(join(dir, 'docs', 'handbook', 'onboarding.md'))).toBe(true);
+    await expect(client.exportDoc('ws1', 'doc1', join(dir, 'handbook'))).rejects.toThrow('outside the docs directory');
+  });
+});
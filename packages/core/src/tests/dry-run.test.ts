@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+import { describePlanEntities, entityForEndpoint, getWriteMode, runWithPlan } from '../clickup-client/dry-run.js';
+import { enablePlanMode, planToolCall } from '../tools/plan-mode.js';
+
+describe('write guard', () => {
+  let client: ClickUpClient;
+  let sent: string[];
+
+  beforeEach(() => {
+    delete process.env.CLICKUP_DRY_RUN;
+    delete process.env.CLICKUP_READ_ONLY;
+    sent = [];
+    client = new ClickUpClient({ apiToken: 'pk_test' });
+    client.getAxiosInstance().defaults.adapter = async config => {
+      sent.push(`${config.method?.toUpperCase()} ${config.url}`);
+      return { data: { id: 'real' }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  afterEach(() => {
+    delete process.env.CLICKUP_DRY_RUN;
+    delete process.env.CLICKUP_READ_ONLY;
+  });
+
+  it('records writes inside a plan without sending them, but still sends reads', async () => {
+    const { result, plan } = await runWithPlan(async () => {
+      await client.get('/task/abc');
+      return client.post('/list/9/task', { name: 'New task' });
+    });
+
+    expect(result).toEqual({});
+    expect(sent).toEqual(['GET /task/abc']);
+    expect(plan.mutations).toEqual([{ step: 1, method: 'POST', endpoint: '/list/9/task', body: { name: 'New task' } }]);
+  });
+
+  it('catches writes made through the raw axios instance, including v3 URLs', async () => {
+    const { plan } = await runWithPlan(async () => {
+      await client.getAxiosInstance().delete('https://api.clickup.com/api/v3/workspaces/1/chat/messages/m1');
+      await client.getAxiosInstance().put('/goal/g1', { name: 'Renamed' });
+    });
+
+    expect(sent).toEqual([]);
+    expect(plan.mutations.map(m => `${m.method} ${m.endpoint}`)).toEqual([
+      'DELETE /v3/workspaces/1/chat/messages/m1',
+      'PUT /goal/g1',
+    ]);
+  });
+
+  it('sends writes in live mode', async () => {
+    await expect(client.delete('/task/abc')).resolves.toEqual({ id: 'real' });
+    expect(sent).toEqual(['DELETE /task/abc']);
+  });
+
+  it('refuses writes outside a plan in read-only mode', async () => {
+    process.env.CLICKUP_READ_ONLY = 'true';
+
+    await expect(client.delete('/space/5')).rejects.toThrow('read-only mode');
+    await expect(client.get('/space/5')).resolves.toEqual({ id: 'real' });
+    expect(sent).toEqual(['GET /space/5']);
+  });
+
+  it('lets read-only take precedence over dry-run', () => {
+    process.env.CLICKUP_DRY_RUN = '1';
+    expect(getWriteMode()).toBe('dry_run');
+    process.env.CLICKUP_READ_ONLY = 'yes';
+    expect(getWriteMode()).toBe('read_only');
+  });
+});
+
+describe('plan descriptions', () => {
+  const names: Record<string, unknown> = {
+    '/task/abc': { name: 'Fix login' },
+    '/list/9': { name: 'Sprint 12' },
+    '/goal/g1': { goal: { name: 'Q3 revenue' } },
+  };
+  const get = jest.fn(async (endpoint: string) => {
+    if (!(endpoint in names)) {
+      throw new Error('not found');
+    }
+    return names[endpoint];
+  });
+
+  beforeEach(() => {
+    get.mockClear();
+  });
+
+  it('maps endpoints to the entity they target', () => {
+    expect(entityForEndpoint('/task/abc/tag/urgent')).toEqual({ type: 'task', id: 'abc' });
+    expect(entityForEndpoint('/v2/folder/77')).toEqual({ type: 'folder', id: '77' });
+    expect(entityForEndpoint('/checklist/1')).toBeUndefined();
+  });
+
+  it('names affected entities, looking each one up once', async () => {
+    const { plan } = await runWithPlan(async () => undefined);
+    plan.record('post', '/task/abc/tag/urgent');
+    plan.record('delete', '/task/abc');
+    plan.record('put', '/goal/g1', { name: 'x' });
+    plan.record('delete', '/space/404');
+
+    const mutations = await describePlanEntities(plan, get);
+
+    expect(mutations.map(m => m.entity)).toEqual([
+      { type: 'task', id: 'abc', name: 'Fix login' },
+      { type: 'task', id: 'abc', name: 'Fix login' },
+      { type: 'goal', id: 'g1', name: 'Q3 revenue' },
+      { type: 'space', id: '404' },
+    ]);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the plan in place of the tool output', async () => {
+    const client = new ClickUpClient({ apiToken: 'pk_test' });
+    const response = await planToolCall(
+      'clickup_delete_list',
+      async () => {
+        await client.delete('/list/9');
+        return { content: [{ type: 'text', text: 'List deleted' }] };
+      },
+      get
+    );
+
+    const plan = JSON.parse(response.content[0].text!);
+    expect(plan).toMatchObject({
+      dry_run: true,
+      tool: 'clickup_delete_list',
+      mutation_count: 1,
+      mutations: [{ method: 'DELETE', endpoint: '/list/9', entity: { type: 'list', id: '9', name: 'Sprint 12' } }],
+    });
+  });
+
+  it('passes tool errors through when nothing was written', async () => {
+    const refusal = { content: [{ type: 'text', text: 'Set confirm_deletion' }], isError: true };
+    await expect(planToolCall('clickup_delete_space', async () => refusal, get)).resolves.toBe(refusal);
+  });
+});
+
+describe('enablePlanMode', () => {
+  it('adds dry_run to mutating tools only', () => {
+    const registered: Record<string, Record<string, unknown>> = {};
+    const server = {
+      tool: (name: string, _description: string, shape: Record<string, unknown>) => {
+        registered[name] = shape;
+      },
+    };
+    enablePlanMode(server as unknown as McpServer);
+
+    const handler = async () => ({ content: [] });
+    server.tool('clickup_bulk_delete_tasks', 'd', { task_ids: {} }, handler);
+    server.tool('clickup_merge_tasks', 'd', {}, handler);
+    server.tool('clickup_get_tasks', 'd', { list_id: {} }, handler);
+    server.tool('clickup_cache_clear', 'd', {}, handler);
+
+    expect(Object.keys(registered.clickup_bulk_delete_tasks)).toEqual(['task_ids', 'dry_run']);
+    expect(registered.clickup_merge_tasks).toHaveProperty('dry_run');
+    expect(registered.clickup_get_tasks).not.toHaveProperty('dry_run');
+    expect(registered.clickup_cache_clear).not.toHaveProperty('dry_run');
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import { analyzeEstimateAccuracy, EstimateAccuracyOptions, EstimatedTask } from '../utils/estimate-accuracy.js';
+import type { ReportableTimeEntry } from '../utils/timesheet-report.js';
+import { EnhancedTimeTrackingClient } from '../clickup-client/time-tracking-enhanced.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+const alice = { id: 1, username: 'Alice' };
+const bob = { id: 2, username: 'Bob' };
+
+const task = (
+  id: string,
+  estimateHours: number,
+  done: string,
+  assignees: Array<{ id: number; username: string }>,
+  extra: Partial<EstimatedTask> = {}
+): EstimatedTask => ({
+  id,
+  name: `Task ${id}`,
+  time_estimate: estimateHours * HOUR,
+  date_done: String(utc(done)),
+  assignees,
+  tags: [],
+  ...extra,
+});
+
+const entry = (taskId: string, user: { id: number; username: string }, hours: number): ReportableTimeEntry => ({
+  id: `${taskId}-${user.id}-${hours}`,
+  task: { id: taskId, name: `Task ${taskId}` },
+  user,
+  billable: true,
+  start: String(utc('2026-01-05T09:00:00')),
+  end: String(utc('2026-01-05T09:00:00') + hours * HOUR),
+  duration: String(hours * HOUR),
+});
+
+const options: EstimateAccuracyOptions = {
+  timezone: 'UTC',
+  period: 'week',
+  underestimate_threshold: 1.2,
+  min_tasks: 3,
+};
+
+// Alice overruns every task by half; Bob starts over but converges on his estimates
+const tasks = [
+  task('a1', 2, '2026-01-06T12:00:00', [alice], { tags: [{ name: 'frontend' }] }),
+  task('a2', 4, '2026-01-13T12:00:00', [alice], { tags: [{ name: 'frontend' }] }),
+  task('a3', 2, '2026-01-20T12:00:00', [alice]),
+  task('b1', 4, '2026-01-07T12:00:00', [bob], { tags: [{ name: 'backend' }] }),
+  task('b2', 4, '2026-01-14T12:00:00', [bob], { tags: [{ name: 'backend' }] }),
+  task('b3', 4, '2026-01-21T12:00:00', [bob], { tags: [{ name: 'backend' }] }),
+  task('u1', 0, '2026-01-21T12:00:00', [bob]),
+  task('s1', 2, '2026-01-21T12:00:00', [], { time_spent: HOUR }),
+];
+const entries = [
+  entry('a1', alice, 3),
+  entry('a2', alice, 6),
+  entry('a3', alice, 3),
+  entry('b1', bob, 6),
+  entry('b2', bob, 4.4),
+  entry('b3', bob, 4),
+  entry('u1', bob, 1),
+  // Not one of the analysed tasks
+  entry('zz', bob, 8),
+];
+
+describe('analyzeEstimateAccuracy', () => {
+  const report = analyzeEstimateAccuracy(tasks, entries, options);
+
+  it('compares estimates with tracked time per task', () => {
+    expect(report.tasks.find(variance => variance.task_id === 'b1')).toMatchObject({
+      estimate_hours: 4,
+      actual_hours: 6,
+      variance_hours: 2,
+      ratio: 1.5,
+      actual_source: 'time_entries',
+      tracked_by: { Bob: 6 },
+    });
+    expect(report.tasks.find(variance => variance.task_id === 'u1')).toMatchObject({ ratio: null, actual_hours: 1 });
+    expect(report.tasks.find(variance => variance.task_id === 's1')).toMatchObject({
+      actual_source: 'time_spent',
+      ratio: 0.5,
+    });
+  });
+
+  it('summarises overall, per assignee and per tag', () => {
+    expect(report.overall).toMatchObject({
+      tasks: 8,
+      compared_tasks: 7,
+      unestimated_tasks: 1,
+      estimate_hours: 22,
+      actual_hours: 28.4,
+      ratio: 1.25,
+    });
+    // Bob's 8h on a task outside the analysis are not counted
+    expect(report.by_assignee.map(each => [each.username, each.median_ratio, each.tracked_hours])).toEqual([
+      ['Alice', 1.5, 12],
+      ['Bob', 1.1, 15.4],
+    ]);
+    expect(report.by_tag.map(tag => [tag.tag, tag.compared_tasks, tag.ratio])).toEqual([
+      ['(untagged)', 2, 1],
+      ['backend', 3, 1.2],
+      ['frontend', 2, 1.5],
+    ]);
+  });
+
+  it('flags systematic underestimators and the trend', () => {
+    expect(report.underestimators).toEqual([
+      expect.objectContaining({ username: 'Alice', median_ratio: 1.5, compared_tasks: 3 }),
+    ]);
+    expect(report.trend.periods.map(period => [period.period, period.ratio])).toEqual([
+      ['2026-01-05', 1.5],
+      ['2026-01-12', 1.3],
+      ['2026-01-19', 1],
+    ]);
+    expect(report.trend.direction).toBe('improving');
+  });
+
+  it('shapes velocity and capacity inputs for the intelligence services', () => {
+    expect(report.velocity_unit).toBe('estimated_hours');
+    expect(report.velocity_history[0]).toEqual({
+      period: '2026-01-05 to 2026-01-12',
+      storyPoints: 6,
+      tasksCompleted: 2,
+      teamSize: 2,
+      velocityPerPerson: 3,
+      confidence: 1,
+    });
+    expect(report.capacity_members).toEqual([
+      { userId: '1', name: 'Alice', historicalVelocity: 2.67, availabilityHours: 4, estimateAccuracy: 1.5 },
+      { userId: '2', name: 'Bob', historicalVelocity: 4, availabilityHours: 5.13, estimateAccuracy: 1.2 },
+    ]);
+  });
+
+  it('counts sprint points when tasks carry them', () => {
+    const pointed = analyzeEstimateAccuracy(
+      tasks.map(each => ({ ...each, points: 3 })),
+      entries,
+      { ...options, period: 'month' }
+    );
+    expect(pointed.velocity_unit).toBe('story_points');
+    expect(pointed.velocity_history).toEqual([
+      expect.objectContaining({ period: '2026-01-01 to 2026-02-01', storyPoints: 24 }),
+    ]);
+    expect(pointed.trend.direction).toBe('insufficient_data');
+  });
+});
+
+describe('EnhancedTimeTrackingClient.getEstimateAccuracy', () => {
+  it('reads completed tasks and the time logged on them', async () => {
+    const client = new ClickUpClient({ apiToken: 'pk_test' });
+    const requests: Array<{ url: string; params?: Record<string, unknown> }> = [];
+    client.getAxiosInstance().defaults.adapter = async config => {
+      const url = String(config.url);
+      requests.push({ url, params: config.params });
+      const data = url.includes('/time_entries')
+        ? { data: entries.slice(0, 3) }
+        : {
+            tasks: [
+              { ...tasks[0], date_created: String(utc('2026-01-01T00:00:00')) },
+              { ...tasks[1], date_created: String(utc('2026-01-02T00:00:00')) },
+              { ...tasks[2], date_done: null, date_closed: null },
+            ],
+            last_page: true,
+          };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const report = await new EnhancedTimeTrackingClient(client).getEstimateAccuracy(
+      'team1',
+      { list_id: 'list1' },
+      options
+    );
+
+    expect(requests[0]).toEqual({
+      url: '/team/team1/task',
+      params: expect.objectContaining({ list_ids: ['list1'], include_closed: true, subtasks: true }),
+    });
+    expect(requests[1].url).toContain(`/team/team1/time_entries?start_date=${utc('2026-01-01T00:00:00')}`);
+    expect(requests[1].url).toContain('assignee=1&include_task_tags=true&list_id=list1');
+    expect(report.overall).toMatchObject({ tasks: 2, compared_tasks: 2, ratio: 1.5 });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GoalHistory } from '../clickup-client/goal-history.js';
+import { EnhancedGoalsClient, type Goal } from '../clickup-client/goals-enhanced.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+import { runWithClickUpToken } from '../clickup-client/session.js';
+import { forecastGoal, renderGoalForecastMermaid, renderGoalForecastText } from '../utils/goal-forecast.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+const goal = (percent_completed: number, steps_current = percent_completed) =>
+  ({
+    id: 'g1',
+    name: 'Launch "v2"',
+    percent_completed,
+    key_results: [{ id: 'kr1', steps_current }],
+  }) as unknown as Goal;
+
+const snapshot = (day: number, percent: number) => ({
+  taken_at: START + day * DAY,
+  percent_completed: percent,
+  targets: {},
+});
+
+describe('GoalHistory', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'goal-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('collapses unchanged readings into a plateau and persists', () => {
+    const filePath = join(dataDir, 'snapshots.json');
+    const history = new GoalHistory({ filePath });
+    history.record([goal(10)], START);
+    history.record([goal(10)], START + DAY);
+    history.record([goal(10)], START + 2 * DAY);
+    history.record([goal(10)], START + 3 * DAY);
+    history.record([goal(20, 15)], START + 4 * DAY);
+
+    expect(new GoalHistory({ filePath }).snapshots('g1')).toEqual([
+      { taken_at: START, percent_completed: 10, targets: { kr1: 10 } },
+      { taken_at: START + 3 * DAY, percent_completed: 10, targets: { kr1: 10 } },
+      { taken_at: START + 4 * DAY, percent_completed: 20, targets: { kr1: 15 } },
+    ]);
+  });
+
+  it('keeps token scopes apart and can be disabled', () => {
+    const history = new GoalHistory();
+    history.record([goal(10)], START);
+    runWithClickUpToken('pk_other', () => history.record([goal(50)], START));
+
+    expect(history.snapshots('g1').map(entry => entry.percent_completed)).toEqual([10]);
+    expect(runWithClickUpToken('pk_other', () => history.snapshots('g1')).map(entry => entry.percent_completed)).toEqual([
+      50,
+    ]);
+
+    const disabled = new GoalHistory({ enabled: false });
+    disabled.record([goal(10)], START);
+    expect(disabled.snapshots('g1')).toEqual([]);
+  });
+});
+
+describe('forecastGoal', () => {
+  const input = (percent: number, snapshots: ReturnType<typeof snapshot>[], dueDay = 40) => ({
+    id: 'g1',
+    name: 'Launch "v2"',
+    start: START,
+    due: START + dueDay * DAY,
+    percent_completed: percent,
+    snapshots,
+  });
+
+  it('projects a steady goal as on track', () => {
+    const forecast = forecastGoal(input(50, [snapshot(10, 25), snapshot(20, 50)]), {
+      method: 'linear',
+      smoothing: 0.5,
+      now: START + 20 * DAY,
+    });
+
+    expect(forecast).toMatchObject({
+      status: 'on_track',
+      rate_per_day: 2.5,
+      required_rate_per_day: 2.5,
+      projected_completion: new Date(START + 40 * DAY).toISOString(),
+      slip_days: 0,
+      // Start, two snapshots
+      data_points: 3,
+    });
+    const today = forecast.burn_up.find(point => point.notes.includes('today'));
+    expect(today).toMatchObject({ percent: 50, plan_percent: 50, kind: 'actual' });
+    expect(forecast.burn_up[forecast.burn_up.length - 1]).toMatchObject({ percent: 100, kind: 'forecast' });
+  });
+
+  it('weights recent progress with EWMA', () => {
+    // Fast start, then slowing down
+    const goalInput = input(60, [snapshot(10, 40), snapshot(20, 50), snapshot(30, 60)]);
+    const now = START + 30 * DAY;
+
+    const linear = forecastGoal(goalInput, { method: 'linear', smoothing: 0.5, now });
+    const ewma = forecastGoal(goalInput, { method: 'ewma', smoothing: 0.5, now });
+
+    expect(linear.rate_per_day).toBe(1.9);
+    expect(ewma.rate_per_day).toBe(1.75);
+    expect(ewma.status).toBe('off_track');
+    expect(ewma.projected_percent_at_due).toBe(77.5);
+    expect(ewma.message).toContain('needs 4 points/day instead of 1.75');
+  });
+
+  it('flags goals that will narrowly miss, have stalled or are overdue', () => {
+    const options = { method: 'linear' as const, smoothing: 0.5, now: START + 20 * DAY };
+
+    expect(forecastGoal(input(46, [snapshot(20, 46)], 40), options).status).toBe('at_risk');
+    expect(forecastGoal(input(30, [snapshot(0, 30), snapshot(20, 30)]), options).status).toBe('stalled');
+    expect(forecastGoal(input(30, [snapshot(0, 30)], 10), options).status).toBe('overdue');
+    expect(forecastGoal(input(100, []), options).status).toBe('completed');
+    expect(forecastGoal({ ...input(10, []), start: undefined }, options).status).toBe('insufficient_data');
+  });
+
+  it('reports a goal without a due date instead of projecting it', async () => {
+    const client = new ClickUpClient({ apiToken: 'pk_test' });
+    client.getAxiosInstance().defaults.adapter = async config => ({
+      data: {
+        goals: [
+          {
+            id: 'g1',
+            name: 'Dated',
+            due_date: String(START + 40 * DAY),
+            date_created: String(START),
+            percent_completed: 50,
+          },
+          { id: 'g2', name: 'Someday', due_date: null, date_created: String(START), percent_completed: 20 },
+        ],
+      },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    });
+
+    const [dated, undated] = await new EnhancedGoalsClient(client).forecastGoals(
+      { teamId: 'team1' },
+      { method: 'linear', smoothing: 0.5, now: START + 20 * DAY }
+    );
+
+    expect(dated.status).toBe('on_track');
+    expect(undated).toMatchObject({
+      goal_id: 'g2',
+      status: 'insufficient_data',
+      due_date: null,
+      days_left: null,
+      projected_completion: null,
+    });
+    expect(undated.burn_up.every(point => point.kind === 'actual' && point.plan_percent === null)).toBe(true);
+    expect(renderGoalForecastText(undated)).toContain('Goal has no due date');
+  });
+
+  it('renders text and Mermaid burn-up charts', () => {
+    const forecast = forecastGoal(input(50, [snapshot(10, 25), snapshot(20, 50)]), {
+      method: 'linear',
+      smoothing: 0.5,
+      now: START + 20 * DAY,
+    });
+
+    const text = renderGoalForecastText(forecast);
+    expect(text).toContain('Launch "v2" — on track (linear)');
+    expect(text).toContain('2026-01-21  ██████████░░░░░░░░░░  50% plan  50%  ← today');
+    expect(text).toContain('~ forecast');
+
+    const mermaid = renderGoalForecastMermaid(forecast);
+    expect(mermaid).toContain('title "Launch \'v2\' (on track)"');
+    expect(mermaid.match(/^ {2}line \[/gm)).toHaveLength(2);
+  });
+});
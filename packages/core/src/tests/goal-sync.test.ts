@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GoalTargetSync, describeTargetSource } from '../clickup-client/goal-sync.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+import { runWithPlan } from '../clickup-client/dry-run.js';
+import { GoalTargetSourceSchema } from '../schemas/goals-schemas.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const target = (id: string, type: string, steps_current: number, steps_end = 100) => ({
+  id,
+  goal_id: 'g1',
+  name: `Target ${id}`,
+  type,
+  steps_start: 0,
+  steps_end,
+  steps_current,
+  unit: type === 'currency' ? 'USD' : null,
+});
+
+const goal = {
+  id: 'g1',
+  name: 'Q1 OKRs',
+  team_id: 'team1',
+  date_created: '1767225600000',
+  start_date: null,
+  members: [{ id: 1 }],
+  owners: [{ id: 2 }],
+  key_results: [
+    target('kr-tasks', 'number', 2, 10),
+    target('kr-revenue', 'currency', 500, 5000),
+    target('kr-hours', 'number', 3),
+    target('kr-done', 'boolean', 0, 1),
+  ],
+};
+
+const deal = (id: string, type: string, amount?: unknown, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: `Deal ${id}`,
+  status: { status: type, type },
+  custom_fields: [{ id: 'cf-amount', ...(amount !== undefined && { value: amount }) }],
+  ...extra,
+});
+
+// ClickUp sends currency values as strings; t4 has no value set
+const tasks = [
+  deal('t1', 'closed', '1200.5'),
+  deal('t2', 'done', 800, { date_done: '1767312000000' }),
+  deal('t3', 'open', '300'),
+  deal('t4', 'open'),
+];
+
+describe('GoalTargetSync', () => {
+  let dataDir: string;
+  let requests: Array<{ method: string; url: string; params?: Record<string, unknown>; body?: unknown }>;
+  let client: ClickUpClient;
+
+  const createSync = () => new GoalTargetSync(client, { filePath: join(dataDir, 'bindings.json') });
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'goal-sync-'));
+    requests = [];
+    client = new ClickUpClient({ apiToken: 'pk_test' });
+    client.getAxiosInstance().defaults.adapter = async config => {
+      const url = String(config.url);
+      requests.push({
+        method: String(config.method).toUpperCase(),
+        url,
+        params: config.params,
+        ...(config.data && { body: JSON.parse(config.data) }),
+      });
+      let data: unknown = { goal };
+      if (url.startsWith('/team/team1/task')) {
+        data = { tasks, last_page: true };
+      } else if (url.startsWith('/team/team1/time_entries')) {
+        data = {
+          data: [
+            { id: 'e1', duration: String(2 * HOUR), user: { id: 1 } },
+            { id: 'e2', duration: String(1.5 * HOUR), user: { id: 2 } },
+            // A running timer
+            { id: 'e3', duration: String(-Date.now()), user: { id: 1 } },
+          ],
+        };
+      } else if (url.startsWith('/key_result/')) {
+        data = { key_result: {} };
+      }
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const bindAll = async (sync: GoalTargetSync) => {
+    await sync.bind('g1', 'kr-tasks', GoalTargetSourceSchema.parse({ type: 'closed_tasks', list_id: 'l1' }));
+    await sync.bind(
+      'g1',
+      'kr-revenue',
+      GoalTargetSourceSchema.parse({ type: 'custom_field_sum', field_id: 'cf-amount', folder_id: 'f1' })
+    );
+    await sync.bind('g1', 'kr-hours', GoalTargetSourceSchema.parse({ type: 'tracked_hours', space_id: 's1' }));
+  };
+
+  it('validates sources', () => {
+    expect(GoalTargetSourceSchema.safeParse({ type: 'closed_tasks' }).success).toBe(false);
+    expect(GoalTargetSourceSchema.safeParse({ type: 'closed_tasks', list_id: 'l1', folder_id: 'f1' }).success).toBe(
+      false
+    );
+    expect(GoalTargetSourceSchema.safeParse({ type: 'tracked_hours' }).success).toBe(true);
+    expect(describeTargetSource(GoalTargetSourceSchema.parse({ type: 'closed_tasks', list_id: 'l1' }))).toBe(
+      'closed tasks in list l1'
+    );
+  });
+
+  it('only binds number and currency targets that exist', async () => {
+    const sync = createSync();
+    const source = GoalTargetSourceSchema.parse({ type: 'closed_tasks', list_id: 'l1' });
+    await expect(sync.bind('g1', 'kr-done', source)).rejects.toThrow('only number and currency targets');
+    await expect(sync.bind('g1', 'kr-missing', source)).rejects.toThrow('Goal g1 has no target kr-missing');
+    expect(sync.list()).toEqual([]);
+  });
+
+  it('computes a diff without writing on a dry run', async () => {
+    const sync = createSync();
+    await bindAll(sync);
+    requests = [];
+
+    const results = await sync.sync({ goalId: 'g1' }, { dryRun: true });
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        target_id: 'kr-tasks',
+        previous: 2,
+        value: 2,
+        status: 'unchanged',
+      }),
+      expect.objectContaining({
+        target_id: 'kr-revenue',
+        previous: 500,
+        value: 2300.5,
+        change: 1800.5,
+        progress_before: 10,
+        progress_after: 46.01,
+        status: 'would_update',
+      }),
+      expect.objectContaining({ target_id: 'kr-hours', previous: 3, value: 3.5, status: 'would_update' }),
+    ]);
+    // One goal read for all three bindings, and no writes
+    expect(requests.filter(request => request.url === '/goal/g1')).toHaveLength(1);
+    expect(requests.filter(request => request.method !== 'GET')).toEqual([]);
+
+    const taskQuery = requests.find(request => request.url === '/team/team1/task' && request.params?.list_ids);
+    expect(taskQuery?.params).toMatchObject({ list_ids: ['l1'], include_closed: true, subtasks: true });
+    const timeQuery = requests.find(request => request.url.startsWith('/team/team1/time_entries'));
+    expect(timeQuery?.url).toContain('start_date=1767225600000');
+    expect(timeQuery?.url).toContain('assignee=1%2C2&space_id=s1');
+  });
+
+  it('writes changed values and remembers the bindings', async () => {
+    await bindAll(createSync());
+    const sync = createSync();
+    requests = [];
+
+    const results = await sync.sync();
+
+    expect(results.map(result => result.status)).toEqual(['unchanged', 'updated', 'updated']);
+    expect(requests.filter(request => request.method === 'PUT')).toEqual([
+      {
+        method: 'PUT',
+        url: '/key_result/kr-revenue',
+        body: {
+          steps_current: 2300.5,
+          note: 'Synced from sum of custom field cf-amount across tasks in folder f1',
+        },
+      },
+      expect.objectContaining({ url: '/key_result/kr-hours', body: expect.objectContaining({ steps_current: 3.5 }) }),
+    ]);
+    expect(createSync().list().map(binding => [binding.target_id, binding.last_value])).toEqual([
+      ['kr-tasks', 2],
+      ['kr-revenue', 2300.5],
+      ['kr-hours', 3.5],
+    ]);
+  });
+
+  it('reports a failing binding without stopping the rest', async () => {
+    const sync = createSync();
+    await bindAll(sync);
+    goal.key_results.splice(0, 1);
+    try {
+      const results = await sync.sync({ targetIds: ['kr-tasks', 'kr-hours'] }, { dryRun: true });
+      expect(results).toEqual([
+        expect.objectContaining({
+          target_id: 'kr-tasks',
+          status: 'failed',
+          error: expect.stringContaining('no longer exists'),
+        }),
+        expect.objectContaining({ target_id: 'kr-hours', status: 'would_update' }),
+      ]);
+    } finally {
+      goal.key_results.unshift(target('kr-tasks', 'number', 2, 10));
+    }
+  });
+
+  it('does not store bindings while a plan is recording', async () => {
+    const sync = createSync();
+    await runWithPlan(() =>
+      sync.bind('g1', 'kr-tasks', GoalTargetSourceSchema.parse({ type: 'closed_tasks', list_id: 'l1' }))
+    );
+    expect(sync.list()).toEqual([]);
+
+    await bindAll(sync);
+    expect(sync.unbind('kr-tasks')).toBe(true);
+    expect(sync.unbind('kr-tasks')).toBe(false);
+    expect(createSync().list().map(binding => binding.target_id)).toEqual(['kr-revenue', 'kr-hours']);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { request } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { parseTransportOptions, startHttpServer, HttpServerHandle, TransportOptions } from '../http-server.js';
+import { getSessionToken, runWithClickUpToken } from '../clickup-client/session.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+import { CacheMode, ResponseCache } from '../clickup-client/cache.js';
+
+describe('parseTransportOptions', () => {
+  it('defaults to stdio on loopback', () => {
+    expect(parseTransportOptions([], {})).toEqual({
+      transport: 'stdio',
+      port: 3000,
+      host: '127.0.0.1',
+      authTokens: [],
+      requireClickUpToken: false,
+    });
+  });
+
+  it('prefers flags over environment variables', () => {
+    const options = parseTransportOptions(['--transport', 'http', '--port=8080'], {
+      CLICKUP_MCP_TRANSPORT: 'stdio',
+      CLICKUP_MCP_PORT: '9000',
+      CLICKUP_MCP_HOST: '0.0.0.0',
+      CLICKUP_MCP_AUTH_TOKENS: 'team-a, team-b',
+      CLICKUP_MCP_REQUIRE_CLICKUP_TOKEN: 'true',
+    });
+    expect(options).toEqual({
+      transport: 'http',
+      port: 8080,
+      host: '0.0.0.0',
+      authTokens: ['team-a', 'team-b'],
+      requireClickUpToken: true,
+    });
+  });
+
+  it('rejects unknown transports and bad ports', () => {
+    expect(() => parseTransportOptions(['--transport', 'ws'], {})).toThrow('Unknown transport "ws"');
+    expect(() => parseTransportOptions(['--port', 'abc'], {})).toThrow('Invalid port "abc"');
+  });
+});
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle | undefined;
+  const options: TransportOptions = {
+    transport: 'http',
+    port: 0,
+    host: '127.0.0.1',
+    authTokens: ['team-secret'],
+    requireClickUpToken: false,
+  };
+
+  // A server whose one tool reports which ClickUp token its calls would use
+  const createMcpServer = () => {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    server.tool('whoami', 'Report the session token', {}, async () => ({
+      content: [{ type: 'text', text: getSessionToken() ?? 'default' }],
+    }));
+    return server;
+  };
+
+  const connect = async (headers: Record<string, string>) => {
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${handle!.url}/mcp`), { requestInit: { headers } })
+    );
+    return client;
+  };
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  it('refuses to listen beyond loopback without auth tokens', async () => {
+    await expect(startHttpServer({ ...options, host: '0.0.0.0', authTokens: [] }, createMcpServer)).rejects.toThrow(
+      'without authentication'
+    );
+  });
+
+  it('requires a valid bearer token except for /health', async () => {
+    handle = await startHttpServer(options, createMcpServer);
+
+    expect((await fetch(`${handle.url}/health`)).status).toBe(200);
+    const denied = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}' });
+    expect(denied.status).toBe(401);
+    const wrong = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      body: '{}',
+      headers: { Authorization: 'Bearer nope' },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('rejects DNS-rebinding Host headers and foreign origins', async () => {
+    handle = await startHttpServer({ ...options, authTokens: [] }, createMcpServer);
+    const { port } = new URL(handle.url);
+    const status = (headers: Record<string, string>) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        const req = request(`${handle!.url}/mcp`, { method: 'POST', headers }, res => {
+          res.resume();
+          resolve(res.statusCode);
+        });
+        req.on('error', reject);
+        req.end('{}');
+      });
+
+    expect(await status({ Host: `attacker.example:${port}` })).toBe(403);
+    expect(await status({ Host: `localhost:${port}`, Origin: 'http://attacker.example' })).toBe(403);
+    expect(await status({ Host: `localhost:${port}`, Origin: 'null' })).toBe(403);
+    // Past the checks: not an initialize request
+    expect(await status({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(400);
+    expect(await status({ Host: `127.0.0.1:${port}` })).toBe(400);
+  });
+
+  it('runs each session with its own ClickUp token', async () => {
+    handle = await startHttpServer(options, createMcpServer);
+
+    const alice = await connect({ Authorization: 'Bearer team-secret', 'X-ClickUp-Token': 'pk_alice' });
+    const shared = await connect({ Authorization: 'Bearer team-secret' });
+
+    expect(await alice.callTool({ name: 'whoami', arguments: {} })).toMatchObject({
+      content: [{ type: 'text', text: 'pk_alice' }],
+    });
+    expect(await shared.callTool({ name: 'whoami', arguments: {} })).toMatchObject({
+      content: [{ type: 'text', text: 'default' }],
+    });
+    expect(handle.sessionCount()).toBe(2);
+
+    await alice.close();
+    await shared.close();
+  });
+
+  it('rejects sessions without a ClickUp token when one is required', async () => {
+    handle = await startHttpServer({ ...options, requireClickUpToken: true }, createMcpServer);
+
+    await expect(connect({ Authorization: 'Bearer team-secret' })).rejects.toThrow(/X-ClickUp-Token/);
+  });
+});
+
+describe('session ClickUp tokens', () => {
+  it('authenticate client requests and partition the response cache', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+    const client = new ClickUpClient({ apiToken: 'pk_server', cache });
+    const seen: string[] = [];
+    client.getAxiosInstance().defaults.adapter = async config => {
+      seen.push(String(config.headers.Authorization));
+      return { data: { spaces: [] }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    await client.get('/team/1/space');
+    await runWithClickUpToken('pk_alice', () => client.get('/team/1/space'));
+    await runWithClickUpToken('pk_alice', () => client.get('/team/1/space'));
+    await client.get('/team/1/space');
+
+    expect(seen).toEqual(['pk_server', 'pk_alice']);
+    expect(cache.status().entries).toBe(2);
+  });
+});
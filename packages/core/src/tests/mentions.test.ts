@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MentionResolver, resolveCommentMentions, resolveMarkdownMentions } from '../clickup-client/mentions.js';
+import type { ClickUpClient } from '../clickup-client/index.js';
+import { markdownToClickUpComment } from '../utils/clickup-comment-formatter.js';
+
+const members = [
+  { id: 11, username: 'Alice Smith', email: 'alice@corp.com', role: 3 },
+  { id: 12, username: 'Alan Jones', email: 'alan@corp.com', role: 3 },
+  { id: 13, username: 'Alice Cooper', email: 'acooper@corp.com', role: 3 },
+  { id: 14, username: 'Olga Owner', email: 'olga@corp.com', role: 1 },
+  { id: 15, username: 'Gus Guest', email: 'gus@partner.com', role: 4 },
+];
+
+const responses: Record<string, unknown> = {
+  '/team': {
+    teams: [{ id: '1', name: 'Acme', members: members.slice(0, 4).map(({ role, ...user }) => ({ user, role })) }],
+  },
+  '/team/1/seats': { guests: [{ user: { id: 15, username: 'Gus Guest', email: 'gus@partner.com', role: 4 } }] },
+  '/task/abc': {
+    id: 'abc',
+    team_id: '1',
+    list: { id: '900', name: 'Launch' },
+    creator: { id: 12 },
+    assignees: [],
+    watchers: [],
+  },
+  '/list/900/member': { members: [{ id: 11 }] },
+  '/task/abc/member': { members: [] },
+};
+
+describe('resolveCommentMentions', () => {
+  it('turns @names, emails and bracketed names into tag blocks', () => {
+    const { comment } = markdownToClickUpComment(
+      'Hi @alan and @acooper@corp.com, see @[Alice Smith].\n\n`@alan` stays code, as does alan@corp.com'
+    );
+    const resolved = resolveCommentMentions(comment, members);
+
+    expect(resolved.comment.filter(block => block.type === 'tag')).toEqual([
+      { type: 'tag', user: { id: 12 } },
+      { type: 'tag', user: { id: 13 } },
+      { type: 'tag', user: { id: 11 } },
+    ]);
+    expect(resolved.comment[0]).toEqual({ text: 'Hi ', attributes: {} });
+    expect(resolved.comment.some(block => block.text === '@alan' && block.attributes?.code)).toBe(true);
+    expect(resolved.mentioned.map(member => member.id)).toEqual([12, 13, 11]);
+  });
+
+  it('leaves unknown bare names alone but rejects ambiguous and unknown explicit mentions', () => {
+    const plain = [{ text: 'ping @here about @types/node' }];
+    expect(resolveCommentMentions(plain, members).comment).toEqual(plain);
+
+    // An exact email local part beats a first name
+    expect(resolveCommentMentions([{ text: 'cc @alice' }], members).mentioned[0].id).toBe(11);
+    expect(() => resolveCommentMentions([{ type: 'tag', text: '@Ali' }], members)).toThrow(
+      /Ambiguous mention "@Ali" matches 2 members[\s\S]*Alice Smith[\s\S]*Alice Cooper/
+    );
+    expect(() => resolveCommentMentions([{ text: 'cc @nobody@corp.com' }], members)).toThrow(
+      'No workspace member matches the mention "@nobody@corp.com"'
+    );
+    expect(() => resolveCommentMentions([{ type: 'tag', text: '@Zed' }], members)).toThrow('"@Zed"');
+  });
+});
+
+describe('resolveMarkdownMentions', () => {
+  it('writes ClickUp mention links outside code', () => {
+    const markdown = 'Thanks @alan and @[Alice S]!\n```\n@alan\n```\n`@alan` and @[Gus](user:15)';
+
+    expect(resolveMarkdownMentions(markdown, members).content).toBe(
+      'Thanks [@Alan Jones](#user_mention#12) and [@Alice Smith](#user_mention#11)!\n```\n@alan\n```\n' +
+        '`@alan` and [@Gus Guest](#user_mention#15)'
+    );
+  });
+});
+
+describe('MentionResolver', () => {
+  let resolver: MentionResolver;
+  let requests: string[];
+
+  beforeEach(() => {
+    requests = [];
+    const fakeHttp: Partial<ClickUpClient> = {
+      get: jest.fn(async (endpoint: string) => {
+        requests.push(endpoint);
+        if (!(endpoint in responses)) {
+          throw new Error(`unexpected GET ${endpoint}`);
+        }
+        return responses[endpoint];
+      }) as any,
+    };
+    resolver = new MentionResolver(fakeHttp as ClickUpClient);
+  });
+
+  it('makes no requests for a plain comment with a numeric or no assignee', async () => {
+    const { comment } = markdownToClickUpComment('Shipped in **v2**, thanks');
+
+    expect(await resolver.resolveTaskComment('abc', comment)).toEqual({ comment, mentioned: [] });
+    expect(await resolver.resolveTaskComment('abc', comment, { assignee: '12' })).toEqual({
+      comment,
+      assignee: 12,
+      mentioned: [],
+    });
+    expect(requests).toEqual([]);
+
+    await resolver.resolveTaskComment('abc', comment, { assignee: 'alan' });
+    expect(requests).toContain('/team/1/seats');
+  });
+
+  it('accepts list members, the creator and workspace owners', async () => {
+    const { comment } = markdownToClickUpComment('@alice@corp.com @alan @olga');
+    const resolved = await resolver.resolveTaskComment('abc', comment, { assignee: 'alan@corp.com' });
+
+    expect(resolved.assignee).toBe(12);
+    expect(resolved.mentioned.map(member => member.id)).toEqual([11, 12, 14]);
+  });
+
+  it('rejects mentions and assignees who cannot see the task', async () => {
+    await expect(resolver.resolveTaskComment('abc', markdownToClickUpComment('FYI @gus').comment)).rejects.toThrow(
+      /cannot see task abc[\s\S]*Gus Guest <gus@partner.com> \(user 15\)[\s\S]*list "Launch"/
+    );
+    await expect(resolver.resolveTaskComment('abc', [{ text: 'hi' }], { assignee: 'acooper' })).rejects.toThrow(
+      'Alice Cooper'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { NameResolver, normalizeName } from '../clickup-client/resolver.js';
+import type { ClickUpClient } from '../clickup-client/index.js';
+
+/**
+ * Workspace fixture:
+ *
+ *   Acme (team 1)
+ *   ├── Marketing (space 10)
+ *   │   ├── Campaigns (folder 100) → Q3 Launch (list 1000), Q4 Launch (list 1001)
+ *   │   └── Backlog (folderless list 1002)
+ *   └── Engineering (space 20)
+ *       └── Backlog (folderless list 2000)
+ */
+const responses: Record<string, unknown> = {
+  '/team': {
+    teams: [
+      {
+        id: '1',
+        name: 'Acme',
+        members: [
+          { user: { id: 11, username: 'Alice Smith', email: 'alice@corp.com' } },
+          { user: { id: 12, username: 'Alan Jones', email: 'alan@corp.com' } },
+        ],
+      },
+    ],
+  },
+  '/team/1/seats': { members: [{ user: { id: 13, username: 'Bob', email: 'bob@corp.com' } }] },
+  '/team/1/space': {
+    spaces: [
+      { id: '10', name: 'Marketing' },
+      { id: '20', name: 'Engineering' },
+    ],
+  },
+  '/space/10/folder': {
+    folders: [
+      {
+        id: '100',
+        name: 'Campaigns',
+        lists: [
+          { id: '1000', name: 'Q3 Launch' },
+          { id: '1001', name: 'Q4 Launch' },
+        ],
+      },
+    ],
+  },
+  '/space/10/list': { lists: [{ id: '1002', name: 'Backlog' }] },
+  '/space/20/folder': { folders: [] },
+  '/space/20/list': { lists: [{ id: '2000', name: 'Backlog' }] },
+  '/list/1000': { id: '1000', statuses: [{ status: 'to do' }, { status: 'In Progress' }, { status: 'complete' }] },
+  '/user': { user: { id: 99, username: 'Me' } },
+};
+
+describe('NameResolver', () => {
+  let calls: string[];
+  let resolver: NameResolver;
+
+  beforeEach(() => {
+    calls = [];
+    const fakeHttp: Partial<ClickUpClient> = {
+      get: jest.fn(async (endpoint: string) => {
+        calls.push(endpoint);
+        if (!(endpoint in responses)) {
+          throw new Error(`unexpected GET ${endpoint}`);
+        }
+        return responses[endpoint];
+      }) as any,
+    };
+    resolver = new NameResolver(fakeHttp as ClickUpClient);
+  });
+
+  it('passes numeric IDs through without indexing', async () => {
+    expect(await resolver.resolveListId('901234')).toBe('901234');
+    expect(await resolver.resolveUserId(42)).toBe(42);
+    expect(calls).toEqual([]);
+  });
+
+  it('resolves names case- and punctuation-insensitively', async () => {
+    expect(await resolver.resolveSpaceId('marketing')).toBe('10');
+    expect(await resolver.resolveListId('q3-launch')).toBe('1000');
+    expect(await resolver.resolveFolderId('Campaigns')).toBe('100');
+  });
+
+  it('uses path segments to disambiguate, skipping intermediate levels', async () => {
+    expect(await resolver.resolveListId('Engineering / Backlog')).toBe('2000');
+    expect(await resolver.resolveListId('Marketing / Q3 Launch')).toBe('1000');
+    expect(await resolver.resolveListId('Acme > Marketing > Campaigns > Q4 Launch')).toBe('1001');
+  });
+
+  it('reports every candidate when a name is ambiguous', async () => {
+    await expect(resolver.resolveListId('Backlog')).rejects.toThrow(/Ambiguous list "Backlog" matches 2 items/);
+    await expect(resolver.resolveListId('Backlog')).rejects.toThrow('Acme / Engineering / Backlog (list 2000)');
+  });
+
+  it('prefers an exact match over a prefix match', async () => {
+    // "Q3 Launch" is exact; nothing else starts with it
+    expect(await resolver.resolveListId('Q3 Launch')).toBe('1000');
+    // Both lists start with "Q" — a tie at prefix level
+    await expect(resolver.resolveListId('Q')).rejects.toThrow('Ambiguous');
+  });
+
+  it('accepts only exact names when asked to', async () => {
+    await expect(resolver.resolveSpaceId('Market', { exact: true })).rejects.toThrow('No space matches "Market"');
+    expect(await resolver.resolveSpaceId('Market')).toBe('10');
+  });
+
+  it('resolves members by email, username, @handle and "me"', async () => {
+    expect(await resolver.resolveUserId('alice@corp.com')).toBe(11);
+    expect(await resolver.resolveUserId('Alan Jones')).toBe(12);
+    expect(await resolver.resolveUserId('@bob')).toBe(13);
+    expect(await resolver.resolveUserId('me')).toBe(99);
+    await expect(resolver.resolveUserId('al')).rejects.toThrow('Ambiguous workspace member');
+  });
+
+  it('returns the list\'s own spelling of a status', async () => {
+    expect(await resolver.resolveStatus('1000', 'in progress')).toBe('In Progress');
+    await expect(resolver.resolveStatus('1000', 'blocked')).rejects.toThrow('to do, In Progress, complete');
+  });
+
+  it('builds the index once and reuses it', async () => {
+    await resolver.resolveSpaceId('Marketing');
+    const afterFirst = calls.length;
+    await resolver.resolveSpaceId('Engineering');
+    expect(calls.length).toBe(afterFirst);
+  });
+});
+
+describe('normalizeName', () => {
+  it('folds case, accents and punctuation', () => {
+    expect(normalizeName('  Café—Roadmap_2025 ')).toBe('cafe roadmap 2025');
+  });
+});
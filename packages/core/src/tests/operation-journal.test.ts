@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OperationJournal, touchedFieldsForUpdate } from '../clickup-client/journal.js';
+import { runWithPlan } from '../clickup-client/dry-run.js';
+import type { ClickUpClient } from '../clickup-client/index.js';
+
+const rawTask = (overrides: Record<string, unknown> = {}) => ({
+  id: 't1',
+  name: 'Write launch post',
+  list: { id: 'l1' },
+  parent: null,
+  markdown_description: '# Draft',
+  status: { status: 'in progress' },
+  priority: { id: '2', priority: 'high' },
+  due_date: '1767225600000',
+  start_date: null,
+  time_estimate: 3600000,
+  assignees: [{ id: 11 }, { id: 12 }],
+  tags: [{ name: 'launch' }],
+  custom_fields: [
+    { id: 'cf-text', name: 'Channel', type: 'short_text', value: 'Blog' },
+    { id: 'cf-users', name: 'Reviewers', type: 'users', value: [{ id: 11 }] },
+    { id: 'cf-progress', name: 'Progress', type: 'automatic_progress', value: { percent_complete: 50 } },
+  ],
+  checklists: [
+    {
+      name: 'Steps',
+      items: [
+        { name: 'Outline', resolved: true, assignee: { id: 11 }, orderindex: 0 },
+        { name: 'Publish', resolved: false, assignee: null, orderindex: 1 },
+      ],
+    },
+  ],
+  ...overrides,
+});
+
+describe('OperationJournal', () => {
+  let tasks: Record<string, unknown>;
+  let writes: Array<[string, string, unknown?]>;
+  let client: ClickUpClient;
+  let journal: OperationJournal;
+
+  beforeEach(() => {
+    tasks = { '/task/t1': rawTask() };
+    writes = [];
+    let nextItem = 0;
+    const fake: Partial<ClickUpClient> = {
+      get: jest.fn(async (endpoint: string) => {
+        if (!(endpoint in tasks)) {
+          throw new Error('ClickUp API Error (404): Task not found');
+        }
+        return tasks[endpoint];
+      }) as any,
+      put: jest.fn(async (endpoint: string, body?: unknown) => {
+        writes.push(['PUT', endpoint, body]);
+        return {};
+      }) as any,
+      post: jest.fn(async (endpoint: string, body?: any) => {
+        writes.push(['POST', endpoint, body]);
+        if (endpoint.endsWith('/task')) {
+          return { id: body.parent ? 'new-sub' : 'new-t1' };
+        }
+        if (endpoint.endsWith('/checklist')) {
+          return { checklist: { id: 'c-new', items: [] } };
+        }
+        if (endpoint.endsWith('/checklist_item')) {
+          return { checklist: { id: 'c-new', items: [{ id: `i${++nextItem}`, name: body.name }] } };
+        }
+        return {};
+      }) as any,
+      delete: jest.fn(async (endpoint: string) => {
+        writes.push(['DELETE', endpoint]);
+        return {};
+      }) as any,
+    };
+    client = fake as ClickUpClient;
+    journal = new OperationJournal(client);
+  });
+
+  it('restores only the fields an update touched', async () => {
+    const recorder = journal.begin('clickup_update_task', 'update');
+    await recorder.capture('t1', ['name', 'assignees', 'tags', 'custom_field:cf-users', 'custom_field:cf-text']);
+    const id = recorder.commit()!;
+
+    // The update (and an unrelated status change) happened
+    tasks['/task/t1'] = rawTask({
+      name: 'Renamed',
+      status: { status: 'done' },
+      assignees: [{ id: 12 }, { id: 13 }],
+      tags: [{ name: 'launch' }, { name: 'urgent' }],
+      custom_fields: [
+        { id: 'cf-text', type: 'short_text', value: 'Newsletter' },
+        { id: 'cf-users', type: 'users', value: [{ id: 12 }] },
+      ],
+    });
+
+    const [result] = await journal.undo(id);
+
+    expect(result.restored).toEqual(['name', 'assignees', 'tags', 'custom_field:cf-users', 'custom_field:cf-text']);
+    expect(writes).toEqual([
+      ['PUT', '/task/t1', { name: 'Write launch post', assignees: { add: [11], rem: [13] } }],
+      ['DELETE', '/task/t1/tag/urgent'],
+      ['POST', '/task/t1/field/cf-users', { value: { add: [11], rem: [12] } }],
+      ['POST', '/task/t1/field/cf-text', { value: 'Blog' }],
+    ]);
+    await expect(journal.undo(id)).rejects.toThrow('already undone');
+  });
+
+  it('clears a custom field that was empty before', async () => {
+    tasks['/task/t1'] = rawTask({ custom_fields: [{ id: 'cf-text', type: 'short_text' }] });
+    const recorder = journal.begin('clickup_set_custom_field_value', 'update');
+    await recorder.capture('t1', ['custom_field:cf-text']);
+
+    await journal.undo(recorder.commit()!);
+
+    expect(writes).toEqual([['DELETE', '/task/t1/field/cf-text']]);
+  });
+
+  it('recreates a deleted task with checklists, custom fields and subtasks', async () => {
+    tasks['/task/t1'] = rawTask({ subtasks: [{ id: 's1' }] });
+    tasks['/task/s1'] = rawTask({ id: 's1', name: 'Proofread', parent: 't1', checklists: [], custom_fields: [] });
+    const recorder = journal.begin('clickup_delete_task', 'delete');
+    await recorder.capture('t1');
+    const id = recorder.commit()!;
+    delete tasks['/task/t1'];
+    delete tasks['/task/s1'];
+
+    const [result] = await journal.undo(id);
+
+    expect(result.recreated_as).toBe('new-t1');
+    expect(writes[0]).toEqual([
+      'POST',
+      '/list/l1/task',
+      {
+        name: 'Write launch post',
+        markdown_description: '# Draft',
+        status: 'in progress',
+        priority: 2,
+        due_date: 1767225600000,
+        time_estimate: 3600000,
+        assignees: [11, 12],
+        tags: ['launch'],
+        custom_fields: [
+          { id: 'cf-text', value: 'Blog' },
+          { id: 'cf-users', value: { add: [11], rem: [] } },
+        ],
+      },
+    ]);
+    expect(writes.slice(1).map(([method, endpoint, body]) => `${method} ${endpoint} ${JSON.stringify(body)}`)).toEqual([
+      'POST /task/new-t1/checklist {"name":"Steps"}',
+      'POST /checklist/c-new/checklist_item {"name":"Outline","assignee":11}',
+      'PUT /checklist/c-new/checklist_item/i1 {"resolved":true}',
+      'POST /checklist/c-new/checklist_item {"name":"Publish"}',
+      expect.stringContaining('POST /list/l1/task {"name":"Proofread"'),
+    ]);
+    expect(writes[writes.length - 1][2]).toMatchObject({ parent: 'new-t1' });
+    expect(result.restored).toContain('subtask Proofread -> new-sub');
+  });
+
+  it('does not recreate a task that still exists', async () => {
+    const recorder = journal.begin('clickup_bulk_delete_tasks', 'delete');
+    await recorder.capture('t1');
+
+    const [result] = await journal.undo(recorder.commit()!);
+
+    expect(writes).toEqual([]);
+    expect(result.skipped).toEqual([{ field: 'task', reason: 'task still exists; nothing to recreate' }]);
+  });
+
+  it('journals nothing while a dry-run plan is active', async () => {
+    await runWithPlan(async () => {
+      const recorder = journal.begin('clickup_update_task', 'update');
+      await recorder.capture('t1', ['name']);
+      expect(recorder.commit()).toBeUndefined();
+    });
+    expect(journal.list()).toEqual([]);
+  });
+
+  describe('on disk', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'clickup-journal-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists entries and lists the newest first', async () => {
+      const filePath = join(dir, 'operations.json');
+      const first = new OperationJournal(client, { filePath });
+      for (const tool of ['clickup_update_task', 'clickup_set_custom_field_value']) {
+        const recorder = first.begin(tool, 'update');
+        await recorder.capture('t1', ['name']);
+        recorder.commit();
+      }
+
+      const reloaded = new OperationJournal(client, { filePath });
+      expect(reloaded.list().map(entry => entry.tool)).toEqual([
+        'clickup_set_custom_field_value',
+        'clickup_update_task',
+      ]);
+    });
+  });
+});
+
+describe('touchedFieldsForUpdate', () => {
+  it('maps update parameters onto snapshot fields', () => {
+    expect(
+      touchedFieldsForUpdate({
+        markdown_content: 'x',
+        due_date_time: true,
+        status: 'done',
+        assignees: [1],
+        parent: 'p1',
+        priority: undefined,
+        custom_fields: [{ id: 'cf1', value: 1 }],
+      })
+    ).toEqual(['description', 'due_date', 'status', 'assignees', 'custom_field:cf1']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheMode, ResponseCache, parseCacheTtls } from '../clickup-client/cache.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+
+describe('ResponseCache', () => {
+  let fetches: number;
+  const fetcher = async () => {
+    fetches++;
+    return { spaces: [{ id: 's1', name: 'Marketing' }] };
+  };
+
+  beforeEach(() => {
+    fetches = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves repeated hierarchy reads from memory', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+
+    await cache.getOrFetch('/team/1/space', { archived: false }, fetcher);
+    const second = await cache.getOrFetch('/team/1/space', { archived: false }, fetcher);
+
+    expect(fetches).toBe(1);
+    expect(second).toEqual({ spaces: [{ id: 's1', name: 'Marketing' }] });
+    expect(cache.status()).toMatchObject({ hits: 1, misses: 1, entries: 1, entries_by_resource: { spaces: 1 } });
+  });
+
+  it('keys entries by params regardless of key order', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+
+    await cache.getOrFetch('/team/1/space', { a: 1, b: 2 }, fetcher);
+    await cache.getOrFetch('/team/1/space', { b: 2, a: 1 }, fetcher);
+    await cache.getOrFetch('/team/1/space', { a: 2 }, fetcher);
+
+    expect(fetches).toBe(2);
+  });
+
+  it('never caches endpoints outside the hierarchy resources', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+
+    await cache.getOrFetch('/list/9/task', {}, fetcher);
+    await cache.getOrFetch('/list/9/task', {}, fetcher);
+
+    expect(fetches).toBe(2);
+    expect(cache.resourceFor('/task/abc')).toBeUndefined();
+    expect(cache.resourceFor('https://api.clickup.com/api/v2/list/9/field')).toBe('custom_fields');
+  });
+
+  it('hands out copies so callers cannot mutate cached data', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+
+    const first = await cache.getOrFetch<any>('/team/1/space', {}, fetcher);
+    first.spaces[0].name = 'mutated';
+    const second = await cache.getOrFetch<any>('/team/1/space', {}, fetcher);
+
+    expect(second.spaces[0].name).toBe('Marketing');
+  });
+
+  it('expires entries after the resource TTL and counts unchanged refetches', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY, ttlOverrides: { spaces: 60 } });
+
+    await cache.getOrFetch('/team/1/space', {}, fetcher);
+    jest.setSystemTime(1_000_000 + 61_000);
+    await cache.getOrFetch('/team/1/space', {}, fetcher);
+
+    expect(fetches).toBe(2);
+    expect(cache.status().revalidated_unchanged).toBe(1);
+  });
+
+  it('drops the resource families a write can affect', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+    await cache.getOrFetch('/team/1/space', {}, fetcher);
+    await cache.getOrFetch('/space/s1/folder', {}, fetcher);
+    await cache.getOrFetch('/team/1/seats', {}, fetcher);
+
+    expect(cache.invalidateForWrite('/task/abc')).toBe(0);
+    expect(cache.invalidateForWrite('/space/s1/folder')).toBe(2);
+    expect(cache.status().entries_by_resource).toEqual({ members: 1 });
+  });
+
+  it('passes straight through when off', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.OFF });
+
+    await cache.getOrFetch('/team/1/space', {}, fetcher);
+    await cache.getOrFetch('/team/1/space', {}, fetcher);
+
+    expect(fetches).toBe(2);
+    expect(cache.status().misses).toBe(0);
+  });
+
+  describe('disk mode', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'clickup-cache-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists entries across instances', async () => {
+      const filePath = join(dir, 'responses.json');
+      await new ResponseCache({ mode: CacheMode.DISK, filePath }).getOrFetch('/folder/f1/list', {}, fetcher);
+
+      const reloaded = new ResponseCache({ mode: CacheMode.DISK, filePath });
+      await reloaded.getOrFetch('/folder/f1/list', {}, fetcher);
+
+      expect(fetches).toBe(1);
+      expect(reloaded.status().hits).toBe(1);
+    });
+  });
+});
+
+describe('parseCacheTtls', () => {
+  it('keeps known resources with numeric values only', () => {
+    expect(parseCacheTtls('spaces=1800, lists=120,bogus=5,tags=abc')).toEqual({ spaces: 1800, lists: 120 });
+    expect(parseCacheTtls(undefined)).toEqual({});
+  });
+});
+
+describe('ClickUpClient cache wiring', () => {
+  it('invalidates cached reads when a write goes through the client', async () => {
+    const cache = new ResponseCache({ mode: CacheMode.MEMORY });
+    const client = new ClickUpClient({ apiToken: 'pk_test', cache });
+    const http = client.getAxiosInstance();
+    const getSpy = jest.spyOn(http, 'get').mockResolvedValue({ data: { folders: [] } });
+    jest.spyOn(http, 'post').mockResolvedValue({ data: { id: 'f2' } });
+
+    await client.get('/space/s1/folder');
+    await client.get('/space/s1/folder');
+    expect(getSpy).toHaveBeenCalledTimes(1);
+
+    await client.post('/space/s1/folder', { name: 'New' });
+    await client.get('/space/s1/folder');
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  prepareContentForClickUp: jest.fn((content: string) => ({ description: content })),
+  processClickUpResponse: jest.fn((task: any) => task),
+  markdownToHtml: jest.fn((s: string) => s),
+  htmlToMarkdown: jest.fn((s: string) => s),
+}));
+
+import {
+  TasksClient,
+  decodeTasksCursor,
+  encodeTasksCursor,
+  MAX_TASKS_PER_CALL,
+} from '../clickup-client/tasks.js';
+import type { ClickUpClient } from '../clickup-client/index.js';
+
+const makeTasks = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `t${from + i}`,
+    name: `Task ${from + i}`,
+    url: `https://app.clickup.com/t/t${from + i}`,
+  }));
+
+describe('TasksClient pagination', () => {
+  let pages: Record<number, { tasks: any[]; last_page?: boolean }>;
+  let requested: Array<{ endpoint: string; page: number }>;
+  let client: TasksClient;
+
+  beforeEach(() => {
+    requested = [];
+    pages = {};
+
+    const fakeHttp: Partial<ClickUpClient> = {
+      get: jest.fn(async (endpoint: string, params?: any) => {
+        requested.push({ endpoint, page: params.page });
+        return pages[params.page] ?? { tasks: [], last_page: true };
+      }) as any,
+    };
+
+    client = new TasksClient(fakeHttp as ClickUpClient);
+  });
+
+  it('walks pages until last_page and summarises the walk', async () => {
+    pages = {
+      0: { tasks: makeTasks(0, 100), last_page: false },
+      1: { tasks: makeTasks(100, 100), last_page: false },
+      2: { tasks: makeTasks(200, 10), last_page: true },
+    };
+
+    const result = await client.getAllTasksFromList('list-1');
+
+    expect(requested.map(r => r.page)).toEqual([0, 1, 2]);
+    expect(requested[0].endpoint).toBe('/list/list-1/task');
+    expect(result.tasks).toHaveLength(210);
+    expect(result.pagination).toEqual({
+      start_page: 0,
+      pages_fetched: 3,
+      tasks_returned: 210,
+      duplicates_skipped: 0,
+      complete: true,
+    });
+  });
+
+  it('skips tasks repeated across pages', async () => {
+    pages = {
+      0: { tasks: makeTasks(0, 100), last_page: false },
+      // A task inserted upstream shifted t99 onto the next page.
+      1: { tasks: [...makeTasks(99, 1), ...makeTasks(100, 5)], last_page: true },
+    };
+
+    const result = await client.getAllFilteredTeamTasks('team-1');
+
+    expect(requested[0].endpoint).toBe('/team/team-1/task');
+    expect(result.tasks).toHaveLength(105);
+    expect(result.pagination.duplicates_skipped).toBe(1);
+  });
+
+  it('treats a short page as the last page when last_page is absent', async () => {
+    pages = { 0: { tasks: makeTasks(0, 40) } };
+
+    const result = await client.getAllTasksFromList('list-1');
+
+    expect(requested).toHaveLength(1);
+    expect(result.pagination.complete).toBe(true);
+  });
+
+  it('stops at max_tasks mid-page and resumes from the same offset', async () => {
+    pages = {
+      0: { tasks: makeTasks(0, 100), last_page: false },
+      1: { tasks: makeTasks(100, 100), last_page: true },
+    };
+
+    const first = await client.getAllTasksFromList('list-1', undefined, { max_tasks: 150 });
+    expect(first.tasks).toHaveLength(150);
+    expect(first.pagination.complete).toBe(false);
+    expect(decodeTasksCursor(first.pagination.next_cursor!)).toEqual({ page: 1, offset: 50 });
+
+    const second = await client.getAllTasksFromList('list-1', undefined, {
+      cursor: first.pagination.next_cursor,
+    });
+    expect(second.tasks.map(t => t.id)[0]).toBe('t150');
+    expect(second.tasks).toHaveLength(50);
+    expect(second.pagination.start_page).toBe(1);
+    expect(second.pagination.complete).toBe(true);
+  });
+
+  it('points the cursor at the next page when the cap lands on a page boundary', async () => {
+    pages = {
+      0: { tasks: makeTasks(0, 100), last_page: false },
+      1: { tasks: makeTasks(100, 100), last_page: true },
+    };
+
+    const result = await client.getAllTasksFromList('list-1', undefined, { max_tasks: 100 });
+
+    expect(requested).toHaveLength(1);
+    expect(decodeTasksCursor(result.pagination.next_cursor!)).toEqual({ page: 1, offset: 0 });
+  });
+
+  it('starts from params.page and clamps max_tasks to the hard ceiling', async () => {
+    pages = { 3: { tasks: makeTasks(0, 5), last_page: true } };
+
+    const result = await client.getAllTasksFromList('list-1', { page: 3 }, { max_tasks: MAX_TASKS_PER_CALL * 10 });
+
+    expect(requested.map(r => r.page)).toEqual([3]);
+    expect(result.pagination.start_page).toBe(3);
+  });
+
+  it('rejects a malformed cursor', async () => {
+    await expect(client.getAllTasksFromList('list-1', undefined, { cursor: 'not-a-cursor' })).rejects.toThrow(
+      'Invalid pagination cursor'
+    );
+    expect(decodeTasksCursor(encodeTasksCursor(7, 12))).toEqual({ page: 7, offset: 12 });
+  });
+});
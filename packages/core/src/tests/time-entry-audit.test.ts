@@ -0,0 +1,172 @@
+import { describe, it, expect } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import { auditTimeEntries, TimeEntryAuditOptions } from '../utils/time-entry-audit.js';
+import type { ReportableTimeEntry } from '../utils/timesheet-report.js';
+import { EnhancedTimeTrackingClient } from '../clickup-client/time-tracking-enhanced.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+const alice = { id: 1, username: 'Alice' };
+const task = { id: 't1', name: 'Homepage' };
+
+const entry = (id: string, start: string, hours: number, extra: Partial<ReportableTimeEntry> = {}) => ({
+  id,
+  task,
+  user: alice,
+  billable: true,
+  start: String(utc(start)),
+  end: String(utc(start) + hours * HOUR),
+  duration: String(hours * HOUR),
+  ...extra,
+});
+
+// Monday 2026-01-05 to Sunday 2026-01-11; Wednesday is a holiday
+const options: TimeEntryAuditOptions = {
+  timezone: 'UTC',
+  start_date: utc('2026-01-05T00:00:00'),
+  end_date: utc('2026-01-11T00:00:00'),
+  max_timer_hours: 10,
+  expected_hours_per_day: 8,
+  working_days: [1, 2, 3, 4, 5],
+  holidays: ['2026-01-07'],
+  now: utc('2026-01-11T00:00:00'),
+};
+
+const entries = [
+  entry('mon-1', '2026-01-05T09:00:00', 4),
+  entry('mon-2', '2026-01-05T12:00:00', 2),
+  entry('tue-1', '2026-01-06T09:00:00', 8),
+  entry('tue-2', '2026-01-06T10:00:00', 1),
+  entry('wed-1', '2026-01-07T10:00:00', 1, { task: null }),
+  entry('thu-1', '2026-01-08T09:00:00', 0),
+  entry('sat-1', '2026-01-10T10:00:00', 2),
+  // getTimeEntries also lists the running timer, with a negative duration
+  entry('fri-timer', '2026-01-09T08:00:00', 0, { end: null, duration: String(-utc('2026-01-09T08:00:00')) }),
+];
+const running = [entries[entries.length - 1]];
+
+describe('auditTimeEntries', () => {
+  const report = auditTimeEntries(entries, running, { ...options, members: [{ id: 2, username: 'Bob' }] });
+  const aliceReport = report.users.find(user => user.username === 'Alice');
+  const findingsOf = (type: string) => aliceReport?.findings.filter(finding => finding.type === type) ?? [];
+
+  it('summarises findings per type and per user', () => {
+    expect(report.checked).toEqual({ entries: 7, running_timers: 1, users: 2, working_days: 4 });
+    expect(report.summary).toEqual({
+      overlap: 3,
+      long_timer: 1,
+      no_task: 1,
+      non_positive_duration: 1,
+      weekend: 1,
+      holiday: 1,
+      below_expected_hours: 6,
+    });
+    expect(report.users.map(user => [user.username, user.findings.length, user.tracked_hours])).toEqual([
+      ['Alice', 10, 58],
+      ['Bob', 4, 0],
+    ]);
+  });
+
+  it('suggests ending the earlier entry of a partial overlap', () => {
+    expect(findingsOf('overlap')).toEqual([
+      expect.objectContaining({
+        entry_id: 'mon-2',
+        related_entry_id: 'mon-1',
+        fix: { timer_id: 'mon-1', changes: { stop: utc('2026-01-05T12:00:00') } },
+      }),
+      expect.objectContaining({
+        entry_id: 'tue-2',
+        related_entry_id: 'tue-1',
+        suggestion: expect.stringContaining('entirely inside'),
+      }),
+      // The forgotten timer runs through Saturday's entry
+      expect.objectContaining({
+        entry_id: 'sat-1',
+        related_entry_id: 'fri-timer',
+        suggestion: expect.stringContaining('Timer fri-timer is still running'),
+      }),
+    ]);
+    expect(findingsOf('overlap')[1]).not.toHaveProperty('fix');
+  });
+
+  it('caps a forgotten timer at the threshold', () => {
+    expect(findingsOf('long_timer')).toEqual([
+      expect.objectContaining({
+        entry_id: 'fri-timer',
+        message: expect.stringContaining('has been running for 40h'),
+        fix: { timer_id: 'fri-timer', changes: { stop: utc('2026-01-09T18:00:00') } },
+      }),
+    ]);
+  });
+
+  it('flags missing tasks, empty durations and days off', () => {
+    expect(findingsOf('no_task').map(finding => finding.entry_id)).toEqual(['wed-1']);
+    expect(findingsOf('non_positive_duration')).toEqual([
+      expect.objectContaining({ entry_id: 'thu-1', suggestion: 'Delete the entry, or set its real end time.' }),
+    ]);
+    expect(findingsOf('holiday')).toEqual([expect.objectContaining({ entry_id: 'wed-1', date: '2026-01-07' })]);
+    expect(findingsOf('weekend')).toEqual([expect.objectContaining({ entry_id: 'sat-1', date: '2026-01-10' })]);
+  });
+
+  it('checks each finished working day against the target', () => {
+    // Monday's overlap counts twice (6h); Thursday only has the empty entry
+    expect(findingsOf('below_expected_hours').map(finding => [finding.date, finding.message])).toEqual([
+      ['2026-01-05', '6h logged on 2026-01-05, below the 8h target'],
+      ['2026-01-08', '0h logged on 2026-01-08, below the 8h target'],
+    ]);
+    const bob = report.users.find(user => user.username === 'Bob');
+    expect(bob?.findings.map(finding => finding.date)).toEqual([
+      '2026-01-05',
+      '2026-01-06',
+      '2026-01-08',
+      '2026-01-09',
+    ]);
+  });
+
+  it('skips days that have not ended yet', () => {
+    const midweek = auditTimeEntries([], [], { ...options, members: [alice], now: utc('2026-01-06T12:00:00') });
+    expect(midweek.checked.working_days).toBe(1);
+  });
+});
+
+describe('EnhancedTimeTrackingClient.auditTimeEntries', () => {
+  it('reads the running timer of every assignee', async () => {
+    const client = new ClickUpClient({ apiToken: 'pk_test' });
+    const urls: string[] = [];
+    client.getAxiosInstance().defaults.adapter = async config => {
+      const url = String(config.url);
+      urls.push(url);
+      let data: unknown = { data: entries.slice(0, 2) };
+      if (url.includes('/time_entries/current')) {
+        data = {
+          data: url.endsWith('assignee=1')
+            ? { id: 'fri-timer', task, user: alice, billable: true, start: entries[7].start, tags: [] }
+            : null,
+        };
+      }
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const { working_days, holidays, timezone, max_timer_hours, expected_hours_per_day, now } = options;
+    const report = await new EnhancedTimeTrackingClient(client).auditTimeEntries(
+      'team1',
+      { start_date: options.start_date, end_date: options.end_date, assignee: '1,2' },
+      { working_days, holidays, timezone, max_timer_hours, expected_hours_per_day, now }
+    );
+
+    expect(urls.sort()).toEqual([
+      '/team/team1/time_entries/current?assignee=1',
+      '/team/team1/time_entries/current?assignee=2',
+      `/team/team1/time_entries?start_date=${options.start_date}&end_date=${options.end_date}&assignee=1%2C2`,
+    ]);
+    expect(report.checked).toMatchObject({ entries: 2, running_timers: 1, users: 2 });
+    expect(report.summary.long_timer).toBe(1);
+  });
+});
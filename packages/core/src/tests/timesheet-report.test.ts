@@ -0,0 +1,218 @@
+import { describe, it, expect } from '@jest/globals';
+
+// `marked` is ESM-only; the markdown helpers are not under test here.
+jest.mock('../utils/markdown', () => ({
+  processClickUpResponse: jest.fn((task: unknown) => task),
+}));
+
+import {
+  buildTimesheetReport,
+  renderTimesheetReport,
+  ReportableTimeEntry,
+} from '../utils/timesheet-report.js';
+import { EnhancedTimeTrackingClient } from '../clickup-client/time-tracking-enhanced.js';
+import { ClickUpClient } from '../clickup-client/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+const alice = { id: 1, username: 'Alice' };
+const bob = { id: 2, username: 'Bob' };
+const acme = {
+  list_id: 'l1',
+  list_name: 'Website',
+  folder_id: 'f1',
+  folder_name: 'Acme',
+  space_id: 's1',
+  space_name: 'Clients',
+};
+
+const entry = (
+  id: string,
+  start: string,
+  hours: number,
+  extra: Partial<ReportableTimeEntry> = {}
+): ReportableTimeEntry => ({
+  id,
+  task: { id: 't1', name: 'Homepage' },
+  user: alice,
+  billable: true,
+  start: String(utc(start)),
+  end: String(utc(start) + hours * HOUR),
+  duration: String(hours * HOUR),
+  tags: [],
+  task_location: acme,
+  ...extra,
+});
+
+const entries = [
+  // Sunday 22:00 -> Monday 02:00 UTC: crosses midnight and the week boundary
+  entry('e1', '2026-01-04T22:00:00', 4),
+  entry('e2', '2026-01-06T09:00:00', 3, { user: bob, billable: false, tags: [{ name: 'meeting' }] }),
+  entry('e3', '2026-01-07T10:00:00', 2, { tags: [{ name: 'design' }, { name: 'meeting' }] }),
+  entry('e4', '2026-01-07T12:00:00', 1, { task: null, task_location: undefined }),
+  // Still running
+  entry('e5', '2026-01-07T15:00:00', 0, { end: null, duration: String(-utc('2026-01-07T15:00:00')) }),
+];
+
+describe('buildTimesheetReport', () => {
+  it('splits entries at midnight and buckets them by day', () => {
+    const report = buildTimesheetReport(entries, { group_by: ['user'], bucket: 'day', timezone: 'UTC' });
+
+    expect(report.buckets).toEqual(['2026-01-04', '2026-01-05', '2026-01-06', '2026-01-07']);
+    expect(report.rows).toEqual([
+      {
+        group: { user: 'Alice' },
+        by_bucket: { '2026-01-04': 2 * HOUR, '2026-01-05': 2 * HOUR, '2026-01-07': 3 * HOUR },
+        total_ms: 7 * HOUR,
+        billable_ms: 7 * HOUR,
+        entry_count: 3,
+      },
+      {
+        group: { user: 'Bob' },
+        by_bucket: { '2026-01-06': 3 * HOUR },
+        total_ms: 3 * HOUR,
+        billable_ms: 0,
+        entry_count: 1,
+      },
+    ]);
+    expect(report.totals).toMatchObject({ total_ms: 10 * HOUR, billable_ms: 7 * HOUR, entry_count: 4 });
+    expect(report.notes).toEqual([
+      '1 running timer(s) left out until they are stopped.',
+      '1 entry crossed midnight (UTC) and was split across days.',
+    ]);
+  });
+
+  it('cuts days and weeks in the requested time zone', () => {
+    // 22:00-02:00 UTC is 23:00-03:00 in Berlin: 1h on Sunday, 3h on Monday
+    const [first] = entries;
+    const daily = buildTimesheetReport([first], { group_by: ['user'], bucket: 'day', timezone: 'Europe/Berlin' });
+    expect(daily.rows[0].by_bucket).toEqual({ '2026-01-04': HOUR, '2026-01-05': 3 * HOUR });
+
+    const mondayWeeks = buildTimesheetReport([first], {
+      group_by: ['user'],
+      bucket: 'week',
+      timezone: 'Europe/Berlin',
+    });
+    expect(mondayWeeks.rows[0].by_bucket).toEqual({ '2025-12-29': HOUR, '2026-01-05': 3 * HOUR });
+
+    const sundayWeeks = buildTimesheetReport([first], {
+      group_by: ['user'],
+      bucket: 'week',
+      timezone: 'Europe/Berlin',
+      week_start: 'sunday',
+    });
+    expect(sundayWeeks.rows[0].by_bucket).toEqual({ '2026-01-04': 4 * HOUR });
+  });
+
+  it('handles days that are not 24 hours long', () => {
+    // New York springs forward on 2026-03-08, so that day is 23 hours long (05:00Z to 04:00Z)
+    const report = buildTimesheetReport([entry('dst', '2026-03-08T05:00:00', 24)], {
+      group_by: ['user'],
+      bucket: 'day',
+      timezone: 'America/New_York',
+    });
+    expect(report.rows[0].by_bucket).toEqual({ '2026-03-08': 23 * HOUR, '2026-03-09': HOUR });
+
+    const overnight = buildTimesheetReport([entry('dst', '2026-03-08T02:00:00', 5)], {
+      group_by: ['user'],
+      bucket: 'day',
+      timezone: 'America/New_York',
+    });
+    // 21:00 EST on the 7th to 03:00 EDT on the 8th, cut at local midnight (05:00Z)
+    expect(overnight.rows[0].by_bucket).toEqual({ '2026-03-07': 3 * HOUR, '2026-03-08': 2 * HOUR });
+  });
+
+  it('groups by several dimensions and fans tags out', () => {
+    const report = buildTimesheetReport(entries, { group_by: ['folder', 'tag'], bucket: 'none', timezone: 'UTC' });
+
+    expect(report.buckets).toEqual([]);
+    expect(report.rows.map(row => [row.group, row.total_ms / HOUR])).toEqual([
+      [{ folder: '(no task)', tag: '(untagged)' }, 1],
+      [{ folder: 'Acme', tag: '(untagged)' }, 4],
+      [{ folder: 'Acme', tag: 'design' }, 2],
+      [{ folder: 'Acme', tag: 'meeting' }, 5],
+    ]);
+    expect(report.notes).toContainEqual(expect.stringContaining('1 entry has several tags'));
+  });
+
+  it('filters billable time and clips to the range', () => {
+    const report = buildTimesheetReport(entries, {
+      group_by: ['billable'],
+      bucket: 'month',
+      timezone: 'UTC',
+      billable: 'billable',
+      start_date: utc('2026-01-05T00:00:00'),
+    });
+
+    expect(report.rows).toEqual([
+      {
+        group: { billable: 'billable' },
+        by_bucket: { '2026-01': 5 * HOUR },
+        total_ms: 5 * HOUR,
+        billable_ms: 5 * HOUR,
+        entry_count: 3,
+      },
+    ]);
+    expect(report.range).toEqual({ start: '2026-01-05T00:00:00.000Z' });
+  });
+});
+
+describe('renderTimesheetReport', () => {
+  const report = buildTimesheetReport(entries, { group_by: ['user', 'billable'], bucket: 'week', timezone: 'UTC' });
+
+  it('renders a markdown table with a total row', () => {
+    expect(renderTimesheetReport(report, 'markdown').split('\n')).toEqual([
+      '**Timesheet** (UTC) · weekly buckets · grouped by user, billable',
+      '',
+      '| user | billable | 2025-12-29 | 2026-01-05 | total_hours | billable_hours | entries |',
+      '|---|---|---:|---:|---:|---:|---:|',
+      '| Alice | billable | 2.00 | 5.00 | 7.00 | 7.00 | 3 |',
+      '| Bob | non-billable | 0.00 | 3.00 | 3.00 | 0.00 | 1 |',
+      '| **Total** | | **2.00** | **8.00** | **10.00** | **7.00** | **4** |',
+      '',
+      '- 1 running timer(s) left out until they are stopped.',
+      '- 1 entry crossed midnight (UTC) and was split across days.',
+    ]);
+  });
+
+  it('renders CSV that is safe to open in a spreadsheet', () => {
+    const tricky = buildTimesheetReport(
+      [entry('x', '2026-01-06T09:00:00', 1, { user: { id: 3, username: '=HYPERLINK("x"), Inc' } })],
+      { group_by: ['user'], bucket: 'none', timezone: 'UTC' }
+    );
+
+    expect(renderTimesheetReport(tricky, 'csv')).toBe(
+      'user,total_hours,billable_hours,entries\r\n"\'=HYPERLINK(""x""), Inc",1.00,1.00,1'
+    );
+  });
+
+  it('keeps milliseconds in JSON', () => {
+    expect(JSON.parse(renderTimesheetReport(report, 'json')).totals.total_ms).toBe(10 * HOUR);
+  });
+});
+
+describe('EnhancedTimeTrackingClient.getTimesheetReport', () => {
+  it('asks ClickUp for location names and reports the entries it returns', async () => {
+    const client = new ClickUpClient({ apiToken: 'pk_test' });
+    const urls: string[] = [];
+    client.getAxiosInstance().defaults.adapter = async config => {
+      urls.push(String(config.url));
+      return { data: { data: entries.slice(0, 2) }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const report = await new EnhancedTimeTrackingClient(client).getTimesheetReport(
+      't1',
+      { start_date: utc('2026-01-01T00:00:00'), end_date: utc('2026-02-01T00:00:00'), assignee: '1,2' },
+      { group_by: ['space'], bucket: 'month', timezone: 'UTC' }
+    );
+
+    expect(urls).toEqual([
+      '/team/t1/time_entries?start_date=1767225600000&end_date=1769904000000' +
+        '&assignee=1%2C2&include_location_names=true',
+    ]);
+    expect(report.rows).toEqual([
+      expect.objectContaining({ group: { space: 'Clients' }, total_ms: 7 * HOUR, entry_count: 2 }),
+    ]);
+  });
+});
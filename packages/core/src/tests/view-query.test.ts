@@ -0,0 +1,187 @@
+import { describe, it, expect } from '@jest/globals';
+import { ViewQueryCompiler } from '../clickup-client/view-query.js';
+import type { ClickUpClient } from '../clickup-client/index.js';
+import {
+  compileViewQuery,
+  matchesViewQuery,
+  parseViewQuery,
+  ViewQueryCustomField,
+  ViewQueryResolvers,
+} from '../utils/view-query.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+// 2026-03-10T15:00:00Z
+const NOW = Date.UTC(2026, 2, 10, 15);
+const TODAY = Date.UTC(2026, 2, 10);
+
+const points: ViewQueryCustomField = { id: 'cf-points', name: 'Story Points', type: 'number' };
+const team: ViewQueryCustomField = {
+  id: 'cf-team',
+  name: 'Team',
+  type: 'drop_down',
+  type_config: {
+    options: [
+      { id: 'opt-web', name: 'Web', orderindex: 0 },
+      { id: 'opt-api', name: 'API', orderindex: 1 },
+    ],
+  },
+};
+
+const resolvers: ViewQueryResolvers = {
+  status: async name => {
+    const status = ['to do', 'in progress', 'review', 'complete'].find(s => s === name.toLowerCase());
+    if (!status) {
+      throw new Error(`No status matches "${name}"`);
+    }
+    return status;
+  },
+  user: async ref => (ref === 'me' ? 7 : 8),
+  customField: async ref => {
+    const field = [points, team].find(candidate => candidate.name.toLowerCase() === ref.toLowerCase());
+    if (!field) {
+      throw new Error(`No custom field matches "${ref}"`);
+    }
+    return field;
+  },
+};
+
+const compile = (query: string) => compileViewQuery(parseViewQuery(query), resolvers, { now: NOW });
+
+const task = (overrides: Record<string, unknown> = {}) => ({
+  id: 't1',
+  status: { status: 'in progress' },
+  assignees: [{ id: 7 }],
+  tags: [{ name: 'backend' }],
+  priority: { id: '2', priority: 'high' },
+  due_date: String(TODAY + 3 * DAY),
+  custom_fields: [
+    { id: 'cf-points', value: '5' },
+    { id: 'cf-team', value: 1 },
+  ],
+  ...overrides,
+});
+
+describe('parseViewQuery', () => {
+  it('parses conditions, lists, negations and custom fields', () => {
+    const parsed = parseViewQuery(
+      'status in ("in progress", \'review\') and assignee = me and tag not in (wip) and cf."Story Points" >= 3 ' +
+        'and cf.team is not null and due between today and +7d'
+    );
+
+    expect(parsed.op).toBe('AND');
+    expect(parsed.conditions.map(({ field, custom, op, values }) => ({ field, custom, op, values }))).toEqual([
+      { field: 'status', custom: false, op: 'ANY', values: ['in progress', 'review'] },
+      { field: 'assignee', custom: false, op: 'EQ', values: ['me'] },
+      { field: 'tag', custom: false, op: 'NOT ANY', values: ['wip'] },
+      { field: 'Story Points', custom: true, op: 'GTE', values: ['3'] },
+      { field: 'team', custom: true, op: 'IS NOT NULL', values: [] },
+      { field: 'due', custom: false, op: 'RANGE', values: ['today', '+7d'] },
+    ]);
+    expect(parsed.conditions[3].text).toBe('cf."Story Points" >= 3');
+  });
+
+  it('points at the problem in malformed queries', () => {
+    expect(() => parseViewQuery('stauts = open')).toThrow(
+      'Invalid view query at position 1 (…stauts = open): unknown field "stauts"'
+    );
+    expect(() => parseViewQuery('status = open and tag = x or due < today')).toThrow(
+      /position 27 .*all of its conditions with "and" or all with "or"/
+    );
+    expect(() => parseViewQuery('status in (open')).toThrow('expected "," or ")"');
+    expect(() => parseViewQuery('due ~ today')).toThrow('unexpected character "~"');
+  });
+});
+
+describe('compileViewQuery', () => {
+  it('resolves names and compiles to ClickUp filter triples', async () => {
+    const compiled = await compile(
+      'status in ("In Progress", review) and assignee = me and due < +7d and cf."Story Points" >= 3 ' +
+        'and cf.team = api and priority != low'
+    );
+
+    expect(compiled.op).toBe('AND');
+    expect(compiled.filters).toEqual([
+      { field: 'status', op: 'ANY', values: ['in progress', 'review'] },
+      { field: 'assignee', op: 'EQ', values: ['7'] },
+      { field: 'dueDate', op: 'LT', values: [TODAY + 7 * DAY] },
+      { field: 'cf_cf-points', op: 'GTE', values: [3] },
+      { field: 'cf_cf-team', op: 'EQ', values: ['opt-api'] },
+      { field: 'priority', op: 'NOT', values: ['4'] },
+    ]);
+    expect(Object.keys(compiled.custom_fields)).toEqual(['cf-points', 'cf-team']);
+  });
+
+  it('turns whole-day dates into ranges', async () => {
+    const { filters } = await compile('due = today or due > tomorrow or created <= 2026-03-01');
+
+    expect(filters).toEqual([
+      { field: 'dueDate', op: 'RANGE', values: [TODAY, TODAY + DAY - 1] },
+      { field: 'dueDate', op: 'GTE', values: [TODAY + 2 * DAY] },
+      { field: 'dateCreated', op: 'LT', values: [Date.UTC(2026, 2, 2)] },
+    ]);
+  });
+
+  it('rejects operators, values and names that do not fit the field', async () => {
+    await expect(compile('status > review')).rejects.toThrow('"status > review": GT does not apply to status');
+    await expect(compile('cf.team = mobile')).rejects.toThrow('"mobile" is not an option of custom field "Team" (Web, API)');
+    await expect(compile('due = soon')).rejects.toThrow('"due = soon": "soon" is not a date');
+    await expect(compile('status = blocked')).rejects.toThrow('No status matches "blocked"');
+  });
+});
+
+describe('matchesViewQuery', () => {
+  it('filters tasks locally with the compiled query', async () => {
+    const query = await compile(
+      'status in ("in progress", review) and assignee = me and due < +7d and cf."Story Points" >= 3 and cf.team = api'
+    );
+
+    expect(matchesViewQuery(task(), query)).toBe(true);
+    expect(matchesViewQuery(task({ status: { status: 'To Do' } }), query)).toBe(false);
+    expect(matchesViewQuery(task({ assignees: [{ id: 8 }] }), query)).toBe(false);
+    expect(matchesViewQuery(task({ due_date: null }), query)).toBe(false);
+    expect(matchesViewQuery(task({ custom_fields: [{ id: 'cf-points', value: '2' }] }), query)).toBe(false);
+  });
+
+  it('handles OR, negation, emptiness and tags', async () => {
+    const query = await compile('tag all (backend) or priority is null or cf."Story Points" is null');
+
+    expect(matchesViewQuery(task(), query)).toBe(true);
+    expect(matchesViewQuery(task({ tags: [] }), query)).toBe(false);
+    expect(matchesViewQuery(task({ tags: [], priority: null }), query)).toBe(true);
+
+    const excluded = await compile('tag not in (Backend, wip) and due != now');
+    expect(matchesViewQuery(task(), excluded)).toBe(false);
+    expect(matchesViewQuery(task({ tags: [{ name: 'frontend' }] }), excluded)).toBe(true);
+  });
+});
+
+describe('ViewQueryCompiler', () => {
+  it('resolves against the view parent list', async () => {
+    const responses: Record<string, unknown> = {
+      '/view/v1': { view: { id: 'v1', parent: { id: '900', type: 6 } } },
+      '/list/900': { id: '900', statuses: [{ status: 'Open' }, { status: 'In Review' }, { status: 'Closed' }] },
+      '/list/900/field': { fields: [points] },
+    };
+    const fakeHttp: Partial<ClickUpClient> = {
+      get: jest.fn(async (endpoint: string) => {
+        if (!(endpoint in responses)) {
+          throw new Error(`unexpected GET ${endpoint}`);
+        }
+        return responses[endpoint];
+      }) as any,
+    };
+    const compiler = new ViewQueryCompiler(fakeHttp as ClickUpClient);
+
+    const compiled = await compiler.compileForView('status in (open, "in rev") or cf.story >= 3', 'v1');
+    expect(compiled).toMatchObject({
+      op: 'OR',
+      filters: [
+        { field: 'status', op: 'ANY', values: ['Open', 'In Review'] },
+        { field: 'cf_cf-points', op: 'GTE', values: [3] },
+      ],
+    });
+    await expect(compiler.compileForView('status = done', 'v1')).rejects.toThrow(
+      'No status on list 900 matches "done" ("Open", "In Review", "Closed")'
+    );
+  });
+});
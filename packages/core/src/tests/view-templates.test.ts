@@ -0,0 +1,215 @@
+import { describe, it, expect } from '@jest/globals';
+import { instantiateViewTemplate, toViewTemplate, ViewTemplateClient } from '../clickup-client/view-templates.js';
+import type { ViewResponse, ViewsEnhancedClient } from '../clickup-client/views-enhanced.js';
+import type { ViewQueryCustomField } from '../utils/view-query.js';
+
+const sourceFields: ViewQueryCustomField[] = [
+  { id: 'src-points', name: 'Story Points', type: 'number' },
+  {
+    id: 'src-team',
+    name: 'Team',
+    type: 'drop_down',
+    type_config: {
+      options: [
+        { id: 'src-web', name: 'Web' },
+        { id: 'src-api', name: 'API' },
+      ],
+    },
+  },
+];
+
+const view = {
+  id: 'v1',
+  name: 'Sprint Board',
+  type: 'board',
+  parent: { id: '900', type: 6 },
+  grouping: { field: 'cf_src-team', dir: 1, collapsed: ['src-web'], ignore: false },
+  divide: { field: null, dir: null, collapsed: null },
+  sorting: {
+    fields: [
+      { field: 'cf_src-points', dir: -1 },
+      { field: 'dueDate', dir: 1 },
+    ],
+  },
+  filters: {
+    op: 'AND',
+    fields: [
+      { field: 'status', op: 'ANY', values: ['in progress'] },
+      { field: 'cf_src-team', op: 'ANY', values: ['src-web', 'src-api'] },
+      { field: 'cf_src-points', op: 'GTE', values: [3] },
+    ],
+    search: '',
+    show_closed: false,
+  },
+  columns: { fields: [{ field: 'cf_src-points', hidden: false }, { field: 'cf_src-gone' }] },
+  settings: { show_subtasks: 1 },
+} as unknown as ViewResponse;
+
+describe('toViewTemplate', () => {
+  it('writes custom fields and options by name', () => {
+    const { template, warnings } = toViewTemplate(view, sourceFields);
+
+    expect(template).toMatchObject({
+      format: 'clickup-view-template',
+      version: 1,
+      name: 'Sprint Board',
+      type: 'board',
+      grouping: { field: 'cf:Team', collapsed: ['Web'] },
+      sorting: {
+        fields: [
+          { field: 'cf:Story Points', dir: -1 },
+          { field: 'dueDate', dir: 1 },
+        ],
+      },
+      columns: { fields: [{ field: 'cf:Story Points', hidden: false }, { field: 'cf_src-gone' }] },
+      settings: { show_subtasks: 1 },
+      source: { view_id: 'v1', parent_type: 'list', parent_id: '900' },
+    });
+    expect(template.filters?.fields).toEqual([
+      { field: 'status', op: 'ANY', values: ['in progress'] },
+      { field: 'cf:Team', op: 'ANY', values: ['Web', 'API'] },
+      { field: 'cf:Story Points', op: 'GTE', values: [3] },
+    ]);
+    expect(template.custom_fields).toEqual([
+      { name: 'Team', type: 'drop_down', options: ['Web', 'API'] },
+      { name: 'Story Points', type: 'number' },
+    ]);
+    expect(warnings).toEqual([
+      "columns: custom field src-gone is not accessible from the view's parent and is kept as an ID",
+    ]);
+  });
+});
+
+describe('instantiateViewTemplate', () => {
+  const { template } = toViewTemplate(view, sourceFields);
+
+  it('remaps names to the target fields', () => {
+    const targetFields: ViewQueryCustomField[] = [
+      { id: 'dst-points', name: 'story points', type: 'number' },
+      {
+        id: 'dst-team',
+        name: 'Team',
+        type: 'drop_down',
+        type_config: {
+          options: [
+            { id: 'dst-api', name: 'API' },
+            { id: 'dst-web', name: 'Web' },
+          ],
+        },
+      },
+      { id: 'src-gone', name: 'Legacy', type: 'text' },
+    ];
+
+    const { config, mismatches } = instantiateViewTemplate(template, targetFields, 'Board');
+
+    expect(mismatches).toEqual([]);
+    expect(config).toMatchObject({
+      name: 'Board',
+      type: 'board',
+      grouping: { field: 'cf_dst-team', collapsed: ['dst-web'] },
+      sorting: {
+        fields: [
+          { field: 'cf_dst-points', dir: -1 },
+          { field: 'dueDate', dir: 1 },
+        ],
+      },
+      columns: { fields: [{ field: 'cf_dst-points', hidden: false }, { field: 'cf_src-gone' }] },
+    });
+    expect(config.filters?.fields).toEqual([
+      { field: 'status', op: 'ANY', values: ['in progress'] },
+      { field: 'cf_dst-team', op: 'ANY', values: ['dst-web', 'dst-api'] },
+      { field: 'cf_dst-points', op: 'GTE', values: [3] },
+    ]);
+  });
+
+  it('drops what the target lacks and reports it', () => {
+    const targetFields: ViewQueryCustomField[] = [
+      { id: 'dst-points', name: 'Story Points', type: 'text' },
+      {
+        id: 'dst-team',
+        name: 'Team',
+        type: 'drop_down',
+        type_config: { options: [{ id: 'dst-api', name: 'API' }] },
+      },
+    ];
+
+    const { config, mismatches } = instantiateViewTemplate(template, targetFields);
+
+    expect(config.grouping).toMatchObject({ field: 'cf_dst-team', collapsed: [] });
+    expect(config.sorting?.fields).toEqual([{ field: 'dueDate', dir: 1 }]);
+    expect(config.columns?.fields).toEqual([]);
+    expect(config.filters?.fields).toEqual([
+      { field: 'status', op: 'ANY', values: ['in progress'] },
+      { field: 'cf_dst-team', op: 'ANY', values: ['dst-api'] },
+    ]);
+    expect(mismatches).toEqual([
+      { part: 'filters', field: 'Team', problem: 'option "Web" not found', effect: 'value dropped' },
+      {
+        part: 'filters',
+        field: 'Story Points',
+        problem: 'custom field is a text field here, not number',
+        effect: 'condition dropped',
+      },
+      { part: 'grouping', field: 'Team', problem: 'option "Web" not found', effect: 'collapsed group dropped' },
+      {
+        part: 'sorting',
+        field: 'Story Points',
+        problem: 'custom field is a text field here, not number',
+        effect: 'sort dropped',
+      },
+      {
+        part: 'columns',
+        field: 'Story Points',
+        problem: 'custom field is a text field here, not number',
+        effect: 'column dropped',
+      },
+      { part: 'columns', field: 'cf_src-gone', problem: 'custom field not found', effect: 'column dropped' },
+    ]);
+  });
+});
+
+describe('ViewTemplateClient', () => {
+  it('creates, updates, skips and keeps going past failing targets', async () => {
+    const { template } = toViewTemplate(view, sourceFields);
+    const existing: Record<string, Array<{ id: string; name: string }>> = {
+      '901': [],
+      '902': [{ id: 'v-old', name: 'sprint board' }],
+    };
+    const views = {
+      getViewFields: jest.fn(async (_type: string, id: string) => {
+        if (id === '903') {
+          throw new Error('List not found');
+        }
+        return { fields: sourceFields };
+      }),
+      getViews: jest.fn(async ({ parent_id }: { parent_id: string }) => ({ views: existing[parent_id] })),
+      createViewFromConfig: jest.fn(async () => ({ id: 'v-new' })),
+      replaceViewConfig: jest.fn(async (id: string) => ({ id })),
+    };
+    const client = new ViewTemplateClient(views as unknown as ViewsEnhancedClient);
+    const targets = ['901', '902', '903'].map(id => ({ type: 'list' as const, id }));
+
+    const report = await client.applyTemplate(template, targets);
+
+    expect(report.summary).toEqual({ created: 1, updated: 1, failed: 1 });
+    expect(report.results.map(({ id, action, view_id, error }) => ({ id, action, view_id, error }))).toEqual([
+      { id: '901', action: 'created', view_id: 'v-new', error: undefined },
+      { id: '902', action: 'updated', view_id: 'v-old', error: undefined },
+      { id: '903', action: 'failed', view_id: undefined, error: 'List not found' },
+    ]);
+    expect(views.createViewFromConfig).toHaveBeenCalledWith(
+      'list',
+      '901',
+      expect.objectContaining({ name: 'Sprint Board', grouping: expect.objectContaining({ field: 'cf_src-team' }) })
+    );
+
+    views.createViewFromConfig.mockClear();
+    views.replaceViewConfig.mockClear();
+    const preview = await client.applyTemplate(template, targets.slice(0, 2), { dryRun: true });
+    expect(preview.results.map(result => result.action)).toEqual(['would_create', 'would_update']);
+    const skipped = await client.applyTemplate(template, targets.slice(1, 2), { onExisting: 'skip' });
+    expect(skipped.results[0]).toMatchObject({ action: 'skipped', view_id: 'v-old' });
+    expect(views.createViewFromConfig).not.toHaveBeenCalled();
+    expect(views.replaceViewConfig).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseWebhookFixture,
+  readWebhookFixture,
+  replayWebhookFixture,
+  WebhookRecorder,
+} from '../clickup-client/webhook-fixtures.js';
+import { WebhookInbox } from '../clickup-client/webhook-inbox.js';
+import { WebhookSecretStore } from '../clickup-client/webhook-secrets.js';
+import { WebhooksEnhancedClient } from '../clickup-client/webhooks-enhanced.js';
+import { startWebhookReceiver } from '../webhook-receiver.js';
+
+// Shared with the intelligence tests; same CommonJS/ESM guard as version.test.ts
+const FIXTURES =
+  typeof __dirname !== 'undefined'
+    ? join(__dirname, '..', '..', '..', 'shared', 'fixtures', 'webhooks')
+    : join(process.cwd(), '..', 'shared', 'fixtures', 'webhooks');
+
+const lifecycle = () => readWebhookFixture(join(FIXTURES, 'task-lifecycle.jsonl'));
+
+describe('webhook fixtures', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhook-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays recorded deliveries through processWebhook with fresh signatures', async () => {
+    const client = new WebhooksEnhancedClient('pk_test');
+
+    const results = await replayWebhookFixture(
+      lifecycle(),
+      delivery =>
+        client.processWebhook({
+          body: delivery.body,
+          validate_signature: true,
+          signature: delivery.headers['x-signature'],
+          secret: 'fixture-secret',
+        }),
+      { secret: 'fixture-secret' }
+    );
+
+    expect(results.every(result => result.valid)).toBe(true);
+    expect(results.map(result => result.event)).toEqual([
+      'taskCreated',
+      'taskAssigneeUpdated',
+      'taskPriorityUpdated',
+      'taskUpdated',
+      'taskStatusUpdated',
+      'taskStatusUpdated',
+      'taskCommentPosted',
+      'taskStatusUpdated',
+    ]);
+    expect(results[3].historyItems[0]).toMatchObject({ field: 'custom_field', before: '1200', after: '2500' });
+  });
+
+  it('waits between deliveries at the requested speed', async () => {
+    const waits: number[] = [];
+    await replayWebhookFixture(lifecycle(), () => undefined, {
+      speed: 10,
+      sleep: async ms => {
+        waits.push(ms);
+      },
+    });
+
+    expect(waits).toEqual([150, 270, 480, 700, 3000, 600, 900]);
+  });
+
+  it('stores a recorded sequence in the inbox once, as the receiver sees it', async () => {
+    const inbox = new WebhookInbox();
+    const secrets = new WebhookSecretStore({
+      configured: new Map([['7fa3ec74-69a8-4530-a251-8a13730bd204', 'fixture-secret']]),
+    });
+    const receiver = await startWebhookReceiver(
+      { port: 0, host: '127.0.0.1', path: '/hooks', recordDir: dir },
+      inbox,
+      secrets
+    );
+
+    try {
+      const statuses = await replayWebhookFixture(
+        lifecycle(),
+        async delivery => {
+          const response = await fetch(receiver.url, {
+            method: 'POST',
+            headers: delivery.headers,
+            body: delivery.body,
+          });
+          return ((await response.json()) as { status: string }).status;
+        },
+        { secret: 'fixture-secret' }
+      );
+
+      expect(statuses.filter(status => status === 'duplicate')).toHaveLength(1);
+      expect(inbox.list().events).toHaveLength(7);
+      // Re-recording a recorded sequence gives the same fixture back
+      expect(readWebhookFixture(receiver.recordingTo!).map(delivery => delivery.payload)).toEqual(
+        lifecycle().map(delivery => delivery.payload)
+      );
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('scrubs personal fields, dangerous keys and signatures when recording', () => {
+    const recorder = new WebhookRecorder(join(dir, 'nested', 'recording.jsonl'));
+    const raw = JSON.parse(
+      '{"webhook_id":"wh1","event":"taskAssigneeUpdated","task_id":"t1","__proto__":{"polluted":true},' +
+        '"history_items":[{"id":"h1","field":"assignee_add","user":{"id":7,"username":"Ada","email":"ada@example.com"},' +
+        '"after":{"id":8,"username":"Grace","email":"grace@example.com","initials":"GH","profilePicture":null}}]}'
+    );
+
+    recorder.record(raw, { 'content-type': 'application/json', 'x-signature': 'abc', cookie: 'session=1' }, 1000);
+
+    const text = readFileSync(join(dir, 'nested', 'recording.jsonl'), 'utf8');
+    expect(text).not.toMatch(/Ada|Grace|example\.com|GH|polluted|abc|session/);
+    const [delivery] = parseWebhookFixture(text);
+    expect(delivery.headers).toEqual({ 'content-type': 'application/json' });
+    expect(delivery.payload.history_items?.[0]).toMatchObject({
+      user: { id: 7, username: '[redacted]', email: '[redacted]' },
+      after: { id: 8, initials: '[redacted]', profilePicture: null },
+    });
+    expect(raw.history_items[0].user.email).toBe('ada@example.com');
+    expect(() => parseWebhookFixture('{"received_at":1,"payload":{"event":"taskCreated"}}')).toThrow(
+      'Fixture line 1 is not a webhook delivery'
+    );
+  });
+});
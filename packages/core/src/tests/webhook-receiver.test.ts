@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import crypto from 'crypto';
+import { appendFileSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebhookInbox } from '../clickup-client/webhook-inbox.js';
+import { parseWebhookSecrets, WebhookSecretStore } from '../clickup-client/webhook-secrets.js';
+import { runWithClickUpToken } from '../clickup-client/session.js';
+import { parseWebhookReceiverOptions, startWebhookReceiver, WebhookReceiverHandle } from '../webhook-receiver.js';
+
+const delivery = (historyId: string, event = 'taskStatusUpdated', taskId = 't1') =>
+  JSON.stringify({ webhook_id: 'wh1', event, task_id: taskId, history_items: [{ id: historyId, field: 'status' }] });
+
+const sign = (body: string, secret: string) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+describe('WebhookInbox', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhook-inbox-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores a delivery once and shares it with other readers of the file', () => {
+    const filePath = join(dir, 'inbox.jsonl');
+    const inbox = new WebhookInbox({ filePath });
+
+    const first = inbox.add(JSON.parse(delivery('h1')), delivery('h1'), 1000);
+    const retry = inbox.add(JSON.parse(delivery('h1')), delivery('h1'), 2000);
+    inbox.add(JSON.parse(delivery('h2', 'taskCommentPosted', 't2')), delivery('h2', 'taskCommentPosted', 't2'), 3000);
+    const bodyOnly = '{"webhook_id":"wh1","event":"listCreated"}';
+    inbox.add(JSON.parse(bodyOnly), bodyOnly, 4000);
+    const bodyOnlyRetry = inbox.add(JSON.parse(bodyOnly), bodyOnly, 5000);
+
+    expect(first.duplicate).toBe(false);
+    expect(retry).toEqual({ duplicate: true, event: first.event });
+    expect(bodyOnlyRetry.duplicate).toBe(true);
+
+    // A partial line from a writer that is still appending is left for later
+    appendFileSync(filePath, '{"kind":"ack"');
+    const other = new WebhookInbox({ filePath });
+    expect(other.list().events.map(event => event.event)).toEqual([
+      'taskStatusUpdated',
+      'taskCommentPosted',
+      'listCreated',
+    ]);
+    expect(other.list({ since: 2000, eventTypes: ['taskCommentPosted', 'listCreated'], limit: 1 })).toEqual({
+      events: [expect.objectContaining({ task_id: 't2', received_at: 3000 })],
+      remaining: 1,
+    });
+    expect(other.list({ taskId: 't1' }).events).toHaveLength(1);
+  });
+
+  it('hides acknowledged events unless asked for them', () => {
+    const filePath = join(dir, 'inbox.jsonl');
+    const inbox = new WebhookInbox({ filePath });
+    const { event } = inbox.add(JSON.parse(delivery('h1')), delivery('h1'));
+    inbox.add(JSON.parse(delivery('h2')), delivery('h2'));
+
+    expect(inbox.acknowledge([event.id, 'unknown'], 42)).toEqual([event.id]);
+    expect(inbox.acknowledge([event.id])).toEqual([]);
+
+    const other = new WebhookInbox({ filePath });
+    expect(other.list().events.map(e => e.dedupe_keys)).toEqual([['h2']]);
+    expect(other.list({ includeAcknowledged: true }).events[0]).toMatchObject({ id: event.id, acknowledged_at: 42 });
+  });
+
+  it('compacts down to a low-water mark so rewrites stay rare', () => {
+    const filePath = join(dir, 'inbox.jsonl');
+    const inbox = new WebhookInbox({ filePath, maxEvents: 10 });
+    const add = (n: number) => inbox.add(JSON.parse(delivery(`h${n}`)), delivery(`h${n}`), n);
+
+    for (let n = 1; n <= 10; n++) add(n);
+    const before = statSync(filePath).ino;
+    add(11);
+    const compacted = statSync(filePath).ino;
+    expect(compacted).not.toBe(before);
+    expect(new WebhookInbox({ filePath }).list().events.map(event => event.received_at)).toEqual([
+      4, 5, 6, 7, 8, 9, 10, 11,
+    ]);
+
+    // Room for two more before the next rewrite
+    add(12);
+    add(13);
+    expect(statSync(filePath).ino).toBe(compacted);
+    add(14);
+    expect(statSync(filePath).ino).not.toBe(compacted);
+    expect(inbox.list().events).toHaveLength(8);
+    // Deliveries kept by the compaction are still recognised on redelivery
+    expect(add(14).duplicate).toBe(true);
+  });
+});
+
+describe('webhook receiver', () => {
+  let receiver: WebhookReceiverHandle;
+  let inbox: WebhookInbox;
+
+  beforeEach(async () => {
+    inbox = new WebhookInbox();
+    const secrets = new WebhookSecretStore({ configured: parseWebhookSecrets('wh1=s3cret, bad-pair') });
+    receiver = await startWebhookReceiver({ port: 0, host: '127.0.0.1', path: '/hooks' }, inbox, secrets);
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  const post = (body: string, headers: Record<string, string> = {}) =>
+    fetch(receiver.url, { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body });
+
+  it('stores signed deliveries once and rejects the rest', async () => {
+    const body = delivery('h1');
+
+    const stored = await post(body, { 'x-signature': sign(body, 's3cret') });
+    expect(stored.status).toBe(200);
+    expect(await stored.json()).toEqual({ status: 'stored', event_id: expect.any(String) });
+
+    const retried = await post(body, { 'x-signature': sign(body, 's3cret') });
+    expect(await retried.json()).toMatchObject({ status: 'duplicate' });
+
+    expect((await post(delivery('h2'), { 'x-signature': sign(delivery('h2'), 'wrong') })).status).toBe(401);
+    expect((await post(delivery('h3'))).status).toBe(401);
+    const unknown = delivery('h4').replace('wh1', 'wh2');
+    expect((await post(unknown, { 'x-signature': sign(unknown, 's3cret') })).status).toBe(401);
+    expect((await post('not json')).status).toBe(400);
+    expect((await fetch(receiver.url)).status).toBe(404);
+
+    expect(inbox.list().events.map(event => event.dedupe_keys)).toEqual([['h1']]);
+  });
+
+  it("keeps each token's deliveries to sessions with that token", async () => {
+    await receiver.close();
+    const dir = mkdtempSync(join(tmpdir(), 'webhook-scopes-'));
+    try {
+      const secrets = new WebhookSecretStore({ filePath: join(dir, 'secrets.json') });
+      runWithClickUpToken('pk_alice', () => secrets.save('wh-alice', 'alice-secret'));
+      runWithClickUpToken('pk_bob', () => secrets.save('wh-bob', 'bob-secret'));
+      receiver = await startWebhookReceiver({ port: 0, host: '127.0.0.1', path: '/hooks' }, inbox, secrets);
+      for (const [webhookId, secret, historyId] of [
+        ['wh-alice', 'alice-secret', 'h-a'],
+        ['wh-bob', 'bob-secret', 'h-b'],
+      ]) {
+        const body = delivery(historyId).replace('"wh1"', `"${webhookId}"`);
+        expect((await post(body, { 'x-signature': sign(body, secret) })).status).toBe(200);
+      }
+
+      const alice = runWithClickUpToken('pk_alice', () => inbox.list().events);
+      const bob = runWithClickUpToken('pk_bob', () => inbox.list().events);
+      expect(alice.map(event => event.webhook_id)).toEqual(['wh-alice']);
+      expect(bob.map(event => event.webhook_id)).toEqual(['wh-bob']);
+      expect(inbox.list().events).toEqual([]);
+
+      // Bob cannot acknowledge (and so hide) Alice's event
+      expect(runWithClickUpToken('pk_bob', () => inbox.acknowledge([alice[0].id]))).toEqual([]);
+      expect(runWithClickUpToken('pk_alice', () => inbox.list().events)).toHaveLength(1);
+      expect(runWithClickUpToken('pk_alice', () => inbox.acknowledge([alice[0].id]))).toEqual([alice[0].id]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads its settings from the environment', () => {
+    expect(parseWebhookReceiverOptions({})).toBeUndefined();
+    expect(parseWebhookReceiverOptions({ CLICKUP_WEBHOOK_PORT: '8787', CLICKUP_WEBHOOK_PATH: 'in' })).toEqual({
+      port: 8787,
+      host: '127.0.0.1',
+      path: '/in',
+    });
+    expect(() => parseWebhookReceiverOptions({ CLICKUP_WEBHOOK_PORT: 'http' })).toThrow('Invalid CLICKUP_WEBHOOK_PORT');
+  });
+});
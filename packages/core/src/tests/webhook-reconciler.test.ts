@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  planWebhookReconciliation,
+  readWebhookConfig,
+  WebhookReconciler,
+} from '../clickup-client/webhook-reconciler.js';
+import { WebhookSecretStore } from '../clickup-client/webhook-secrets.js';
+import type { Webhook, WebhooksEnhancedClient } from '../clickup-client/webhooks-enhanced.js';
+import { DesiredWebhookSchema, type DesiredWebhook } from '../schemas/webhook-schemas.js';
+
+const ENDPOINT = 'https://hooks.example.com/clickup/webhook';
+
+const existing = (id: string, fields: Partial<Webhook>): Webhook => ({
+  id,
+  userid: 1,
+  team_id: 9012345,
+  endpoint: ENDPOINT,
+  client_id: null,
+  events: ['taskStatusUpdated'],
+  task_id: null,
+  list_id: null,
+  folder_id: null,
+  space_id: null,
+  health: { status: 'active', fail_count: 0 },
+  ...fields,
+});
+
+const desired = (value: unknown): DesiredWebhook => DesiredWebhookSchema.parse(value);
+
+const config: DesiredWebhook[] = [
+  // Matches wh-ok exactly
+  desired({ endpoint: ENDPOINT, events: ['taskStatusUpdated'] }),
+  // Matches wh-drift by scope (numeric ID in the config), with different events
+  desired({ endpoint: ENDPOINT, events: ['taskCreated', 'taskMoved'], list_id: 901 }),
+  // Matches the suspended wh-down
+  desired({ endpoint: ENDPOINT, events: ['*'], space_id: '77' }),
+  // Missing
+  desired({ endpoint: ENDPOINT, events: ['goalUpdated'], folder_id: '55' }),
+];
+
+const workspace = (): Webhook[] => [
+  existing('wh-ok', {}),
+  existing('wh-drift', { list_id: '901', events: ['taskCreated', 'taskDeleted'] }),
+  existing('wh-down', { space_id: '77', events: ['*'], health: { status: 'suspended', fail_count: 100 } }),
+  existing('wh-copy', {}),
+  existing('wh-other', { endpoint: 'https://old.example.com/hook' }),
+];
+
+describe('planWebhookReconciliation', () => {
+  it('matches by endpoint and scope and keeps extra copies as strays', () => {
+    const steps = planWebhookReconciliation(config, workspace());
+
+    expect(steps.map(step => [step.kind, step.kind === 'create' ? undefined : step.webhook.id])).toEqual([
+      ['unchanged', 'wh-ok'],
+      ['update', 'wh-drift'],
+      ['update', 'wh-down'],
+      ['create', undefined],
+      ['stray', 'wh-copy'],
+      ['stray', 'wh-other'],
+    ]);
+    expect(steps[1]).toMatchObject({ events: ['taskCreated', 'taskMoved'], reactivate: false });
+    expect(steps[2]).toMatchObject({ reactivate: true });
+    expect(steps[2]).not.toHaveProperty('events');
+    expect(() => planWebhookReconciliation([config[0], config[0]], [])).toThrow(
+      `Webhook config lists ${ENDPOINT} with the same scope more than once`
+    );
+  });
+});
+
+describe('WebhookReconciler', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhook-reconciler-'));
+  });
+
+  afterEach(() => {
+    delete process.env.CLICKUP_WEBHOOK_CONFIG_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const fakeClient = () => ({
+    getWebhooks: jest.fn(async () => ({ webhooks: workspace() })),
+    createWebhook: jest.fn(async () => ({ id: 'wh-new', webhook: { id: 'wh-new', secret: 'fresh-secret' } })),
+    updateWebhook: jest.fn(async ({ webhook_id }: { webhook_id: string }) => {
+      if (webhook_id === 'wh-down') {
+        throw new Error('Webhook endpoint unreachable');
+      }
+      return { id: webhook_id };
+    }),
+    deleteWebhook: jest.fn(async () => ({ success: true })),
+  });
+
+  it('previews the plan without writing', async () => {
+    const client = fakeClient();
+    const reconciler = new WebhookReconciler(client as unknown as WebhooksEnhancedClient, new WebhookSecretStore());
+
+    const report = await reconciler.reconcile('9012345', config, { dryRun: true, deleteStrays: true });
+
+    expect(report).toMatchObject({ dry_run: true, delete_strays: true });
+    expect(report.summary).toEqual({ unchanged: 1, would_update: 2, would_create: 1, would_delete: 2 });
+    expect(report.results.map(result => result.changes)).toEqual([
+      [],
+      ['events: +taskMoved -taskDeleted'],
+      ['reactivate (suspended after 100 failed deliveries)'],
+      ['create'],
+      ['delete'],
+      ['delete'],
+    ]);
+    expect(client.createWebhook).not.toHaveBeenCalled();
+    expect(client.updateWebhook).not.toHaveBeenCalled();
+    expect(client.deleteWebhook).not.toHaveBeenCalled();
+  });
+
+  it('applies each step, stores new secrets and reports failures per webhook', async () => {
+    const client = fakeClient();
+    const secrets = new WebhookSecretStore({ filePath: join(dir, 'webhook-secrets.json') });
+    secrets.save('wh-copy', 'old-secret');
+    const reconciler = new WebhookReconciler(client as unknown as WebhooksEnhancedClient, secrets);
+
+    const kept = await reconciler.reconcile('9012345', config);
+    expect(kept.summary).toEqual({ unchanged: 1, updated: 1, failed: 1, created: 1, stray: 2 });
+    expect(kept.results[2]).toMatchObject({ webhook_id: 'wh-down', error: 'Webhook endpoint unreachable' });
+    expect(client.updateWebhook).toHaveBeenCalledWith({
+      webhook_id: 'wh-drift',
+      workspace_id: '9012345',
+      events: ['taskCreated', 'taskMoved'],
+    });
+    expect(client.updateWebhook).toHaveBeenCalledWith({
+      webhook_id: 'wh-down',
+      workspace_id: '9012345',
+      status: 'active',
+    });
+    expect(client.createWebhook).toHaveBeenCalledWith({
+      workspace_id: '9012345',
+      endpoint: ENDPOINT,
+      events: ['goalUpdated'],
+      space_id: undefined,
+      folder_id: 55,
+      list_id: undefined,
+      task_id: undefined,
+    });
+    expect(secrets.get('wh-new')).toBe('fresh-secret');
+    expect(client.deleteWebhook).not.toHaveBeenCalled();
+
+    const pruned = await reconciler.reconcile('9012345', config, { deleteStrays: true });
+    expect(pruned.summary.deleted).toBe(2);
+    expect(client.deleteWebhook.mock.calls.map(([id]) => id)).toEqual(['wh-copy', 'wh-other']);
+    expect(secrets.get('wh-copy')).toBeUndefined();
+  });
+
+  it('reads a config file and explains what is wrong with it', () => {
+    process.env.CLICKUP_WEBHOOK_CONFIG_DIR = dir;
+    const file = join(dir, 'webhooks.json');
+    writeFileSync(file, JSON.stringify({ workspace_id: 9012345, webhooks: [{ endpoint: ENDPOINT, events: ['*'] }] }));
+    expect(readWebhookConfig('webhooks.json')).toEqual({
+      workspace_id: '9012345',
+      webhooks: [{ endpoint: ENDPOINT, events: ['*'] }],
+    });
+    expect(readWebhookConfig(file).webhooks).toHaveLength(1);
+
+    writeFileSync(file, JSON.stringify({ webhooks: [{ endpoint: ENDPOINT, events: ['taskExploded'] }] }));
+    expect(() => readWebhookConfig('webhooks.json')).toThrow('Invalid webhook config webhooks.json');
+    expect(() => readWebhookConfig('missing.json')).toThrow('Cannot read webhook config missing.json (ENOENT)');
+
+    // The parser's message would quote the file
+    writeFileSync(file, 'api_token=pk_secret\n');
+    expect(() => readWebhookConfig('webhooks.json')).toThrow(
+      new Error('Invalid webhook config webhooks.json: invalid JSON')
+    );
+  });
+
+  it('only reads config files inside CLICKUP_WEBHOOK_CONFIG_DIR', () => {
+    const secret = join(dir, 'secret.json');
+    writeFileSync(secret, JSON.stringify({ webhooks: [] }));
+    expect(() => readWebhookConfig(secret)).toThrow('config_file needs CLICKUP_WEBHOOK_CONFIG_DIR to be set');
+
+    const configDir = join(dir, 'config');
+    mkdirSync(configDir);
+    symlinkSync(secret, join(configDir, 'link.json'));
+    process.env.CLICKUP_WEBHOOK_CONFIG_DIR = configDir;
+    for (const path of [secret, '../secret.json', 'link.json']) {
+      expect(() => readWebhookConfig(path)).toThrow('config_file is outside the configured CLICKUP_WEBHOOK_CONFIG_DIR');
+    }
+  });
+});
@@ -1,7 +1,7 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { createClickUpClient } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
 import { createTasksClient, CreateTaskParams, UpdateTaskParams } from '../clickup-client/tasks.js';
 import {
   BulkCreateTasksSchema,
@@ -9,12 +9,14 @@ import {
   BulkCreateTaskItemSchema,
   BulkUpdateTaskItemSchema,
 } from '../schemas/task-schemas.js';
+import { createOperationJournal, formatJournalNote, touchedFieldsForUpdate } from '../clickup-client/journal.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
 const tasksClient = createTasksClient(clickUpClient);
+const journal = createOperationJournal(clickUpClient, getApiToken());
 
 export function setupBulkTaskTools(server: McpServer): void {
   server.tool(
@@ -104,10 +106,17 @@ export function setupBulkTaskTools(server: McpServer): void {
           return task as { task_id: string } & UpdateTaskParams;
         });
 
+        // Snapshot every task first; one that cannot be read will fail its update too
+        const recorder = journal.begin('clickup_bulk_update_tasks', 'update');
+        for (const { task_id, ...updateParams } of taskUpdates) {
+          await recorder.capture(task_id, touchedFieldsForUpdate(updateParams)).catch(() => undefined);
+        }
+
         const result = await tasksClient.bulkUpdateTasks(
           taskUpdates,
           validatedData.continue_on_error
         );
+        const operationId = recorder.commit();
 
         return {
           content: [
@@ -119,7 +128,7 @@ export function setupBulkTaskTools(server: McpServer): void {
                 `❌ Failed: ${result.error_count} tasks\n` +
                 `📊 Total: ${result.total_count} tasks\n` +
                 `⏱️ Execution time: ${result.execution_time_ms}ms\n\n` +
-                `Detailed Results:\n${JSON.stringify(result.results, null, 2)}`,
+                `Detailed Results:\n${JSON.stringify(result.results, null, 2)}${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -131,7 +140,7 @@ export function setupBulkTaskTools(server: McpServer): void {
 
   server.tool(
     'clickup_bulk_delete_tasks',
-    '⚠️ DESTRUCTIVE: Delete multiple tasks from ClickUp in a single operation. This action cannot be undone and will permanently remove all specified tasks.',
+    '⚠️ DESTRUCTIVE: Delete multiple tasks from ClickUp in a single operation. ClickUp has no restore; each task is snapshotted to the local operation journal first, so clickup_undo_operation can recreate them (with new IDs, without comments or attachments).',
     {
       task_ids: z
         .array(z.string().min(1))
@@ -171,12 +180,14 @@ export function setupBulkTaskTools(server: McpServer): void {
 
         let successCount = 0;
         let errorCount = 0;
+        const recorder = journal.begin('clickup_bulk_delete_tasks', 'delete');
 
         for (let i = 0; i < task_ids.length; i++) {
           try {
             const taskId = task_ids[i];
             // Get task name for confirmation
             const taskDetails = await tasksClient.getTask(taskId);
+            await recorder.capture(taskId);
             await tasksClient.deleteTask(taskId);
 
             results.push({
@@ -213,6 +224,7 @@ export function setupBulkTaskTools(server: McpServer): void {
         }
 
         const executionTime = Date.now() - startTime;
+        const operationId = recorder.commit();
 
         return {
           content: [
@@ -224,8 +236,8 @@ export function setupBulkTaskTools(server: McpServer): void {
                 `❌ Failed: ${errorCount} tasks\n` +
                 `📊 Total: ${task_ids.length} tasks\n` +
                 `⏱️ Execution time: ${executionTime}ms\n\n` +
-                '⚠️ This action cannot be undone. All successfully deleted tasks have been permanently removed.\n\n' +
-                `Detailed Results:\n${JSON.stringify(results, null, 2)}`,
+                '⚠️ ClickUp cannot restore deleted tasks. Comments and attachments are gone for good.\n\n' +
+                `Detailed Results:\n${JSON.stringify(results, null, 2)}${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -237,7 +249,7 @@ export function setupBulkTaskTools(server: McpServer): void {
 
   server.tool(
     'clickup_delete_subtask',
-    '⚠️ DESTRUCTIVE: Delete a subtask from ClickUp. This action cannot be undone and will permanently remove the subtask.',
+    '⚠️ DESTRUCTIVE: Delete a subtask from ClickUp. ClickUp has no restore; the subtask is snapshotted to the local operation journal first, so clickup_undo_operation can recreate it under its parent (with a new ID).',
     {
       task_id: idSchema().describe('The ID of the subtask to delete'),
       confirm_deletion: z
@@ -260,7 +272,10 @@ export function setupBulkTaskTools(server: McpServer): void {
 
         // Get subtask details first for confirmation message
         const subtaskDetails = await tasksClient.getTask(task_id);
+        const recorder = journal.begin('clickup_delete_subtask', 'delete');
+        await recorder.capture(task_id);
         await tasksClient.deleteTask(task_id);
+        const operationId = recorder.commit();
 
         return {
           content: [
@@ -268,7 +283,7 @@ export function setupBulkTaskTools(server: McpServer): void {
               type: 'text',
               text:
                 `✅ Subtask "${subtaskDetails.name}" (ID: ${task_id}) has been permanently deleted.\n\n` +
-                '⚠️ This action cannot be undone. The subtask and all its data have been removed from ClickUp.',
+                `⚠️ ClickUp cannot restore it. Comments and attachments are gone for good.${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -0,0 +1,56 @@
+/* eslint-disable max-len */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createClickUpClient } from '../clickup-client/index.js';
+import { ALL_CACHE_RESOURCES, CacheResource } from '../clickup-client/cache.js';
+import { mcpError } from '../utils/error-handling.js';
+
+// Create clients
+const clickUpClient = createClickUpClient();
+
+export function setupCacheTools(server: McpServer): void {
+  server.tool(
+    'clickup_cache_status',
+    'Show the local response cache for ClickUp hierarchy data (spaces, folders, lists, custom field definitions, members, tags): mode, entries per resource, TTLs, and hit/miss counts. The cache is off unless CLICKUP_CACHE is set to memory or disk.',
+    {},
+    async () => {
+      try {
+        const status = clickUpClient.getCache().status();
+        return {
+          content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+        };
+      } catch (error: unknown) {
+        return mcpError('getting cache status', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_cache_clear',
+    'Clear the local response cache so the next read goes to the ClickUp API. Use after changing the hierarchy outside this server (e.g. in the ClickUp app). Clears everything unless resources are given.',
+    {
+      resources: z
+        .array(z.enum(ALL_CACHE_RESOURCES as [CacheResource, ...CacheResource[]]))
+        .optional()
+        .describe(`Resource families to clear (default all): ${ALL_CACHE_RESOURCES.join(', ')}`),
+    },
+    async ({ resources }) => {
+      try {
+        const cache = clickUpClient.getCache();
+        const removed = cache.clear(resources ?? ALL_CACHE_RESOURCES);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: cache.enabled
+                ? `✅ Cleared ${removed} cached response(s) for: ${(resources ?? ALL_CACHE_RESOURCES).join(', ')}.`
+                : 'ℹ️ The response cache is disabled (set CLICKUP_CACHE=memory or disk to enable it); nothing to clear.',
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('clearing cache', error);
+      }
+    }
+  );
+}
@@ -1,8 +1,9 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { getApiToken } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
 import { ChatEnhancedClient } from '../clickup-client/chat-enhanced.js';
+import { createMentionResolver } from '../clickup-client/mentions.js';
 import { mcpError } from '../utils/error-handling.js';
 import {
   CreateChannelSchema,
@@ -30,6 +31,8 @@ import { idSchema } from '../schemas/common.js';
 
 // Create enhanced chat client (Chat API is v3-only)
 const chatClient = new ChatEnhancedClient(getApiToken());
+// Mentions resolve against the workspace roster from the v2 API
+const mentionResolver = createMentionResolver(createClickUpClient());
 
 export function setupChatTools(server: McpServer): void {
   // ========================================
@@ -316,11 +319,16 @@ export function setupChatTools(server: McpServer): void {
 
   server.tool(
     'clickup_send_chat_message',
-    'Send a message to a chat channel. Mentions can be embedded in markdown content.',
+    'Send a message to a chat channel. @mentions in markdown content (@alice, @alice@corp.com, @[Alice Smith]) are resolved against workspace members and sent as real mentions.',
     {
       workspace_id: idSchema().describe('The ID of the workspace'),
       channel_id: idSchema().describe('The ID of the channel to send the message to'),
-      content: z.string().min(1).describe('The content of the message'),
+      content: z
+        .string()
+        .min(1)
+        .describe(
+          'The content of the message. Mention people with @username, @first-name, @email@example.com, @[Full Name] or @[Name](user:<id>); @ inside code is left alone.'
+        ),
       type: MessageTypeSchema.optional().describe("The type of message: 'message' (default) or 'post'"),
       content_format: ContentFormatSchema.optional().describe('Format of the content: text/md (default) or text/plain'),
       assignee: idSchema().optional().describe('User ID to assign the message to'),
@@ -334,10 +342,19 @@ export function setupChatTools(server: McpServer): void {
         .passthrough()
         .optional()
         .describe("Post metadata (title, subtype id) when type is 'post'"),
+      resolve_mentions: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Resolve @names in markdown content into mentions (default true). Ignored for text/plain content.'),
     },
-    async args => {
+    async ({ resolve_mentions, ...args }) => {
       try {
         const request = SendMessageSchema.parse(args);
+        if (resolve_mentions && request.content_format !== 'text/plain') {
+          const resolved = await mentionResolver.resolveChatMessage(request.workspace_id, request.content);
+          request.content = resolved.content;
+        }
         const result = await chatClient.sendMessage(request);
 
         return {
@@ -11,13 +11,15 @@ import {
   CreateThreadedCommentParams,
 } from '../clickup-client/comments-enhanced.js';
 import { /* applyMarkdownStyling, */ createMarkdownPreview } from '../utils/markdown-styling.js';
-import { processCommentBlocks } from '../utils/clickup-comment-formatter.js';
+import { prepareCommentForClickUp, processCommentBlocks } from '../utils/clickup-comment-formatter.js';
+import { createMentionResolver, MentionMember } from '../clickup-client/mentions.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
 const commentsClient = new CommentsEnhancedClient(clickUpClient);
+const mentionResolver = createMentionResolver(clickUpClient);
 
 /**
  * Shared zod schema for ClickUp's structured comment block array.
@@ -211,19 +213,35 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
   // Register create_task_comment tool
   server.tool(
     'clickup_create_task_comment',
-    'Create a new comment on a ClickUp task using structured array format. Supports optional assignee and notification settings. Supports @mentions via tag blocks ({type:"tag", user:{id}} or {type:"tag", text:"@Full Name"}).',
+    'Create a new comment on a ClickUp task from Markdown (comment_text) or structured blocks (comment). @mentions are resolved against workspace members and sent as real mention tags: write @alice, @alice@corp.com or @[Alice Smith]. Mentioned people and the assignee must be able to see the task, otherwise nothing is posted. Supports optional assignee and notification settings.',
     {
       task_id: idSchema().describe('The ID of the task to comment on'),
-      comment: commentBlocksSchema.describe(
-        'Array of comment blocks. Plain/formatted text uses {text, attributes}. @mentions use {type:"tag", user:{id}} (canonical, recommended — reliably triggers native mention notifications) or {type:"tag", text:"@Full Name"} (UI fallback shape; notification behavior may be less reliable). Unknown keys pass through to the ClickUp API.'
-      ),
+      comment_text: z
+        .string()
+        .optional()
+        .describe(
+          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists and checklists, :<code>: emoticons and <span style="color: red"> colors). Mention people with @username, @first-name, @email@example.com, @[Full Name] or @[Name](user:<id>); @ inside code is left alone. Required unless comment blocks are provided.'
+        ),
+      comment: commentBlocksSchema
+        .optional()
+        .describe(
+          'Array of comment blocks (alternative to comment_text; takes precedence when provided). Plain/formatted text uses {text, attributes}. @mentions use {type:"tag", user:{id}}, or {type:"tag", text:"@Full Name"} which is resolved to a user ID; @names inside text blocks are resolved too. Unknown keys pass through to the ClickUp API.'
+        ),
       assignee: z
-        .number()
-        .int()
-        .positive()
+        .union([z.number().int().positive(), z.string().min(1)])
         .optional()
-        .describe('The ID of the user to assign to the comment'),
-      notify_all: z.boolean().optional().describe('Whether to notify all assignees'),
+        .describe('The user to assign the comment to: a user ID, username, email address, or "me"'),
+      notify_all: z
+        .boolean()
+        .optional()
+        .describe('Notify everyone watching the task, not just the people mentioned and the assignee'),
+      resolve_mentions: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          'Resolve @names and check that the people mentioned can see the task (default true). Set false to send the comment as written, e.g. when access is inherited from a space the check cannot see.'
+        ),
       custom_task_ids: z
         .boolean()
         .optional()
@@ -233,25 +251,47 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
         .optional()
         .describe('The Workspace ID. Required when custom_task_ids is true'),
     },
-    async ({ task_id, comment, custom_task_ids, team_id, ...commentParams }) => {
+    async ({ task_id, comment, comment_text, assignee, notify_all, resolve_mentions, custom_task_ids, team_id }) => {
       try {
+        if (!comment?.length && !comment_text) {
+          throw new Error('Provide comment_text or comment blocks');
+        }
+        const query = buildTaskQueryString({ custom_task_ids, team_id });
         // Process comment blocks to ensure proper code block separation
-        const processedComment = processCommentBlocks(comment);
+        let blocks = comment?.length
+          ? processCommentBlocks(comment)
+          : prepareCommentForClickUp(comment_text as string).comment;
+        let assigneeId: number | undefined;
+        let mentioned: MentionMember[] = [];
+
+        if (resolve_mentions) {
+          const resolved = await mentionResolver.resolveTaskComment(task_id, blocks, { assignee, query });
+          blocks = resolved.comment;
+          assigneeId = resolved.assignee;
+          mentioned = resolved.mentioned;
+        } else if (assignee !== undefined) {
+          if (!/^\d+$/.test(String(assignee).trim())) {
+            throw new Error('assignee must be a numeric user ID when resolve_mentions is false');
+          }
+          assigneeId = Number(assignee);
+        }
 
-        // Create payload with processed structured comment array
         const payload = {
-          notify_all: commentParams.notify_all || false,
-          assignee: commentParams.assignee,
-          comment: processedComment,
+          notify_all: notify_all || false,
+          assignee: assigneeId,
+          comment: blocks,
         };
 
-        const result = await clickUpClient.post(
-          `/task/${task_id}/comment${buildTaskQueryString({ custom_task_ids, team_id })}`,
-          payload
-        );
+        const result = await clickUpClient.post<object>(`/task/${task_id}/comment${query}`, payload);
+        const mentions = mentioned.map(member => ({ id: member.id, username: member.username }));
 
         return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(mentions.length > 0 ? { ...result, mentioned: mentions } : result, null, 2),
+            },
+          ],
         };
       } catch (error: unknown) {
         return mcpError('creating task comment', error);
@@ -290,7 +330,7 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
         .string()
         .optional()
         .describe(
-          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists, etc.). Required unless comment blocks are provided.'
+          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists and checklists, plus @[Name](user:<id>) mentions, :<code>: emoticons such as :1f389: and <span style="color: red"> colors — the same syntax as comment_markdown in responses). Required unless comment blocks are provided.'
         ),
       comment: commentBlocksSchema
         .optional()
@@ -349,7 +389,7 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
         .string()
         .optional()
         .describe(
-          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists, etc.). Required unless comment blocks are provided.'
+          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists and checklists, plus @[Name](user:<id>) mentions, :<code>: emoticons such as :1f389: and <span style="color: red"> colors — the same syntax as comment_markdown in responses). Required unless comment blocks are provided.'
         ),
       comment: commentBlocksSchema
         .optional()
@@ -388,7 +428,7 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
         .string()
         .optional()
         .describe(
-          'The new text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists, etc.). Omit to leave the comment body unchanged.'
+          'The new text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists and checklists, plus @[Name](user:<id>) mentions, :<code>: emoticons such as :1f389: and <span style="color: red"> colors — the same syntax as comment_markdown in responses). Omit to leave the comment body unchanged.'
         ),
       comment: commentBlocksSchema
         .optional()
@@ -476,7 +516,7 @@ export function setupCommentTools(server: McpServer, options: CommentToolsOption
         .string()
         .optional()
         .describe(
-          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists, etc.). Required unless comment blocks are provided.'
+          'The text content of the comment (supports GitHub Flavored Markdown including headers, bold, italic, code blocks, links, lists and checklists, plus @[Name](user:<id>) mentions, :<code>: emoticons such as :1f389: and <span style="color: red"> colors — the same syntax as comment_markdown in responses). Required unless comment blocks are provided.'
         ),
       comment: commentBlocksSchema
         .optional()
@@ -1,14 +1,16 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { createClickUpClient } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
 import { createEnhancedCustomFieldsClient } from '../clickup-client/custom-fields-enhanced.js';
+import { createOperationJournal, formatJournalNote } from '../clickup-client/journal.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
 const customFieldsClient = createEnhancedCustomFieldsClient(clickUpClient);
+const journal = createOperationJournal(clickUpClient, getApiToken());
 
 // NOTE: The ClickUp public API does NOT support creating, updating, or deleting
 // custom field DEFINITIONS — fields must be created in the ClickUp UI. Only
@@ -122,17 +124,20 @@ export function setupCustomFieldTools(server: McpServer): void {
         if (custom_task_ids && !team_id) {
           throw new Error('team_id is required when custom_task_ids is true');
         }
+        const recorder = journal.begin('clickup_set_custom_field_value', 'update');
+        await recorder.capture(task_id, [`custom_field:${field_id}`], { custom_task_ids, team_id });
         await customFieldsClient.setCustomFieldValue(task_id, field_id, value, {
           valueOptions: value_options,
           customTaskIds: custom_task_ids,
           teamId: team_id,
         });
+        const operationId = recorder.commit();
 
         return {
           content: [
             {
               type: 'text',
-              text: `Custom field value set successfully on task ${task_id} for field ${field_id}.`,
+              text: `Custom field value set successfully on task ${task_id} for field ${field_id}.${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -162,16 +167,19 @@ export function setupCustomFieldTools(server: McpServer): void {
         if (custom_task_ids && !team_id) {
           throw new Error('team_id is required when custom_task_ids is true');
         }
+        const recorder = journal.begin('clickup_remove_custom_field_value', 'update');
+        await recorder.capture(task_id, [`custom_field:${field_id}`], { custom_task_ids, team_id });
         await customFieldsClient.removeCustomFieldValue(task_id, field_id, {
           customTaskIds: custom_task_ids,
           teamId: team_id,
         });
+        const operationId = recorder.commit();
 
         return {
           content: [
             {
               type: 'text',
-              text: `Custom field value removed successfully from task ${task_id} for field ${field_id}.`,
+              text: `Custom field value removed successfully from task ${task_id} for field ${field_id}.${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -268,6 +276,12 @@ export function setupCustomFieldTools(server: McpServer): void {
           value_options: fv.value_options,
         }));
 
+        const recorder = journal.begin('clickup_bulk_set_custom_field_values', 'update');
+        await recorder.capture(
+          task_id,
+          validatedFieldValues.map(fv => `custom_field:${fv.field_id}`),
+          { custom_task_ids, team_id }
+        );
         const results = await customFieldsClient.bulkSetCustomFieldValues(
           task_id,
           validatedFieldValues,
@@ -276,6 +290,7 @@ export function setupCustomFieldTools(server: McpServer): void {
             teamId: team_id,
           }
         );
+        const operationId = recorder.commit();
 
         const hasErrors = results.some((r: any) => r.status === 'error');
         const errorCount = results.filter((r: any) => r.status === 'error').length;
@@ -286,8 +301,8 @@ export function setupCustomFieldTools(server: McpServer): void {
             {
               type: 'text',
               text: hasErrors
-                ? `Bulk custom field update partially failed on task ${task_id}.\n${successCount} succeeded, ${errorCount} failed.\n\nResults:\n${JSON.stringify(results, null, 2)}`
-                : `Bulk custom field values set successfully on task ${task_id}!\n\nResults:\n${JSON.stringify(results, null, 2)}`,
+                ? `Bulk custom field update partially failed on task ${task_id}.\n${successCount} succeeded, ${errorCount} failed.\n\nResults:\n${JSON.stringify(results, null, 2)}${formatJournalNote(operationId)}`
+                : `Bulk custom field values set successfully on task ${task_id}!\n\nResults:\n${JSON.stringify(results, null, 2)}${formatJournalNote(operationId)}`,
             },
           ],
           ...(hasErrors ? { isError: true as const } : {}),
@@ -1,7 +1,8 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { getApiToken } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
+import { createNameResolver } from '../clickup-client/resolver.js';
 import { DependenciesEnhancedClient } from '../clickup-client/dependencies-enhanced.js';
 import {
   CreateDependencySchema,
@@ -12,12 +13,16 @@ import {
   DependencyGraphOptionsSchema,
   DependencyConflictCheckSchema,
   BulkDependencyOperationSchema,
+  CriticalPathOptionsSchema,
+  DEPENDENCY_GRAPH_FORMATS,
 } from '../schemas/dependencies-schemas.js';
 import { mcpError } from '../utils/error-handling.js';
-import { idSchema } from '../schemas/common.js';
+import { idSchema, NAME_REF_HINT } from '../schemas/common.js';
+import { renderDependencyGraph } from '../utils/dependency-graph-format.js';
 
 // Create clients
 const dependenciesClient = new DependenciesEnhancedClient(getApiToken());
+const resolver = createNameResolver(createClickUpClient());
 
 // Shared custom-task-ID query param inputs (accepted by all relationship endpoints)
 const customTaskIdInputs = {
@@ -31,6 +36,12 @@ const customTaskIdInputs = {
     .describe('Workspace (team) ID — required when custom_task_ids is true'),
 };
 
+// Graph tools reuse tasks fetched in the last minute unless told otherwise
+const refreshInput = z
+  .boolean()
+  .optional()
+  .describe('Re-fetch every task instead of reusing ones fetched in the last minute');
+
 export function setupDependenciesTools(server: McpServer): void {
   // ========================================
   // DEPENDENCY MANAGEMENT OPERATIONS
@@ -194,26 +205,41 @@ export function setupDependenciesTools(server: McpServer): void {
 
   server.tool(
     'clickup_get_dependency_graph',
-    'Build a dependency graph for a task by traversing related tasks (computed client-side from task data; issues one Get Task request per task in the graph).',
+    'Build a dependency graph around a task, or for every task in a list (computed client-side from task data). Task mode fetches each level of related tasks in parallel; list mode reads the list once. Tasks fetched in the last minute are reused. Use format to get a Mermaid or Graphviz diagram (paste-ready for clickup_create_doc_page), a JSON Graph Format document, or a markdown table; every format marks statuses, blocked tasks and cycles.',
     {
-      task_id: idSchema().describe('The root task ID for the dependency graph'),
+      task_id: idSchema().optional().describe('The root task ID for the dependency graph'),
+      list_id: idSchema()
+        .optional()
+        .describe(`Instead of a root task: graph every task in this list${NAME_REF_HINT.list}`),
       depth: z
         .number()
         .min(1)
         .max(10)
         .default(3)
-        .describe('Maximum depth to traverse in the graph'),
+        .describe('Maximum depth to traverse in the graph (task mode)'),
+      refresh: refreshInput,
+      format: z
+        .enum(DEPENDENCY_GRAPH_FORMATS)
+        .optional()
+        .describe(
+          'json (default, raw nodes/edges/cycles), mermaid, graphviz_dot, json_graph (JSON Graph Format), or markdown_table'
+        ),
     },
     async args => {
       try {
         const options = DependencyGraphOptionsSchema.parse(args);
+        if (options.list_id) {
+          options.list_id = await resolver.resolveListId(options.list_id);
+        }
         const result = await dependenciesClient.getDependencyGraph(options);
 
         return {
           content: [
             {
               type: 'text',
-              text: `Dependency graph for task ${args.task_id}:\n\n${JSON.stringify(result, null, 2)}`,
+              text: `Dependency graph for ${
+                options.list_id ? `list ${options.list_id}` : `task ${options.task_id}`
+              }:\n\n${result.note ? `${result.note}\n\n` : ''}${renderDependencyGraph(result, options.format)}`,
             },
           ],
         };
@@ -228,6 +254,13 @@ export function setupDependenciesTools(server: McpServer): void {
     'Check for circular or duplicate dependencies around a task, optionally including proposed new dependencies (computed client-side from task data).',
     {
       task_id: idSchema().describe('The task ID to check for conflicts'),
+      depth: z
+        .number()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe('How far to traverse existing dependencies (default 10)'),
+      refresh: refreshInput,
       proposed_dependencies: z
         .array(
           z.object({
@@ -263,6 +296,58 @@ export function setupDependenciesTools(server: McpServer): void {
     }
   );
 
+  server.tool(
+    'clickup_get_critical_path',
+    'Schedule a task\'s dependency graph or a whole list with the critical path method: earliest/latest start and finish, slack per task, the critical path, the projected finish date, and open tasks whose due dates cannot be met given what they wait on. Uses start_date, due_date and time_estimate (computed client-side; list mode reads the list once plus any outside blockers).',
+    {
+      task_id: idSchema().optional().describe('Root task: schedule the dependency graph around this task'),
+      list_id: idSchema()
+        .optional()
+        .describe(`Schedule every task in this list${NAME_REF_HINT.list}, plus outside tasks they wait on`),
+      depth: z.number().min(1).max(10).optional().describe('Graph traversal depth in task_id mode (default 5)'),
+      start_from: z
+        .string()
+        .optional()
+        .describe('Earliest date work can start (ISO date or epoch ms; default now)'),
+      hours_per_day: z
+        .number()
+        .min(1)
+        .max(24)
+        .optional()
+        .describe('Working hours per day for turning time estimates into calendar time (default 8)'),
+      default_duration_hours: z
+        .number()
+        .min(0)
+        .optional()
+        .describe('Work assumed for open tasks with no time estimate and no start/due dates (default 8)'),
+      refresh: refreshInput,
+    },
+    async args => {
+      try {
+        const options = CriticalPathOptionsSchema.parse(args);
+        if (options.list_id) {
+          options.list_id = await resolver.resolveListId(options.list_id);
+        }
+        const result = await dependenciesClient.getCriticalPath(options);
+
+        const summary =
+          `Projected finish ${result.projected_finish} ` +
+          `(${result.critical_path.length} task(s) on the critical path, ` +
+          `${result.infeasible_due_dates.length} infeasible due date(s))${result.truncated ? ' from a partial list' : ''}`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${summary}:\n\n${JSON.stringify(result, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('computing critical path', error);
+      }
+    }
+  );
+
   server.tool(
     'clickup_bulk_dependency_operations',
     'Create or delete multiple dependencies in one call (executed as individual API requests; results are reported per item).',
@@ -3,6 +3,8 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { createClickUpClient } from '../clickup-client/index.js';
 import { createEnhancedDocsClient } from '../clickup-client/docs-enhanced.js';
+import { createDocSyncClient } from '../clickup-client/doc-sync.js';
+import { getWriteMode } from '../clickup-client/dry-run.js';
 import {} from /* createAuthClient */ '../clickup-client/auth.js';
 import {} from /* DocumentToolSchemas */ '../schemas/document-schemas.js';
 import { mcpError } from '../utils/error-handling.js';
@@ -11,6 +13,7 @@ import { idSchema } from '../schemas/common.js';
 // Create clients
 const clickUpClient = createClickUpClient();
 const enhancedDocsClient = createEnhancedDocsClient(clickUpClient);
+const docSyncClient = createDocSyncClient(enhancedDocsClient);
 // const authClient = createAuthClient(clickUpClient);
 
 // Tool-facing content format values; 'markdown' and 'html' are normalized to
@@ -384,4 +387,76 @@ export function setupEnhancedDocTools(server: McpServer): void {
       }
     }
   );
+
+  // ========================================
+  // EXPORT / IMPORT
+  // ========================================
+
+  server.tool(
+    'clickup_export_doc',
+    "Write a doc's whole page hierarchy to a local directory of Markdown files. Each page is <slug>.md; a page with sub-pages is a <slug>/ directory whose index.md is the page itself. Front-matter holds clickup_page_id, title and sub_title. Files at the same paths are overwritten; other files are left alone. The directory must be inside CLICKUP_DOCS_DIR (default: docs under the server's data directory); relative paths resolve against it.",
+    {
+      workspace_id: idSchema().describe('The ID of the workspace containing the doc'),
+      doc_id: idSchema().describe('The ID of the doc to export'),
+      directory: z
+        .string()
+        .min(1)
+        .describe('Local directory to write to (created if missing), inside CLICKUP_DOCS_DIR (relative paths resolve against it)'),
+    },
+    async ({ workspace_id, doc_id, directory }) => {
+      try {
+        const report = await docSyncClient.exportDoc(workspace_id, doc_id, directory);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('exporting doc', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_import_docs',
+    'Create or update the pages of a doc to mirror a local directory of Markdown files (the layout clickup_export_doc writes). A file matches a page by clickup_page_id in its front-matter, else by title under the same parent page; unmatched files become new pages. The title is the front-matter title, else a leading "# Heading", else the file name. Reports each page as created, updated or unchanged; pages with no local file are listed under remote_only and never deleted. With dry_run (or when the server runs read-only / dry-run) nothing is written and pages are reported as would_create / would_update.',
+    {
+      workspace_id: idSchema().describe('The ID of the workspace containing the doc'),
+      doc_id: idSchema().describe('The ID of the doc to import into (create it first with clickup_create_doc)'),
+      directory: z
+        .string()
+        .min(1)
+        .describe('Local directory to read Markdown files from, inside CLICKUP_DOCS_DIR (relative paths resolve against it)'),
+      record_ids: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Write each page's clickup_page_id into its file's front-matter, so later imports match by ID"),
+      dry_run: z.boolean().optional().default(false).describe('Report what would be created or updated without writing'),
+    },
+    async ({ workspace_id, doc_id, directory, record_ids, dry_run }) => {
+      try {
+        const dryRun = dry_run || getWriteMode() !== 'live';
+        const report = await docSyncClient.importDocs(workspace_id, doc_id, directory, {
+          dryRun,
+          recordIds: record_ids,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('importing docs', error);
+      }
+    }
+  );
 }
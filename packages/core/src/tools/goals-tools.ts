@@ -1,21 +1,31 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { createClickUpClient } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
+import { getWriteMode } from '../clickup-client/dry-run.js';
 import { createEnhancedGoalsClient } from '../clickup-client/goals-enhanced.js';
+import { createGoalHistory } from '../clickup-client/goal-history.js';
+import { createGoalTargetSync, describeTargetSource } from '../clickup-client/goal-sync.js';
 import { htmlEncode } from '../utils/security.js';
 import { mcpError } from '../utils/error-handling.js';
+import {
+  GOAL_FORECAST_METHODS,
+  renderGoalForecastMermaid,
+  renderGoalForecastText,
+} from '../utils/goal-forecast.js';
 import {
   TeamIdSchema,
   GoalIdSchema,
   TargetIdSchema,
   GoalTargetTypeSchema,
   GoalColorSchema,
+  GoalTargetSourceSchema,
 } from '../schemas/goals-schemas.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
-const goalsClient = createEnhancedGoalsClient(clickUpClient);
+const goalsClient = createEnhancedGoalsClient(clickUpClient, { history: createGoalHistory(getApiToken()) });
+const goalTargetSync = createGoalTargetSync(clickUpClient, getApiToken());
 
 export function setupGoalsTools(server: McpServer): void {
   // ========================================
@@ -330,6 +340,91 @@ export function setupGoalsTools(server: McpServer): void {
     }
   );
 
+  // ========================================
+  // GOAL TARGET SYNC
+  // ========================================
+
+  server.tool(
+    'clickup_set_goal_target_source',
+    'Bind a number or currency goal target (key result) to a source its current value is computed from, so clickup_sync_goal_targets can keep it up to date. Sources: closed_tasks (count of closed tasks in a list, folder or space, optionally closed within start_date/end_date), custom_field_sum (sum of a number/currency custom field across the tasks of a list, folder or space, optionally closed tasks only), tracked_hours (hours tracked, optionally in one location; defaults to the goal\'s members since the goal started). Replaces any earlier binding; pass remove: true to unbind.',
+    {
+      goal_id: GoalIdSchema.describe('The ID of the goal the target belongs to'),
+      target_id: TargetIdSchema.describe('The ID of the target (key result) to bind'),
+      source: GoalTargetSourceSchema.optional().describe(
+        'e.g. {"type": "closed_tasks", "list_id": "901"}, {"type": "custom_field_sum", "field_id": "<uuid>", "folder_id": "456", "closed_only": true} or {"type": "tracked_hours", "space_id": "789", "start_date": 1767225600000}'
+      ),
+      remove: z.boolean().optional().default(false).describe('Remove the target\'s binding instead'),
+    },
+    async ({ goal_id, target_id, source, remove }) => {
+      try {
+        if (remove) {
+          const removed = goalTargetSync.unbind(target_id);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: removed
+                  ? `Target ${htmlEncode(target_id)} is no longer synced.`
+                  : `Target ${htmlEncode(target_id)} had no source binding.`,
+              },
+            ],
+          };
+        }
+        if (!source) {
+          throw new Error('Provide a source, or remove: true to unbind the target');
+        }
+
+        const binding = await goalTargetSync.bind(goal_id, target_id, source);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Target ${htmlEncode(target_id)} now tracks ${describeTargetSource(source)}. Run clickup_sync_goal_targets to update it.\n\n${JSON.stringify(binding, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('binding goal target source', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_sync_goal_targets',
+    'Recompute goal targets bound with clickup_set_goal_target_source and write each changed value to the target. Returns a diff per target: previous and new value, change, and progress before and after. With dry_run (or when the server runs read-only / dry-run) nothing is written and changed targets are reported as would_update.',
+    {
+      goal_id: GoalIdSchema.optional().describe('Only sync targets of this goal'),
+      target_ids: z.array(TargetIdSchema).optional().describe('Only sync these targets'),
+      dry_run: z.boolean().optional().default(false).describe('Compute the diff without updating any target'),
+    },
+    async ({ goal_id, target_ids, dry_run }) => {
+      try {
+        const dryRun = dry_run || getWriteMode() !== 'live';
+        const results = await goalTargetSync.sync({ goalId: goal_id, targetIds: target_ids }, { dryRun });
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No bound goal targets matched. Bind one with clickup_set_goal_target_source first.',
+              },
+            ],
+          };
+        }
+
+        const count = (status: string) => results.filter(result => result.status === status).length;
+        const summary = dryRun
+          ? `Dry run: ${count('would_update')} target(s) would change, ${count('unchanged')} unchanged, ${count('failed')} failed. Nothing was written.`
+          : `Synced goal targets: ${count('updated')} updated, ${count('unchanged')} unchanged, ${count('failed')} failed.`;
+        return {
+          content: [{ type: 'text', text: `${summary}\n\n${JSON.stringify(results, null, 2)}` }],
+        };
+      } catch (error: unknown) {
+        return mcpError('syncing goal targets', error);
+      }
+    }
+  );
+
   // ========================================
   // GOAL ANALYTICS & REPORTING
   // ========================================
@@ -358,6 +453,71 @@ export function setupGoalsTools(server: McpServer): void {
     }
   );
 
+  server.tool(
+    'clickup_forecast_goal',
+    'Forecast when a goal (or every goal of a team) will be complete, from the progress snapshots this server records whenever goals are read or synced. Projects the completion date from a linear or EWMA trend, reports whether each goal is on track for its due date (completed, on_track, at_risk, off_track, stalled, overdue or insufficient_data) and the rate of progress it would need, and renders a text or Mermaid burn-up chart.',
+    {
+      goal_id: GoalIdSchema.optional().describe('The goal to forecast'),
+      team_id: TeamIdSchema.optional().describe('Forecast every goal of this team instead'),
+      include_completed: z.boolean().optional().default(false).describe('With team_id, also include completed goals'),
+      method: z
+        .enum(GOAL_FORECAST_METHODS)
+        .optional()
+        .default('linear')
+        .describe('linear: least-squares trend over the whole history; ewma: weights recent progress more'),
+      smoothing: z
+        .number()
+        .gt(0)
+        .max(1)
+        .optional()
+        .default(0.5)
+        .describe('EWMA weight of the most recent interval (0-1]'),
+      format: z
+        .enum(['text', 'mermaid', 'json'])
+        .optional()
+        .default('text')
+        .describe('text: burn-up bars; mermaid: xychart burn-up (progress line, then plan line); json: raw forecast'),
+    },
+    async ({ goal_id, team_id, include_completed, method, smoothing, format }) => {
+      try {
+        if (!goal_id && !team_id) {
+          throw new Error('Provide goal_id or team_id');
+        }
+        const forecasts = await goalsClient.forecastGoals(
+          { goalId: goal_id, teamId: team_id, includeCompleted: include_completed },
+          { method, smoothing }
+        );
+        if (format === 'json') {
+          return { content: [{ type: 'text', text: JSON.stringify(forecasts, null, 2) }] };
+        }
+
+        // Goals that will miss first
+        const order = ['overdue', 'off_track', 'stalled', 'at_risk', 'insufficient_data', 'on_track', 'completed'];
+        forecasts.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+        const summary =
+          forecasts.length > 1
+            ? `${forecasts.length} goals: ${forecasts.filter(f => ['overdue', 'off_track', 'stalled', 'at_risk'].includes(f.status)).length} at risk of missing their due date.\n\n`
+            : '';
+        const charts = forecasts.map(forecast =>
+          format === 'mermaid'
+            ? `### ${forecast.name}\n${forecast.message}\n\n\`\`\`mermaid\n${renderGoalForecastMermaid(forecast)}\n\`\`\``
+            : renderGoalForecastText(forecast)
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: forecasts.length > 0 ? `${summary}${charts.join('\n\n')}` : 'No goals to forecast.',
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('forecasting goal', error);
+      }
+    }
+  );
+
   // ========================================
   // HELPER TOOLS
   // ========================================
@@ -0,0 +1,76 @@
+/* eslint-disable max-len */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
+import { createOperationJournal } from '../clickup-client/journal.js';
+import { mcpError } from '../utils/error-handling.js';
+
+// Create clients
+const clickUpClient = createClickUpClient();
+const journal = createOperationJournal(clickUpClient, getApiToken());
+
+export function setupJournalTools(server: McpServer): void {
+  server.tool(
+    'clickup_list_recent_operations',
+    'List recent journaled task changes, newest first: task updates, deletes and custom field writes made through this server, with the tasks and fields each one touched. Pass an operation ID to clickup_undo_operation to revert it.',
+    {
+      limit: z.number().int().min(1).max(200).optional().describe('How many entries to return (default 20)'),
+      include_undone: z.boolean().optional().describe('Include operations that were already undone (default true)'),
+    },
+    async ({ limit, include_undone }) => {
+      try {
+        const entries = journal.list(limit ?? 20, include_undone ?? true).map(entry => ({
+          id: entry.id,
+          tool: entry.tool,
+          operation: entry.operation,
+          created_at: entry.created_at,
+          tasks: entry.tasks.map(({ before, touched }) => ({
+            task_id: before.id,
+            name: before.name,
+            ...(entry.operation === 'update' && { touched }),
+            ...(before.subtasks?.length && { subtasks: before.subtasks.length }),
+          })),
+          ...(entry.undone_at && { undone_at: entry.undone_at }),
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: entries.length > 0 ? JSON.stringify(entries, null, 2) : 'No journaled operations yet.',
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('listing recent operations', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_undo_operation',
+    'Revert a journaled operation by ID (from clickup_list_recent_operations). Updates: writes back the previous values of only the fields the operation changed. Deletes: recreates each task in its original list from the snapshot — name, description, status, dates, assignees, tags, custom fields, checklists and subtasks — under a new ID; comments and attachments cannot be restored. Each operation can be undone once.',
+    {
+      operation_id: z.string().min(1).describe('The journal entry ID, e.g. "op_lx3k2a9f1c2d"'),
+    },
+    async ({ operation_id }) => {
+      try {
+        const results = await journal.undo(operation_id);
+        const failed = results.filter(result => result.error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                `${failed.length === 0 ? '✅' : '⚠️'} Undo of ${operation_id}: ` +
+                `${results.length - failed.length} of ${results.length} task(s) restored.\n\n` +
+                `${JSON.stringify(results, null, 2)}`,
+            },
+          ],
+          ...(failed.length > 0 && { isError: true as const }),
+        };
+      } catch (error: unknown) {
+        return mcpError('undoing operation', error);
+      }
+    }
+  );
+}
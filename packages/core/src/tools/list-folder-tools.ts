@@ -4,11 +4,13 @@ import { z } from 'zod';
 import { createClickUpClient } from '../clickup-client/index.js';
 import { createListsClient, List } from '../clickup-client/lists.js';
 import { createFoldersClient } from '../clickup-client/folders.js';
+import { createNameResolver } from '../clickup-client/resolver.js';
 import { mcpError } from '../utils/error-handling.js';
-import { idSchema } from '../schemas/common.js';
+import { idSchema, NAME_REF_HINT } from '../schemas/common.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
+const resolver = createNameResolver(clickUpClient);
 const listsClient = createListsClient(clickUpClient);
 const foldersClient = createFoldersClient(clickUpClient);
 
@@ -20,7 +22,7 @@ export function setupListFolderTools(server: McpServer): void {
       container_type: z
         .enum(['folder', 'space'])
         .describe('The type of container to get lists from'),
-      container_id: idSchema().describe('The ID of the container to get lists from'),
+      container_id: idSchema().describe(`The container to get lists from${NAME_REF_HINT.container}`),
       archived: z
         .boolean()
         .optional()
@@ -28,16 +30,17 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ container_type, container_id, archived }) => {
       try {
+        const containerId = await resolver.resolveContainerId(container_type, container_id);
         const params = archived === undefined ? undefined : { archived };
         let result;
         if (container_type === 'folder') {
-          result = await listsClient.getListsFromFolder(container_id, params);
+          result = await listsClient.getListsFromFolder(containerId, params);
         } else if (container_type === 'space') {
           // GET /space/{id}/list only returns folderless lists, so also collect
           // the lists embedded in the space's folders to cover the whole space.
           const [folderless, folderResult] = await Promise.all([
-            listsClient.getListsFromSpace(container_id, params),
-            foldersClient.getFoldersFromSpace(container_id, params),
+            listsClient.getListsFromSpace(containerId, params),
+            foldersClient.getFoldersFromSpace(containerId, params),
           ]);
           const listsInFolders = folderResult.folders.flatMap(
             folder => (folder as { lists?: List[] }).lists ?? []
@@ -60,7 +63,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_get_folders',
     'Get folders from a ClickUp space. Returns folder details including the lists inside each folder.',
     {
-      space_id: idSchema().describe('The ID of the space to get folders from'),
+      space_id: idSchema().describe(`The space to get folders from${NAME_REF_HINT.space}`),
       archived: z
         .boolean()
         .optional()
@@ -68,8 +71,9 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ space_id, archived }) => {
       try {
+        const spaceId = await resolver.resolveSpaceId(space_id);
         const params = archived === undefined ? undefined : { archived };
-        const result = await foldersClient.getFoldersFromSpace(space_id, params);
+        const result = await foldersClient.getFoldersFromSpace(spaceId, params);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -83,11 +87,12 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_get_folder',
     'Get details about a specific ClickUp folder including its name, statuses, and lists.',
     {
-      folder_id: idSchema().describe('The ID of the folder to get'),
+      folder_id: idSchema().describe(`The folder to get${NAME_REF_HINT.folder}`),
     },
     async ({ folder_id }) => {
       try {
-        const result = await foldersClient.getFolder(folder_id);
+        const folderId = await resolver.resolveFolderId(folder_id);
+        const result = await foldersClient.getFolder(folderId);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -101,12 +106,13 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_create_folder',
     'Create a new folder in a ClickUp space with the specified name.',
     {
-      space_id: idSchema().describe('The ID of the space to create the folder in'),
+      space_id: idSchema().describe(`The space to create the folder in${NAME_REF_HINT.space}`),
       name: z.string().describe('The name of the folder'),
     },
     async ({ space_id, name }) => {
       try {
-        const result = await foldersClient.createFolder(space_id, { name });
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        const result = await foldersClient.createFolder(spaceId, { name });
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -120,12 +126,13 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_update_folder',
     "Update an existing ClickUp folder's name.",
     {
-      folder_id: idSchema().describe('The ID of the folder to update'),
+      folder_id: idSchema().describe(`The folder to update${NAME_REF_HINT.folder}`),
       name: z.string().describe('The new name of the folder'),
     },
     async ({ folder_id, name }) => {
       try {
-        const result = await foldersClient.updateFolder(folder_id, { name });
+        const folderId = await resolver.resolveFolderId(folder_id);
+        const result = await foldersClient.updateFolder(folderId, { name });
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -139,11 +146,12 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_delete_folder',
     'Delete a folder from ClickUp. Removes the folder and its contents.',
     {
-      folder_id: idSchema().describe('The ID of the folder to delete'),
+      folder_id: idSchema().describe(`The folder to delete${NAME_REF_HINT.folder}`),
     },
     async ({ folder_id }) => {
       try {
-        const result = await foldersClient.deleteFolder(folder_id);
+        const folderId = await resolver.resolveFolderId(folder_id, { exact: true });
+        const result = await foldersClient.deleteFolder(folderId);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -157,7 +165,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_get_folderless_lists',
     'Get lists that are not in any folder within a ClickUp space.',
     {
-      space_id: idSchema().describe('The ID of the space to get folderless lists from'),
+      space_id: idSchema().describe(`The space to get folderless lists from${NAME_REF_HINT.space}`),
       archived: z
         .boolean()
         .optional()
@@ -165,8 +173,9 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ space_id, archived }) => {
       try {
+        const spaceId = await resolver.resolveSpaceId(space_id);
         const params = archived === undefined ? undefined : { archived };
-        const result = await listsClient.getListsFromSpace(space_id, params);
+        const result = await listsClient.getListsFromSpace(spaceId, params);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -183,7 +192,7 @@ export function setupListFolderTools(server: McpServer): void {
       container_type: z
         .enum(['folder', 'space'])
         .describe('The type of container to create the list in'),
-      container_id: idSchema().describe('The ID of the container to create the list in'),
+      container_id: idSchema().describe(`The container to create the list in${NAME_REF_HINT.container}`),
       name: z.string().describe('The name of the list'),
       content: z.string().optional().describe('The description/content of the list'),
       due_date: z
@@ -206,12 +215,13 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ container_type, container_id, name, content, due_date, due_date_time, priority, assignee, status }) => {
       try {
+        const containerId = await resolver.resolveContainerId(container_type, container_id);
         const params = { name, content, due_date, due_date_time, priority, assignee, status };
         let result;
         if (container_type === 'folder') {
-          result = await listsClient.createListInFolder(container_id, params);
+          result = await listsClient.createListInFolder(containerId, params);
         } else if (container_type === 'space') {
-          result = await listsClient.createFolderlessList(container_id, params);
+          result = await listsClient.createFolderlessList(containerId, params);
         } else {
           throw new Error('Invalid container_type. Must be one of: folder, space');
         }
@@ -229,7 +239,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_create_folderless_list',
     'Create a new list directly in a ClickUp space without placing it in a folder.',
     {
-      space_id: idSchema().describe('The ID of the space to create the folderless list in'),
+      space_id: idSchema().describe(`The space to create the folderless list in${NAME_REF_HINT.space}`),
       name: z.string().describe('The name of the folderless list'),
       content: z.string().optional().describe('The description/content of the list'),
       due_date: z
@@ -252,7 +262,8 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ space_id, name, content, due_date, due_date_time, priority, assignee, status }) => {
       try {
-        const result = await listsClient.createFolderlessList(space_id, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        const result = await listsClient.createFolderlessList(spaceId, {
           name,
           content,
           due_date,
@@ -274,11 +285,12 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_get_list',
     'Get details about a specific ClickUp list including its name and content.',
     {
-      list_id: idSchema().describe('The ID of the list to get'),
+      list_id: idSchema().describe(`The list to get${NAME_REF_HINT.list}`),
     },
     async ({ list_id }) => {
       try {
-        const result = await listsClient.getList(list_id);
+        const listId = await resolver.resolveListId(list_id);
+        const result = await listsClient.getList(listId);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -292,7 +304,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_update_list',
     'Update an existing ClickUp list. All fields are optional; only provided fields are changed.',
     {
-      list_id: idSchema().describe('The ID of the list to update'),
+      list_id: idSchema().describe(`The list to update${NAME_REF_HINT.list}`),
       name: z.string().optional().describe('The new name of the list'),
       content: z.string().optional().describe('The new description/content of the list'),
       due_date: z
@@ -323,11 +335,12 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ list_id, name, content, due_date, due_date_time, priority, assignee, unset_status }) => {
       try {
+        const listId = await resolver.resolveListId(list_id);
         const params = { name, content, due_date, due_date_time, priority, assignee, unset_status };
         if (Object.values(params).every(value => value === undefined)) {
           throw new Error('At least one field to update must be provided');
         }
-        const result = await listsClient.updateList(list_id, params);
+        const result = await listsClient.updateList(listId, params);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -341,11 +354,12 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_get_list_members',
     'Get the members (users) who have access to a specific ClickUp list.',
     {
-      list_id: idSchema().describe('The ID of the list to get members from'),
+      list_id: idSchema().describe(`The list to get members from${NAME_REF_HINT.list}`),
     },
     async ({ list_id }) => {
       try {
-        const result = await listsClient.getListMembers(list_id);
+        const listId = await resolver.resolveListId(list_id);
+        const result = await listsClient.getListMembers(listId);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -359,7 +373,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_delete_list',
     '⚠️ DESTRUCTIVE: Delete a list from ClickUp. This action cannot be undone and will permanently remove the list and all its tasks.',
     {
-      list_id: idSchema().describe('The ID of the list to delete'),
+      list_id: idSchema().describe(`The list to delete${NAME_REF_HINT.list}`),
       confirm_deletion: z
         .boolean()
         .describe(
@@ -368,6 +382,7 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ list_id, confirm_deletion }) => {
       try {
+        const listId = await resolver.resolveListId(list_id, { exact: true });
         if (!confirm_deletion) {
           return {
             content: [
@@ -381,15 +396,15 @@ export function setupListFolderTools(server: McpServer): void {
         }
 
         // Get list details first for confirmation message
-        const listDetails = await listsClient.getList(list_id);
-        await listsClient.deleteList(list_id);
+        const listDetails = await listsClient.getList(listId);
+        await listsClient.deleteList(listId);
 
         return {
           content: [
             {
               type: 'text',
               text:
-                `✅ List "${listDetails.name}" (ID: ${list_id}) has been permanently deleted.\n\n` +
+                `✅ List "${listDetails.name}" (ID: ${listId}) has been permanently deleted.\n\n` +
                 '⚠️ This action cannot be undone. The list and all its tasks have been removed from ClickUp.',
             },
           ],
@@ -404,7 +419,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_create_list_from_template_in_folder',
     'Create a new list in a ClickUp folder using an existing template.',
     {
-      folder_id: idSchema().describe('The ID of the folder to create the list in'),
+      folder_id: idSchema().describe(`The folder to create the list in${NAME_REF_HINT.folder}`),
       template_id: idSchema().describe('The ID of the template to use'),
       name: z.string().describe('The name of the list'),
       return_immediately: z
@@ -414,7 +429,8 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ folder_id, template_id, name, return_immediately }) => {
       try {
-        const result = await listsClient.createListFromTemplateInFolder(folder_id, template_id, {
+        const folderId = await resolver.resolveFolderId(folder_id);
+        const result = await listsClient.createListFromTemplateInFolder(folderId, template_id, {
           name,
           ...(return_immediately === undefined ? {} : { options: { return_immediately } }),
         });
@@ -431,7 +447,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_create_list_from_template_in_space',
     'Create a new list in a ClickUp space using an existing template.',
     {
-      space_id: idSchema().describe('The ID of the space to create the list in'),
+      space_id: idSchema().describe(`The space to create the list in${NAME_REF_HINT.space}`),
       template_id: idSchema().describe('The ID of the template to use'),
       name: z.string().describe('The name of the list'),
       return_immediately: z
@@ -441,7 +457,8 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ space_id, template_id, name, return_immediately }) => {
       try {
-        const result = await listsClient.createListFromTemplateInSpace(space_id, template_id, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        const result = await listsClient.createListFromTemplateInSpace(spaceId, template_id, {
           name,
           ...(return_immediately === undefined ? {} : { options: { return_immediately } }),
         });
@@ -458,7 +475,7 @@ export function setupListFolderTools(server: McpServer): void {
     'clickup_create_folder_from_template',
     'Create a new folder (with its nested lists and tasks) in a ClickUp space using an existing folder template.',
     {
-      space_id: idSchema().describe('The ID of the space to create the folder in'),
+      space_id: idSchema().describe(`The space to create the folder in${NAME_REF_HINT.space}`),
       template_id: z
         .string()
         .describe('The ID of the folder template to use (e.g. "t-7162342")'),
@@ -472,7 +489,8 @@ export function setupListFolderTools(server: McpServer): void {
     },
     async ({ space_id, template_id, name, return_immediately }) => {
       try {
-        const result = await foldersClient.createFolderFromTemplate(space_id, template_id, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        const result = await foldersClient.createFolderFromTemplate(spaceId, template_id, {
           name,
           ...(return_immediately === undefined ? {} : { options: { return_immediately } }),
         });
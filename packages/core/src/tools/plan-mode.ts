@@ -0,0 +1,92 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createClickUpClient } from '../clickup-client/index.js';
+import { describePlanEntities, getWriteMode, runWithPlan } from '../clickup-client/dry-run.js';
+
+/**
+ * Adds a `dry_run` argument to every mutating tool and, when it is set (or the
+ * server runs with CLICKUP_DRY_RUN / CLICKUP_READ_ONLY), runs the tool with
+ * its writes recorded instead of sent — see clickup-client/dry-run.ts. The
+ * tool's normal output is replaced by the plan: each write's method,
+ * endpoint and body, plus the name of the task/list/folder/space it targets.
+ */
+
+/** Tools whose names start with one of these verbs change workspace data. */
+export const MUTATING_TOOL_PATTERN =
+  /^clickup_(?:create|update|delete|set|remove|add|bulk|merge|edit|duplicate|upload|send|start|stop|undo)_/;
+
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .describe('Preview only: return the planned API writes (method, endpoint, body, affected names); change nothing');
+
+type ToolResult = { content: Array<{ type: string; text?: string }>; isError?: boolean };
+type ToolCallback = (args: Record<string, unknown>, extra: unknown) => Promise<ToolResult>;
+
+/**
+ * Run a tool callback in plan mode and build the response: the plan, or the
+ * tool's own result when it failed before attempting any write (validation
+ * errors, missing confirmations).
+ */
+export async function planToolCall(
+  toolName: string,
+  run: () => Promise<ToolResult>,
+  get: (endpoint: string) => Promise<unknown>
+): Promise<ToolResult> {
+  const { result, plan } = await runWithPlan(run);
+  if (result.isError && plan.mutations.length === 0) {
+    return result;
+  }
+
+  const mutations = await describePlanEntities(plan, get);
+  const mode = getWriteMode();
+  const response = {
+    dry_run: true,
+    tool: toolName,
+    mode: mode === 'live' ? 'dry_run' : mode,
+    mutation_count: mutations.length,
+    mutations,
+    note:
+      mutations.length === 0
+        ? 'This call would not write anything.'
+        : 'Nothing was changed. Call the tool again without dry_run to apply these writes.',
+    ...(result.isError && {
+      // Later steps usually depend on real responses from earlier writes
+      simulation_stopped: result.content.map(item => item.text ?? '').join('\n'),
+    }),
+  };
+  return { content: [{ type: 'text', text: JSON.stringify(response, null, 2) }] };
+}
+
+/**
+ * Wrap `server.tool` so mutating tools registered afterwards accept
+ * `dry_run`. Call once, before the tool modules register.
+ */
+export function enablePlanMode(server: McpServer): void {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).tool = (...args: unknown[]) => {
+    const [name, description, shape, callback] = args;
+    if (
+      args.length !== 4 ||
+      typeof name !== 'string' ||
+      !MUTATING_TOOL_PATTERN.test(name) ||
+      typeof shape !== 'object' ||
+      typeof callback !== 'function'
+    ) {
+      return register(...args);
+    }
+
+    const toolCallback = callback as ToolCallback;
+    const wrapped: ToolCallback = async (toolArgs, extra) => {
+      const { dry_run: dryRun, ...rest } = toolArgs;
+      if (!dryRun && getWriteMode() === 'live') {
+        return toolCallback(rest, extra);
+      }
+      const client = createClickUpClient();
+      return planToolCall(name, () => toolCallback(rest, extra), endpoint => client.get(endpoint));
+    };
+    return register(name, description, { ...(shape as z.ZodRawShape), dry_run: dryRunSchema }, wrapped);
+  };
+}
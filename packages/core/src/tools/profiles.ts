@@ -0,0 +1,72 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { CredentialStore, type ProfileSummary } from '../clickup-client/credentials.js';
+import { runWithClickUpToken } from '../clickup-client/session.js';
+import { mcpError } from '../utils/error-handling.js';
+
+/**
+ * Adds a `profile` argument to every tool when named credentials are
+ * configured (see clickup-client/credentials.ts). A call with `profile` runs
+ * inside runWithClickUpToken() with that profile's token, so the response
+ * cache, name resolver and operation journal stay separate per workspace —
+ * the same mechanism HTTP sessions use. Calls without it use CLICKUP_API_TOKEN.
+ */
+
+type ToolResult = { content: Array<{ type: string; text?: string }>; isError?: boolean };
+type ToolCallback = (args: Record<string, unknown>, extra: unknown) => Promise<ToolResult>;
+
+/**
+ * Wrap `server.tool` so tools registered afterwards accept `profile`. Call
+ * once, before the tool modules register and before enablePlanMode, so a dry
+ * run's name lookups also use the profile. Does nothing when the store holds
+ * no profiles: the argument would only add noise to every schema. A store that
+ * cannot be read (corrupt, or the wrong key) is logged and treated the same,
+ * so the server still starts for calls that use CLICKUP_API_TOKEN.
+ */
+export function enableProfiles(server: McpServer, store: CredentialStore): void {
+  let profiles: ProfileSummary[];
+  try {
+    profiles = store.list();
+  } catch (error: unknown) {
+    // eslint-disable-next-line no-console
+    console.error('ClickUp credential profiles are unavailable:', error instanceof Error ? error.message : error);
+    return;
+  }
+  if (profiles.length === 0) {
+    return;
+  }
+
+  const described = profiles
+    .map(profile => (profile.workspaces?.length ? `${profile.name} (${profile.workspaces.join(', ')})` : profile.name))
+    .join('; ');
+  const profileSchema = z
+    .string()
+    .optional()
+    .describe(`Run this call with a named ClickUp credential instead of the default: ${described}`);
+
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).tool = (...args: unknown[]) => {
+    const [name, description, shape, callback] = args;
+    if (args.length !== 4 || typeof shape !== 'object' || typeof callback !== 'function') {
+      return register(...args);
+    }
+
+    const toolCallback = callback as ToolCallback;
+    const wrapped: ToolCallback = async (toolArgs, extra) => {
+      const { profile, ...rest } = toolArgs;
+      if (typeof profile !== 'string' || profile.trim() === '') {
+        return toolCallback(rest, extra);
+      }
+      let token: string;
+      try {
+        token = await store.getAccessToken(profile);
+      } catch (error: unknown) {
+        return mcpError('selecting credential profile', error);
+      }
+      return runWithClickUpToken(token, () => toolCallback(rest, extra));
+    };
+    return register(name, description, { ...(shape as z.ZodRawShape), profile: profileSchema }, wrapped);
+  };
+}
@@ -3,11 +3,13 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { createClickUpClient } from '../clickup-client/index.js';
 import { createSpacesClient } from '../clickup-client/spaces.js';
+import { createNameResolver } from '../clickup-client/resolver.js';
 import { mcpError } from '../utils/error-handling.js';
-import { idSchema } from '../schemas/common.js';
+import { idSchema, NAME_REF_HINT } from '../schemas/common.js';
 
 // Create clients
 const clickUpClient = createClickUpClient();
+const resolver = createNameResolver(clickUpClient);
 const spacesClient = createSpacesClient(clickUpClient);
 
 // Shared features schema for create/update space tools
@@ -69,11 +71,12 @@ export function setupSpaceTools(server: McpServer): void {
   server.tool(
     'clickup_get_space',
     'Get details about a specific ClickUp space. Returns space name, settings, features, and metadata.',
-    { space_id: idSchema().describe('The ID of the space to get') },
+    { space_id: idSchema().describe(`The space to get${NAME_REF_HINT.space}`) },
     async ({ space_id }) => {
       try {
-        console.error(`[SpaceTools] Getting space ${space_id}...`);
-        const space = await spacesClient.getSpace(space_id);
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Getting space ${spaceId}...`);
+        const space = await spacesClient.getSpace(spaceId);
         console.error(`[SpaceTools] Got space: ${space.name}`);
 
         return {
@@ -122,7 +125,7 @@ export function setupSpaceTools(server: McpServer): void {
     'clickup_update_space',
     "Update an existing ClickUp space's name, color, privacy, admin management, multiple assignees setting, or features.",
     {
-      space_id: idSchema().describe('The ID of the space to update'),
+      space_id: idSchema().describe(`The space to update${NAME_REF_HINT.space}`),
       name: z.string().optional().describe('The new name of the space'),
       color: z.string().optional().describe('The new hex color code of the space (e.g. #7B68EE)'),
       private: z.boolean().optional().describe('Whether the space should be private'),
@@ -138,8 +141,9 @@ export function setupSpaceTools(server: McpServer): void {
     },
     async ({ space_id, name, color, private: isPrivate, admin_can_manage, multiple_assignees, features }) => {
       try {
-        console.error(`[SpaceTools] Updating space ${space_id}...`);
-        const space = await spacesClient.updateSpace(space_id, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Updating space ${spaceId}...`);
+        const space = await spacesClient.updateSpace(spaceId, {
           ...(name !== undefined && { name }),
           ...(color !== undefined && { color }),
           ...(isPrivate !== undefined && { private: isPrivate }),
@@ -163,13 +167,14 @@ export function setupSpaceTools(server: McpServer): void {
     'clickup_delete_space',
     '⚠️ DESTRUCTIVE: Delete a space from ClickUp. This action cannot be undone and will permanently remove the space and ALL of its contents, including folders, lists, and tasks.',
     {
-      space_id: idSchema().describe('The ID of the space to delete'),
+      space_id: idSchema().describe(`The space to delete${NAME_REF_HINT.space}`),
       confirm_deletion: z
         .boolean()
         .describe('Confirmation that you want to permanently delete this space (must be true)'),
     },
     async ({ space_id, confirm_deletion }) => {
       try {
+        const spaceId = await resolver.resolveSpaceId(space_id, { exact: true });
         if (!confirm_deletion) {
           return {
             content: [
@@ -182,15 +187,15 @@ export function setupSpaceTools(server: McpServer): void {
           };
         }
 
-        console.error(`[SpaceTools] Deleting space ${space_id}...`);
-        await spacesClient.deleteSpace(space_id);
+        console.error(`[SpaceTools] Deleting space ${spaceId}...`);
+        await spacesClient.deleteSpace(spaceId);
 
         return {
           content: [
             {
               type: 'text',
               text:
-                `✅ Space ${space_id} has been permanently deleted.\n\n` +
+                `✅ Space ${spaceId} has been permanently deleted.\n\n` +
                 '⚠️ This action cannot be undone. The space and all its folders, lists, and tasks have been removed from ClickUp.',
             },
           ],
@@ -205,11 +210,12 @@ export function setupSpaceTools(server: McpServer): void {
   server.tool(
     'clickup_get_space_tags',
     'Get the task tags defined in a ClickUp space. Returns tag names and foreground/background colors.',
-    { space_id: idSchema().describe('The ID of the space to get tags from') },
+    { space_id: idSchema().describe(`The space to get tags from${NAME_REF_HINT.space}`) },
     async ({ space_id }) => {
       try {
-        console.error(`[SpaceTools] Getting tags for space ${space_id}...`);
-        const tags = await spacesClient.getSpaceTags(space_id);
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Getting tags for space ${spaceId}...`);
+        const tags = await spacesClient.getSpaceTags(spaceId);
         console.error(`[SpaceTools] Got ${tags.length} tags`);
 
         return {
@@ -226,22 +232,23 @@ export function setupSpaceTools(server: McpServer): void {
     'clickup_create_space_tag',
     'Create a new task tag in a ClickUp space with an optional foreground and background color.',
     {
-      space_id: idSchema().describe('The ID of the space to create the tag in'),
+      space_id: idSchema().describe(`The space to create the tag in${NAME_REF_HINT.space}`),
       name: z.string().describe('The name of the tag'),
       tag_fg: z.string().optional().describe('The foreground (text) hex color of the tag (e.g. #FFFFFF)'),
       tag_bg: z.string().optional().describe('The background hex color of the tag (e.g. #7B68EE)'),
     },
     async ({ space_id, name, tag_fg, tag_bg }) => {
       try {
-        console.error(`[SpaceTools] Creating tag "${name}" in space ${space_id}...`);
-        await spacesClient.createSpaceTag(space_id, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Creating tag "${name}" in space ${spaceId}...`);
+        await spacesClient.createSpaceTag(spaceId, {
           name,
           ...(tag_fg !== undefined && { tag_fg }),
           ...(tag_bg !== undefined && { tag_bg }),
         });
 
         return {
-          content: [{ type: 'text', text: `✅ Tag "${name}" created in space ${space_id}.` }],
+          content: [{ type: 'text', text: `✅ Tag "${name}" created in space ${spaceId}.` }],
         };
       } catch (error: unknown) {
         return mcpError('creating space tag', error);
@@ -254,7 +261,7 @@ export function setupSpaceTools(server: McpServer): void {
     'clickup_edit_space_tag',
     "Edit an existing task tag in a ClickUp space. Update the tag's name and/or colors.",
     {
-      space_id: idSchema().describe('The ID of the space containing the tag'),
+      space_id: idSchema().describe(`The space containing the tag${NAME_REF_HINT.space}`),
       tag_name: z.string().describe('The current name of the tag to edit'),
       new_name: z.string().optional().describe('The new name of the tag'),
       tag_fg: z.string().optional().describe('The new foreground (text) hex color of the tag'),
@@ -262,8 +269,9 @@ export function setupSpaceTools(server: McpServer): void {
     },
     async ({ space_id, tag_name, new_name, tag_fg, tag_bg }) => {
       try {
-        console.error(`[SpaceTools] Editing tag "${tag_name}" in space ${space_id}...`);
-        await spacesClient.editSpaceTag(space_id, tag_name, {
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Editing tag "${tag_name}" in space ${spaceId}...`);
+        await spacesClient.editSpaceTag(spaceId, tag_name, {
           name: new_name ?? tag_name,
           ...(tag_fg !== undefined && { tag_fg }),
           ...(tag_bg !== undefined && { tag_bg }),
@@ -273,7 +281,7 @@ export function setupSpaceTools(server: McpServer): void {
           content: [
             {
               type: 'text',
-              text: `✅ Tag "${tag_name}" updated in space ${space_id}.`,
+              text: `✅ Tag "${tag_name}" updated in space ${spaceId}.`,
             },
           ],
         };
@@ -288,17 +296,18 @@ export function setupSpaceTools(server: McpServer): void {
     'clickup_delete_space_tag',
     '⚠️ DESTRUCTIVE: Delete a task tag from a ClickUp space. The tag is removed from the space and from all tasks that use it.',
     {
-      space_id: idSchema().describe('The ID of the space containing the tag'),
+      space_id: idSchema().describe(`The space containing the tag${NAME_REF_HINT.space}`),
       tag_name: z.string().describe('The name of the tag to delete'),
     },
     async ({ space_id, tag_name }) => {
       try {
-        console.error(`[SpaceTools] Deleting tag "${tag_name}" from space ${space_id}...`);
-        await spacesClient.deleteSpaceTag(space_id, tag_name);
+        const spaceId = await resolver.resolveSpaceId(space_id);
+        console.error(`[SpaceTools] Deleting tag "${tag_name}" from space ${spaceId}...`);
+        await spacesClient.deleteSpaceTag(spaceId, tag_name);
 
         return {
           content: [
-            { type: 'text', text: `✅ Tag "${tag_name}" deleted from space ${space_id}.` },
+            { type: 'text', text: `✅ Tag "${tag_name}" deleted from space ${spaceId}.` },
           ],
         };
       } catch (error: unknown) {
@@ -1,14 +1,52 @@
 /* eslint-disable no-console, max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { createClickUpClient } from '../clickup-client/index.js';
-import { createTasksClient, CreateTaskParams, UpdateTaskParams } from '../clickup-client/tasks.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
+import {
+  createTasksClient,
+  CreateTaskParams,
+  UpdateTaskParams,
+  DEFAULT_MAX_TASKS,
+  MAX_TASKS_PER_CALL,
+} from '../clickup-client/tasks.js';
 import { createListsClient } from '../clickup-client/lists.js';
+import { createNameResolver } from '../clickup-client/resolver.js';
+import { createViewQueryCompiler } from '../clickup-client/view-query.js';
+import { createOperationJournal, formatJournalNote, touchedFieldsForUpdate } from '../clickup-client/journal.js';
 import { mcpError } from '../utils/error-handling.js';
-import { idSchema } from '../schemas/common.js';
+import { matchesViewQuery } from '../utils/view-query.js';
+import { TimeZoneSchema } from '../schemas/time-tracking-schemas.js';
+import { idSchema, NAME_REF_HINT } from '../schemas/common.js';
+
+// Shared pagination inputs for the task list tools. Any of them switches the
+// tool from single-page mode to a server-side walk over pages.
+const paginationSchema = {
+  all_pages: z
+    .boolean()
+    .optional()
+    .describe(
+      `Fetch every page server-side instead of one page of 100 (stops at max_tasks, default ${DEFAULT_MAX_TASKS})`
+    ),
+  max_tasks: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TASKS_PER_CALL)
+    .optional()
+    .describe(
+      `Maximum tasks to return across all pages (implies all_pages; up to ${MAX_TASKS_PER_CALL}). When reached, the result includes pagination.next_cursor`
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Resume a previous all_pages call from its pagination.next_cursor (implies all_pages)'),
+};
 
 // Create clients
 const clickUpClient = createClickUpClient();
+const resolver = createNameResolver(clickUpClient);
+const queryCompiler = createViewQueryCompiler(clickUpClient);
+const journal = createOperationJournal(clickUpClient, getApiToken());
 const tasksClient = createTasksClient(clickUpClient);
 const listsClient = createListsClient(clickUpClient);
 
@@ -16,24 +54,56 @@ export function setupTaskTools(server: McpServer): void {
   // Task tools
   server.tool(
     'clickup_get_tasks',
-    'Get tasks from a ClickUp list. Returns task details including name, description, assignees, and status.',
+    'Get tasks from a ClickUp list. Returns task details including name, description, assignees, and status. Returns one page of 100 tasks by default; set all_pages to walk every page server-side.',
     {
-      list_id: idSchema().describe('The ID of the list to get tasks from'),
+      list_id: idSchema().describe(`The list to get tasks from${NAME_REF_HINT.list}`),
       include_closed: z.boolean().optional().describe('Whether to include closed tasks'),
       subtasks: z.boolean().optional().describe('Whether to include subtasks in the results'),
       include_markdown_description: z
         .boolean()
         .optional()
         .describe('Whether to return task descriptions in Markdown format'),
-      page: z.number().optional().describe('The page number to get'),
+      page: z.number().optional().describe('The page number to get (with all_pages, the first page to fetch)'),
       order_by: z.string().optional().describe('The field to order by'),
       reverse: z.boolean().optional().describe('Whether to reverse the order'),
+      where: z
+        .string()
+        .optional()
+        .describe(
+          'Keep only tasks matching a view query, applied to the fetched tasks, e.g. `status in ("in progress", "review") and assignee = me and due < +7d and cf."Story Points" >= 3`. Same syntax as clickup_set_view_filters query; names resolve against this list. Pagination applies before filtering: a page may come back short or empty while later pages still have matches, so use all_pages to filter the whole list'
+        ),
+      timezone: TimeZoneSchema.optional()
+        .default('UTC')
+        .describe('IANA time zone that dates in where (e.g. "today") are read in'),
+      ...paginationSchema,
     },
-    async ({ list_id, ...params }) => {
+    async ({ list_id, all_pages, max_tasks, cursor, where, timezone, ...params }) => {
       try {
-        const result = await tasksClient.getTasksFromList(list_id, params);
+        const listId = await resolver.resolveListId(list_id);
+        // Compile first, so a bad query fails before any pages are fetched
+        const query = where
+          ? await queryCompiler.compile(where, { type: 'list', id: listId }, { timeZone: timezone })
+          : undefined;
+        const result =
+          all_pages || max_tasks !== undefined || cursor !== undefined
+            ? await tasksClient.getAllTasksFromList(listId, params, { max_tasks, cursor })
+            : await tasksClient.getTasksFromList(listId, params);
+        const morePages = 'pagination' in result ? !result.pagination.complete : result.last_page !== true;
+        const filtered = query
+          ? {
+            ...result,
+            tasks: result.tasks.filter(task => matchesViewQuery(task, query)),
+            where: {
+              filters: query.filters,
+              op: query.op,
+              tasks_scanned: result.tasks.length,
+              // Paging fields describe the unfiltered list
+              ...(morePages && { note: 'Pagination counts tasks before filtering; later pages may hold more matches.' }),
+            },
+          }
+          : result;
         return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify(filtered, null, 2) }],
         };
       } catch (error: unknown) {
         return mcpError('getting tasks', error);
@@ -84,7 +154,7 @@ export function setupTaskTools(server: McpServer): void {
     'clickup_create_task',
     'Create a new task in a ClickUp list with specified properties like name, description, assignees, status, and dates. Supports GitHub Flavored Markdown in description field.',
     {
-      list_id: idSchema().describe('The ID of the list to create the task in'),
+      list_id: idSchema().describe(`The list to create the task in${NAME_REF_HINT.list}`),
       name: z.string().describe('The name of the task'),
       description: z
         .string()
@@ -99,11 +169,14 @@ export function setupTaskTools(server: McpServer): void {
           'Raw markdown content for the task description (alternative to description field)'
         ),
       assignees: z
-        .array(z.number())
+        .array(z.union([z.number(), z.string()]))
         .optional()
-        .describe('The IDs of the users to assign to the task'),
+        .describe(`The users to assign to the task: ${NAME_REF_HINT.user}`),
       tags: z.array(z.string()).optional().describe('The tags to add to the task'),
-      status: z.string().optional().describe('The status of the task'),
+      status: z
+        .string()
+        .optional()
+        .describe("The status of the task (matched case-insensitively against the list's statuses)"),
       priority: z.number().optional().describe('The priority of the task (1-4)'),
       due_date: z.number().optional().describe('The due date of the task (Unix timestamp)'),
       due_date_time: z.boolean().optional().describe('Whether the due date includes a time'),
@@ -126,13 +199,21 @@ export function setupTaskTools(server: McpServer): void {
     },
     async ({ list_id, custom_task_ids, team_id, ...taskParams }) => {
       try {
+        const listId = await resolver.resolveListId(list_id);
         // If both description and markdown_content are provided, prefer markdown_content
         if (taskParams.markdown_content && taskParams.description) {
           console.warn('Both description and markdown_content provided. Using markdown_content.');
           delete taskParams.description;
         }
 
-        const result = await tasksClient.createTask(list_id, taskParams as CreateTaskParams, {
+        const { assignees, status, ...rest } = taskParams;
+        const createParams: CreateTaskParams = {
+          ...rest,
+          ...(assignees && { assignees: await resolver.resolveUserIds(assignees) }),
+          ...(status && { status: await resolver.resolveStatus(listId, status) }),
+        };
+
+        const result = await tasksClient.createTask(listId, createParams, {
           custom_task_ids,
           team_id,
         });
@@ -164,10 +245,13 @@ export function setupTaskTools(server: McpServer): void {
           'Raw markdown content for the task description (alternative to description field)'
         ),
       assignees: z
-        .array(z.number())
+        .array(z.union([z.number(), z.string()]))
+        .optional()
+        .describe(`The users to assign to the task: ${NAME_REF_HINT.user}`),
+      status: z
+        .string()
         .optional()
-        .describe('The IDs of the users to assign to the task'),
-      status: z.string().optional().describe('The new status of the task'),
+        .describe("The new status of the task (matched case-insensitively against the task list's statuses)"),
       priority: z.number().optional().describe('The new priority of the task (1-4)'),
       due_date: z.number().optional().describe('The new due date of the task (Unix timestamp)'),
       due_date_time: z.boolean().optional().describe('Whether the due date includes a time'),
@@ -194,12 +278,25 @@ export function setupTaskTools(server: McpServer): void {
           delete taskParams.description;
         }
 
-        const result = await tasksClient.updateTask(task_id, taskParams as UpdateTaskParams, {
-          custom_task_ids,
-          team_id,
+        const { assignees, status, ...rest } = taskParams;
+        const updateParams: UpdateTaskParams = {
+          ...rest,
+          ...(assignees && { assignees: await resolver.resolveUserIds(assignees) }),
+        };
+        if (status) {
+          // Statuses are per list, so find the task's list before matching the name
+          const current = await tasksClient.getTask(task_id, { custom_task_ids, team_id });
+          updateParams.status = current.list?.id ? await resolver.resolveStatus(current.list.id, status) : status;
+        }
+
+        const recorder = journal.begin('clickup_update_task', 'update');
+        await recorder.capture(task_id, touchedFieldsForUpdate({ ...updateParams }), { custom_task_ids, team_id });
+        let operationId: string | undefined;
+        const result = await tasksClient.updateTask(task_id, updateParams, { custom_task_ids, team_id }).finally(() => {
+          operationId = recorder.commit();
         });
         return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) + formatJournalNote(operationId) }],
         };
       } catch (error: unknown) {
         return mcpError('updating task', error);
@@ -209,7 +306,7 @@ export function setupTaskTools(server: McpServer): void {
 
   server.tool(
     'clickup_delete_task',
-    '⚠️ DESTRUCTIVE: Delete a task from ClickUp. This action cannot be undone and will permanently remove the task and all its data.',
+    '⚠️ DESTRUCTIVE: Delete a task from ClickUp, with its subtasks. ClickUp has no restore; the task is snapshotted to the local operation journal first, so clickup_undo_operation can recreate it (with a new ID, without comments or attachments).',
     {
       task_id: idSchema().describe('The ID of the task to delete'),
       confirm_deletion: z
@@ -240,7 +337,10 @@ export function setupTaskTools(server: McpServer): void {
 
         // Get task details first for confirmation message
         const taskDetails = await tasksClient.getTask(task_id, { custom_task_ids, team_id });
+        const recorder = journal.begin('clickup_delete_task', 'delete');
+        await recorder.capture(task_id, [], { custom_task_ids, team_id });
         await tasksClient.deleteTask(task_id, { custom_task_ids, team_id });
+        const operationId = recorder.commit();
 
         return {
           content: [
@@ -248,7 +348,7 @@ export function setupTaskTools(server: McpServer): void {
               type: 'text',
               text:
                 `✅ Task "${taskDetails.name}" (ID: ${task_id}) has been permanently deleted.\n\n` +
-                '⚠️ This action cannot be undone. The task and all its data have been removed from ClickUp.',
+                `⚠️ ClickUp cannot restore it. Comments and attachments are gone for good.${formatJournalNote(operationId)}`,
             },
           ],
         };
@@ -262,12 +362,13 @@ export function setupTaskTools(server: McpServer): void {
     'clickup_add_task_to_list',
     'Add an existing task to a ClickUp list.',
     {
-      list_id: idSchema().describe('The ID of the list to add the task to'),
+      list_id: idSchema().describe(`The list to add the task to${NAME_REF_HINT.list}`),
       task_id: idSchema().describe('The ID of the task to add'),
     },
     async ({ list_id, task_id }) => {
       try {
-        const result = await listsClient.addTaskToList(list_id, task_id);
+        const listId = await resolver.resolveListId(list_id);
+        const result = await listsClient.addTaskToList(listId, task_id);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -281,12 +382,13 @@ export function setupTaskTools(server: McpServer): void {
     'clickup_remove_task_from_list',
     'Remove a task from a ClickUp list without deleting the task.',
     {
-      list_id: idSchema().describe('The ID of the list to remove the task from'),
+      list_id: idSchema().describe(`The list to remove the task from${NAME_REF_HINT.list}`),
       task_id: idSchema().describe('The ID of the task to remove'),
     },
     async ({ list_id, task_id }) => {
       try {
-        const result = await listsClient.removeTaskFromList(list_id, task_id);
+        const listId = await resolver.resolveListId(list_id);
+        const result = await listsClient.removeTaskFromList(listId, task_id);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -360,23 +462,32 @@ export function setupTaskTools(server: McpServer): void {
 
   server.tool(
     'clickup_get_filtered_team_tasks',
-    'Search tasks across an entire ClickUp workspace (team) with filters for statuses, assignees, tags, lists, spaces, and date ranges. Results are paginated (100 tasks per page).',
+    'Search tasks across an entire ClickUp workspace (team) with filters for statuses, assignees, tags, lists, spaces, and date ranges. Results are paginated (100 tasks per page); set all_pages to walk every page server-side.',
     {
       team_id: idSchema().describe('The ID of the workspace (team) to search'),
-      page: z.number().optional().describe('The page number to get (starts at 0)'),
+      page: z
+        .number()
+        .optional()
+        .describe('The page number to get (starts at 0; with all_pages, the first page to fetch)'),
       order_by: z.string().optional().describe('The field to order by (id, created, updated, due_date)'),
       reverse: z.boolean().optional().describe('Whether to reverse the order'),
       subtasks: z.boolean().optional().describe('Whether to include subtasks in the results'),
-      space_ids: z.array(idSchema()).optional().describe('Filter by space IDs'),
-      project_ids: z.array(idSchema()).optional().describe('Filter by folder (project) IDs'),
-      list_ids: z.array(idSchema()).optional().describe('Filter by list IDs'),
+      space_ids: z.array(idSchema()).optional().describe('Filter by spaces (IDs or space names)'),
+      project_ids: z
+        .array(idSchema())
+        .optional()
+        .describe('Filter by folders (IDs, folder names, or "Space / Folder" paths)'),
+      list_ids: z
+        .array(idSchema())
+        .optional()
+        .describe('Filter by lists (IDs, list names, or "Space / Folder / List" paths)'),
       statuses: z.array(z.string()).optional().describe('Filter by status names'),
       include_closed: z.boolean().optional().describe('Whether to include closed tasks'),
       include_markdown_description: z
         .boolean()
         .optional()
         .describe('Whether to return task descriptions in Markdown format'),
-      assignees: z.array(idSchema()).optional().describe('Filter by assignee user IDs'),
+      assignees: z.array(idSchema()).optional().describe(`Filter by assignees: ${NAME_REF_HINT.user}`),
       tags: z.array(z.string()).optional().describe('Filter by tag names'),
       due_date_gt: z.number().optional().describe('Filter by due date greater than (Unix timestamp in ms)'),
       due_date_lt: z.number().optional().describe('Filter by due date less than (Unix timestamp in ms)'),
@@ -385,10 +496,23 @@ export function setupTaskTools(server: McpServer): void {
       date_updated_gt: z.number().optional().describe('Filter by updated date greater than (Unix timestamp in ms)'),
       date_updated_lt: z.number().optional().describe('Filter by updated date less than (Unix timestamp in ms)'),
       parent: idSchema().optional().describe('Filter by parent task ID'),
+      ...paginationSchema,
     },
-    async ({ team_id, ...params }) => {
+    async ({ team_id, all_pages, max_tasks, cursor, space_ids, project_ids, list_ids, assignees, ...filters }) => {
       try {
-        const result = await tasksClient.getFilteredTeamTasks(team_id, params);
+        const resolveAll = (refs: string[] | undefined, resolve: (ref: string) => Promise<string>) =>
+          refs ? Promise.all(refs.map(resolve)) : Promise.resolve(undefined);
+        const params = {
+          ...filters,
+          space_ids: await resolveAll(space_ids, ref => resolver.resolveSpaceId(ref)),
+          project_ids: await resolveAll(project_ids, ref => resolver.resolveFolderId(ref)),
+          list_ids: await resolveAll(list_ids, ref => resolver.resolveListId(ref)),
+          assignees: await resolveAll(assignees, async ref => String(await resolver.resolveUserId(ref))),
+        };
+        const result =
+          all_pages || max_tasks !== undefined || cursor !== undefined
+            ? await tasksClient.getAllFilteredTeamTasks(team_id, params, { max_tasks, cursor })
+            : await tasksClient.getFilteredTeamTasks(team_id, params);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -460,13 +584,14 @@ export function setupTaskTools(server: McpServer): void {
     'clickup_create_task_from_template',
     'Create a new task in a ClickUp list from a saved task template. Template contents such as checklists and subtasks are included.',
     {
-      list_id: idSchema().describe('The ID of the list to create the task in'),
+      list_id: idSchema().describe(`The list to create the task in${NAME_REF_HINT.list}`),
       template_id: idSchema().describe('The ID of the task template to instantiate'),
       name: z.string().describe('The name of the new task'),
     },
     async ({ list_id, template_id, name }) => {
       try {
-        const result = await tasksClient.createTaskFromTemplate(list_id, template_id, { name });
+        const listId = await resolver.resolveListId(list_id);
+        const result = await tasksClient.createTaskFromTemplate(listId, template_id, { name });
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -9,6 +9,14 @@ import {
 } from '../clickup-client/time-tracking-enhanced.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
+import {
+  TIMESHEET_BUCKETS,
+  TIMESHEET_DIMENSIONS,
+  TIMESHEET_FORMATS,
+  TimeZoneSchema,
+  WEEKDAYS,
+} from '../schemas/time-tracking-schemas.js';
+import { renderTimesheetReport } from '../utils/timesheet-report.js';
 // Schemas imported from time-tracking-schemas if needed:
 // TeamIdSchema, TimerIdSchema, CreateTimeEntrySchema,
 // UpdateTimeEntrySchema, GetTimeEntriesSchema, TimeEntryTagSchema
@@ -609,6 +617,277 @@ export function setupTimeTrackingTools(server: McpServer): void {
     }
   );
 
+  server.tool(
+    'clickup_get_timesheet_report',
+    'Build a timesheet from time entries: group by any mix of user, task, list, folder, space, tag and billable flag, bucket by day, week or month in a time zone, and export as a Markdown table, CSV or JSON. Entries that cross midnight are split across days. Hours are decimal.',
+    {
+      team_id: idSchema().describe('The ID of the team (workspace) to report on'),
+      start_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Report start (Unix timestamp in milliseconds). ClickUp defaults to the last 30 days when omitted'),
+      end_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Report end (Unix timestamp in milliseconds)'),
+      assignee: z
+        .union([z.number().positive(), z.string().regex(/^\d+(,\d+)*$/, 'Comma-separated numeric user IDs')])
+        .optional()
+        .describe(
+          'User ID, or a comma-separated string of user IDs. ClickUp only returns your own entries unless assignee is set'
+        ),
+      task_id: idSchema().optional().describe('Only entries on this task'),
+      list_id: idSchema().optional().describe('Only entries in this list'),
+      folder_id: idSchema().optional().describe('Only entries in this folder'),
+      space_id: idSchema().optional().describe('Only entries in this space'),
+      group_by: z
+        .array(z.enum(TIMESHEET_DIMENSIONS))
+        .min(1)
+        .optional()
+        .default(['user'])
+        .describe('Dimensions to group rows by, in column order (e.g. ["folder", "billable"] for billable hours per client folder). "tag" uses time entry tags'),
+      bucket: z
+        .enum(TIMESHEET_BUCKETS)
+        .optional()
+        .default('week')
+        .describe('Column per day, week or month, or "none" for totals only'),
+      timezone: TimeZoneSchema.optional()
+        .default('UTC')
+        .describe('IANA time zone that days, weeks and months are cut in (e.g. "Europe/Berlin")'),
+      week_start: z
+        .enum(['monday', 'sunday'])
+        .optional()
+        .default('monday')
+        .describe('First day of a week bucket'),
+      billable: z
+        .enum(['all', 'billable', 'non_billable'])
+        .optional()
+        .default('all')
+        .describe('Only billable or only non-billable entries'),
+      format: z
+        .enum(TIMESHEET_FORMATS)
+        .optional()
+        .default('markdown')
+        .describe('markdown: table with a total row; csv: spreadsheet import; json: durations in milliseconds'),
+    },
+    async ({
+      team_id,
+      start_date,
+      end_date,
+      assignee,
+      task_id,
+      list_id,
+      folder_id,
+      space_id,
+      group_by,
+      bucket,
+      timezone,
+      week_start,
+      billable,
+      format,
+    }) => {
+      try {
+        if (start_date !== undefined && end_date !== undefined && start_date >= end_date) {
+          throw new Error('start_date must be before end_date');
+        }
+        const report = await timeTrackingClient.getTimesheetReport(
+          team_id,
+          { start_date, end_date, assignee, task_id, list_id, folder_id, space_id },
+          { group_by: Array.from(new Set(group_by)), bucket, timezone, week_start, billable }
+        );
+
+        return {
+          content: [{ type: 'text', text: renderTimesheetReport(report, format) }],
+        };
+      } catch (error: unknown) {
+        return mcpError('building timesheet report', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_audit_time_entries',
+    'Audit time entries for problems: overlapping entries of the same user, timers running longer than a threshold, entries without a task, zero or negative durations, entries on weekends or holidays, and working days below an expected-hours target. Returns findings per user with suggested fixes; a finding\'s fix can be applied with clickup_update_time_entry (timer_id plus the listed changes).',
+    {
+      team_id: idSchema().describe('The ID of the team (workspace) to audit'),
+      start_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Audit start (Unix timestamp in milliseconds). Defaults to 7 days before end_date'),
+      end_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Audit end (Unix timestamp in milliseconds). Defaults to now'),
+      assignee: z
+        .union([z.number().positive(), z.string().regex(/^\d+(,\d+)*$/, 'Comma-separated numeric user IDs')])
+        .optional()
+        .describe(
+          'User ID, or a comma-separated string of user IDs. Defaults to the authenticated user. Listed users are checked against the daily target even if they logged nothing'
+        ),
+      timezone: TimeZoneSchema.optional()
+        .default('UTC')
+        .describe('IANA time zone that days, weekends and holidays are judged in (e.g. "Europe/Berlin")'),
+      max_timer_hours: z
+        .number()
+        .positive()
+        .optional()
+        .default(10)
+        .describe('Flag running timers and entries longer than this many hours'),
+      expected_hours_per_day: z
+        .number()
+        .min(0)
+        .max(24)
+        .optional()
+        .default(8)
+        .describe('Hours each member should log per working day; 0 turns the check off'),
+      working_days: z
+        .array(z.enum(WEEKDAYS))
+        .optional()
+        .default(['monday', 'tuesday', 'wednesday', 'thursday', 'friday'])
+        .describe('Days people are expected to work; time on other days is reported as weekend work'),
+      holidays: z
+        .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'))
+        .optional()
+        .default([])
+        .describe('Public holidays as local dates (YYYY-MM-DD)'),
+    },
+    async ({
+      team_id,
+      start_date,
+      end_date,
+      assignee,
+      timezone,
+      max_timer_hours,
+      expected_hours_per_day,
+      working_days,
+      holidays,
+    }) => {
+      try {
+        const end = end_date ?? Date.now();
+        const start = start_date ?? end - 7 * 24 * 60 * 60 * 1000;
+        if (start >= end) {
+          throw new Error('start_date must be before end_date');
+        }
+
+        const report = await timeTrackingClient.auditTimeEntries(
+          team_id,
+          { start_date: start, end_date: end, assignee },
+          {
+            timezone,
+            max_timer_hours,
+            expected_hours_per_day,
+            working_days: working_days.map(day => WEEKDAYS.indexOf(day)),
+            holidays,
+          }
+        );
+        const findings = report.users.reduce((sum, user) => sum + user.findings.length, 0);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Time entry audit for team ${team_id}: ${findings} finding(s) across ${report.users.length} user(s).\n\n${JSON.stringify(report, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('auditing time entries', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_get_estimate_accuracy',
+    'Compare time estimates with tracked time for tasks completed in a list, folder, space and/or date range. Reports estimate vs. actual hours and accuracy ratios per task, assignee and tag, a per-week or per-month trend, and assignees who systematically underestimate. Also returns velocity_history and capacity_members, ready to pass to the intelligence server\'s clickup_analyze_team_velocity (historicalTrends) and clickup_model_team_capacity (teamMembers).',
+    {
+      team_id: idSchema().describe('The ID of the team (workspace) to analyze'),
+      list_id: idSchema().optional().describe('Only tasks in this list'),
+      folder_id: idSchema().optional().describe('Only tasks in this folder'),
+      space_id: idSchema().optional().describe('Only tasks in this space'),
+      start_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe(
+          'Only tasks completed after this Unix timestamp in milliseconds. Defaults to 90 days before end_date when no list, folder or space is given'
+        ),
+      end_date: z
+        .number()
+        .positive()
+        .optional()
+        .describe('Only tasks completed before this Unix timestamp in milliseconds'),
+      timezone: TimeZoneSchema.optional()
+        .default('UTC')
+        .describe('IANA time zone that completion dates are bucketed in (e.g. "Europe/Berlin")'),
+      period: z.enum(['week', 'month']).optional().default('week').describe('Trend and velocity period'),
+      underestimate_threshold: z
+        .number()
+        .min(1)
+        .optional()
+        .default(1.2)
+        .describe('Median actual ÷ estimate ratio at which an assignee is flagged as underestimating'),
+      min_tasks: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(3)
+        .describe('Estimated and tracked tasks an assignee needs before they can be flagged'),
+      include_tasks: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Include the per-task breakdown (largest overruns first)'),
+    },
+    async ({
+      team_id,
+      list_id,
+      folder_id,
+      space_id,
+      start_date,
+      end_date,
+      timezone,
+      period,
+      underestimate_threshold,
+      min_tasks,
+      include_tasks,
+    }) => {
+      try {
+        const scoped = Boolean(list_id || folder_id || space_id);
+        const start = start_date ?? (scoped ? undefined : (end_date ?? Date.now()) - 90 * 24 * 60 * 60 * 1000);
+        if (start !== undefined && end_date !== undefined && start >= end_date) {
+          throw new Error('start_date must be before end_date');
+        }
+
+        const { tasks, ...report } = await timeTrackingClient.getEstimateAccuracy(
+          team_id,
+          { list_id, folder_id, space_id, start_date: start, end_date },
+          { timezone, period, underestimate_threshold, min_tasks }
+        );
+        const { overall } = report;
+        const summary =
+          overall.ratio === null
+            ? `Estimate accuracy for team ${team_id}: no completed task had both an estimate and tracked time (${overall.tasks} task(s) checked).`
+            : `Estimate accuracy for team ${team_id}: ${overall.compared_tasks} of ${overall.tasks} task(s) compared, actual time was ${overall.ratio}× the estimate overall, ${report.underestimators.length} systematic underestimator(s).`;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${summary}\n\n${JSON.stringify(include_tasks ? { ...report, tasks } : report, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('analyzing estimate accuracy', error);
+      }
+    }
+  );
+
   // ========================================
   // HELPER TOOLS
   // ========================================
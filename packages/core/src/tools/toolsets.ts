@@ -20,20 +20,25 @@ export const TOOLSETS = {
   tasks: { count: 13, description: 'Task create/read/update/delete, search, assignees, status' },
   lists: { count: 17, description: 'Lists, folders, and folderless lists' },
   chat: { count: 19, description: 'Chat channels, messages, reactions, replies' },
-  'time-tracking': { count: 14, description: 'Time entries, timers, and time summaries' },
-  goals: { count: 12, description: 'Goals and goal targets' },
-  views: { count: 12, description: 'Views, view filters, grouping, and sorting' },
+  'time-tracking': {
+    count: 17,
+    description: 'Time entries, timers, time summaries, timesheet reports, audits, and estimate accuracy',
+  },
+  goals: { count: 15, description: 'Goals, goal targets, target auto-sync, and forecasts' },
+  views: { count: 14, description: 'Views, view filters, grouping, sorting, and view templates' },
   // 10 by default; CLICKUP_DEBUG_TOOLS adds clickup_create_task_comment_raw_test.
   comments: { count: 10, description: 'Task, list, chat-view, and threaded comments' },
-  docs: { count: 9, description: 'Docs, doc pages, and doc search' },
+  docs: { count: 11, description: 'Docs, doc pages, doc search, and Markdown export/import' },
   spaces: { count: 9, description: 'Spaces and space tags' },
-  dependencies: { count: 8, description: 'Task dependencies, links, and dependency graphs' },
+  dependencies: { count: 9, description: 'Task dependencies, links, dependency graphs, and critical path' },
   'custom-fields': { count: 7, description: 'Custom field definitions and values' },
-  webhooks: { count: 7, description: 'Webhook management, processing, and signature validation' },
+  webhooks: { count: 9, description: 'Webhook management and reconciliation, processing, signatures, received events' },
   checklists: { count: 6, description: 'Checklists and checklist items' },
   workspace: { count: 6, description: 'Workspaces, members, seats, plan, and authorized user' },
   bulk: { count: 5, description: 'Bulk task create/update/delete and bulk custom-field writes' },
   attachments: { count: 2, description: 'Task attachments and uploads' },
+  cache: { count: 2, description: 'Local response cache status and clearing' },
+  journal: { count: 2, description: 'Operation journal: recent task changes and undo' },
 } as const;
 
 export type ToolsetName = keyof typeof TOOLSETS;
@@ -1,8 +1,11 @@
 /* eslint-disable max-len */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { getApiToken } from '../clickup-client/index.js';
+import { createClickUpClient, getApiToken } from '../clickup-client/index.js';
 import { ViewsEnhancedClient } from '../clickup-client/views-enhanced.js';
+import { createViewQueryCompiler } from '../clickup-client/view-query.js';
+import { createViewTemplateClient } from '../clickup-client/view-templates.js';
+import { getWriteMode } from '../clickup-client/dry-run.js';
 import {
   CreateViewSchema,
   UpdateViewSchema,
@@ -15,18 +18,24 @@ import {
   ViewTypeSchema,
   ViewParentTypeSchema,
   ViewFilterSchema,
+  FilterConnectiveSchema,
   ViewGroupingSchema,
   ViewDivideSchema,
   ViewSortingSchema,
   ViewColumnSchema,
   TeamSidebarSchema,
   ViewSettingsSchema,
+  ViewTemplateSchema,
+  ViewTemplateTargetSchema,
 } from '../schemas/views-schemas.js';
+import { TimeZoneSchema } from '../schemas/time-tracking-schemas.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
 
 // Create clients
 const viewsClient = new ViewsEnhancedClient(getApiToken());
+const queryCompiler = createViewQueryCompiler(createClickUpClient());
+const templateClient = createViewTemplateClient(viewsClient);
 
 export function setupViewsTools(server: McpServer): void {
   // ========================================
@@ -179,14 +188,26 @@ export function setupViewsTools(server: McpServer): void {
 
   server.tool(
     'clickup_set_view_filters',
-    'Set or update filters for a view. Filters determine which tasks are visible in the view. Each condition uses {field, op, values} with ClickUp operator tokens (EQ, ANY, ALL, NOT ANY, ...).',
+    'Set or update filters for a view. Filters determine which tasks are visible in the view. Pass a query such as `status in ("in progress", "review") and assignee = me and due < +7d and cf."Story Points" >= 3`, with statuses, users and custom fields resolved against the view\'s list, or raw {field, op, values} conditions with ClickUp operator tokens (EQ, ANY, ALL, NOT ANY, ...).',
     {
       view_id: idSchema().describe('The ID of the view to update'),
-      filters: z.array(ViewFilterSchema).describe('Array of filter conditions ({field, op, values}) to apply to the view'),
+      query: z
+        .string()
+        .optional()
+        .describe(
+          'Filter query: conditions joined by "and" (or all by "or"). Fields: status, assignee, watcher, creator, priority, tag, due, start, created, updated, closed, cf."Custom Field Name". Operators: =, !=, <, <=, >, >=, in (a, b), not in (...), all (...), is null, is not null, between x and y. Dates: now, today, tomorrow, +7d, -2w, +3h, YYYY-MM-DD. Users: me, email or username. Takes precedence over filters.'
+        ),
+      filters: z.array(ViewFilterSchema).optional().describe('Array of filter conditions ({field, op, values}) to apply to the view, when no query is given'),
+      op: FilterConnectiveSchema.optional().describe('How raw filters combine (default AND); a query sets this itself'),
+      timezone: TimeZoneSchema.optional().default('UTC').describe('IANA time zone that query dates such as "today" are read in'),
     },
-    async args => {
+    async ({ query, timezone, ...args }) => {
       try {
-        const request = SetViewFiltersSchema.parse(args);
+        if (!query && !args.filters) {
+          throw new Error('Provide a query or filters');
+        }
+        const compiled = query ? await queryCompiler.compileForView(query, args.view_id, { timeZone: timezone }) : undefined;
+        const request = SetViewFiltersSchema.parse(compiled ? { ...args, filters: compiled.filters, op: compiled.op } : args);
         const result = await viewsClient.setViewFilters(request);
 
         return {
@@ -362,4 +383,74 @@ export function setupViewsTools(server: McpServer): void {
       }
     }
   );
+
+  // ========================================
+  // VIEW TEMPLATES
+  // ========================================
+
+  server.tool(
+    'clickup_export_view_config',
+    'Export a view as a portable template: its filters, grouping, divide, sorting, columns, sidebar and settings, with custom fields written as "cf:<name>" and drop-down/label option IDs as option names. Pass the result to clickup_apply_view_template to recreate the view elsewhere.',
+    {
+      view_id: idSchema().describe('The ID of the view to export'),
+    },
+    async ({ view_id }) => {
+      try {
+        const result = await templateClient.exportView(view_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('exporting view configuration', error);
+      }
+    }
+  );
+
+  server.tool(
+    'clickup_apply_view_template',
+    'Create or update a view from a template on many lists, folders or spaces. Custom fields are matched by name (and type) on each target and drop-down options by name; anything that does not match is left out of that view and reported under mismatches. A target that already has a view with the same name gets it updated, skipped, or a second view, per on_existing. Targets are independent: failures are reported per target. With dry_run (or when the server runs read-only / dry-run) nothing is written and targets are reported as would_create / would_update.',
+    {
+      template: ViewTemplateSchema.optional().describe('A template from clickup_export_view_config'),
+      source_view_id: idSchema().optional().describe('Export this view and apply it, instead of passing template'),
+      targets: z.array(ViewTemplateTargetSchema).min(1).describe('Lists, folders or spaces to apply the template to'),
+      name: z.string().min(1).optional().describe("View name on the targets (default: the template's name)"),
+      on_existing: z
+        .enum(['update', 'skip', 'create'])
+        .optional()
+        .default('update')
+        .describe('When a target already has a view with this name: update it (default), skip the target, or create another'),
+      dry_run: z.boolean().optional().default(false).describe('Report what would be created or updated without writing'),
+    },
+    async ({ template, source_view_id, targets, name, on_existing, dry_run }) => {
+      try {
+        if (!template === !source_view_id) {
+          throw new Error('Provide exactly one of template or source_view_id');
+        }
+        const definition = template ?? (await templateClient.exportView(source_view_id!)).template;
+        const dryRun = dry_run || getWriteMode() !== 'live';
+        const report = await templateClient.applyTemplate(definition, targets, {
+          name,
+          onExisting: on_existing,
+          dryRun,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('applying view template', error);
+      }
+    }
+  );
 }
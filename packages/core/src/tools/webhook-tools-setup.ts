@@ -3,6 +3,10 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { getApiToken } from '../clickup-client/index.js';
 import { WebhooksEnhancedClient } from '../clickup-client/webhooks-enhanced.js';
+import { createWebhookInbox } from '../clickup-client/webhook-inbox.js';
+import { createWebhookSecretStore } from '../clickup-client/webhook-secrets.js';
+import { createWebhookReconciler, readWebhookConfig } from '../clickup-client/webhook-reconciler.js';
+import { getWriteMode } from '../clickup-client/dry-run.js';
 import {
   WEBHOOK_EVENTS,
   CreateWebhookSchema,
@@ -10,12 +14,15 @@ import {
   WebhookFilterSchema,
   ValidateWebhookSignatureSchema,
   ProcessWebhookSchema,
+  DesiredWebhookSchema,
 } from '../schemas/webhook-schemas.js';
 import { mcpError } from '../utils/error-handling.js';
 import { idSchema } from '../schemas/common.js';
 
 // Create clients
 const webhooksClient = new WebhooksEnhancedClient(getApiToken());
+const webhookSecrets = createWebhookSecretStore();
+const webhookReconciler = createWebhookReconciler(webhooksClient, webhookSecrets);
 
 export function setupWebhookTools(server: McpServer): void {
   // ========================================
@@ -24,7 +31,7 @@ export function setupWebhookTools(server: McpServer): void {
 
   server.tool(
     'clickup_create_webhook',
-    'Create a new webhook in a ClickUp workspace. Webhooks allow real-time notifications when events occur. The response includes the webhook secret (returned only at creation) — store it for signature verification.',
+    'Create a new webhook in a ClickUp workspace. Webhooks allow real-time notifications when events occur. The response includes the webhook secret (returned only at creation); the server also stores it so its webhook receiver (CLICKUP_WEBHOOK_PORT) can verify deliveries. Point endpoint at the receiver\'s public URL to collect events for clickup_get_webhook_events.',
     {
       workspace_id: idSchema().describe('The ID of the workspace to create the webhook in'),
       endpoint: z
@@ -54,6 +61,9 @@ export function setupWebhookTools(server: McpServer): void {
       try {
         const request = CreateWebhookSchema.parse(args);
         const result = await webhooksClient.createWebhook(request);
+        if (result.webhook?.secret) {
+          webhookSecrets.save(result.id, result.webhook.secret);
+        }
 
         return {
           content: [
@@ -173,6 +183,7 @@ export function setupWebhookTools(server: McpServer): void {
     async args => {
       try {
         const result = await webhooksClient.deleteWebhook(args.webhook_id);
+        webhookSecrets.remove(args.webhook_id);
 
         return {
           content: [
@@ -188,6 +199,60 @@ export function setupWebhookTools(server: McpServer): void {
     }
   );
 
+  server.tool(
+    'clickup_reconcile_webhooks',
+    "Bring a workspace's webhooks in line with a declarative list of the webhooks it should have (endpoint, events and optional space/folder/list/task scope), given inline as webhooks or as a JSON config file ({\"workspace_id\": ..., \"webhooks\": [...]}). A webhook matches an existing one with the same endpoint and scope: missing ones are created (their secrets stored for the webhook receiver), ones whose event set drifted are updated, and ones ClickUp suspended after failed deliveries are reactivated. Existing webhooks that match nothing are reported as strays and deleted only with delete_strays. With dry_run (or when the server runs read-only / dry-run) nothing is written and steps are reported as would_create / would_update / would_delete.",
+    {
+      workspace_id: idSchema()
+        .optional()
+        .describe("The workspace to reconcile (default: the config file's workspace_id)"),
+      webhooks: z
+        .array(DesiredWebhookSchema)
+        .optional()
+        .describe('The webhooks the workspace should have'),
+      config_file: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          'JSON config file with the webhooks, instead of passing webhooks; must be inside CLICKUP_WEBHOOK_CONFIG_DIR (relative paths resolve against it) and is refused when that is not set'
+        ),
+      delete_strays: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Delete existing webhooks that match no desired webhook (default: only report them)'),
+      dry_run: z.boolean().optional().default(false).describe('Report the plan without writing'),
+    },
+    async ({ workspace_id, webhooks, config_file, delete_strays, dry_run }) => {
+      try {
+        if (!webhooks === !config_file) {
+          throw new Error('Provide exactly one of webhooks or config_file');
+        }
+        const config = config_file ? readWebhookConfig(config_file) : { webhooks: webhooks! };
+        const workspaceId = workspace_id ?? config.workspace_id;
+        if (!workspaceId) {
+          throw new Error('workspace_id is required when the config file does not name one');
+        }
+        const report = await webhookReconciler.reconcile(workspaceId, config.webhooks, {
+          deleteStrays: delete_strays,
+          dryRun: dry_run || getWriteMode() !== 'live',
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('reconciling webhooks', error);
+      }
+    }
+  );
+
   server.tool(
     'clickup_validate_webhook_signature',
     "Validate the HMAC-SHA256 signature of a webhook payload to ensure authenticity. The payload must be the raw request body string exactly as received; the signature is the bare hex digest from ClickUp's X-Signature header.",
@@ -258,4 +323,66 @@ export function setupWebhookTools(server: McpServer): void {
       }
     }
   );
+
+  server.tool(
+    'clickup_get_webhook_events',
+    'List webhook deliveries collected by the webhook receiver (enabled with CLICKUP_WEBHOOK_PORT), oldest first, so you can react to what changed without polling. Only deliveries with a valid X-Signature are stored, and redeliveries only once. Acknowledged events are hidden by default: pass acknowledge: true to mark the returned events as handled, or ack_event_ids to acknowledge specific ones.',
+    {
+      since: z
+        .number()
+        .optional()
+        .describe('Only events received at or after this time (Unix timestamp in milliseconds)'),
+      event_types: z
+        .array(z.string())
+        .optional()
+        .describe("Only these event types, e.g. ['taskStatusUpdated', 'taskCommentPosted']"),
+      task_id: idSchema().optional().describe('Only events for this task'),
+      include_acknowledged: z
+        .boolean()
+        .default(false)
+        .describe('Also return events that were already acknowledged'),
+      limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of events to return'),
+      acknowledge: z
+        .boolean()
+        .default(false)
+        .describe('Acknowledge the returned events, so they are not returned again'),
+      ack_event_ids: z
+        .array(z.string())
+        .optional()
+        .describe('Acknowledge these event IDs (from an earlier call) before listing'),
+    },
+    async args => {
+      try {
+        const inbox = createWebhookInbox();
+        const acknowledged = args.ack_event_ids?.length ? inbox.acknowledge(args.ack_event_ids) : [];
+        const page = inbox.list({
+          since: args.since,
+          eventTypes: args.event_types,
+          taskId: args.task_id,
+          includeAcknowledged: args.include_acknowledged,
+          limit: args.limit,
+        });
+        if (args.acknowledge) {
+          acknowledged.push(...inbox.acknowledge(page.events.map(event => event.id)));
+        }
+
+        const result = {
+          events: page.events.map(({ dedupe_keys: _dedupeKeys, scope: _scope, ...event }) => event),
+          remaining: page.remaining,
+          ...(acknowledged.length > 0 && { acknowledged }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return mcpError('getting webhook events', error);
+      }
+    }
+  );
 }
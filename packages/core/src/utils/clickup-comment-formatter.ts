@@ -3,10 +3,42 @@
  * ClickUp Comment Formatting Utility
  * Handles ClickUp's specific comment format structure with text blocks and attributes
  * Based on: https://developer.clickup.com/docs/comment-formatting
+ *
+ * markdownToClickUpComment and clickUpCommentToMarkdown are inverses: reading a
+ * comment as Markdown and writing that Markdown back produces the same blocks.
+ * Inline formats are attributes of text blocks; line formats (headings, lists,
+ * quotes, code blocks) are attributes of the "\n" block that ends the line.
+ *
+ * | Markdown                                  | ClickUp block                                                   |
+ * | ----------------------------------------- | --------------------------------------------------------------- |
+ * | `**bold**`                                | `{ text, attributes: { bold: true } }`                          |
+ * | `*italic*` or `_italic_`                  | `{ text, attributes: { italic: true } }`                        |
+ * | `__underline__`                           | `{ text, attributes: { underline: true } }`                     |
+ * | `~~strikethrough~~`                       | `{ text, attributes: { strikethrough: true } }`                 |
+ * | `` `code` ``                              | `{ text, attributes: { code: true } }`                          |
+ * | `[text](url)`                             | `{ text, attributes: { link: { url } } }`                       |
+ * | `<span style="color: red">text</span>`    | `{ text, attributes: { color: 'red' } }`                        |
+ * | `<span style="background-color: yellow">` | `{ text, attributes: { background_color: 'yellow' } }`          |
+ * | `@[Jane Doe](user:123)`                   | `{ type: 'tag', text: '@Jane Doe', user: { id: 123 } }`         |
+ * | `@[Jane Doe]`                             | `{ type: 'tag', text: '@Jane Doe' }` (no user ID known)         |
+ * | `:1f389:` (emoji codepoints only)         | `{ type: 'emoticon', emoticon: { code: '1f389' } }`             |
+ * | `# Heading` to `###### Heading`           | `{ text: '\n', attributes: { header: 1 } }` to `header: 6`      |
+ * | `- item`                                  | `{ text: '\n', attributes: { list: { list: 'bullet' } } }`      |
+ * | `1. item`                                 | `{ text: '\n', attributes: { list: { list: 'ordered' } } }`     |
+ * | `- [ ] item` / `- [x] item`               | `list: { list: 'unchecked' }` / `list: { list: 'checked' }`     |
+ * | two spaces of indentation per level       | `indent: 1`, `indent: 2`, … beside `list`                       |
+ * | `> quote`                                 | `{ text: '\n', attributes: { blockquote: {} } }`                |
+ * | ```` ```js ```` fenced code               | `{ text: '\n', attributes: { 'code-block': { 'code-block': 'js' } } }` per line; `plain` without a language |
+ *
+ * Markdown punctuation in plain text is backslash-escaped on the way out, so
+ * literal asterisks, brackets and the like survive the round trip. Attributes
+ * with no Markdown form are dropped.
  */
 
 import { validateUrl } from './security.js';
 
+export type ClickUpListType = 'bullet' | 'ordered' | 'checked' | 'unchecked';
+
 export interface ClickUpCommentBlock {
   text?: string;
   type?: string;
@@ -29,6 +61,11 @@ export interface ClickUpCommentBlock {
     link?: {
       url: string;
     };
+    // Line formats, set on the "\n" block that ends the line
+    header?: number;
+    list?: { list: ClickUpListType } | ClickUpListType;
+    indent?: number;
+    blockquote?: Record<string, unknown>;
     'code-block'?: {
       'code-block': string;
     };
@@ -41,93 +78,337 @@ export interface ClickUpCommentFormat {
   comment: ClickUpCommentBlock[];
 }
 
+type CommentAttributes = NonNullable<ClickUpCommentBlock['attributes']>;
+
+const INLINE_ATTRIBUTES = ['bold', 'italic', 'underline', 'strikethrough', 'code', 'color', 'background_color', 'link'];
+const LINE_ATTRIBUTES = ['header', 'list', 'indent', 'blockquote', 'code-block'];
+
+const EMOTICON_PATTERN = /^:([0-9a-f]{4,6}(?:-[0-9a-f]{4,6})*):/i;
+// First codepoint of an emoji sequence, and the codepoints that may follow it
+// (ZWJ, variation selectors, skin tones, keycaps, tags and further emoji)
+const EMOJI_START = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|[#*0-9])$/u;
+const EMOJI_PART = /^(?:\p{Extended_Pictographic}|\p{Emoji_Component})$/u;
+const MENTION_PATTERN = /^@\[((?:\\.|[^\]\\])*)\](?:\(user:(\d+)\)|(?!\())/;
+const LINK_PATTERN = /^\[((?:\\.|[^\]\\])*)\]\((?:<([^>]*)>|((?:[^()\s]|\([^()\s]*\))*))\)/;
+const SPAN_OPEN_PATTERN = /^<span\s+style\s*=\s*"([^"]*)"\s*>/i;
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
 /**
- * Convert markdown text to ClickUp's structured comment format
- * @param markdown The markdown text to convert
- * @returns ClickUp comment format structure
+ * Match `:hex-hex:` only when the codepoints spell an emoji, so words made of
+ * hex letters (`:cafe:`, `:beef:`) stay text. Keycap digits need the keycap.
  */
-export function markdownToClickUpComment(markdown: string): ClickUpCommentFormat {
-  if (!markdown || typeof markdown !== 'string') {
-    return { comment: [{ text: '', attributes: {} }] };
+function matchEmoticon(text: string): RegExpExecArray | null {
+  const match = EMOTICON_PATTERN.exec(text);
+  if (!match) return null;
+  const codepoints = match[1].split('-').map(hex => parseInt(hex, 16));
+  if (codepoints.some(codepoint => codepoint > 0x10ffff)) return null;
+  const [first, ...rest] = codepoints.map(codepoint => String.fromCodePoint(codepoint));
+  const isEmoji =
+    EMOJI_START.test(first) &&
+    rest.every(char => EMOJI_PART.test(char)) &&
+    (!/^[#*0-9]$/.test(first) || rest.includes('\u20e3'));
+  return isEmoji ? match : null;
+}
+
+const isEmbed = (block: ClickUpCommentBlock): boolean => block.type === 'tag' || block.type === 'emoticon';
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const runLength = (text: string, from: number, char: string): number => {
+  let end = from;
+  while (text[end] === char) end++;
+  return end - from;
+};
+
+const sameAttributes = (a: CommentAttributes = {}, b: CommentAttributes = {}): boolean => {
+  const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+  const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+};
+
+/** Append text, extending the previous block when it has the same formatting and is on the same line. */
+function pushText(blocks: ClickUpCommentBlock[], text: string, attributes: CommentAttributes): void {
+  const previous = blocks[blocks.length - 1];
+  if (
+    previous &&
+    !isEmbed(previous) &&
+    typeof previous.text === 'string' &&
+    !previous.text.endsWith('\n') &&
+    sameAttributes(previous.attributes, attributes)
+  ) {
+    previous.text += text;
+  } else {
+    blocks.push({ text, attributes: { ...attributes } });
   }
+}
 
-  const blocks: ClickUpCommentBlock[] = [];
+/** Index of the backtick run of exactly `length` that closes a code span, or -1. */
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  for (let index = text.indexOf('`', from); index >= 0; index = text.indexOf('`', index)) {
+    const run = runLength(text, index, '`');
+    if (run === length) return index;
+    index += run;
+  }
+  return -1;
+}
 
-  // Improved regex pattern that properly captures links
-  const parts = markdown.split(
-    /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|~~[^~]+~~|__[^_]+__|_[^_]+_|\[([^\]]+)\]\(([^)]+)\))/g
-  );
+/**
+ * Index of the delimiter (`*`, `**`, `_`, `__` or `~~`) closing an emphasis
+ * opened just before `from`, skipping escapes, code spans, link targets and
+ * nested emphasis. -1 when it is never closed.
+ */
+function findCloser(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0];
+  let index = from;
+  while (index < text.length) {
+    const current = text[index];
+    if (current === '\\') {
+      index += 2;
+      continue;
+    }
+    if (current === '`') {
+      index = skipCodeSpan(text, index);
+      continue;
+    }
+    if (current === ']' && text[index + 1] === '(') {
+      const end = text.indexOf(')', index);
+      index = end >= 0 ? end + 1 : index + 1;
+      continue;
+    }
+    if (current !== char) {
+      index++;
+      continue;
+    }
 
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    if (!part) continue;
+    const run = runLength(text, index, char);
+    const intraword = char === '_' && run === 1 && isWordChar(text[index - 1]) && isWordChar(text[index + run]);
+    if (intraword || (char === '~' && run < 2)) {
+      index += run;
+    } else if (delimiter.length === 2) {
+      if (run >= 2 && index > from) return index;
+      if (run === 1) {
+        // Nested single emphasis, e.g. the `*` in `**a *b* c**`
+        const end = findCloser(text, index + 1, char);
+        index = end >= 0 ? end + 1 : index + 1;
+      } else {
+        index += run;
+      }
+    } else if (run !== 2 && index > from) {
+      return index;
+    } else if (run === 2) {
+      // Nested double emphasis, e.g. the `**` in `*a **b** c*`
+      const end = findCloser(text, index + 2, char + char);
+      index = end >= 0 ? end + 2 : index + 2;
+    } else {
+      index += run;
+    }
+  }
+  return -1;
+}
 
-    // Bold text: **text**
-    if (part.startsWith('**') && part.endsWith('**')) {
-      const text = part.slice(2, -2);
-      blocks.push({
-        text,
-        attributes: { bold: true },
-      });
+/** Index just past the code span (or unmatched backtick run) starting at `from`. */
+function skipCodeSpan(text: string, from: number): number {
+  const run = runLength(text, from, '`');
+  const end = findCodeSpanEnd(text, from + run, run);
+  return end >= 0 ? end + run : from + run;
+}
+
+/** Index of the `</span>` matching a span whose content starts at `from`, or -1. */
+function findSpanEnd(text: string, from: number): number {
+  let depth = 1;
+  let index = from;
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+    } else if (text[index] === '`') {
+      index = skipCodeSpan(text, index);
+    } else {
+      const tag = text[index] === '<' ? /^<(\/?)span\b[^>]*>/i.exec(text.slice(index)) : null;
+      if (tag) {
+        depth += tag[1] ? -1 : 1;
+        if (depth === 0) return index;
+      }
+      index += tag ? tag[0].length : 1;
     }
-    // Italic text: *text* or _text_
-    else if (
-      (part.startsWith('*') && part.endsWith('*') && !part.startsWith('**')) ||
-      (part.startsWith('_') && part.endsWith('_') && !part.startsWith('__'))
-    ) {
-      const text = part.slice(1, -1);
-      blocks.push({
-        text,
-        attributes: { italic: true },
-      });
+  }
+  return -1;
+}
+
+function parseSpanStyle(style: string): CommentAttributes {
+  const attributes: CommentAttributes = {};
+  for (const declaration of style.split(';')) {
+    const [property, ...value] = declaration.split(':');
+    const name = property?.trim().toLowerCase();
+    const content = value.join(':').trim();
+    if (!content) continue;
+    if (name === 'color') attributes.color = content;
+    if (name === 'background-color') attributes.background_color = content;
+  }
+  return attributes;
+}
+
+const unescape = (text: string): string => text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+/** Parse one line of inline Markdown into blocks with `attributes` as the base formatting. */
+function parseInline(text: string, attributes: CommentAttributes, blocks: ClickUpCommentBlock[]): void {
+  let buffer = '';
+  const flush = () => {
+    if (buffer) pushText(blocks, buffer, attributes);
+    buffer = '';
+  };
+  const nested = (inner: string, extra: CommentAttributes) => {
+    flush();
+    parseInline(inner, { ...attributes, ...extra }, blocks);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\' && index + 1 < text.length && ASCII_PUNCTUATION.test(text[index + 1])) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
     }
-    // Underline: __text__
-    else if (part.startsWith('__') && part.endsWith('__')) {
-      const text = part.slice(2, -2);
-      blocks.push({
-        text,
-        attributes: { underline: true },
-      });
+
+    if (char === '`') {
+      const run = runLength(text, index, '`');
+      const end = findCodeSpanEnd(text, index + run, run);
+      if (end < 0) {
+        buffer += text.slice(index, index + run);
+        index += run;
+        continue;
+      }
+      let code = text.slice(index + run, end);
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      flush();
+      pushText(blocks, code, { ...attributes, code: true });
+      index = end + run;
+      continue;
     }
-    // Strikethrough: ~~text~~
-    else if (part.startsWith('~~') && part.endsWith('~~')) {
-      const text = part.slice(2, -2);
+
+    const mention = char === '@' ? MENTION_PATTERN.exec(rest) : null;
+    if (mention && (mention[1] || mention[2])) {
+      flush();
+      const name = unescape(mention[1]);
       blocks.push({
-        text,
-        attributes: { strikethrough: true },
+        type: 'tag',
+        ...(name && { text: `@${name}` }),
+        ...(mention[2] && { user: { id: Number(mention[2]) } }),
       });
+      index += mention[0].length;
+      continue;
     }
-    // Inline code: `text`
-    else if (part.startsWith('`') && part.endsWith('`')) {
-      const text = part.slice(1, -1);
-      blocks.push({
-        text,
-        attributes: { code: true },
-      });
+
+    const emoticon = char === ':' ? matchEmoticon(rest) : null;
+    if (emoticon) {
+      flush();
+      blocks.push({ type: 'emoticon', emoticon: { code: emoticon[1].toLowerCase() } });
+      index += emoticon[0].length;
+      continue;
     }
-    // Links: [text](url) - check if this is a link match
-    else if (part.match(/^\[([^\]]+)\]\(([^)]+)\)$/)) {
-      const match = part.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
-      if (match) {
-        const [, linkText, url] = match;
-        blocks.push({
-          text: linkText,
-          attributes: { link: { url } },
-        });
+
+    const link = char === '[' ? LINK_PATTERN.exec(rest) : null;
+    if (link && link[1]) {
+      nested(link[1], { link: { url: link[2] ?? link[3] } });
+      index += link[0].length;
+      continue;
+    }
+
+    const span = char === '<' ? SPAN_OPEN_PATTERN.exec(rest) : null;
+    if (span) {
+      const end = findSpanEnd(text, index + span[0].length);
+      if (end >= 0) {
+        nested(text.slice(index + span[0].length, end), parseSpanStyle(span[1]));
+        index = end + '</span>'.length;
+        continue;
       }
     }
-    // Check if this is a captured group from link regex (skip these)
-    else if (i > 0 && parts[i - 1] && parts[i - 1].match(/^\[([^\]]+)\]\(([^)]+)\)$/)) {
-      // This is a captured group from the link regex, skip it
+
+    if (char === '*' || char === '_' || char === '~') {
+      const run = runLength(text, index, char);
+      const intraword = char === '_' && run === 1 && isWordChar(text[index - 1]) && isWordChar(text[index + run]);
+      if (!intraword && run >= 2) {
+        const end = findCloser(text, index + 2, char + char);
+        if (end > index + 2) {
+          const format: CommentAttributes =
+            char === '*' ? { bold: true } : char === '_' ? { underline: true } : { strikethrough: true };
+          nested(text.slice(index + 2, end), format);
+          index = end + 2;
+          continue;
+        }
+      }
+      if (!intraword && char !== '~') {
+        const end = findCloser(text, index + 1, char);
+        if (end > index + 1) {
+          nested(text.slice(index + 1, end), { italic: true });
+          index = end + 1;
+          continue;
+        }
+      }
+      buffer += char;
+      index++;
       continue;
     }
-    // Plain text
-    else {
-      if (part.trim()) {
-        blocks.push({
-          text: part,
-          attributes: {},
-        });
+
+    buffer += char;
+    index++;
+  }
+  flush();
+}
+
+/**
+ * Convert markdown text to ClickUp's structured comment format
+ * @param markdown The markdown text to convert
+ * @returns ClickUp comment format structure
+ */
+export function markdownToClickUpComment(markdown: string): ClickUpCommentFormat {
+  if (!markdown || typeof markdown !== 'string') {
+    return { comment: [{ text: '', attributes: {} }] };
+  }
+
+  const blocks: ClickUpCommentBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const endLine = (attributes: CommentAttributes) => blocks.push({ text: '\n', attributes });
+  const indentOf = (space: string) => Math.floor(space.replace(/\t/g, '  ').length / 2);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    const fence = /^```\s*([\w#+.-]*)\s*$/.exec(line);
+    if (fence) {
+      const language = fence[1] || 'plain';
+      for (index++; index < lines.length && !/^```\s*$/.test(lines[index]); index++) {
+        if (lines[index]) blocks.push({ text: lines[index], attributes: {} });
+        endLine({ 'code-block': { 'code-block': language } });
+      }
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const task = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/.exec(line);
+    const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+    const ordered = /^(\s*)\d+[.)]\s+(.*)$/.exec(line);
+    const quote = /^>\s?(.*)$/.exec(line);
+
+    if (heading) {
+      parseInline(heading[2], {}, blocks);
+      endLine({ header: heading[1].length });
+    } else if (task || bullet || ordered) {
+      const [, space, ...content] = (task ?? bullet ?? ordered) as RegExpExecArray;
+      const list: ClickUpListType = task ? (task[2] === ' ' ? 'unchecked' : 'checked') : bullet ? 'bullet' : 'ordered';
+      const indent = indentOf(space);
+      parseInline(content[content.length - 1], {}, blocks);
+      endLine({ list: { list }, ...(indent > 0 && { indent }) });
+    } else if (quote) {
+      parseInline(quote[1], {}, blocks);
+      endLine({ blockquote: {} });
+    } else {
+      parseInline(line, {}, blocks);
+      if (index < lines.length - 1) {
+        pushText(blocks, '\n', {});
       }
     }
   }
@@ -143,6 +424,150 @@ export function markdownToClickUpComment(markdown: string): ClickUpCommentFormat
   return { comment: blocks };
 }
 
+interface CommentLine {
+  segments: ClickUpCommentBlock[];
+  format: CommentAttributes;
+}
+
+/** Split blocks into lines; each "\n" ends a line and carries its line format. */
+function toLines(blocks: ClickUpCommentBlock[]): CommentLine[] {
+  const lines: CommentLine[] = [];
+  let segments: ClickUpCommentBlock[] = [];
+
+  for (const block of blocks) {
+    if (!block) continue;
+    if (isEmbed(block)) {
+      segments.push(block);
+      continue;
+    }
+    const inline: CommentAttributes = {};
+    const format: CommentAttributes = {};
+    for (const [key, value] of Object.entries(block.attributes ?? {})) {
+      if (LINE_ATTRIBUTES.includes(key)) format[key] = value;
+      else if (INLINE_ATTRIBUTES.includes(key) && value) inline[key] = value;
+    }
+    (block.text ?? '').split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push({ segments, format });
+        segments = [];
+      }
+      const previous = segments[segments.length - 1];
+      if (previous && !isEmbed(previous) && sameAttributes(previous.attributes, inline)) {
+        // Adjacent code spans would otherwise run into each other
+        previous.text += part;
+      } else if (part) {
+        segments.push({ text: part, attributes: inline });
+      }
+    });
+  }
+
+  // The last line has no "\n" of its own
+  lines.push({ segments, format: {} });
+  return lines;
+}
+
+function escapeText(text: string): string {
+  let output = '';
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const before = text[index - 1];
+    const after = text[index + 1];
+    const escape =
+      '\\`*[]'.includes(char) ||
+      // A neighbouring segment may start or end with `~`
+      (char === '~' && [before, after].some(neighbour => neighbour === undefined || neighbour === '~')) ||
+      (char === '_' && (after === '_' || before === '_' || !(isWordChar(before) && isWordChar(after)))) ||
+      (char === '<' && /^<\/?span\b/i.test(text.slice(index))) ||
+      (char === ':' && matchEmoticon(text.slice(index)) !== null);
+    output += escape ? `\\${char}` : char;
+  }
+  return output;
+}
+
+/** Escape a plain line that would otherwise read as a heading, list item or quote. */
+const escapeLineStart = (content: string): string =>
+  content.replace(/^(\s*)(#{1,6}(?=\s)|>|[-+](?=\s)|\d+(?=[.)]\s))/, (_match, space: string, marker: string) =>
+    /^\d/.test(marker) ? `${space}${marker}\\` : `${space}\\${marker}`
+  );
+
+const codeSpan = (text: string): string => {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') || (/^ .* $/.test(text) && !!text.trim());
+  return pad ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+const linkTarget = (url: string): string => (/[\s<>]|\([^)]*$|^[^(]*\)/.test(url) ? `<${url}>` : url);
+
+const spanStyle = (attributes: CommentAttributes): string | undefined => {
+  const style = [
+    attributes.color && `color: ${attributes.color}`,
+    attributes.background_color && `background-color: ${attributes.background_color}`,
+  ].filter(Boolean);
+  return style.length > 0 ? style.join('; ') : undefined;
+};
+
+interface InlineLayer {
+  key: (attributes: CommentAttributes) => string | undefined;
+  wrap: (inner: string, key: string) => string;
+}
+
+const INLINE_LAYERS: InlineLayer[] = [
+  { key: attributes => attributes.link?.url, wrap: (inner, url) => `[${inner}](${linkTarget(url)})` },
+  { key: spanStyle, wrap: (inner, style) => `<span style="${style}">${inner}</span>` },
+  { key: attributes => (attributes.bold ? 'bold' : undefined), wrap: inner => `**${inner}**` },
+  {
+    key: attributes => (attributes.italic ? 'italic' : undefined),
+    // `_` keeps `**bold**` at one edge from merging into a `***` run, and a
+    // leading space from reading as a list item
+    wrap: inner => {
+      const wholeBold = inner.startsWith('**') && findCloser(inner, 2, '**') === inner.length - 2;
+      return /^[*\s]|\*$/.test(inner) && !wholeBold && !/^_|_$/.test(inner) ? `_${inner}_` : `*${inner}*`;
+    },
+  },
+  { key: attributes => (attributes.underline ? 'underline' : undefined), wrap: inner => `__${inner}__` },
+  { key: attributes => (attributes.strikethrough ? 'strikethrough' : undefined), wrap: inner => `~~${inner}~~` },
+];
+
+function renderSegment(block: ClickUpCommentBlock): string {
+  if (block.type === 'emoticon') {
+    return block.emoticon?.code ? `:${block.emoticon.code}:` : '';
+  }
+  if (block.type === 'tag') {
+    const name = block.text?.replace(/^@/, '') ?? (typeof block.user?.username === 'string' ? block.user.username : '');
+    const label = `@[${name.replace(/[\\\]]/g, '\\$&')}]`;
+    return block.user?.id !== undefined ? `${label}(user:${block.user.id})` : label;
+  }
+  const text = block.text ?? '';
+  return block.attributes?.code ? codeSpan(text) : escapeText(text);
+}
+
+/**
+ * Render segments, wrapping each run that shares a format once. The format
+ * covering the most segments goes outside, so `*a **b** c*` stays nested
+ * instead of becoming `*a ****b**** c*`.
+ */
+function renderInline(segments: ClickUpCommentBlock[], layers: InlineLayer[] = INLINE_LAYERS): string {
+  const keyOf = (layer: InlineLayer, block: ClickUpCommentBlock) =>
+    isEmbed(block) ? undefined : layer.key(block.attributes ?? {});
+  const coverage = (layer: InlineLayer) => segments.filter(block => keyOf(layer, block) !== undefined).length;
+  const [layer, ...rest] = [...layers].sort((a, b) => coverage(b) - coverage(a));
+  if (!layer) {
+    return segments.map(renderSegment).join('');
+  }
+
+  let output = '';
+  for (let start = 0; start < segments.length; ) {
+    const value = keyOf(layer, segments[start]);
+    let end = start + 1;
+    while (end < segments.length && keyOf(layer, segments[end]) === value) end++;
+    const inner = renderInline(segments.slice(start, end), rest);
+    output += value === undefined ? inner : layer.wrap(inner, value);
+    start = end;
+  }
+  return output;
+}
+
 /**
  * Convert ClickUp comment format back to markdown
  * @param commentFormat ClickUp comment format structure
@@ -153,34 +578,55 @@ export function clickUpCommentToMarkdown(commentFormat: ClickUpCommentFormat): s
     return '';
   }
 
-  return commentFormat.comment
-    .map(block => {
-      let text = block.text || '';
-      const attrs = block.attributes || {};
+  const lines = toLines(commentFormat.comment);
+  const output: string[] = [];
+  // Item numbers of the ordered lists open at each indent level
+  let ordinals: number[] = [];
 
-      // Apply formatting based on attributes
-      if (attrs.bold) {
-        text = `**${text}**`;
-      }
-      if (attrs.italic) {
-        text = `*${text}*`;
-      }
-      if (attrs.underline) {
-        text = `__${text}__`;
-      }
-      if (attrs.strikethrough) {
-        text = `~~${text}~~`;
-      }
-      if (attrs.code) {
-        text = `\`${text}\``;
-      }
-      if (attrs.link) {
-        text = `[${text}](${attrs.link.url})`;
+  for (let index = 0; index < lines.length; index++) {
+    const { segments, format } = lines[index];
+
+    const language = format['code-block']?.['code-block'];
+    if (language !== undefined) {
+      output.push(language === 'plain' ? '```' : `\`\`\`${language}`);
+      for (; index < lines.length && lines[index].format['code-block']?.['code-block'] === language; index++) {
+        output.push(lines[index].segments.map(block => (isEmbed(block) ? renderSegment(block) : block.text)).join(''));
       }
+      output.push('```');
+      index--;
+      ordinals = [];
+      continue;
+    }
+
+    const content = renderInline(segments);
+    const list = typeof format.list === 'string' ? format.list : format.list?.list;
+    if (list) {
+      const indent = Math.max(0, Number(format.indent) || 0);
+      ordinals = ordinals.slice(0, indent + 1);
+      ordinals[indent] = list === 'ordered' ? (ordinals[indent] ?? 0) + 1 : 0;
+      const marker =
+        list === 'ordered'
+          ? `${ordinals[indent]}.`
+          : list === 'checked'
+            ? '- [x]'
+            : list === 'unchecked'
+              ? '- [ ]'
+              : '-';
+      output.push(`${'  '.repeat(indent)}${marker} ${content}`);
+      continue;
+    }
 
-      return text;
-    })
-    .join('');
+    ordinals = [];
+    if (format.header) {
+      output.push(`${'#'.repeat(Math.min(6, Math.max(1, Number(format.header))))} ${content}`);
+    } else if (format.blockquote) {
+      output.push(`> ${content}`);
+    } else {
+      output.push(escapeLineStart(content));
+    }
+  }
+
+  return output.join('\n');
 }
 
 /**
@@ -281,92 +727,12 @@ export function combineCommentBlocks(blocks: ClickUpCommentBlock[]): ClickUpComm
 
 /**
  * Parse complex markdown and convert to ClickUp comment format
- * This handles more complex scenarios like mixed formatting
+ * Kept for existing callers; markdownToClickUpComment handles whole documents
  * @param markdown Markdown text
  * @returns ClickUp comment format structure
  */
 export function parseMarkdownToClickUpComment(markdown: string): ClickUpCommentFormat {
-  if (!markdown || typeof markdown !== 'string') {
-    return createPlainTextComment('');
-  }
-
-  // Handle line breaks and paragraphs
-  const lines = markdown.split('\n');
-  const blocks: ClickUpCommentBlock[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    if (!line) {
-      // Add line break for empty lines (except at the end)
-      if (i < lines.length - 1) {
-        blocks.push({ text: '\n', attributes: {} });
-      }
-      continue;
-    }
-
-    // Handle headers
-    if (line.startsWith('#')) {
-      // const level = line.match(/^#+/)?.[0].length || 1;
-      const headerText = line.replace(/^#+\s*/, '');
-      blocks.push({
-        text: headerText,
-        attributes: { bold: true }, // ClickUp doesn't have header formatting, use bold
-      });
-      blocks.push({ text: '\n', attributes: {} });
-      continue;
-    }
-
-    // Handle list items
-    if (line.match(/^[-*+]\s+/) || line.match(/^\d+\.\s+/)) {
-      const listText = line.replace(/^[-*+\d.]\s*/, '• ');
-      const converted = markdownToClickUpComment(listText);
-      blocks.push(...converted.comment);
-      blocks.push({ text: '\n', attributes: {} });
-      continue;
-    }
-
-    // Handle blockquotes
-    if (line.startsWith('>')) {
-      const quoteText = line.replace(/^>\s*/, '');
-      blocks.push({ text: '> ', attributes: {} });
-      const converted = markdownToClickUpComment(quoteText);
-      blocks.push(...converted.comment);
-      blocks.push({ text: '\n', attributes: {} });
-      continue;
-    }
-
-    // Handle code blocks
-    if (line.startsWith('```')) {
-      // For code blocks, we'll treat the content as code
-      const codeLines = [];
-      i++; // Skip the opening ```
-      while (i < lines.length && !lines[i].trim().startsWith('```')) {
-        codeLines.push(lines[i]);
-        i++;
-      }
-
-      if (codeLines.length > 0) {
-        blocks.push({
-          text: codeLines.join('\n'),
-          attributes: { code: true },
-        });
-        blocks.push({ text: '\n', attributes: {} });
-      }
-      continue;
-    }
-
-    // Handle regular text with inline formatting
-    const converted = markdownToClickUpComment(line);
-    blocks.push(...converted.comment);
-
-    // Add line break if not the last line
-    if (i < lines.length - 1) {
-      blocks.push({ text: '\n', attributes: {} });
-    }
-  }
-
-  return { comment: blocks };
+  return markdownToClickUpComment(markdown);
 }
 
 /**
@@ -550,7 +916,9 @@ export function cleanClickUpCommentResponse(comment: any): any {
 
 /**
  * Ensure proper newline separation before code blocks
- * ClickUp requires a newline before code blocks to prevent them from being merged with previous text
+ * ClickUp requires a newline before code blocks to prevent them from being merged with previous text.
+ * This applies to blocks carrying a whole code block as their text; "\n" blocks with a `code-block`
+ * line format and single-line inline code already sit where they belong.
  * @param blocks Array of comment blocks to process
  * @returns Processed array with proper newline separation
  */
@@ -571,9 +939,10 @@ export function ensureCodeBlockSeparation(blocks: ClickUpCommentBlock[]): ClickU
     const previousBlock = i > 0 ? blocks[i - 1] : null;
 
     // Check if current block is a code block
+    const text = currentBlock.text ?? '';
     const isCodeBlock =
       currentBlock.attributes &&
-      (currentBlock.attributes['code-block'] || currentBlock.attributes.code);
+      ((currentBlock.attributes['code-block'] && text !== '\n') || (currentBlock.attributes.code && text.includes('\n')));
 
     // If this is a code block and there's a previous block
     if (isCodeBlock && previousBlock) {
@@ -620,7 +989,9 @@ export function prepareCommentForClickUp(content: string): {
 
   // Check if content contains actual markdown formatting patterns (not just individual characters)
   const hasMarkdown =
-    /(\*\*.+?\*\*|__.+?__|`.+?`|~~.+?~~|^#{1,6}\s|\[.+?\]\(.+?\)|^>\s|^-\s|^\d+\.\s|```)/m.test(content);
+    /(\*\*.+?\*\*|__.+?__|`.+?`|~~.+?~~|^#{1,6}\s|\[.+?\]\(.+?\)|^>\s|^\s*[-*+]\s|^\s*\d+\.\s|```|@\[.+?\]|:[0-9a-f]{4,6}:|<span\s)/m.test(
+      content
+    );
 
   if (hasMarkdown) {
     const formatted = parseMarkdownToClickUpComment(content);
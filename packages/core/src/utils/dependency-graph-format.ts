@@ -0,0 +1,276 @@
+import type {
+  DependencyGraphFormat,
+  DependencyGraphNode,
+  DependencyGraphResponse,
+} from '../schemas/dependencies-schemas.js';
+
+/**
+ * Renderers for client-side dependency graphs (clickup_get_dependency_graph's
+ * `format` option). Every format marks the same three things: each task's
+ * status (ClickUp's status color where known), tasks that are blocked by an
+ * unfinished task, and edges that are part of a dependency cycle.
+ *
+ * Arrows point from a blocker to the task waiting on it, i.e. in the order
+ * work has to happen.
+ */
+
+const CYCLE_COLOR = '#e03131';
+const CLOSED_FILL = '#d3f9d8';
+const DEFAULT_FILL = '#f1f3f5';
+
+interface AnalyzedNode extends DependencyGraphNode {
+  // False for tasks that appear only in edges (beyond the traversal depth or outside the list)
+  loaded: boolean;
+  completed: boolean;
+  // Unfinished loaded tasks this one waits on
+  blocked_by: string[];
+  blocks: string[];
+  waits_on: string[];
+  in_cycle: boolean;
+}
+
+interface AnalyzedEdge {
+  // The blocker
+  from: string;
+  // The task waiting on it
+  to: string;
+  type?: number;
+  in_cycle: boolean;
+}
+
+const isCompleted = (node?: DependencyGraphNode) => node?.status_type === 'closed' || node?.status_type === 'done';
+
+function analyze(graph: DependencyGraphResponse): { nodes: AnalyzedNode[]; edges: AnalyzedEdge[] } {
+  const cycleEdges = new Set<string>();
+  const cycleNodes = new Set<string>();
+  for (const cycle of graph.cycles) {
+    // validateDependencyChain lists each cycle as a "waits on" path that closes on its first task
+    cycle.forEach((taskId, index) => {
+      cycleNodes.add(taskId);
+      cycleEdges.add(`${taskId}->${cycle[(index + 1) % cycle.length]}`);
+    });
+  }
+
+  const nodes = new Map<string, AnalyzedNode>();
+  const nodeFor = (taskId: string): AnalyzedNode => {
+    let node = nodes.get(taskId);
+    if (!node) {
+      node = {
+        task_id: taskId,
+        loaded: false,
+        completed: false,
+        blocked_by: [],
+        blocks: [],
+        waits_on: [],
+        in_cycle: cycleNodes.has(taskId),
+      };
+      nodes.set(taskId, node);
+    }
+    return node;
+  };
+  for (const node of graph.nodes) {
+    Object.assign(nodeFor(node.task_id), node, { loaded: true, completed: isCompleted(node) });
+  }
+
+  const edges = graph.edges.map(edge => {
+    const waiting = nodeFor(edge.task_id);
+    const blocker = nodeFor(edge.depends_on);
+    waiting.waits_on.push(blocker.task_id);
+    blocker.blocks.push(waiting.task_id);
+    if (blocker.loaded && !blocker.completed) {
+      waiting.blocked_by.push(blocker.task_id);
+    }
+    return {
+      from: edge.depends_on,
+      to: edge.task_id,
+      type: edge.type,
+      in_cycle: cycleEdges.has(`${edge.task_id}->${edge.depends_on}`),
+    };
+  });
+
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+const isBlocked = (node: AnalyzedNode) => !node.completed && node.blocked_by.length > 0;
+
+const fillFor = (node: AnalyzedNode): string =>
+  node.status_color && /^#[0-9a-f]{3,8}$/i.test(node.status_color)
+    ? node.status_color
+    : node.completed
+      ? CLOSED_FILL
+      : DEFAULT_FILL;
+
+const titleOf = (node: AnalyzedNode) => node.name ?? node.task_id;
+
+function renderMermaid(graph: DependencyGraphResponse): string {
+  const { nodes, edges } = analyze(graph);
+  const ids = new Map(nodes.map((node, index) => [node.task_id, `t${index}`]));
+  const escape = (text: string) =>
+    text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+  const lines = [
+    'flowchart LR',
+    `  classDef blocked stroke:${CYCLE_COLOR},stroke-width:3px`,
+    '  classDef done color:#2b8a3e,stroke:#2b8a3e',
+    '  classDef unloaded stroke-dasharray:4 3,color:#868e96',
+    `  classDef cycle stroke:${CYCLE_COLOR},stroke-width:3px,stroke-dasharray:6 3`,
+  ];
+  for (const node of nodes) {
+    const id = ids.get(node.task_id) as string;
+    const status = node.status ? `<br/><i>${escape(node.status)}</i>` : '';
+    const marker = isBlocked(node) ? '⛔ ' : node.completed ? '✅ ' : '';
+    lines.push(`  ${id}["${marker}${escape(titleOf(node))}${status}"]`);
+    if (node.loaded) {
+      lines.push(`  style ${id} fill:${fillFor(node)}`);
+    }
+  }
+  edges.forEach(edge => {
+    lines.push(`  ${ids.get(edge.from)} ${edge.in_cycle ? '-. cycle .->' : '-->'} ${ids.get(edge.to)}`);
+  });
+  edges.forEach((edge, index) => {
+    if (edge.in_cycle) {
+      lines.push(`  linkStyle ${index} stroke:${CYCLE_COLOR},stroke-width:2px`);
+    }
+  });
+  const classed = (name: string, match: (node: AnalyzedNode) => boolean) => {
+    const members = nodes.filter(match).map(node => ids.get(node.task_id));
+    if (members.length > 0) {
+      lines.push(`  class ${members.join(',')} ${name}`);
+    }
+  };
+  classed('done', node => node.completed);
+  classed('blocked', isBlocked);
+  classed('unloaded', node => !node.loaded);
+  classed('cycle', node => node.in_cycle);
+  return lines.join('\n');
+}
+
+function renderDot(graph: DependencyGraphResponse): string {
+  const { nodes, edges } = analyze(graph);
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  for (const node of nodes) {
+    const label = node.status ? `${titleOf(node)}\n${node.status}` : titleOf(node);
+    const attributes = [`label=${quote(isBlocked(node) ? `BLOCKED: ${label}` : label)}`];
+    if (node.loaded) {
+      attributes.push(`fillcolor=${quote(fillFor(node))}`);
+    } else {
+      attributes.push('style="rounded,dashed"', 'fontcolor="#868e96"');
+    }
+    if (node.url) {
+      attributes.push(`URL=${quote(node.url)}`);
+    }
+    if (isBlocked(node) || node.in_cycle) {
+      attributes.push(`color=${quote(CYCLE_COLOR)}`, 'penwidth=3');
+    }
+    lines.push(`  ${quote(node.task_id)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of edges) {
+    const attributes = edge.in_cycle ? ` [color=${quote(CYCLE_COLOR)}, penwidth=2, label="cycle"]` : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/** JSON Graph Format v2 (https://jsongraphformat.info). */
+function renderJsonGraph(graph: DependencyGraphResponse): string {
+  const { nodes, edges } = analyze(graph);
+  return JSON.stringify(
+    {
+      graph: {
+        directed: true,
+        type: 'clickup-dependencies',
+        label: graph.list_id ? `Dependencies in list ${graph.list_id}` : `Dependencies of task ${graph.root_task_id}`,
+        metadata: {
+          ...(graph.root_task_id && { root_task_id: graph.root_task_id, depth: graph.depth }),
+          ...(graph.list_id && { list_id: graph.list_id }),
+          cycles: graph.cycles,
+        },
+        nodes: Object.fromEntries(
+          nodes.map(node => [
+            node.task_id,
+            {
+              label: titleOf(node),
+              metadata: {
+                status: node.status,
+                status_type: node.status_type,
+                color: node.loaded ? fillFor(node) : undefined,
+                url: node.url,
+                loaded: node.loaded,
+                blocked: isBlocked(node),
+                blocked_by: node.blocked_by,
+                in_cycle: node.in_cycle,
+              },
+            },
+          ])
+        ),
+        edges: edges.map(edge => ({
+          source: edge.from,
+          target: edge.to,
+          relation: 'blocks',
+          directed: true,
+          metadata: { type: edge.type, in_cycle: edge.in_cycle },
+        })),
+      },
+    },
+    null,
+    2
+  );
+}
+
+function renderMarkdownTable(graph: DependencyGraphResponse): string {
+  const { nodes } = analyze(graph);
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const names = new Map(nodes.map(node => [node.task_id, titleOf(node)]));
+  const refs = (ids: string[]) => (ids.length > 0 ? ids.map(id => cell(names.get(id) ?? id)).join(', ') : '—');
+
+  const rows = nodes
+    .filter(node => node.loaded)
+    .map(node => {
+      const flags = [
+        isBlocked(node) && '⛔ blocked',
+        node.completed && '✅ done',
+        node.in_cycle && '🔁 in cycle',
+      ].filter(Boolean);
+      const title = node.url ? `[${cell(titleOf(node))}](${node.url})` : cell(titleOf(node));
+      return `| ${title} | ${cell(node.status ?? '—')} | ${refs(node.waits_on)} | ${refs(node.blocks)} | ${
+        flags.join(', ') || '—'
+      } |`;
+    });
+
+  const lines = ['| Task | Status | Waits on | Blocks | Flags |', '|---|---|---|---|---|', ...rows];
+  if (graph.cycles.length > 0) {
+    lines.push(
+      '',
+      `**Cycles:** ${graph.cycles
+        .map(cycle => [...cycle, cycle[0]].map(id => names.get(id) ?? id).join(' → '))
+        .join('; ')}`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a dependency graph for chat or docs. Mermaid and DOT come wrapped in
+ * fenced code blocks so they paste straight into a ClickUp doc or markdown.
+ */
+export function renderDependencyGraph(graph: DependencyGraphResponse, format: DependencyGraphFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return `\`\`\`mermaid\n${renderMermaid(graph)}\n\`\`\``;
+    case 'graphviz_dot':
+      return `\`\`\`dot\n${renderDot(graph)}\n\`\`\``;
+    case 'json_graph':
+      return renderJsonGraph(graph);
+    case 'markdown_table':
+      return renderMarkdownTable(graph);
+    default:
+      return JSON.stringify(graph, null, 2);
+  }
+}
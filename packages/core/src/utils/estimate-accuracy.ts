@@ -0,0 +1,372 @@
+import type { ReportableTimeEntry } from './timesheet-report.js';
+import { addDays, isoDate, localDateOf, periodKey } from './time-zones.js';
+
+/**
+ * Estimate-vs-actual analysis over completed tasks
+ * (clickup_get_estimate_accuracy).
+ *
+ * "Actual" is the time tracked on a task through time entries, falling back
+ * to the task's own time_spent when no entries were returned for it. A ratio
+ * is actual ÷ estimate, so 1.5 means the work took 50% longer than planned.
+ *
+ * The result also carries velocity_history and capacity_members, shaped for
+ * the intelligence server's VelocityAnalysisService (historicalTrends) and
+ * CapacityModelingService (teamMembers), so they can run on measured data.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+/** The subset of a ClickUp task the analysis reads. */
+export interface EstimatedTask {
+  id: string;
+  name: string;
+  url?: string;
+  time_estimate?: number | null;
+  time_spent?: number | null;
+  points?: number | null;
+  assignees?: Array<{ id: number; username?: string; email?: string }>;
+  tags?: Array<{ name: string }>;
+  date_done?: string | null;
+  date_closed?: string | null;
+}
+
+export interface EstimateAccuracyOptions {
+  timezone: string;
+  period: 'week' | 'month';
+  /** Median ratio at or above which an assignee counts as a systematic underestimator. */
+  underestimate_threshold: number;
+  /** Estimated tasks an assignee needs before they can be flagged. */
+  min_tasks: number;
+}
+
+export interface TaskVariance {
+  task_id: string;
+  name: string;
+  url?: string;
+  completed_at?: string;
+  estimate_hours: number;
+  actual_hours: number;
+  variance_hours: number;
+  /** actual ÷ estimate; null unless both are present. */
+  ratio: number | null;
+  actual_source: 'time_entries' | 'time_spent' | 'none';
+  assignees: string[];
+  tags: string[];
+  tracked_by: Record<string, number>;
+}
+
+export interface VarianceSummary {
+  tasks: number;
+  /** Tasks with both an estimate and tracked time; the ratios below use only these. */
+  compared_tasks: number;
+  unestimated_tasks: number;
+  untracked_tasks: number;
+  estimate_hours: number;
+  actual_hours: number;
+  /** Total actual ÷ total estimate. */
+  ratio: number | null;
+  median_ratio: number | null;
+  /** Mean of min(estimate, actual) ÷ max(estimate, actual); 1 is perfect. */
+  accuracy: number | null;
+  /** Share of compared tasks that ran over their estimate. */
+  over_estimate_share: number | null;
+}
+
+export interface PeriodVariance extends VarianceSummary {
+  period: string;
+}
+
+/** Matches the intelligence server's VelocityTrendSchema. */
+export interface VelocityTrendInput {
+  period: string;
+  storyPoints: number;
+  tasksCompleted: number;
+  teamSize: number;
+  velocityPerPerson: number;
+  confidence: number;
+}
+
+/** The measured part of the intelligence server's TeamMemberSchema; role, skills and level come from the caller. */
+export interface CapacityMemberInput {
+  userId: string;
+  name: string;
+  historicalVelocity: number;
+  availabilityHours: number;
+  estimateAccuracy?: number;
+}
+
+export interface EstimateAccuracyReport {
+  timezone: string;
+  period: 'week' | 'month';
+  overall: VarianceSummary;
+  by_assignee: Array<VarianceSummary & { user_id: number; username: string; tracked_hours: number }>;
+  by_tag: Array<VarianceSummary & { tag: string }>;
+  trend: {
+    periods: PeriodVariance[];
+    direction: 'improving' | 'stable' | 'worsening' | 'insufficient_data';
+  };
+  underestimators: Array<{
+    user_id: number;
+    username: string;
+    median_ratio: number;
+    compared_tasks: number;
+    message: string;
+  }>;
+  tasks: TaskVariance[];
+  /** What velocity_history counts: ClickUp sprint points when the tasks have them, else estimated hours. */
+  velocity_unit: 'story_points' | 'estimated_hours';
+  velocity_history: VelocityTrendInput[];
+  capacity_members: CapacityMemberInput[];
+  notes: string[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const hours = (ms: number) => round(ms / HOUR);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function summarize(tasks: TaskVariance[]): VarianceSummary {
+  const compared = tasks.filter(task => task.ratio !== null);
+  const estimate = compared.reduce((sum, task) => sum + task.estimate_hours, 0);
+  const actual = compared.reduce((sum, task) => sum + task.actual_hours, 0);
+  const ratios = compared.map(task => task.ratio as number);
+  return {
+    tasks: tasks.length,
+    compared_tasks: compared.length,
+    unestimated_tasks: tasks.filter(task => task.estimate_hours === 0).length,
+    untracked_tasks: tasks.filter(task => task.estimate_hours > 0 && task.actual_hours === 0).length,
+    estimate_hours: round(tasks.reduce((sum, task) => sum + task.estimate_hours, 0)),
+    actual_hours: round(tasks.reduce((sum, task) => sum + task.actual_hours, 0)),
+    ratio: estimate > 0 ? round(actual / estimate) : null,
+    median_ratio: compared.length > 0 ? round(median(ratios) as number) : null,
+    accuracy:
+      compared.length > 0
+        ? round(ratios.reduce((sum, ratio) => sum + Math.min(ratio, 1 / ratio), 0) / compared.length)
+        : null,
+    over_estimate_share:
+      compared.length > 0 ? round(ratios.filter(ratio => ratio > 1).length / compared.length) : null,
+  };
+}
+
+/** Least-squares slope of the distance from a perfect estimate, per period. */
+function trendDirection(periods: PeriodVariance[]): EstimateAccuracyReport['trend']['direction'] {
+  const points = periods
+    .map((period, index) => ({ x: index, y: period.ratio === null ? null : Math.abs(Math.log2(period.ratio)) }))
+    .filter((point): point is { x: number; y: number } => point.y !== null);
+  if (points.length < 3) {
+    return 'insufficient_data';
+  }
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const slope =
+    points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0) /
+    points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  if (slope < -0.05) return 'improving';
+  if (slope > 0.05) return 'worsening';
+  return 'stable';
+}
+
+const userName = (user: { id: number; username?: string; email?: string }) =>
+  user.username || user.email || String(user.id);
+
+function periodRange(key: string, period: 'week' | 'month'): string {
+  const [year, month, day = 1] = key.split('-').map(Number);
+  const end =
+    period === 'week'
+      ? addDays({ year, month, day }, 7)
+      : { year: month === 12 ? year + 1 : year, month: month === 12 ? 1 : month + 1, day: 1 };
+  return `${isoDate({ year, month, day })} to ${isoDate(end)}`;
+}
+
+/**
+ * Compare estimates with tracked time for completed tasks, per task,
+ * assignee, tag and period. Entries for tasks outside `tasks` are ignored.
+ */
+export function analyzeEstimateAccuracy(
+  tasks: EstimatedTask[],
+  entries: ReportableTimeEntry[],
+  options: EstimateAccuracyOptions
+): EstimateAccuracyReport {
+  const taskIds = new Set(tasks.map(task => task.id));
+  const tracked = new Map<string, Map<number, number>>();
+  const people = new Map<number, string>();
+  for (const entry of entries) {
+    const duration = Number(entry.duration);
+    if (!entry.task || !taskIds.has(entry.task.id) || !(duration > 0)) continue;
+    const byUser = tracked.get(entry.task.id) ?? new Map<number, number>();
+    byUser.set(entry.user.id, (byUser.get(entry.user.id) ?? 0) + duration);
+    tracked.set(entry.task.id, byUser);
+    people.set(entry.user.id, userName(entry.user));
+  }
+
+  const useStoryPoints = tasks.some(task => typeof task.points === 'number' && task.points > 0);
+  const variances: TaskVariance[] = [];
+  const meta = new Map<string, { task: EstimatedTask; period?: string; owners: number[]; trackers: number[] }>();
+
+  for (const task of tasks) {
+    const estimate = task.time_estimate ?? 0;
+    const byUser = tracked.get(task.id);
+    const fromEntries = byUser ? Array.from(byUser.values()).reduce((sum, ms) => sum + ms, 0) : 0;
+    const actual = fromEntries > 0 ? fromEntries : (task.time_spent ?? 0);
+    const completedAt = Number(task.date_done ?? task.date_closed) || undefined;
+    for (const assignee of task.assignees ?? []) {
+      people.set(assignee.id, userName(assignee));
+    }
+
+    const variance: TaskVariance = {
+      task_id: task.id,
+      name: task.name,
+      ...(task.url && { url: task.url }),
+      ...(completedAt && { completed_at: new Date(completedAt).toISOString() }),
+      estimate_hours: hours(estimate),
+      actual_hours: hours(actual),
+      variance_hours: hours(actual - estimate),
+      ratio: estimate > 0 && actual > 0 ? round(actual / estimate) : null,
+      actual_source: fromEntries > 0 ? 'time_entries' : actual > 0 ? 'time_spent' : 'none',
+      assignees: (task.assignees ?? []).map(userName),
+      tags: (task.tags ?? []).map(tag => tag.name),
+      tracked_by: Object.fromEntries(
+        Array.from(byUser?.entries() ?? []).map(([id, ms]) => [people.get(id) ?? String(id), hours(ms)])
+      ),
+    };
+    variances.push(variance);
+
+    const trackers = Array.from(byUser?.keys() ?? []);
+    meta.set(task.id, {
+      task,
+      period: completedAt ? periodKey(localDateOf(completedAt, options.timezone), options.period) : undefined,
+      // Estimates belong to the task's assignees; unassigned work falls to whoever tracked it
+      owners: task.assignees && task.assignees.length > 0 ? task.assignees.map(assignee => assignee.id) : trackers,
+      trackers,
+    });
+  }
+
+  // Per assignee
+  const owned = new Map<number, TaskVariance[]>();
+  for (const variance of variances) {
+    for (const owner of meta.get(variance.task_id)?.owners ?? []) {
+      owned.set(owner, [...(owned.get(owner) ?? []), variance]);
+    }
+  }
+  const trackedBy = (userId: number) =>
+    Array.from(tracked.values()).reduce((sum, byUser) => sum + (byUser.get(userId) ?? 0), 0);
+  const byAssignee = Array.from(owned.entries())
+    .map(([userId, list]) => ({
+      user_id: userId,
+      username: people.get(userId) ?? String(userId),
+      ...summarize(list),
+      tracked_hours: hours(trackedBy(userId)),
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+  // Per tag
+  const tagged = new Map<string, TaskVariance[]>();
+  for (const variance of variances) {
+    for (const tag of variance.tags.length > 0 ? variance.tags : ['(untagged)']) {
+      tagged.set(tag, [...(tagged.get(tag) ?? []), variance]);
+    }
+  }
+  const byTag = Array.from(tagged.entries())
+    .map(([tag, list]) => ({ tag, ...summarize(list) }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+
+  // Per period of completion
+  const periods = new Map<string, TaskVariance[]>();
+  for (const variance of variances) {
+    const period = meta.get(variance.task_id)?.period;
+    if (period) {
+      periods.set(period, [...(periods.get(period) ?? []), variance]);
+    }
+  }
+  const trendPeriods = Array.from(periods.keys())
+    .sort()
+    .map(period => ({ period, ...summarize(periods.get(period) as TaskVariance[]) }));
+
+  const underestimators = byAssignee
+    .filter(
+      assignee =>
+        assignee.compared_tasks >= options.min_tasks &&
+        (assignee.median_ratio ?? 0) >= options.underestimate_threshold &&
+        (assignee.over_estimate_share ?? 0) >= 0.6
+    )
+    .map(assignee => ({
+      user_id: assignee.user_id,
+      username: assignee.username,
+      median_ratio: assignee.median_ratio as number,
+      compared_tasks: assignee.compared_tasks,
+      message:
+        `${assignee.username}'s tasks typically take ${assignee.median_ratio}× their estimate ` +
+        `(${Math.round((assignee.over_estimate_share ?? 0) * 100)}% of ${assignee.compared_tasks} tasks ran over).`,
+    }));
+
+  // Intelligence inputs: what was delivered per period, and each person's measured pace
+  const deliveredBy = (list: TaskVariance[]) =>
+    list.reduce((sum, variance) => {
+      const task = meta.get(variance.task_id)?.task;
+      return sum + (useStoryPoints ? (task?.points ?? 0) : variance.estimate_hours);
+    }, 0);
+  const velocityHistory = trendPeriods.map(({ period }) => {
+    const list = periods.get(period) as TaskVariance[];
+    const team = new Set(list.flatMap(variance => meta.get(variance.task_id)?.owners ?? []));
+    const delivered = round(deliveredBy(list));
+    return {
+      period: periodRange(period, options.period),
+      storyPoints: delivered,
+      tasksCompleted: list.length,
+      teamSize: team.size,
+      velocityPerPerson: team.size > 0 ? round(delivered / team.size) : 0,
+      confidence: round(list.filter(variance => variance.ratio !== null).length / list.length),
+    };
+  });
+
+  const weeksCovered = Math.max(1, trendPeriods.length * (options.period === 'month' ? 52 / 12 : 1));
+  const capacityMembers = byAssignee.map(assignee => {
+    const list = owned.get(assignee.user_id) as TaskVariance[];
+    const member: CapacityMemberInput = {
+      userId: String(assignee.user_id),
+      name: assignee.username,
+      historicalVelocity: round(deliveredBy(list) / Math.max(1, trendPeriods.length)),
+      availabilityHours: Math.min(40, round(assignee.tracked_hours / weeksCovered)),
+    };
+    if (assignee.ratio !== null) {
+      member.estimateAccuracy = assignee.ratio;
+    }
+    return member;
+  });
+
+  const overall = summarize(variances);
+  const notes: string[] = [];
+  if (overall.unestimated_tasks > 0) {
+    notes.push(`${overall.unestimated_tasks} task(s) had no time estimate and are left out of the ratios.`);
+  }
+  if (overall.untracked_tasks > 0) {
+    notes.push(`${overall.untracked_tasks} estimated task(s) had no tracked time and are left out of the ratios.`);
+  }
+  if (!useStoryPoints) {
+    notes.push('No task carries sprint points, so velocity_history counts estimated hours delivered.');
+  }
+  const fallback = variances.filter(variance => variance.actual_source === 'time_spent').length;
+  if (fallback > 0) {
+    notes.push(`${fallback} task(s) had no matching time entries; their time_spent was used instead.`);
+  }
+
+  return {
+    timezone: options.timezone,
+    period: options.period,
+    overall,
+    by_assignee: byAssignee,
+    by_tag: byTag,
+    trend: { periods: trendPeriods, direction: trendDirection(trendPeriods) },
+    underestimators,
+    tasks: variances.sort((a, b) => (b.ratio ?? 0) - (a.ratio ?? 0)),
+    velocity_unit: useStoryPoints ? 'story_points' : 'estimated_hours',
+    velocity_history: velocityHistory,
+    capacity_members: capacityMembers,
+    notes,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Minimal YAML front-matter for Markdown files: a leading `---` block of
+ * `key: value` lines. Values are written as JSON strings (valid YAML
+ * double-quoted scalars); bare and single-quoted values are read as text.
+ * Nested YAML is not supported and such lines are ignored.
+ */
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export interface FrontMatterDocument {
+  data: Record<string, string>;
+  body: string;
+}
+
+function parseValue(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, value.endsWith('"') ? -1 : undefined);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/** Split a Markdown file into its front-matter fields and body. */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+  const data: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = /^([A-Za-z_][\w-]*):(.*)$/.exec(line);
+    if (field && field[2].trim() !== '') {
+      data[field[1]] = parseValue(field[2]);
+    }
+  }
+  // formatFrontMatter separates the block from the body with a blank line
+  return { data, body: text.slice(match[0].length).replace(/^\r?\n/, '') };
+}
+
+/** Prefix a body with front-matter; undefined fields are left out. */
+export function formatFrontMatter(data: Record<string, string | undefined>, body: string): string {
+  const lines = Object.entries(data)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n${body}`;
+}
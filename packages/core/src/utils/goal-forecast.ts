@@ -0,0 +1,305 @@
+import type { GoalSnapshot } from '../clickup-client/goal-history.js';
+
+/**
+ * Burn-up forecasts for goals (clickup_forecast_goal), from the progress
+ * series in the local goal history.
+ *
+ * The rate of progress is either the least-squares slope of the whole series
+ * (linear) or an exponentially weighted average of the rate between
+ * consecutive snapshots (ewma), which reacts faster when a goal speeds up or
+ * stalls. The goal's start counts as a 0% reading when it predates the first
+ * snapshot, so a goal read once can already be forecast.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const GOAL_FORECAST_METHODS = ['linear', 'ewma'] as const;
+export type GoalForecastMethod = (typeof GOAL_FORECAST_METHODS)[number];
+
+export type GoalForecastStatus =
+  | 'completed'
+  | 'on_track'
+  | 'at_risk'
+  | 'off_track'
+  | 'overdue'
+  | 'stalled'
+  | 'insufficient_data';
+
+export interface GoalForecastInput {
+  id: string;
+  name: string;
+  /** Unix ms; the goal's start_date, or its creation date. */
+  start?: number;
+  /** Unix ms; undefined for a goal without a due date. */
+  due?: number;
+  percent_completed: number;
+  snapshots: GoalSnapshot[];
+}
+
+export interface GoalForecastOptions {
+  method: GoalForecastMethod;
+  /** Weight of the latest interval in the EWMA (0-1). */
+  smoothing: number;
+  now?: number;
+}
+
+export interface BurnUpPoint {
+  date: string;
+  percent: number;
+  /** Straight line from 0% at the start to 100% at the due date. */
+  plan_percent: number | null;
+  kind: 'actual' | 'forecast';
+  notes: string[];
+}
+
+export interface GoalForecast {
+  goal_id: string;
+  name: string;
+  method: GoalForecastMethod;
+  status: GoalForecastStatus;
+  message: string;
+  percent_completed: number;
+  /** Null for a goal without a due date, which gets no projection. */
+  due_date: string | null;
+  days_left: number | null;
+  /** Percentage points per day. */
+  rate_per_day: number | null;
+  required_rate_per_day: number | null;
+  projected_completion: string | null;
+  projected_percent_at_due: number | null;
+  /** Days the projected completion falls after (positive) or before the due date. */
+  slip_days: number | null;
+  data_points: number;
+  burn_up: BurnUpPoint[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const isoDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+function linearRate(points: Array<{ t: number; p: number }>): number {
+  const meanT = points.reduce((sum, point) => sum + point.t, 0) / points.length;
+  const meanP = points.reduce((sum, point) => sum + point.p, 0) / points.length;
+  const spread = points.reduce((sum, point) => sum + (point.t - meanT) ** 2, 0);
+  return spread === 0
+    ? 0
+    : (points.reduce((sum, point) => sum + (point.t - meanT) * (point.p - meanP), 0) / spread) * DAY;
+}
+
+function ewmaRate(points: Array<{ t: number; p: number }>, smoothing: number): number {
+  let rate: number | undefined;
+  for (let i = 1; i < points.length; i++) {
+    const elapsed = points[i].t - points[i - 1].t;
+    if (elapsed <= 0) continue;
+    const interval = ((points[i].p - points[i - 1].p) / elapsed) * DAY;
+    rate = rate === undefined ? interval : smoothing * interval + (1 - smoothing) * rate;
+  }
+  return rate ?? 0;
+}
+
+/** Project a goal's completion from its progress series. */
+export function forecastGoal(goal: GoalForecastInput, options: GoalForecastOptions): GoalForecast {
+  const now = options.now ?? Date.now();
+  const points = goal.snapshots.map(snapshot => ({ t: snapshot.taken_at, p: snapshot.percent_completed }));
+  if (goal.start !== undefined && (points.length === 0 || goal.start < points[0].t)) {
+    points.unshift({ t: goal.start, p: 0 });
+  }
+  const last = points[points.length - 1];
+  if (!last || last.t < now - DAY) {
+    // The current reading is newer than anything recorded
+    points.push({ t: now, p: goal.percent_completed });
+  }
+
+  const current = goal.percent_completed;
+  if (goal.due === undefined) {
+    return undatedForecast(goal, options, points);
+  }
+  const due = goal.due;
+  const daysLeft = (due - now) / DAY;
+  const spansTime = points.length >= 2 && points[points.length - 1].t - points[0].t > 0;
+  const rate = spansTime
+    ? options.method === 'ewma'
+      ? ewmaRate(points, options.smoothing)
+      : linearRate(points)
+    : null;
+
+  let projectedCompletion: number | null = null;
+  let projectedAtDue: number | null = null;
+  if (rate !== null && current < 100) {
+    projectedAtDue = daysLeft > 0 ? Math.min(100, current + rate * daysLeft) : current;
+    projectedCompletion = rate > 0 ? now + ((100 - current) / rate) * DAY : null;
+  }
+
+  let status: GoalForecastStatus;
+  let message: string;
+  if (current >= 100) {
+    status = 'completed';
+    message = 'Goal is complete.';
+  } else if (now > due) {
+    status = 'overdue';
+    message = `Past its due date at ${round(current)}%.`;
+  } else if (rate === null) {
+    status = 'insufficient_data';
+    message = 'Not enough history yet; read the goal again later to build a trend.';
+  } else if (rate <= 0) {
+    status = 'stalled';
+    message = `No progress in the trend; ${round(100 - current)} points remain with ${Math.ceil(
+      daysLeft
+    )} day(s) left.`;
+  } else if ((projectedCompletion as number) <= due) {
+    status = 'on_track';
+    message = `Projected to finish ${isoDay(projectedCompletion as number)}, before the ${isoDay(due)} due date.`;
+  } else {
+    status = (projectedAtDue as number) >= 90 ? 'at_risk' : 'off_track';
+    message = `Projected to reach ${round(projectedAtDue as number)}% by ${isoDay(due)} and finish ${isoDay(
+      projectedCompletion as number
+    )}; needs ${round((100 - current) / Math.max(daysLeft, 1 / 24))} points/day instead of ${round(rate)}.`;
+  }
+
+  return {
+    goal_id: goal.id,
+    name: goal.name,
+    method: options.method,
+    status,
+    message,
+    percent_completed: current,
+    due_date: new Date(due).toISOString(),
+    days_left: round(daysLeft),
+    rate_per_day: rate === null ? null : round(rate),
+    required_rate_per_day: current < 100 && daysLeft > 0 ? round((100 - current) / daysLeft) : null,
+    projected_completion: projectedCompletion === null ? null : new Date(projectedCompletion).toISOString(),
+    projected_percent_at_due: projectedAtDue === null ? null : round(projectedAtDue),
+    slip_days: projectedCompletion === null ? null : round((projectedCompletion - due) / DAY),
+    data_points: points.length,
+    burn_up: burnUp(points, { ...goal, due }, rate, now, projectedCompletion),
+  };
+}
+
+/**
+ * A goal without a due date has nothing to be on track for: report its
+ * recorded progress and leave every projection empty.
+ */
+function undatedForecast(
+  goal: GoalForecastInput,
+  options: GoalForecastOptions,
+  points: Array<{ t: number; p: number }>
+): GoalForecast {
+  const completed = goal.percent_completed >= 100;
+  return {
+    goal_id: goal.id,
+    name: goal.name,
+    method: options.method,
+    status: completed ? 'completed' : 'insufficient_data',
+    message: completed ? 'Goal is complete.' : 'Goal has no due date; set one to forecast it.',
+    percent_completed: goal.percent_completed,
+    due_date: null,
+    days_left: null,
+    rate_per_day: null,
+    required_rate_per_day: null,
+    projected_completion: null,
+    projected_percent_at_due: null,
+    slip_days: null,
+    data_points: points.length,
+    burn_up: points.map(point => ({
+      date: isoDay(point.t),
+      percent: round(point.p),
+      plan_percent: null,
+      kind: 'actual',
+      notes: [],
+    })),
+  };
+}
+
+/**
+ * Sample the series for a chart: even steps from the first reading to the
+ * due date (or the projected finish, when later but not absurdly so), plus
+ * today, the due date and the projected finish themselves.
+ */
+function burnUp(
+  points: Array<{ t: number; p: number }>,
+  goal: GoalForecastInput & { due: number },
+  rate: number | null,
+  now: number,
+  projectedCompletion: number | null
+): BurnUpPoint[] {
+  if (points.length === 0) {
+    return [];
+  }
+  const first = points[0].t;
+  const span = Math.max(goal.due - first, DAY);
+  const horizon = Math.max(goal.due, Math.min(projectedCompletion ?? goal.due, goal.due + span / 2), now);
+  const steps = 8;
+  const times = new Set<number>([now, goal.due]);
+  for (let i = 0; i <= steps; i++) {
+    times.add(first + ((horizon - first) * i) / steps);
+  }
+  if (projectedCompletion !== null && projectedCompletion <= horizon) {
+    times.add(projectedCompletion);
+  }
+  const start = goal.start ?? first;
+
+  return Array.from(times)
+    .sort((a, b) => a - b)
+    .map(t => {
+      const notes: string[] = [];
+      if (t === now) notes.push('today');
+      if (t === goal.due) notes.push('due');
+      if (t === projectedCompletion) notes.push('projected finish');
+      let percent: number;
+      if (t <= now) {
+        // Progress as last recorded at or before t
+        percent = [...points].reverse().find(point => point.t <= t)?.p ?? 0;
+      } else {
+        percent = Math.min(100, goal.percent_completed + Math.max(0, rate ?? 0) * ((t - now) / DAY));
+      }
+      const plan = goal.due > start ? Math.min(100, Math.max(0, ((t - start) / (goal.due - start)) * 100)) : null;
+      return {
+        date: isoDay(t),
+        percent: round(percent),
+        plan_percent: plan === null ? null : round(plan),
+        kind: t <= now ? 'actual' : 'forecast',
+        notes,
+      };
+    });
+}
+
+const bar = (percent: number, width = 20) => {
+  const filled = Math.round((Math.max(0, Math.min(100, percent)) / 100) * width);
+  return `${'█'.repeat(filled)}${'░'.repeat(width - filled)}`;
+};
+
+/** Plain-text burn-up: one bar per sampled date. */
+export function renderGoalForecastText(forecast: GoalForecast): string {
+  const lines = [
+    `${forecast.name} — ${forecast.status.replace('_', ' ')} (${forecast.method})`,
+    forecast.message,
+    '',
+  ];
+  for (const point of forecast.burn_up) {
+    const marker = point.kind === 'forecast' ? '~' : ' ';
+    const plan = point.plan_percent === null ? '' : ` plan ${point.plan_percent.toFixed(0).padStart(3)}%`;
+    const notes = point.notes.length > 0 ? `  ← ${point.notes.join(', ')}` : '';
+    lines.push(`${point.date} ${marker}${bar(point.percent)} ${point.percent.toFixed(0).padStart(3)}%${plan}${notes}`);
+  }
+  if (forecast.burn_up.some(point => point.kind === 'forecast')) {
+    lines.push('', '~ forecast');
+  }
+  return lines.join('\n');
+}
+
+/** Mermaid xychart burn-up: progress (recorded, then forecast) against the plan line. */
+export function renderGoalForecastMermaid(forecast: GoalForecast): string {
+  const title = forecast.name.replace(/"/g, "'");
+  const labels = forecast.burn_up.map(point => `"${point.date.slice(5)}"`).join(', ');
+  const lines = [
+    'xychart-beta',
+    `  title "${title} (${forecast.status.replace('_', ' ')})"`,
+    `  x-axis [${labels}]`,
+    '  y-axis "Progress %" 0 --> 100',
+    // Series: 1 = progress, recorded up to today then forecast; 2 = plan
+    `  line [${forecast.burn_up.map(point => point.percent).join(', ')}]`,
+  ];
+  if (forecast.burn_up.every(point => point.plan_percent !== null)) {
+    lines.push(`  line [${forecast.burn_up.map(point => point.plan_percent).join(', ')}]`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,38 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * Local on-disk state for the server (response cache and similar stores).
+ *
+ * Everything lives under one directory so users can inspect or wipe it in one
+ * place: `CLICKUP_DATA_DIR` when set, otherwise `~/.clickup-mcp`.
+ */
+export const getDataDir = (): string => {
+  const configured = process.env.CLICKUP_DATA_DIR?.trim();
+  return configured ? configured : join(homedir(), '.clickup-mcp');
+};
+
+/**
+ * Read a JSON file, returning `fallback` when it is missing or unparseable.
+ * A corrupt store must never stop the server from starting.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so a crash mid-write cannot
+ * leave a truncated store behind. Files are owner-only: stores can hold
+ * workspace data returned by the API.
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data), { encoding: 'utf8', mode: 0o600 });
+  renameSync(tempPath, filePath);
+}
@@ -0,0 +1,317 @@
+import type { UpdateTimeEntryParams } from '../clickup-client/time-tracking-enhanced.js';
+import type { ReportableTimeEntry } from './timesheet-report.js';
+import { addDays, isoDate, localDateOf, splitAtMidnight, startOfLocalDay, weekdayOf } from './time-zones.js';
+
+/**
+ * Quality checks over a user's time entries (clickup_audit_time_entries).
+ * Each finding carries a suggestion, and where a safe correction exists a
+ * `fix` that can be passed straight to updateTimeEntry.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+export const AUDIT_FINDING_TYPES = [
+  'overlap',
+  'long_timer',
+  'no_task',
+  'non_positive_duration',
+  'weekend',
+  'holiday',
+  'below_expected_hours',
+] as const;
+export type AuditFindingType = (typeof AUDIT_FINDING_TYPES)[number];
+
+export interface TimeEntryAuditOptions {
+  timezone: string;
+  /** The audited range (Unix ms); whole local days inside it are checked against the target. */
+  start_date: number;
+  end_date: number;
+  /** Timers and entries longer than this are flagged. */
+  max_timer_hours: number;
+  /** Daily target per member; 0 turns the check off. */
+  expected_hours_per_day: number;
+  /** Weekdays people are expected to work, 0 = Sunday … 6 = Saturday. */
+  working_days: number[];
+  /** Local dates (YYYY-MM-DD) nobody is expected to work. */
+  holidays: string[];
+  /** Members checked against the daily target even when they logged nothing. */
+  members?: Array<{ id: number; username?: string }>;
+  now?: number;
+}
+
+export interface AuditFinding {
+  type: AuditFindingType;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  suggestion: string;
+  entry_id?: string;
+  related_entry_id?: string;
+  date?: string;
+  /** Apply with updateTimeEntry(team_id, fix.timer_id, fix.changes). */
+  fix?: {
+    timer_id: string;
+    changes: Pick<UpdateTimeEntryParams, 'start' | 'stop' | 'duration'>;
+  };
+}
+
+export interface UserAudit {
+  user_id: number;
+  username: string;
+  tracked_hours: number;
+  findings: AuditFinding[];
+}
+
+export interface TimeEntryAuditReport {
+  timezone: string;
+  range: { start: string; end: string };
+  checked: { entries: number; running_timers: number; users: number; working_days: number };
+  summary: Partial<Record<AuditFindingType, number>>;
+  users: UserAudit[];
+}
+
+interface Span {
+  entry: ReportableTimeEntry;
+  start: number;
+  // Running timers end "now"
+  end: number;
+  running: boolean;
+}
+
+const hours = (ms: number) => Math.round((ms / HOUR) * 100) / 100;
+const stamp = (ms: number) => new Date(ms).toISOString();
+const label = (span: Span) =>
+  `${span.entry.task?.name ? `"${span.entry.task.name}" ` : ''}(${span.entry.id}, ${stamp(span.start)})`;
+
+function overlapFindings(spans: Span[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const ordered = [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+  let open: Span | undefined;
+  for (const span of ordered) {
+    if (open && span.start < open.end) {
+      const overlap = Math.min(open.end, span.end) - span.start;
+      const contained = span.end <= open.end;
+      const finding: AuditFinding = {
+        type: 'overlap',
+        severity: 'error',
+        entry_id: span.entry.id,
+        related_entry_id: open.entry.id,
+        message: `${label(span)} overlaps ${label(open)} by ${hours(overlap)}h`,
+        suggestion: open.running
+          ? `Timer ${open.entry.id} is still running: stop it and set its end to when work actually stopped.`
+          : contained
+            ? 'The entry lies entirely inside the other one: delete whichever is the duplicate.'
+            : `End ${open.entry.id} when ${span.entry.id} starts.`,
+      };
+      if (!contained && !open.running && span.start > open.start) {
+        finding.fix = { timer_id: open.entry.id, changes: { stop: span.start } };
+      }
+      findings.push(finding);
+    }
+    if (!open || span.end > open.end) {
+      open = span;
+    }
+  }
+  return findings;
+}
+
+function entryFindings(span: Span, options: TimeEntryAuditOptions): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const { entry } = span;
+  const limit = options.max_timer_hours * HOUR;
+
+  if (span.end - span.start > limit) {
+    findings.push({
+      type: 'long_timer',
+      severity: 'warning',
+      entry_id: entry.id,
+      message: span.running
+        ? `Timer ${label(span)} has been running for ${hours(span.end - span.start)}h`
+        : `Entry ${label(span)} lasts ${hours(span.end - span.start)}h`,
+      suggestion: `Likely a forgotten timer: set the end to when work actually stopped (the fix caps it at ${
+        options.max_timer_hours
+      }h).`,
+      fix: { timer_id: entry.id, changes: { stop: span.start + limit } },
+    });
+  }
+
+  if (!entry.task) {
+    findings.push({
+      type: 'no_task',
+      severity: 'warning',
+      entry_id: entry.id,
+      message: `Entry ${label(span)} is not linked to a task`,
+      suggestion: 'Link it with clickup_update_time_entry and a task_id so it shows up in task and list reports.',
+    });
+  }
+
+  if (!span.running) {
+    const days = new Map(
+      splitAtMidnight(span.start, span.end, options.timezone).map(piece => [isoDate(piece.date), piece.date])
+    );
+    for (const [day, date] of days) {
+      if (options.holidays.includes(day)) {
+        findings.push({
+          type: 'holiday',
+          severity: 'info',
+          entry_id: entry.id,
+          date: day,
+          message: `Entry ${label(span)} was logged on the holiday ${day}`,
+          suggestion: 'Confirm the work happened on the holiday, or move the entry to the day it was done.',
+        });
+      } else if (!options.working_days.includes(weekdayOf(date))) {
+        findings.push({
+          type: 'weekend',
+          severity: 'info',
+          entry_id: entry.id,
+          date: day,
+          message: `Entry ${label(span)} was logged on a non-working day (${day})`,
+          suggestion: 'Confirm the work happened then, or move the entry to the day it was done.',
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/** Whole local working days inside the range that have already ended. */
+function workingDaysIn(options: TimeEntryAuditOptions, now: number): string[] {
+  const days: string[] = [];
+  const last = Math.min(options.end_date, now);
+  let date = localDateOf(options.start_date, options.timezone);
+  if (startOfLocalDay(date, options.timezone) < options.start_date) {
+    date = addDays(date, 1);
+  }
+  while (startOfLocalDay(addDays(date, 1), options.timezone) <= last) {
+    const day = isoDate(date);
+    if (options.working_days.includes(weekdayOf(date)) && !options.holidays.includes(day)) {
+      days.push(day);
+    }
+    date = addDays(date, 1);
+  }
+  return days;
+}
+
+/**
+ * Audit time entries and running timers. Entries with a zero or negative
+ * duration are reported and left out of every other check.
+ */
+export function auditTimeEntries(
+  entries: ReportableTimeEntry[],
+  runningTimers: ReportableTimeEntry[],
+  options: TimeEntryAuditOptions
+): TimeEntryAuditReport {
+  const now = options.now ?? Date.now();
+  const users = new Map<number, UserAudit & { spans: Span[] }>();
+  const userFor = (user: { id: number; username?: string; email?: string }) => {
+    let audit = users.get(user.id);
+    if (!audit) {
+      audit = {
+        user_id: user.id,
+        username: user.username || user.email || String(user.id),
+        tracked_hours: 0,
+        findings: [],
+        spans: [],
+      };
+      users.set(user.id, audit);
+    } else if (user.username && audit.username === String(user.id)) {
+      audit.username = user.username;
+    }
+    return audit;
+  };
+  for (const member of options.members ?? []) {
+    userFor(member);
+  }
+
+  // A running timer also comes back from getTimeEntries with a negative duration
+  const runningIds = new Set(runningTimers.map(timer => timer.id));
+  const all = [...entries.filter(entry => !runningIds.has(entry.id)), ...runningTimers];
+  let running = 0;
+
+  for (const entry of all) {
+    const audit = userFor(entry.user);
+    const start = Number(entry.start);
+    const duration = Number(entry.duration);
+    const isRunning = runningIds.has(entry.id) || (!(Number(entry.end) > 0) && duration < 0);
+    if (isRunning) {
+      running++;
+      audit.spans.push({ entry, start, end: Math.max(now, start), running: true });
+      continue;
+    }
+
+    const end = Number(entry.end) > 0 ? Number(entry.end) : start + duration;
+    if (!(duration > 0) || !(end > start)) {
+      audit.findings.push({
+        type: 'non_positive_duration',
+        severity: 'error',
+        entry_id: entry.id,
+        message: `Entry ${entry.id} (${stamp(start)}) has a duration of ${hours(duration)}h`,
+        suggestion:
+          end > start
+            ? 'The stored duration disagrees with its start and end: recompute it from them.'
+            : 'Delete the entry, or set its real end time.',
+        ...(end > start && { fix: { timer_id: entry.id, changes: { start, stop: end } } }),
+      });
+      continue;
+    }
+    audit.spans.push({ entry, start, end, running: false });
+  }
+
+  const workingDays = options.expected_hours_per_day > 0 ? workingDaysIn(options, now) : [];
+  for (const audit of users.values()) {
+    const byDay = new Map<string, number>();
+    for (const span of audit.spans) {
+      audit.findings.push(...entryFindings(span, options));
+      const pieces = splitAtMidnight(
+        Math.max(span.start, options.start_date),
+        Math.min(span.end, options.end_date),
+        options.timezone
+      );
+      for (const piece of pieces) {
+        const day = isoDate(piece.date);
+        byDay.set(day, (byDay.get(day) ?? 0) + piece.ms);
+      }
+    }
+    audit.findings.push(...overlapFindings(audit.spans));
+
+    for (const day of workingDays) {
+      const logged = byDay.get(day) ?? 0;
+      if (logged < options.expected_hours_per_day * HOUR) {
+        audit.findings.push({
+          type: 'below_expected_hours',
+          severity: 'warning',
+          date: day,
+          message: `${hours(logged)}h logged on ${day}, below the ${options.expected_hours_per_day}h target`,
+          suggestion: 'Log the missing time with clickup_create_time_entry, or record the day as leave.',
+        });
+      }
+    }
+    audit.tracked_hours = hours(Array.from(byDay.values()).reduce((sum, ms) => sum + ms, 0));
+  }
+
+  const summary: Partial<Record<AuditFindingType, number>> = {};
+  const reports = Array.from(users.values()).map(({ spans: _spans, ...audit }) => {
+    audit.findings.sort(
+      (a, b) =>
+        AUDIT_FINDING_TYPES.indexOf(a.type) - AUDIT_FINDING_TYPES.indexOf(b.type) ||
+        (a.date ?? '').localeCompare(b.date ?? '')
+    );
+    for (const finding of audit.findings) {
+      summary[finding.type] = (summary[finding.type] ?? 0) + 1;
+    }
+    return audit;
+  });
+
+  return {
+    timezone: options.timezone,
+    range: { start: stamp(options.start_date), end: stamp(options.end_date) },
+    checked: {
+      entries: all.length - running,
+      running_timers: running,
+      users: reports.length,
+      working_days: workingDays.length,
+    },
+    summary,
+    users: reports.sort((a, b) => b.findings.length - a.findings.length || a.username.localeCompare(b.username)),
+  };
+}
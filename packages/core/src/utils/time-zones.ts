@@ -0,0 +1,128 @@
+/**
+ * Calendar arithmetic in an IANA time zone, on top of Intl alone. Used by the
+ * time tracking reports to cut entries at local midnight and to attribute
+ * them to local days.
+ */
+
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock fields of an instant in a zone. */
+export function wallClock(
+  ms: number,
+  timeZone: string
+): LocalDate & { hour: number; minute: number; second: number } {
+  const fields: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+/** The local date an instant falls on. */
+export function localDateOf(ms: number, timeZone: string): LocalDate {
+  const { year, month, day } = wallClock(ms, timeZone);
+  return { year, month, day };
+}
+
+/** The zone's UTC offset at an instant, in ms. */
+function offsetAt(ms: number, timeZone: string): number {
+  const wall = wallClock(ms, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - (ms - (((ms % 1000) + 1000) % 1000));
+}
+
+/** The instant a local date starts. Day overflow (day 32) rolls into the next month. */
+export function startOfLocalDay(date: LocalDate, timeZone: string): number {
+  const wall = Date.UTC(date.year, date.month - 1, date.day);
+  // Second pass settles days whose midnight sits on the other side of a DST change
+  const guess = wall - offsetAt(wall, timeZone);
+  return wall - offsetAt(guess, timeZone);
+}
+
+/** Calendar arithmetic on a local date, independent of any zone. */
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/** 0 = Sunday … 6 = Saturday. */
+export const weekdayOf = (date: LocalDate): number =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** YYYY-MM-DD */
+export const isoDate = (date: LocalDate): string => `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+
+/** YYYY-MM */
+export const isoMonth = (date: LocalDate): string => `${date.year}-${pad(date.month)}`;
+
+/**
+ * Key of the day, week or month a local date belongs to: YYYY-MM-DD for days
+ * and weeks (the week's first day), YYYY-MM for months.
+ */
+export function periodKey(
+  date: LocalDate,
+  period: 'day' | 'week' | 'month',
+  weekStart: 'monday' | 'sunday' = 'monday'
+): string {
+  switch (period) {
+    case 'month':
+      return isoMonth(date);
+    case 'week':
+      return isoDate(addDays(date, -((weekdayOf(date) - (weekStart === 'monday' ? 1 : 0) + 7) % 7)));
+    default:
+      return isoDate(date);
+  }
+}
+
+/** Cut [start, end) at each local midnight. */
+export function splitAtMidnight(
+  start: number,
+  end: number,
+  timeZone: string
+): Array<{ date: LocalDate; ms: number }> {
+  const pieces: Array<{ date: LocalDate; ms: number }> = [];
+  let cursor = start;
+  while (cursor < end) {
+    const date = localDateOf(cursor, timeZone);
+    const nextMidnight = startOfLocalDay(addDays(date, 1), timeZone);
+    const pieceEnd = nextMidnight > cursor ? Math.min(end, nextMidnight) : end;
+    pieces.push({ date, ms: pieceEnd - cursor });
+    cursor = pieceEnd;
+  }
+  return pieces;
+}
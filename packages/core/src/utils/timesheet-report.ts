@@ -0,0 +1,329 @@
+import type {
+  TimesheetBucket,
+  TimesheetDimension,
+  TimesheetFormat,
+} from '../schemas/time-tracking-schemas.js';
+import { periodKey, splitAtMidnight } from './time-zones.js';
+
+/**
+ * Timesheet reports built from raw time entries (clickup_get_timesheet_report).
+ *
+ * Entries are split at local midnight in the report's time zone before they
+ * are bucketed, so a 22:00–02:00 session lands 2h on each day, and each
+ * piece is then clipped to the requested range. Durations stay in
+ * milliseconds throughout; only the renderers convert to hours.
+ */
+
+/** The subset of a ClickUp time entry the report reads. */
+export interface ReportableTimeEntry {
+  id: string;
+  task?: { id: string; name?: string } | null;
+  user: { id: number; username?: string; email?: string };
+  billable: boolean;
+  start: string;
+  end?: string | null;
+  duration: string;
+  tags?: Array<{ name: string }>;
+  // Present when the entries were fetched with include_location_names
+  task_location?: {
+    list_id?: string;
+    list_name?: string;
+    folder_id?: string;
+    folder_name?: string;
+    space_id?: string;
+    space_name?: string;
+  };
+}
+
+export interface TimesheetReportOptions {
+  group_by: TimesheetDimension[];
+  bucket: TimesheetBucket;
+  timezone: string;
+  week_start?: 'monday' | 'sunday';
+  billable?: 'all' | 'billable' | 'non_billable';
+  /** Clip entries to this range (Unix ms). */
+  start_date?: number;
+  end_date?: number;
+}
+
+export interface TimesheetRow {
+  /** Display label per grouped dimension. */
+  group: Partial<Record<TimesheetDimension, string>>;
+  /** Milliseconds per bucket key; empty when bucket is 'none'. */
+  by_bucket: Record<string, number>;
+  total_ms: number;
+  billable_ms: number;
+  entry_count: number;
+}
+
+export interface TimesheetReport {
+  timezone: string;
+  bucket: TimesheetBucket;
+  group_by: TimesheetDimension[];
+  range: { start?: string; end?: string };
+  /** Bucket keys in order: YYYY-MM-DD for days and weeks (the week's first day), YYYY-MM for months. */
+  buckets: string[];
+  rows: TimesheetRow[];
+  totals: {
+    by_bucket: Record<string, number>;
+    total_ms: number;
+    billable_ms: number;
+    non_billable_ms: number;
+    entry_count: number;
+  };
+  notes: string[];
+}
+
+// ========================================
+// GROUPING
+// ========================================
+
+interface DimensionValue {
+  id: string;
+  label: string;
+}
+
+function dimensionValues(entry: ReportableTimeEntry, dimension: TimesheetDimension): DimensionValue[] {
+  const location = entry.task_location ?? {};
+  const located = (id: string | undefined, name: string | undefined, kind: string): DimensionValue[] =>
+    entry.task ? [{ id: id ?? '', label: name ?? id ?? `(unknown ${kind})` }] : [{ id: '', label: '(no task)' }];
+
+  switch (dimension) {
+    case 'user':
+      return [
+        { id: String(entry.user.id), label: entry.user.username || entry.user.email || String(entry.user.id) },
+      ];
+    case 'task':
+      return entry.task
+        ? [{ id: entry.task.id, label: entry.task.name || entry.task.id }]
+        : [{ id: '', label: '(no task)' }];
+    case 'list':
+      return located(location.list_id, location.list_name, 'list');
+    case 'folder':
+      return located(location.folder_id, location.folder_name, 'folder');
+    case 'space':
+      return located(location.space_id, location.space_name, 'space');
+    case 'tag':
+      return entry.tags && entry.tags.length > 0
+        ? entry.tags.map(tag => ({ id: tag.name, label: tag.name }))
+        : [{ id: '', label: '(untagged)' }];
+    case 'billable':
+      return entry.billable ? [{ id: '1', label: 'billable' }] : [{ id: '0', label: 'non-billable' }];
+    default:
+      return [{ id: '', label: '' }];
+  }
+}
+
+/** Every combination of the entry's values across the grouped dimensions (only tags fan out). */
+function groupsOf(entry: ReportableTimeEntry, dimensions: TimesheetDimension[]): DimensionValue[][] {
+  return dimensions.reduce<DimensionValue[][]>(
+    (combinations, dimension) =>
+      combinations.flatMap(combination => dimensionValues(entry, dimension).map(value => [...combination, value])),
+    [[]]
+  );
+}
+
+/**
+ * Group and bucket time entries. Running timers (no end yet) are left out
+ * and counted in the notes.
+ */
+export function buildTimesheetReport(
+  entries: ReportableTimeEntry[],
+  options: TimesheetReportOptions
+): TimesheetReport {
+  const weekStart = options.week_start ?? 'monday';
+  const billable = options.billable ?? 'all';
+  const rangeStart = options.start_date ?? -Infinity;
+  const rangeEnd = options.end_date ?? Infinity;
+
+  const rows = new Map<string, TimesheetRow & { entries: Set<string> }>();
+  const buckets = new Set<string>();
+  const totals: TimesheetReport['totals'] = {
+    by_bucket: {},
+    total_ms: 0,
+    billable_ms: 0,
+    non_billable_ms: 0,
+    entry_count: 0,
+  };
+  let running = 0;
+  let splitEntries = 0;
+  let multiTagged = 0;
+
+  for (const entry of entries) {
+    if ((billable === 'billable' && !entry.billable) || (billable === 'non_billable' && entry.billable)) {
+      continue;
+    }
+    const start = Number(entry.start);
+    const duration = Number(entry.duration);
+    const end = Number(entry.end) > 0 ? Number(entry.end) : start + duration;
+    if (!(duration >= 0) || !(end > start)) {
+      running++;
+      continue;
+    }
+
+    const pieces = splitAtMidnight(Math.max(start, rangeStart), Math.min(end, rangeEnd), options.timezone);
+    if (pieces.length === 0) {
+      continue;
+    }
+    if (pieces.length > 1) {
+      splitEntries++;
+    }
+    if (options.group_by.includes('tag') && (entry.tags?.length ?? 0) > 1) {
+      multiTagged++;
+    }
+
+    const keyed = pieces.map(piece => ({
+      bucket: options.bucket === 'none' ? undefined : periodKey(piece.date, options.bucket, weekStart),
+      ms: piece.ms,
+    }));
+    const tracked = pieces.reduce((sum, piece) => sum + piece.ms, 0);
+    totals.total_ms += tracked;
+    totals[entry.billable ? 'billable_ms' : 'non_billable_ms'] += tracked;
+    totals.entry_count++;
+
+    for (const group of groupsOf(entry, options.group_by)) {
+      const key = group.map(value => value.id || value.label).join('\u0000');
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          group: Object.fromEntries(options.group_by.map((dimension, index) => [dimension, group[index].label])),
+          by_bucket: {},
+          total_ms: 0,
+          billable_ms: 0,
+          entry_count: 0,
+          entries: new Set(),
+        };
+        rows.set(key, row);
+      }
+      for (const { bucket, ms } of keyed) {
+        if (bucket !== undefined) {
+          row.by_bucket[bucket] = (row.by_bucket[bucket] ?? 0) + ms;
+        }
+      }
+      row.total_ms += tracked;
+      if (entry.billable) {
+        row.billable_ms += tracked;
+      }
+      row.entries.add(entry.id);
+    }
+
+    for (const { bucket, ms } of keyed) {
+      if (bucket !== undefined) {
+        buckets.add(bucket);
+        totals.by_bucket[bucket] = (totals.by_bucket[bucket] ?? 0) + ms;
+      }
+    }
+  }
+
+  const notes: string[] = [];
+  if (running > 0) {
+    notes.push(`${running} running timer(s) left out until they are stopped.`);
+  }
+  if (splitEntries > 0) {
+    notes.push(
+      `${splitEntries} entr${splitEntries === 1 ? 'y' : 'ies'} crossed midnight (${options.timezone}) and ${
+        splitEntries === 1 ? 'was' : 'were'
+      } split across days.`
+    );
+  }
+  if (multiTagged > 0) {
+    notes.push(
+      `${multiTagged} entr${multiTagged === 1 ? 'y has' : 'ies have'} several tags and count toward each, ` +
+        'so rows add up to more than the total.'
+    );
+  }
+
+  const labelOf = (row: TimesheetRow) => options.group_by.map(dimension => row.group[dimension] ?? '');
+  return {
+    timezone: options.timezone,
+    bucket: options.bucket,
+    group_by: options.group_by,
+    range: {
+      ...(options.start_date !== undefined && { start: new Date(options.start_date).toISOString() }),
+      ...(options.end_date !== undefined && { end: new Date(options.end_date).toISOString() }),
+    },
+    buckets: Array.from(buckets).sort(),
+    rows: Array.from(rows.values())
+      .map(({ entries: ids, ...row }) => ({ ...row, entry_count: ids.size }))
+      .sort((a, b) => {
+        const [left, right] = [labelOf(a), labelOf(b)];
+        for (let i = 0; i < left.length; i++) {
+          const order = left[i].localeCompare(right[i]);
+          if (order !== 0) return order;
+        }
+        return 0;
+      }),
+    totals,
+    notes,
+  };
+}
+
+// ========================================
+// RENDERING
+// ========================================
+
+const hours = (ms: number) => (ms / 3600000).toFixed(2);
+
+function tableOf(report: TimesheetReport): { header: string[]; rows: string[][] } {
+  return {
+    header: [...report.group_by, ...report.buckets, 'total_hours', 'billable_hours', 'entries'],
+    rows: report.rows.map(row => [
+      ...report.group_by.map(dimension => row.group[dimension] ?? ''),
+      ...report.buckets.map(bucket => hours(row.by_bucket[bucket] ?? 0)),
+      hours(row.total_ms),
+      hours(row.billable_ms),
+      String(row.entry_count),
+    ]),
+  };
+}
+
+/** RFC 4180, with text that a spreadsheet would run as a formula prefixed by an apostrophe. */
+function renderCsv(report: TimesheetReport): string {
+  const { header, rows } = tableOf(report);
+  const textColumns = report.group_by.length;
+  const cell = (value: string, column: number) => {
+    const safe = column < textColumns && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  };
+  return [header, ...rows].map(row => row.map(cell).join(',')).join('\r\n');
+}
+
+function renderMarkdown(report: TimesheetReport): string {
+  const { header, rows } = tableOf(report);
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const { start, end } = report.range;
+  const range = start || end ? ` · ${start ?? '…'} → ${end ?? '…'}` : '';
+  const bucketing = report.bucket === 'none' ? '' : ` · ${report.bucket}ly buckets`;
+
+  const lines = [
+    `**Timesheet** (${report.timezone})${range}${bucketing} · grouped by ${report.group_by.join(', ')}`,
+    '',
+    `| ${header.map(cell).join(' | ')} |`,
+    `|${header.map((_, index) => (index < report.group_by.length ? '---' : '---:')).join('|')}|`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+    `| **Total** |${' |'.repeat(report.group_by.length - 1)} ${[
+      ...report.buckets.map(bucket => hours(report.totals.by_bucket[bucket] ?? 0)),
+      hours(report.totals.total_ms),
+      hours(report.totals.billable_ms),
+      String(report.totals.entry_count),
+    ]
+      .map(value => `**${value}**`)
+      .join(' | ')} |`,
+  ];
+  if (report.notes.length > 0) {
+    lines.push('', ...report.notes.map(note => `- ${note}`));
+  }
+  return lines.join('\n');
+}
+
+/** Render a timesheet report; hours are decimal with two places in the tabular formats. */
+export function renderTimesheetReport(report: TimesheetReport, format: TimesheetFormat): string {
+  switch (format) {
+    case 'csv':
+      return renderCsv(report);
+    case 'markdown':
+      return renderMarkdown(report);
+    default:
+      return JSON.stringify(report, null, 2);
+  }
+}
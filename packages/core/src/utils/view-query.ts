@@ -0,0 +1,679 @@
+import type { FilterOperator, ViewFilter } from '../schemas/views-schemas.js';
+import { addDays, localDateOf, startOfLocalDay } from './time-zones.js';
+
+/**
+ * A small query language for view filters, so tools can take
+ *
+ *   status in ("in progress", "review") and assignee = me and due < +7d and cf."Story Points" >= 3
+ *
+ * instead of raw {field, op, values} triples. A query is parsed here, its
+ * names are resolved and it is compiled to ViewFilter[] for setViewFilters;
+ * the compiled form also filters task lists locally (clickup_get_tasks).
+ *
+ * Grammar (keywords are case-insensitive):
+ *   query     := condition (("and" | "or") condition)*   — one connective per query
+ *   condition := field predicate
+ *   field     := status | assignee | watcher | creator | priority | tag | due | start
+ *              | created | updated | closed | cf.<name> | cf."<name>" | cf_<field id>
+ *   predicate := ("=" | "!=" | "<" | "<=" | ">" | ">=") value
+ *              | ["not"] "in" list | ["not"] "all" list
+ *              | "is" ["not"] ("null" | "empty") | "between" value "and" value
+ *   list      := "(" value ("," value)* ")"
+ *   value     := word | "quoted string"
+ *
+ * Dates are `now`, `today`, `tomorrow`, `yesterday`, relative offsets
+ * (`+7d`, `-2w`, `+3h`), `YYYY-MM-DD` or a full ISO timestamp. Day values
+ * cover the whole local day: `due = today` is a range, `due > today` starts
+ * tomorrow.
+ */
+
+export type ViewQueryConnective = 'AND' | 'OR';
+
+export interface ViewQueryCondition {
+  // Built-in field key (status, assignee, …) or a custom field's name or ID
+  field: string;
+  custom: boolean;
+  op: FilterOperator;
+  values: string[];
+  // The condition as written, for error messages
+  text: string;
+}
+
+export interface ParsedViewQuery {
+  op: ViewQueryConnective;
+  conditions: ViewQueryCondition[];
+}
+
+export interface ViewQueryCustomField {
+  id: string;
+  name: string;
+  type: string;
+  type_config?: {
+    options?: Array<{ id: string; name?: string; label?: string; orderindex?: number }>;
+  };
+}
+
+/** Name lookups against the query's target list; each throws when a name does not resolve. */
+export interface ViewQueryResolvers {
+  status(name: string): Promise<string>;
+  user(ref: string): Promise<number>;
+  customField(ref: string): Promise<ViewQueryCustomField>;
+}
+
+export interface CompiledViewQuery {
+  op: ViewQueryConnective;
+  filters: ViewFilter[];
+  // Custom fields the filters reference, by ID, for local matching
+  custom_fields: Record<string, ViewQueryCustomField>;
+}
+
+type FieldKind =
+  | 'status'
+  | 'user'
+  | 'users'
+  | 'priority'
+  | 'tags'
+  | 'date'
+  | 'number'
+  | 'text'
+  | 'option'
+  | 'options'
+  | 'checkbox';
+
+const BUILT_IN_FIELDS: Record<string, { field: string; kind: FieldKind }> = {
+  status: { field: 'status', kind: 'status' },
+  assignee: { field: 'assignee', kind: 'users' },
+  watcher: { field: 'watcher', kind: 'users' },
+  creator: { field: 'creator', kind: 'user' },
+  priority: { field: 'priority', kind: 'priority' },
+  tag: { field: 'tag', kind: 'tags' },
+  due: { field: 'dueDate', kind: 'date' },
+  start: { field: 'startDate', kind: 'date' },
+  created: { field: 'dateCreated', kind: 'date' },
+  updated: { field: 'dateUpdated', kind: 'date' },
+  closed: { field: 'dateClosed', kind: 'date' },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  assignees: 'assignee',
+  watchers: 'watcher',
+  tags: 'tag',
+  due_date: 'due',
+  duedate: 'due',
+  start_date: 'start',
+  startdate: 'start',
+  date_created: 'created',
+  datecreated: 'created',
+  date_updated: 'updated',
+  dateupdated: 'updated',
+  date_closed: 'closed',
+  dateclosed: 'closed',
+};
+
+// Task fields read by local matching, per compiled field token
+const TASK_DATE_FIELDS: Record<string, string> = {
+  dueDate: 'due_date',
+  startDate: 'start_date',
+  dateCreated: 'date_created',
+  dateUpdated: 'date_updated',
+  dateClosed: 'date_closed',
+};
+
+const PRIORITIES: Record<string, string> = { urgent: '1', high: '2', normal: '3', low: '4' };
+
+const SET_OPS: FilterOperator[] = ['EQ', 'NOT', 'ANY', 'NOT ANY', 'IS NULL', 'IS NOT NULL'];
+const ALLOWED_OPS: Record<FieldKind, FilterOperator[]> = {
+  status: SET_OPS,
+  user: SET_OPS,
+  priority: SET_OPS,
+  option: SET_OPS,
+  text: SET_OPS,
+  users: [...SET_OPS, 'ALL', 'NOT ALL'],
+  tags: [...SET_OPS, 'ALL', 'NOT ALL'],
+  options: [...SET_OPS, 'ALL', 'NOT ALL'],
+  date: ['EQ', 'NOT', 'GT', 'GTE', 'LT', 'LTE', 'RANGE', 'IS NULL', 'IS NOT NULL'],
+  number: ['EQ', 'NOT', 'GT', 'GTE', 'LT', 'LTE', 'RANGE', 'IS NULL', 'IS NOT NULL'],
+  checkbox: ['EQ', 'NOT'],
+};
+
+const customFieldKind = (type: string): FieldKind => {
+  switch (type) {
+  case 'number':
+  case 'currency':
+  case 'emoji':
+  case 'progress':
+    return 'number';
+  case 'date':
+    return 'date';
+  case 'drop_down':
+    return 'option';
+  case 'labels':
+    return 'options';
+  case 'users':
+    return 'users';
+  case 'checkbox':
+    return 'checkbox';
+  default:
+    return 'text';
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface Token {
+  type: 'word' | 'string' | 'symbol';
+  value: string;
+  start: number;
+  end: number;
+}
+
+const SYMBOLS = ['!=', '<=', '>=', '=', '<', '>', '(', ')', ',', '.'];
+const WORD_PATTERN = /[+-]?[\p{L}\p{N}_@:+-]+(?:\.[\p{L}\p{N}_@:+-]+)*/uy;
+const COMPARATORS: Record<string, FilterOperator> = {
+  '=': 'EQ',
+  '!=': 'NOT',
+  '<': 'LT',
+  '<=': 'LTE',
+  '>': 'GT',
+  '>=': 'GTE',
+};
+
+const syntaxError = (query: string, at: number, message: string): Error =>
+  new Error(`Invalid view query at position ${at + 1} (…${query.slice(at, at + 20) || 'end'}): ${message}`);
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < query.length && query[end] !== char) {
+        value += query[end] === '\\' && end + 1 < query.length ? query[++end] : query[end];
+        end++;
+      }
+      if (end >= query.length) {
+        throw syntaxError(query, index, 'unterminated string');
+      }
+      tokens.push({ type: 'string', value, start: index, end: end + 1 });
+      index = end + 1;
+      continue;
+    }
+    const symbol = SYMBOLS.find(candidate => query.startsWith(candidate, index));
+    WORD_PATTERN.lastIndex = index;
+    const word = WORD_PATTERN.exec(query);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], start: index, end: index + word[0].length });
+      index += word[0].length;
+    } else if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, start: index, end: index + symbol.length });
+      index += symbol.length;
+    } else {
+      throw syntaxError(query, index, `unexpected character "${char}"`);
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private readonly query: string;
+  private readonly tokens: Token[];
+
+  constructor(query: string, tokens: Token[]) {
+    this.query = query;
+    this.tokens = tokens;
+  }
+
+  parse(): ParsedViewQuery {
+    if (this.tokens.length === 0) {
+      throw new Error('The view query is empty');
+    }
+    const conditions = [this.condition()];
+    let op: ViewQueryConnective | undefined;
+    while (this.peek()) {
+      const token = this.next();
+      const connective = token.type === 'word' ? token.value.toUpperCase() : '';
+      if (connective !== 'AND' && connective !== 'OR') {
+        throw syntaxError(this.query, token.start, 'expected "and" or "or" between conditions');
+      }
+      if (op && op !== connective) {
+        throw syntaxError(
+          this.query,
+          token.start,
+          'a query combines all of its conditions with "and" or all with "or", as ClickUp views do'
+        );
+      }
+      op = connective;
+      conditions.push(this.condition());
+    }
+    return { op: op ?? 'AND', conditions };
+  }
+
+  private condition(): ViewQueryCondition {
+    const start = this.peek()?.start ?? this.query.length;
+    const { field, custom } = this.field();
+    const { op, values } = this.predicate(field);
+    const end = this.tokens[this.index - 1].end;
+    return { field, custom, op, values, text: this.query.slice(start, end) };
+  }
+
+  private field(): { field: string; custom: boolean } {
+    const token = this.next();
+    if (!token || token.type !== 'word') {
+      throw syntaxError(this.query, token?.start ?? this.query.length, 'expected a field name');
+    }
+    const name = token.value.toLowerCase();
+    if (name === 'cf' && this.peekSymbol('.')) {
+      this.next();
+      const custom = this.next();
+      if (!custom || custom.type === 'symbol') {
+        throw syntaxError(this.query, custom?.start ?? this.query.length, 'expected a custom field name after "cf."');
+      }
+      return { field: custom.value, custom: true };
+    }
+    if (name.startsWith('cf.')) {
+      return { field: token.value.slice(3), custom: true };
+    }
+    if (name.startsWith('cf_')) {
+      return { field: token.value.slice(3), custom: true };
+    }
+    const key = FIELD_ALIASES[name] ?? name;
+    if (!BUILT_IN_FIELDS[key]) {
+      throw syntaxError(
+        this.query,
+        token.start,
+        `unknown field "${token.value}"; use one of ${Object.keys(BUILT_IN_FIELDS).join(', ')}, ` +
+          'or cf."Custom Field Name"'
+      );
+    }
+    return { field: key, custom: false };
+  }
+
+  private predicate(field: string): { op: FilterOperator; values: string[] } {
+    const token = this.next();
+    if (token?.type === 'symbol' && COMPARATORS[token.value]) {
+      return { op: COMPARATORS[token.value], values: [this.value()] };
+    }
+    const keyword = token?.type === 'word' ? token.value.toLowerCase() : '';
+    if (keyword === 'in' || keyword === 'all') {
+      return { op: keyword === 'in' ? 'ANY' : 'ALL', values: this.list() };
+    }
+    if (keyword === 'not') {
+      const next = this.next();
+      const negated = next?.type === 'word' ? next.value.toLowerCase() : '';
+      if (negated === 'in' || negated === 'all') {
+        return { op: negated === 'in' ? 'NOT ANY' : 'NOT ALL', values: this.list() };
+      }
+      throw syntaxError(this.query, next?.start ?? this.query.length, 'expected "in" or "all" after "not"');
+    }
+    if (keyword === 'is') {
+      let next = this.next();
+      const negated = next?.type === 'word' && next.value.toLowerCase() === 'not';
+      if (negated) {
+        next = this.next();
+      }
+      const empty = next?.type === 'word' ? next.value.toLowerCase() : '';
+      if (empty !== 'null' && empty !== 'empty') {
+        throw syntaxError(this.query, next?.start ?? this.query.length, 'expected "null" or "empty" after "is"');
+      }
+      return { op: negated ? 'IS NOT NULL' : 'IS NULL', values: [] };
+    }
+    if (keyword === 'between') {
+      const from = this.value();
+      const and = this.next();
+      if (and?.type !== 'word' || and.value.toLowerCase() !== 'and') {
+        throw syntaxError(this.query, and?.start ?? this.query.length, 'expected "and" in "between … and …"');
+      }
+      return { op: 'RANGE', values: [from, this.value()] };
+    }
+    throw syntaxError(
+      this.query,
+      token?.start ?? this.query.length,
+      `expected an operator after "${field}" (=, !=, <, <=, >, >=, in, not in, all, is null, between)`
+    );
+  }
+
+  private list(): string[] {
+    const open = this.next();
+    if (open?.type !== 'symbol' || open.value !== '(') {
+      throw syntaxError(this.query, open?.start ?? this.query.length, 'expected "(" to start a list of values');
+    }
+    const values = [this.value()];
+    for (;;) {
+      const token = this.next();
+      if (token?.type === 'symbol' && token.value === ')') {
+        return values;
+      }
+      if (token?.type !== 'symbol' || token.value !== ',') {
+        throw syntaxError(this.query, token?.start ?? this.query.length, 'expected "," or ")" in a list of values');
+      }
+      values.push(this.value());
+    }
+  }
+
+  private value(): string {
+    const token = this.next();
+    if (!token || token.type === 'symbol') {
+      throw syntaxError(this.query, token?.start ?? this.query.length, 'expected a value');
+    }
+    return token.value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+}
+
+/** Parse a view query; names are not resolved yet. */
+export function parseViewQuery(query: string): ParsedViewQuery {
+  return new Parser(query, tokenize(query)).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Compiling
+// ---------------------------------------------------------------------------
+
+interface DateValue {
+  start: number;
+  // Set for whole-day values: the start of the next day
+  end?: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/** Parse a date value in a time zone. */
+export function parseQueryDate(value: string, now: number, timeZone: string): DateValue {
+  const lower = value.toLowerCase();
+  const today = localDateOf(now, timeZone);
+  const day = (offset: number): DateValue => {
+    const date = addDays(today, offset);
+    return { start: startOfLocalDay(date, timeZone), end: startOfLocalDay(addDays(date, 1), timeZone) };
+  };
+  if (lower === 'now') {
+    return { start: now };
+  }
+  if (lower === 'today' || lower === 'tomorrow' || lower === 'yesterday') {
+    return day(lower === 'today' ? 0 : lower === 'tomorrow' ? 1 : -1);
+  }
+  const relative = /^([+-])(\d+)([hdw])$/.exec(lower);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+    return relative[3] === 'h' ? { start: now + amount * HOUR } : day(relative[3] === 'w' ? amount * 7 : amount);
+  }
+  const isoDay = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (isoDay) {
+    const date = { year: Number(isoDay[1]), month: Number(isoDay[2]), day: Number(isoDay[3]) };
+    return { start: startOfLocalDay(date, timeZone), end: startOfLocalDay(addDays(date, 1), timeZone) };
+  }
+  if (/^\d{12,13}$/.test(value)) {
+    return { start: Number(value) };
+  }
+  const parsed = /^\d{4}-\d{2}-\d{2}T/.test(value) ? Date.parse(value) : NaN;
+  if (Number.isNaN(parsed)) {
+    throw new Error(
+      `"${value}" is not a date; use now, today, tomorrow, yesterday, +7d, -2w, +3h, YYYY-MM-DD or an ISO timestamp`
+    );
+  }
+  return { start: parsed };
+}
+
+function compileDate(condition: ViewQueryCondition, now: number, timeZone: string): ViewFilter {
+  const [first, second] = condition.values.map(value => parseQueryDate(value, now, timeZone));
+  const { field } = BUILT_IN_FIELDS[condition.field] ?? { field: '' };
+  const filter = (op: FilterOperator, values: number[]): ViewFilter => ({ field, op, values });
+  switch (condition.op) {
+  case 'EQ':
+    return first.end !== undefined ? filter('RANGE', [first.start, first.end - 1]) : filter('EQ', [first.start]);
+  case 'NOT':
+    if (first.end !== undefined) {
+      throw new Error('!= cannot exclude a whole day; use < and > instead');
+    }
+    return filter('NOT', [first.start]);
+  case 'GT':
+    return first.end !== undefined ? filter('GTE', [first.end]) : filter('GT', [first.start]);
+  case 'LTE':
+    return first.end !== undefined ? filter('LT', [first.end]) : filter('LTE', [first.start]);
+  case 'RANGE':
+    return filter('RANGE', [first.start, second.end !== undefined ? second.end - 1 : second.start]);
+  case 'GTE':
+  case 'LT':
+    return filter(condition.op, [first.start]);
+  default:
+    return filter(condition.op, []);
+  }
+}
+
+const optionLabel = (option: { name?: string; label?: string }): string => option.name ?? option.label ?? '';
+
+function compileOption(field: ViewQueryCustomField, value: string): string {
+  const options = field.type_config?.options ?? [];
+  const wanted = value.trim().toLowerCase();
+  const option =
+    options.find(candidate => candidate.id === value) ??
+    options.find(candidate => optionLabel(candidate).trim().toLowerCase() === wanted);
+  if (!option) {
+    throw new Error(
+      `"${value}" is not an option of custom field "${field.name}" (${options.map(optionLabel).join(', ') || 'none'})`
+    );
+  }
+  return option.id;
+}
+
+/**
+ * Resolve a parsed query's names and compile it to view filters. Date values
+ * are read in `timeZone` (default UTC) relative to `now`.
+ */
+export async function compileViewQuery(
+  parsed: ParsedViewQuery,
+  resolvers: ViewQueryResolvers,
+  options: { now?: number; timeZone?: string } = {}
+): Promise<CompiledViewQuery> {
+  const now = options.now ?? Date.now();
+  const timeZone = options.timeZone ?? 'UTC';
+  const filters: ViewFilter[] = [];
+  const customFields: Record<string, ViewQueryCustomField> = {};
+
+  for (const condition of parsed.conditions) {
+    let kind: FieldKind;
+    let token: string;
+    let customField: ViewQueryCustomField | undefined;
+    if (condition.custom) {
+      customField = await resolvers.customField(condition.field);
+      customFields[customField.id] = customField;
+      kind = customFieldKind(customField.type);
+      token = `cf_${customField.id}`;
+    } else {
+      ({ kind, field: token } = BUILT_IN_FIELDS[condition.field]);
+    }
+    if (!ALLOWED_OPS[kind].includes(condition.op)) {
+      const subject = customField ? `custom field "${customField.name}"` : condition.field;
+      throw new Error(
+        `"${condition.text}": ${condition.op} does not apply to ${subject}; use ${ALLOWED_OPS[kind].join(', ')}`
+      );
+    }
+
+    const values: Array<string | number> = [];
+    for (const value of condition.values) {
+      switch (kind) {
+      case 'status':
+        values.push(await resolvers.status(value));
+        break;
+      case 'user':
+      case 'users':
+        values.push(String(await resolvers.user(value)));
+        break;
+      case 'priority': {
+        const priority = PRIORITIES[value.toLowerCase()] ?? (/^[1-4]$/.test(value) ? value : undefined);
+        if (!priority) {
+          throw new Error(`"${condition.text}": priority is urgent, high, normal or low (or 1-4)`);
+        }
+        values.push(priority);
+        break;
+      }
+      case 'tags':
+        values.push(value.toLowerCase());
+        break;
+      case 'number': {
+        const number = Number(value);
+        if (value.trim() === '' || !Number.isFinite(number)) {
+          throw new Error(`"${condition.text}": "${value}" is not a number`);
+        }
+        values.push(number);
+        break;
+      }
+      case 'option':
+      case 'options':
+        values.push(compileOption(customField as ViewQueryCustomField, value));
+        break;
+      case 'checkbox':
+        if (!/^(true|false|yes|no)$/i.test(value)) {
+          throw new Error(`"${condition.text}": a checkbox is true or false`);
+        }
+        values.push(/^(true|yes)$/i.test(value) ? 'true' : 'false');
+        break;
+      default:
+        values.push(value);
+      }
+    }
+
+    if (kind === 'date') {
+      try {
+        filters.push({ ...compileDate(condition, now, timeZone), field: token });
+      } catch (error) {
+        throw new Error(`"${condition.text}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      filters.push({ field: token, op: condition.op, values });
+    }
+  }
+
+  return { op: parsed.op, filters, custom_fields: customFields };
+}
+
+// ---------------------------------------------------------------------------
+// Local matching
+// ---------------------------------------------------------------------------
+
+type TaskLike = Record<string, any>;
+
+const ids = (users: unknown): string[] =>
+  Array.isArray(users) ? users.map(user => String(user?.id ?? user)).filter(id => id !== 'undefined') : [];
+
+/** A task's values for a compiled filter field, as compared by matchesViewQuery. */
+function taskValues(task: TaskLike, field: string, query: CompiledViewQuery): Array<string | number> {
+  if (TASK_DATE_FIELDS[field]) {
+    const value = task[TASK_DATE_FIELDS[field]];
+    return value === null || value === undefined || value === '' ? [] : [Number(value)];
+  }
+  switch (field) {
+  case 'status':
+    return task.status?.status ? [String(task.status.status)] : [];
+  case 'assignee':
+    return ids(task.assignees);
+  case 'watcher':
+    return ids(task.watchers);
+  case 'creator':
+    return task.creator?.id !== undefined ? [String(task.creator.id)] : [];
+  case 'priority': {
+    const priority = task.priority;
+    if (!priority) {
+      return [];
+    }
+    return [String(priority.id ?? PRIORITIES[String(priority.priority ?? priority).toLowerCase()] ?? '')];
+  }
+  case 'tag':
+    return Array.isArray(task.tags) ? task.tags.map((tag: any) => String(tag?.name ?? tag)) : [];
+  }
+
+  const id = field.replace(/^cf_/, '');
+  const definition = query.custom_fields[id];
+  const value = (task.custom_fields ?? []).find((candidate: any) => candidate?.id === id)?.value;
+  const kind = definition ? customFieldKind(definition.type) : 'text';
+  if (kind === 'checkbox') {
+    return [value === true || value === 'true' ? 'true' : 'false'];
+  }
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return [];
+  }
+  switch (kind) {
+  case 'number':
+  case 'date':
+    return [Number(value)];
+  case 'option': {
+    // Tasks carry the chosen option's orderindex (or, in places, its ID)
+    const option = (definition?.type_config?.options ?? []).find(
+      candidate => candidate.id === value || candidate.orderindex === Number(value)
+    );
+    return [option?.id ?? String(value)];
+  }
+  case 'options':
+  case 'users':
+    return ids(value);
+  default:
+    return [String(value)];
+  }
+}
+
+const same = (actual: string | number, wanted: string | number): boolean =>
+  typeof actual === 'number' || typeof wanted === 'number'
+    ? Number(actual) === Number(wanted)
+    : actual.toLowerCase() === wanted.toLowerCase();
+
+function matchesFilter(actual: Array<string | number>, filter: ViewFilter): boolean {
+  const wanted = filter.values ?? [];
+  const includes = (value: string | number) => actual.some(candidate => same(candidate, value));
+  const first = Number(actual[0]);
+  switch (filter.op) {
+  case 'EQ':
+    return wanted.length > 0 && includes(wanted[0]);
+  case 'NOT':
+    return !includes(wanted[0]);
+  case 'ANY':
+    return wanted.some(includes);
+  case 'NOT ANY':
+    return !wanted.some(includes);
+  case 'ALL':
+    return wanted.every(includes);
+  case 'NOT ALL':
+    return !wanted.every(includes);
+  case 'GT':
+    return actual.length > 0 && first > Number(wanted[0]);
+  case 'GTE':
+    return actual.length > 0 && first >= Number(wanted[0]);
+  case 'LT':
+    return actual.length > 0 && first < Number(wanted[0]);
+  case 'LTE':
+    return actual.length > 0 && first <= Number(wanted[0]);
+  case 'RANGE':
+    return actual.length > 0 && first >= Number(wanted[0]) && first <= Number(wanted[1]);
+  case 'IS NULL':
+    return actual.length === 0;
+  case 'IS NOT NULL':
+    return actual.length > 0;
+  default:
+    return false;
+  }
+}
+
+/** Does a task (as returned by the tasks API) satisfy a compiled query? */
+export function matchesViewQuery(task: TaskLike, query: CompiledViewQuery): boolean {
+  const results = query.filters.map(filter => matchesFilter(taskValues(task, filter.field, query), filter));
+  return query.op === 'OR' ? results.some(Boolean) : results.every(Boolean);
+}
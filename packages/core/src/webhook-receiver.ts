@@ -0,0 +1,172 @@
+/* eslint-disable no-console */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { join } from 'path';
+import { verifyWebhookSignature } from './clickup-client/webhooks-enhanced.js';
+import type { WebhookInbox } from './clickup-client/webhook-inbox.js';
+import type { WebhookSecretStore } from './clickup-client/webhook-secrets.js';
+import { WebhookRecorder } from './clickup-client/webhook-fixtures.js';
+import { WebhookPayloadSchema } from './schemas/webhook-schemas.js';
+import { safeJsonParse } from './utils/security.js';
+
+/**
+ * Optional listener for ClickUp webhook deliveries, on when
+ * CLICKUP_WEBHOOK_PORT is set.
+ *
+ *   POST <path>   a delivery (CLICKUP_WEBHOOK_PATH, default /clickup/webhook)
+ *   GET /health   liveness
+ *
+ * A delivery must carry an X-Signature that verifies against the secret of
+ * the webhook it names (see clickup-client/webhook-secrets.ts); anything else
+ * is rejected with 401 and not stored. Verified deliveries go to the webhook
+ * inbox (clickup-client/webhook-inbox.ts). Redeliveries are answered 200 as
+ * well, so ClickUp stops retrying them, but stored once.
+ *
+ * With CLICKUP_WEBHOOK_RECORD_DIR set, verified deliveries (redeliveries too)
+ * are also recorded, scrubbed, to a fixture file there for replay in tests
+ * (see clickup-client/webhook-fixtures.ts); one file per receiver run.
+ *
+ * It listens apart from the MCP transport: ClickUp has to reach it, usually
+ * through a tunnel or reverse proxy, while the MCP endpoint stays private.
+ */
+
+export interface WebhookReceiverOptions {
+  port: number;
+  host: string;
+  path: string;
+  recordDir?: string;
+}
+
+export interface WebhookReceiverHandle {
+  server: Server;
+  url: string;
+  // The fixture file deliveries are recorded to, when recording
+  recordingTo?: string;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PATH = '/clickup/webhook';
+// ClickUp deliveries are a few KB; anything near this is not one
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+/**
+ * Receiver settings from CLICKUP_WEBHOOK_PORT, CLICKUP_WEBHOOK_HOST,
+ * CLICKUP_WEBHOOK_PATH and CLICKUP_WEBHOOK_RECORD_DIR; undefined when no port
+ * is configured.
+ */
+export function parseWebhookReceiverOptions(
+  env: Record<string, string | undefined> = process.env
+): WebhookReceiverOptions | undefined {
+  const rawPort = env.CLICKUP_WEBHOOK_PORT?.trim();
+  if (!rawPort) {
+    return undefined;
+  }
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid CLICKUP_WEBHOOK_PORT "${rawPort}"`);
+  }
+  const path = env.CLICKUP_WEBHOOK_PATH?.trim() || DEFAULT_PATH;
+  return {
+    port,
+    host: env.CLICKUP_WEBHOOK_HOST?.trim() || DEFAULT_HOST,
+    path: path.startsWith('/') ? path : `/${path}`,
+    ...(env.CLICKUP_WEBHOOK_RECORD_DIR?.trim() && { recordDir: env.CLICKUP_WEBHOOK_RECORD_DIR.trim() }),
+  };
+}
+
+async function readRawBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw httpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Start listening for deliveries and storing them in `inbox`. */
+export async function startWebhookReceiver(
+  options: WebhookReceiverOptions,
+  inbox: WebhookInbox,
+  secrets: WebhookSecretStore
+): Promise<WebhookReceiverHandle> {
+  const recorder = options.recordDir
+    ? new WebhookRecorder(join(options.recordDir, `webhooks-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`))
+    : undefined;
+
+  const receive = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const body = await readRawBody(req);
+    let parsed: unknown;
+    try {
+      parsed = safeJsonParse(body, MAX_BODY_BYTES);
+    } catch {
+      throw httpError(400, 'Request body is not valid JSON');
+    }
+    const result = WebhookPayloadSchema.safeParse(parsed);
+    if (!result.success) {
+      throw httpError(400, 'Not a ClickUp webhook delivery');
+    }
+    const payload = result.data;
+
+    // Verify before storing anything; the webhook ID is only trusted once it does
+    const secret = secrets.get(payload.webhook_id);
+    const signature = req.headers['x-signature'];
+    if (!secret || typeof signature !== 'string' || !verifyWebhookSignature({ payload: body, signature, secret })) {
+      throw httpError(401, secret ? 'Invalid X-Signature' : `No secret stored for webhook ${payload.webhook_id}`);
+    }
+
+    recorder?.record(payload, req.headers);
+    // The event belongs to whoever created the webhook
+    const { duplicate, event } = inbox.add(payload, body, Date.now(), secrets.getScope(payload.webhook_id));
+    sendJson(res, 200, { status: duplicate ? 'duplicate' : 'stored', event_id: event.id });
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok' });
+      } else if (url.pathname === options.path && req.method === 'POST') {
+        await receive(req, res);
+      } else {
+        throw httpError(404, `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error: unknown) {
+      const status = (error as Partial<HttpError>).status ?? 500;
+      if (status === 500 || status === 401) {
+        console.error('ClickUp webhook receiver:', error instanceof Error ? error.message : error);
+      }
+      if (!res.headersSent) {
+        sendJson(res, status, { error: error instanceof Error ? error.message : 'Internal server error' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    server,
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}${options.path}`,
+    ...(recorder && { recordingTo: recorder.filePath }),
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -69,6 +69,8 @@ export default {
   // Module name mapping
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // Run against the shared package's sources, so tests never see a stale build
+    '^@chykalophia/clickup-mcp-shared$': '<rootDir>/../shared/src/index.ts',
     // Strip the .js extension from relative imports so jest resolves them to
     // the .ts sources. The extension is mandatory in the emitted output —
     // Node's ESM loader does not do extension guessing — but the files on disk
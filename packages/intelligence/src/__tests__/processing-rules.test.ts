@@ -0,0 +1,184 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  compileProcessingRule,
+  evaluateCondition,
+  ProcessingRuleDefinitionSchema,
+  RuleConditionSchema,
+  ruleMatches,
+  renderTemplate,
+} from '../services/processing-rules';
+import { ProcessingRuleStore } from '../services/processing-rule-store';
+import { toRealTimeDataEvent } from '../services/real-time-data-service';
+
+const statusChange = (from: string, to: string) =>
+  toRealTimeDataEvent({
+    webhook_id: 'wh1',
+    event: 'taskStatusUpdated',
+    task_id: 'task1',
+    history_items: [
+      { id: 'h1', field: 'status', before: { status: from, type: 'open' }, after: { status: to, type: 'custom' } },
+    ],
+  });
+
+const fieldChange = (field: string, extra: Record<string, unknown>) =>
+  toRealTimeDataEvent({
+    webhook_id: 'wh1',
+    event: 'taskUpdated',
+    task_id: 'task2',
+    history_items: [{ id: 'h2', field, ...extra }],
+  });
+
+const reviewRule = {
+  id: 'review-done',
+  eventType: 'status_changed',
+  when: { type: 'status', from: 'In Review', to: 'done' },
+  actions: [
+    { type: 'comment', text: 'Moved from {{status_from}} to {{status_to}} ({{rule_id}})' },
+    { type: 'enqueue_follow_up', note: 'Check release notes for {{task_id}}', delayMinutes: 60 },
+  ],
+};
+
+describe('Processing rule language', () => {
+  it('validates rules and rejects code, unknown actions and unknown placeholders', () => {
+    expect(ProcessingRuleDefinitionSchema.parse(reviewRule).priority).toBe(1);
+
+    const legacy = ProcessingRuleDefinitionSchema.safeParse({
+      id: 'legacy',
+      eventType: 'task_created',
+      condition: 'process.exit(1)',
+      action: 'require("child_process")',
+    });
+    expect(legacy.success).toBe(false);
+
+    const unknownAction = ProcessingRuleDefinitionSchema.safeParse({
+      ...reviewRule,
+      actions: [{ type: 'run_script', script: 'rm -rf /' }],
+    });
+    expect(unknownAction.success).toBe(false);
+
+    const badTemplate = ProcessingRuleDefinitionSchema.safeParse({
+      ...reviewRule,
+      actions: [{ type: 'comment', text: 'Hi {{process.env.CLICKUP_API_TOKEN}} {{secret}}' }],
+    });
+    expect(badTemplate.success).toBe(false);
+
+    const noWorkspace = ProcessingRuleDefinitionSchema.safeParse({
+      ...reviewRule,
+      actions: [{ type: 'move_list', listId: 901 }],
+    });
+    expect(noWorkspace.success).toBe(false);
+    expect(noWorkspace.success ? '' : noWorkspace.error.issues[0].message).toBe(
+      "move_list needs the rule's workspaceId"
+    );
+  });
+
+  it('evaluates typed conditions over webhook payloads', () => {
+    const condition = (value: unknown) => RuleConditionSchema.parse(value);
+
+    expect(evaluateCondition(condition({ type: 'status', to: 'DONE' }), statusChange('in review', 'done'))).toBe(true);
+    expect(evaluateCondition(condition({ type: 'status', from: 'open' }), statusChange('in review', 'done'))).toBe(
+      false
+    );
+    expect(
+      evaluateCondition(
+        condition({ type: 'priority', in: ['urgent', 'high'] }),
+        fieldChange('priority', { before: null, after: { id: '1', priority: 'urgent' } })
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        condition({ type: 'assignee', userId: 42, change: 'added' }),
+        fieldChange('assignee_add', { after: { id: 42, username: 'sam' } })
+      )
+    ).toBe(true);
+
+    const budget = fieldChange('custom_field', { custom_field: { id: 'cf-budget' }, before: '100', after: '2500' });
+    expect(
+      evaluateCondition(
+        condition({
+          type: 'all',
+          conditions: [
+            { type: 'event', events: ['taskUpdated'] },
+            { type: 'custom_field', fieldId: 'cf-budget', operator: 'greater_than', value: 1000 },
+            { type: 'not', condition: { type: 'custom_field', fieldId: 'cf-budget', operator: 'equals', value: 5000 } },
+          ],
+        }),
+        budget
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(condition({ type: 'custom_field', fieldId: 'cf-other', operator: 'changed' }), budget)
+    ).toBe(false);
+  });
+
+  it('matches on event type and fills templates from the event', () => {
+    const rule = ProcessingRuleDefinitionSchema.parse(reviewRule);
+    const event = statusChange('In Review', 'Done');
+
+    expect(ruleMatches(rule, event)).toBe(true);
+    expect(ruleMatches(rule, { ...event, type: 'task_update' })).toBe(false);
+    expect(renderTemplate('{{ task_id }}: {{status_from}} -> {{status_to}}, {{priority}}', rule, event)).toBe(
+      'task1: in review -> done, '
+    );
+  });
+
+  it('runs actions in order through the runner', async () => {
+    const rule = ProcessingRuleDefinitionSchema.parse(reviewRule);
+    const run = jest.fn(async () => undefined);
+    const compiled = compileProcessingRule(rule, run);
+    const event = statusChange('in review', 'done');
+
+    expect(compiled.condition(event)).toBe(true);
+    await compiled.action(event);
+
+    expect(run.mock.calls.map(([action]: any[]) => action.type)).toEqual(['comment', 'enqueue_follow_up']);
+  });
+});
+
+describe('ProcessingRuleStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'processing-rules-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps rules and follow-ups across restarts and keeps invalid stored rules without running them', () => {
+    const filePath = join(dir, 'processing-rules.json');
+    const store = new ProcessingRuleStore(filePath);
+    store.saveRule(ProcessingRuleDefinitionSchema.parse(reviewRule));
+    const followUp = store.enqueueFollowUp(
+      { ruleId: 'review-done', taskId: 'task1', note: 'Check', dueAt: 5000 },
+      1000
+    );
+
+    const stored = JSON.parse(readFileSync(filePath, 'utf8'));
+    stored.rules.push({ id: 'tampered', eventType: 'task_created', condition: 'true', action: 'process.exit()' });
+    writeFileSync(filePath, JSON.stringify(stored));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const reloaded = new ProcessingRuleStore(filePath);
+    expect(reloaded.getRules().map(rule => rule.id)).toEqual(['review-done']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping invalid stored rule tampered'));
+    expect(reloaded.getInvalidRules()).toEqual([
+      { id: 'tampered', error: expect.any(String), rule: stored.rules[1] },
+    ]);
+    expect(reloaded.getFollowUps({ now: 4999 })).toEqual([]);
+    expect(reloaded.getFollowUps({ now: 5000 })).toEqual([followUp]);
+
+    expect(reloaded.completeFollowUps([followUp.id, 'unknown'], 6000)).toEqual([followUp.id]);
+    expect(new ProcessingRuleStore(filePath).getFollowUps({ now: 7000 })).toEqual([]);
+    expect(reloaded.removeRule('review-done')).toBe(true);
+    expect(new ProcessingRuleStore(filePath).getRules()).toEqual([]);
+
+    // Saving other changes writes the invalid rule back as it was
+    expect(JSON.parse(readFileSync(filePath, 'utf8')).rules).toEqual([stored.rules[1]]);
+    expect(reloaded.removeRule('tampered')).toBe(true);
+    expect(new ProcessingRuleStore(filePath).getInvalidRules()).toEqual([]);
+  });
+});
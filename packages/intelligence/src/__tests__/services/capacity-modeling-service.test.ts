@@ -130,6 +130,33 @@ describe('CapacityModelingService', () => {
       await expect(service.modelCapacity(invalidInput)).rejects.toThrow();
     });
 
+    it('should scale effective capacity by measured estimate accuracy', async () => {
+      const member = {
+        userId: 'user-1',
+        name: 'Alice',
+        role: 'Frontend',
+        skills: ['react'],
+        experienceLevel: 'mid' as const,
+        availabilityHours: 40,
+        focusFactor: 0.75,
+      };
+      const input = {
+        teamId: 'accuracy-team-123',
+        sprintStartDate: '2026-01-05T00:00:00.000Z',
+        sprintEndDate: '2026-01-16T00:00:00.000Z',
+        teamMembers: [member, { ...member, userId: 'user-2', name: 'Bob', estimateAccuracy: 1.5 }],
+      };
+
+      const result = await service.modelCapacity(input);
+      const [alice, bob] = result.individualCapacities;
+
+      expect(bob.adjustedCapacity.focusHours).toBe(alice.adjustedCapacity.focusHours);
+      expect(bob.adjustedCapacity.effectiveStoryPoints).toBeCloseTo(alice.adjustedCapacity.effectiveStoryPoints / 1.5, 1);
+      expect(result.metadata.assumptions).toEqual(
+        expect.arrayContaining([expect.stringContaining('measured estimate accuracy')])
+      );
+    });
+
     it('should calculate skill-based capacity correctly', async () => {
       const mockUsers = TestDataGenerator.generateMockUsers(3);
       
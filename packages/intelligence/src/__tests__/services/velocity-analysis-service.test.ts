@@ -77,6 +77,28 @@ describe('VelocityAnalysisService', () => {
       expect(result.prediction.factors).toBeInstanceOf(Array);
     });
 
+    it('should analyze supplied historical trends instead of fetched data', async () => {
+      const historicalTrends = [20, 24, 22, 26].map((storyPoints, index) => ({
+        period: `2026-01-${String(5 + index * 7).padStart(2, '0')} to 2026-01-${String(12 + index * 7).padStart(2, '0')}`,
+        storyPoints,
+        tasksCompleted: 5,
+        teamSize: 2,
+        velocityPerPerson: storyPoints / 2,
+        confidence: 0.9,
+      }));
+
+      const result = await service.analyzeVelocity({
+        teamId: 'measured-team-123',
+        lookbackPeriod: 3,
+        historicalTrends,
+      });
+
+      // Only the latest lookbackPeriod periods are used
+      expect(result.historicalTrends).toEqual(historicalTrends.slice(-3));
+      expect(result.currentVelocity.average).toBe(24);
+      expect(result.currentVelocity.median).toBe(24);
+    });
+
       // QUARANTINED: pre-existing stale test asserting an outdated service contract
   // (package never compiled, so this never ran in CI). TODO: rewrite against the
   // current service return shape, then re-enable.
@@ -0,0 +1,221 @@
+import {
+  findChange,
+  parseHistoryItems,
+  parseWebhookEvent,
+  WEBHOOK_EVENTS,
+  webhookEventResource,
+} from '../services/webhook-events';
+import { toRealTimeDataEvent } from '../services/real-time-data-service';
+import { evaluateCondition, RuleConditionSchema } from '../services/processing-rules';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DUE = 1761000000000;
+
+const dueDateMoved = (before: string | null, after: string | null) =>
+  toRealTimeDataEvent({
+    webhook_id: 'wh1',
+    event: 'taskDueDateUpdated',
+    task_id: 'task1',
+    history_items: [
+      {
+        id: 'h1',
+        field: 'due_date',
+        date: '1760869800000',
+        user: { id: 184 },
+        before,
+        after,
+        data: {},
+      },
+    ],
+  });
+
+describe('Webhook event model', () => {
+  it('gives every webhook event a typed variant with its resource IDs', () => {
+    // 13 task events and 3 each for lists, folders, spaces, goals and key results
+    expect(WEBHOOK_EVENTS).toHaveLength(28);
+
+    const ids = {
+      webhook_id: 'wh1',
+      task_id: 't1',
+      list_id: 'l1',
+      folder_id: 'f1',
+      space_id: 's1',
+      goal_id: 'g1',
+      key_result_id: 'k1',
+    };
+    const types = WEBHOOK_EVENTS.map(event => {
+      const parsed = parseWebhookEvent({ ...ids, event });
+      expect(parsed?.event).toBe(event);
+      expect(parsed?.resource).toBe(webhookEventResource(event));
+      return toRealTimeDataEvent({ ...ids, event }).type;
+    });
+
+    expect(new Set(types)).toEqual(
+      new Set([
+        'task_created',
+        'task_update',
+        'task_deleted',
+        'status_changed',
+        'comment_added',
+        'list_changed',
+        'folder_changed',
+        'space_changed',
+        'goal_changed',
+        'key_result_changed',
+      ])
+    );
+    expect(parseWebhookEvent({ ...ids, event: 'keyResultUpdated' })).toMatchObject({
+      resource: 'key_result',
+      keyResultId: 'k1',
+      goalId: 'g1',
+    });
+    expect(parseWebhookEvent({ event: 'listCreated', list: { id: 901 } })).toMatchObject({
+      listId: '901',
+    });
+    expect(parseWebhookEvent({ ...ids, event: 'taskExploded' })).toBeUndefined();
+    expect(toRealTimeDataEvent({ ...ids, event: 'taskExploded' })).toMatchObject({
+      type: 'task_update',
+      webhook: undefined,
+    });
+  });
+
+  it('parses history items into typed changes', () => {
+    const items = parseHistoryItems([
+      {
+        id: 'h1',
+        field: 'due_date',
+        date: '1760869800000',
+        user: { id: 184 },
+        before: String(DUE),
+        after: null,
+      },
+      {
+        id: 'h2',
+        field: 'assignee_rem',
+        user: { id: 184 },
+        before: { id: 7, username: 'sam' },
+        after: null,
+      },
+      { id: 'h3', field: 'tag', after: [{ name: 'blocked' }, { name: 'client' }] },
+      {
+        id: 'h4',
+        field: 'section_moved',
+        before: { id: '901', name: 'Backlog' },
+        after: { id: '902', name: 'Sprint' },
+      },
+      { id: 'h5', field: 'time_estimate', before: '3600000', after: '7200000' },
+      {
+        id: 'h6',
+        field: 'time_spent',
+        after: { id: 'te1', start: '1000', end: '61000', time: '60000' },
+      },
+      {
+        id: 'h7',
+        field: 'custom_field',
+        custom_field: { id: 'cf1', name: 'Budget' },
+        before: '1200',
+        after: '2500',
+      },
+      {
+        id: 'h8',
+        field: 'comment',
+        after: '9001',
+        comment: { id: '9001', text_content: 'Looks good' },
+      },
+      { id: 'h9', field: 'archived', before: false, after: true },
+      'not an item',
+    ]);
+
+    expect(items).toEqual([
+      {
+        id: 'h1',
+        field: 'due_date',
+        date: 1760869800000,
+        userId: '184',
+        kind: 'due_date',
+        from: DUE,
+        to: undefined,
+        shiftMs: undefined,
+      },
+      // userId is who removed the assignee
+      expect.objectContaining({
+        kind: 'assignee',
+        change: 'removed',
+        assigneeId: '7',
+        userId: '184',
+      }),
+      expect.objectContaining({ kind: 'tag', change: 'added', tags: ['blocked', 'client'] }),
+      expect.objectContaining({ kind: 'moved', fromListId: '901', toListId: '902' }),
+      expect.objectContaining({ kind: 'time_estimate', from: 3600000, to: 7200000 }),
+      expect.objectContaining({
+        kind: 'time_tracked',
+        entryId: 'te1',
+        durationMs: 60000,
+        start: 1000,
+        end: 61000,
+      }),
+      expect.objectContaining({
+        kind: 'custom_field',
+        fieldId: 'cf1',
+        fieldName: 'Budget',
+        from: '1200',
+        to: '2500',
+      }),
+      expect.objectContaining({ kind: 'comment', commentId: '9001', text: 'Looks good' }),
+      expect.objectContaining({ kind: 'other', field: 'archived', from: false, to: true }),
+    ]);
+
+    const event = dueDateMoved(String(DUE), String(DUE + 5 * DAY));
+    expect(findChange(event.webhook, 'due_date')?.shiftMs).toBe(5 * DAY);
+    expect(findChange(event.webhook, 'status')).toBeUndefined();
+  });
+
+  it('lets rules react to how far a due date moved', () => {
+    const movedLaterBy3Days = RuleConditionSchema.parse({
+      type: 'due_date',
+      change: 'later',
+      byMoreThanDays: 3,
+    });
+    const condition = (value: unknown) => RuleConditionSchema.parse(value);
+
+    expect(
+      evaluateCondition(movedLaterBy3Days, dueDateMoved(String(DUE), String(DUE + 5 * DAY)))
+    ).toBe(true);
+    expect(
+      evaluateCondition(movedLaterBy3Days, dueDateMoved(String(DUE), String(DUE + 2 * DAY)))
+    ).toBe(false);
+    expect(
+      evaluateCondition(movedLaterBy3Days, dueDateMoved(String(DUE), String(DUE - 5 * DAY)))
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        condition({ type: 'due_date', change: 'earlier', byMoreThanDays: 3 }),
+        dueDateMoved(String(DUE), String(DUE - 5 * DAY))
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        condition({ type: 'due_date', byMoreThanDays: 3 }),
+        dueDateMoved(String(DUE), String(DUE - 5 * DAY))
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        condition({ type: 'due_date', change: 'set' }),
+        dueDateMoved(null, String(DUE))
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        condition({ type: 'due_date', change: 'cleared' }),
+        dueDateMoved(String(DUE), null)
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        condition({ type: 'due_date' }),
+        toRealTimeDataEvent({ webhook_id: 'wh1', event: 'taskUpdated', task_id: 'task1' })
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { join } from 'path';
+import { RealTimeProcessingEngine } from '../services/real-time-processing-engine';
+import {
+  compileProcessingRule,
+  ProcessingRuleDefinitionSchema,
+  resolveAction,
+  RuleAction,
+  RuleActionContext,
+} from '../services/processing-rules';
+import {
+  parseWebhookFixture,
+  readWebhookFixture,
+  replayWebhookFixture,
+} from '../services/webhook-replay';
+
+jest.mock('ws', () => ({
+  WebSocket: jest.fn(),
+  WebSocketServer: jest.fn().mockImplementation(() => ({
+    on: jest.fn(),
+    close: jest.fn(),
+  })),
+}));
+
+// Recorded by the core server's webhook receiver; shared with the core tests
+const lifecycle = () =>
+  readWebhookFixture(
+    join(process.cwd(), '..', 'shared', 'fixtures', 'webhooks', 'task-lifecycle.jsonl')
+  );
+
+const rules = [
+  {
+    id: 'review-requested',
+    eventType: 'status_changed',
+    when: { type: 'status', to: 'in review' },
+    actions: [{ type: 'comment', text: 'Review requested ({{status_from}} -> {{status_to}})' }],
+  },
+  {
+    id: 'over-budget',
+    eventType: 'task_update',
+    when: {
+      type: 'custom_field',
+      fieldId: '0a52c486-5f05-403b-b4fd-c512ff05131c',
+      operator: 'greater_than',
+      value: 2000,
+    },
+    actions: [{ type: 'add_tag', tag: 'over-budget' }],
+  },
+  {
+    id: 'release-check',
+    eventType: 'status_changed',
+    when: { type: 'status', from: 'in review', to: 'complete' },
+    actions: [
+      { type: 'comment', text: 'Closed by {{rule_id}}' },
+      { type: 'enqueue_follow_up', note: 'Check release notes for {{task_id}}', delayMinutes: 60 },
+    ],
+  },
+];
+
+describe('Webhook fixture replay', () => {
+  let engine: RealTimeProcessingEngine;
+  let performed: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    engine = new RealTimeProcessingEngine({
+      enableWebSocket: false,
+      enableCaching: false,
+      enableAnalytics: false,
+      webhookEndpoint: '/webhook',
+      wsPort: 8080,
+      maxLatency: 2000,
+      targetDeliveryRate: 0.999,
+    });
+    performed = [];
+    // Slow actions: the replay must still wait for each one before the next delivery
+    const run = async (action: RuleAction, context: RuleActionContext) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      performed.push({
+        rule: context.rule.id,
+        at: context.event.timestamp,
+        ...resolveAction(action, context),
+      });
+    };
+    rules.forEach(rule =>
+      engine.addProcessingRule(
+        compileProcessingRule(ProcessingRuleDefinitionSchema.parse(rule), run)
+      )
+    );
+  });
+
+  afterEach(async () => {
+    await engine.stop();
+  });
+
+  it('produces the same actions, in order, on every replay', async () => {
+    const results = await replayWebhookFixture(engine, lifecycle());
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(results.map(result => result.event)).toHaveLength(8);
+    expect(performed).toEqual([
+      {
+        rule: 'over-budget',
+        at: 1760869809000,
+        type: 'add_tag',
+        tag: 'over-budget',
+        taskId: '86b1xq2f3',
+      },
+      // ClickUp retried this delivery; the engine does not deduplicate, the core inbox does
+      {
+        rule: 'review-requested',
+        at: 1760869816000,
+        type: 'comment',
+        text: 'Review requested (to do -> in review)',
+        taskId: '86b1xq2f3',
+      },
+      {
+        rule: 'review-requested',
+        at: 1760869846000,
+        type: 'comment',
+        text: 'Review requested (to do -> in review)',
+        taskId: '86b1xq2f3',
+      },
+      {
+        rule: 'release-check',
+        at: 1760869861000,
+        type: 'comment',
+        text: 'Closed by release-check',
+        taskId: '86b1xq2f3',
+      },
+      {
+        rule: 'release-check',
+        at: 1760869861000,
+        type: 'enqueue_follow_up',
+        note: 'Check release notes for 86b1xq2f3',
+        delayMinutes: 60,
+        taskId: '86b1xq2f3',
+      },
+    ]);
+
+    const first = performed;
+    performed = [];
+    await replayWebhookFixture(engine, lifecycle());
+    expect(performed).toEqual(first);
+  });
+
+  it('waits between deliveries at the requested speed', async () => {
+    const waits: number[] = [];
+    await replayWebhookFixture(engine, lifecycle(), {
+      speed: 10,
+      sleep: async ms => {
+        waits.push(ms);
+      },
+    });
+
+    expect(waits).toEqual([150, 270, 480, 700, 3000, 600, 900]);
+    expect(() => parseWebhookFixture('\n{"received_at":1,"payload":{}}')).toThrow(
+      'Fixture line 2 is not a webhook delivery'
+    );
+  });
+});
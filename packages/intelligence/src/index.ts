@@ -47,10 +47,17 @@ import {
   getRealTimeMetrics, 
   stopRealTimeEngine, 
   getCachedTaskData,
+  listProcessingRules,
+  removeProcessingRule,
+  testProcessingRule,
+  getFollowUps,
   startRealTimeEngineSchema,
   processWebhookSchema,
   addProcessingRuleSchema,
   getRealTimeMetricsSchema,
+  removeProcessingRuleSchema,
+  testProcessingRuleSchema,
+  getFollowUpsSchema,
 } from './tools/real-time-tools.js';
 
 // Shared utilities
@@ -257,9 +264,37 @@ class ClickUpIntelligenceServer {
         
         {
           name: 'clickup_add_processing_rule',
-          description: '⚙️ **PROCESSING RULE ENGINE** - Add custom processing rules for real-time event handling. Define conditions and actions for automated responses to ClickUp events.',
+          description: '⚙️ **PROCESSING RULE ENGINE** - Add or replace a declarative processing rule for real-time event handling. A rule names an eventType, an optional `when` condition (event, status transition, priority, assignee, due date move, custom field; combined with all/any/not) and up to 10 actions: comment, set_field, add_tag, move_list, notify_chat, enqueue_follow_up. Action texts may use {{task_id}}, {{event}}, {{event_type}}, {{rule_id}}, {{status_from}}, {{status_to}} and {{priority}}. Rules are saved and re-installed whenever the engine starts.',
           inputSchema: addProcessingRuleSchema,
         },
+
+        {
+          name: 'clickup_list_processing_rules',
+          description: '📋 **PROCESSING RULES** - List the saved processing rules and whether the engine is running them.',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            additionalProperties: false,
+          },
+        },
+
+        {
+          name: 'clickup_remove_processing_rule',
+          description: '🗑️ **REMOVE PROCESSING RULE** - Delete a saved processing rule and stop running it.',
+          inputSchema: removeProcessingRuleSchema,
+        },
+
+        {
+          name: 'clickup_test_processing_rule',
+          description: '🧪 **TEST PROCESSING RULE** - Dry-run a rule (a draft, or a saved one by ruleId) against recorded ClickUp webhook payloads. Reports which events match and the actions each would trigger, with templates filled in; nothing is changed in ClickUp.',
+          inputSchema: testProcessingRuleSchema,
+        },
+
+        {
+          name: 'clickup_get_follow_ups',
+          description: '⏰ **RULE FOLLOW-UPS** - List follow-ups queued by enqueue_follow_up rule actions that are due, earliest first, and mark handled ones done with `complete`.',
+          inputSchema: getFollowUpsSchema,
+        },
         
         {
           name: 'clickup_get_realtime_metrics',
@@ -552,6 +587,22 @@ class ClickUpIntelligenceServer {
             console.log('[Intelligence] Adding processing rule...');
             return await addProcessingRule(args as any);
 
+          case 'clickup_list_processing_rules':
+            console.log('[Intelligence] Listing processing rules...');
+            return await listProcessingRules();
+
+          case 'clickup_remove_processing_rule':
+            console.log('[Intelligence] Removing processing rule...');
+            return await removeProcessingRule(args as any);
+
+          case 'clickup_test_processing_rule':
+            console.log('[Intelligence] Testing processing rule...');
+            return await testProcessingRule(args as any);
+
+          case 'clickup_get_follow_ups':
+            console.log('[Intelligence] Getting rule follow-ups...');
+            return await getFollowUps(args as any);
+
           case 'clickup_get_realtime_metrics':
             console.log('[Intelligence] Getting real-time metrics...');
             return await getRealTimeMetrics(args as any);
@@ -595,7 +646,7 @@ class ClickUpIntelligenceServer {
     console.log('[Intelligence] Phase 1.4: Resource Optimizer ✅');
     console.log('[Intelligence] Phase 1.5: Workflow Intelligence ✅');
     console.log('[Intelligence] Phase 3.1: Real-Time Data Processing Engine ✅');
-    console.log('[Intelligence] Available tools: 21');
+    console.log('[Intelligence] Available tools: 25');
   }
 }
 
@@ -21,6 +21,11 @@ export const TeamMemberSchema = z.object({
   historicalVelocity: z.number().optional().describe('Personal historical velocity (story points per sprint)'),
   availabilityHours: z.number().min(0).max(40).describe('Available hours per week'),
   focusFactor: z.number().min(0).max(1).default(0.75).describe('Focus factor (0-1, typical 0.7-0.8)'),
+  estimateAccuracy: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Measured actual ÷ estimated time (e.g. from clickup_get_estimate_accuracy); 1.5 means work takes 50% longer than estimated'),
 });
 
 export const CapacityConstraintSchema = z.object({
@@ -223,9 +228,10 @@ export class CapacityModelingService {
       const constraintHours = memberConstraints.reduce((sum, c) => sum + c.hoursImpact, 0);
       const availableHours = Math.max(0, totalHours - constraintHours);
       
-      // Apply focus factor
+      // Apply focus factor, then the member's measured estimate overrun
       const focusHours = availableHours * member.focusFactor;
-      const effectiveStoryPoints = focusHours * this.DEFAULT_STORY_POINTS_PER_HOUR * experienceMultiplier;
+      const effectiveStoryPoints =
+        (focusHours * this.DEFAULT_STORY_POINTS_PER_HOUR * experienceMultiplier) / (member.estimateAccuracy ?? 1);
       
       // Analyze skill match
       const skillMatch = this.analyzeSkillMatch(member, skillRequirements);
@@ -572,9 +578,14 @@ export class CapacityModelingService {
       'Working days exclude weekends',
       `Buffer time ${input.includeBufferTime ? 'included' : 'excluded'} at ${(input.bufferPercentage * 100).toFixed(0)}%`,
     ];
+    if (input.teamMembers.some(tm => tm.estimateAccuracy !== undefined)) {
+      assumptions.push('Effective story points divided by each member\'s measured estimate accuracy (actual ÷ estimate)');
+    }
     
     // Assess data quality
-    const hasHistoricalData = input.teamMembers.some(tm => tm.historicalVelocity !== undefined);
+    const hasHistoricalData = input.teamMembers.some(
+      tm => tm.historicalVelocity !== undefined || tm.estimateAccuracy !== undefined
+    );
     const hasDetailedSkills = input.teamMembers.every(tm => tm.skills.length > 0);
     const hasConstraints = input.constraints.length > 0;
     
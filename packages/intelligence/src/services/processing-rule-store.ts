@@ -0,0 +1,166 @@
+/**
+ * Processing Rule Store
+ *
+ * Keeps declarative processing rules, and the follow-ups their
+ * enqueue_follow_up actions create, in a JSON file under the data directory
+ * (CLICKUP_DATA_DIR, default ~/.clickup-mcp, shared with the core server) so
+ * rules survive restarts and are installed whenever the engine starts.
+ * Stored rules are re-validated on load; one that does not validate (say,
+ * written by a newer version) is not run, but is kept in the file as written
+ * and reported by getInvalidRules rather than dropped on the next save.
+ *
+ * @package @chykalophia/clickup-intelligence-mcp-server
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { FollowUpRequest, ProcessingRuleDefinition, ProcessingRuleDefinitionSchema } from './processing-rules.js';
+
+// Oldest completed follow-ups are dropped past this
+const MAX_FOLLOW_UPS = 1000;
+
+export interface FollowUp extends FollowUpRequest {
+  id: string;
+  createdAt: number;
+  doneAt?: number;
+}
+
+/** A stored rule that failed validation, kept verbatim. */
+export interface InvalidStoredRule {
+  id?: string;
+  error: string;
+  rule: unknown;
+}
+
+interface StoreFile {
+  rules: unknown[];
+  followUps: FollowUp[];
+}
+
+export class ProcessingRuleStore {
+  private rules = new Map<string, ProcessingRuleDefinition>();
+  private invalidRules: InvalidStoredRule[] = [];
+  private followUps: FollowUp[] = [];
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  getRules(): ProcessingRuleDefinition[] {
+    return Array.from(this.rules.values());
+  }
+
+  getRule(id: string): ProcessingRuleDefinition | undefined {
+    return this.rules.get(id);
+  }
+
+  /** Stored rules that failed validation; they are not run, and are written back unchanged. */
+  getInvalidRules(): InvalidStoredRule[] {
+    return [...this.invalidRules];
+  }
+
+  /** Add a rule, or replace the rule (valid or not) with the same ID. Returns whether it replaced one. */
+  saveRule(rule: ProcessingRuleDefinition): boolean {
+    const replaced = this.rules.has(rule.id) || this.dropInvalid(rule.id);
+    this.rules.set(rule.id, rule);
+    this.persist();
+    return replaced;
+  }
+
+  removeRule(id: string): boolean {
+    const removed = this.rules.delete(id) || this.dropInvalid(id);
+    if (removed) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  enqueueFollowUp(request: FollowUpRequest, now = Date.now()): FollowUp {
+    const followUp: FollowUp = { id: randomUUID(), ...request, createdAt: now };
+    this.followUps.push(followUp);
+    if (this.followUps.length > MAX_FOLLOW_UPS) {
+      const done = this.followUps.findIndex(entry => entry.doneAt !== undefined);
+      this.followUps.splice(done >= 0 ? done : 0, 1);
+    }
+    this.persist();
+    return followUp;
+  }
+
+  /** Open follow-ups that are due by `now` (all follow-ups with `includeDone`), earliest first. */
+  getFollowUps(options: { now?: number; includeDone?: boolean; includeNotDue?: boolean } = {}): FollowUp[] {
+    const now = options.now ?? Date.now();
+    return this.followUps
+      .filter(entry => options.includeDone || entry.doneAt === undefined)
+      .filter(entry => options.includeNotDue || entry.dueAt <= now)
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /** Mark follow-ups done; returns the IDs that were open. */
+  completeFollowUps(ids: string[], now = Date.now()): string[] {
+    const completed = this.followUps.filter(entry => ids.includes(entry.id) && entry.doneAt === undefined);
+    completed.forEach(entry => {
+      entry.doneAt = now;
+    });
+    if (completed.length > 0) {
+      this.persist();
+    }
+    return completed.map(entry => entry.id);
+  }
+
+  private load(): void {
+    if (!this.filePath) {
+      return;
+    }
+    let stored: Partial<StoreFile>;
+    try {
+      stored = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch {
+      // Missing or unreadable: start empty rather than refuse to start
+      return;
+    }
+    for (const entry of Array.isArray(stored.rules) ? stored.rules : []) {
+      const parsed = ProcessingRuleDefinitionSchema.safeParse(entry);
+      if (parsed.success) {
+        this.rules.set(parsed.data.id, parsed.data);
+      } else {
+        const id = typeof (entry as any)?.id === 'string' ? (entry as any).id : undefined;
+        this.invalidRules.push({ ...(id !== undefined && { id }), error: parsed.error.message, rule: entry });
+        console.warn(`[ProcessingRuleStore] Skipping invalid stored rule ${id ?? '(no id)'}: ${parsed.error.message}`);
+      }
+    }
+    this.followUps = Array.isArray(stored.followUps) ? stored.followUps : [];
+  }
+
+  private dropInvalid(id: string): boolean {
+    const before = this.invalidRules.length;
+    this.invalidRules = this.invalidRules.filter(entry => entry.id !== id);
+    return this.invalidRules.length < before;
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    const contents: StoreFile = {
+      rules: [...this.getRules(), ...this.invalidRules.map(entry => entry.rule)],
+      followUps: this.followUps,
+    };
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, `${JSON.stringify(contents, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+let storeInstance: ProcessingRuleStore | null = null;
+
+/** The server's rule store, under CLICKUP_DATA_DIR. */
+export function createProcessingRuleStore(): ProcessingRuleStore {
+  if (!storeInstance) {
+    const dataDir = process.env.CLICKUP_DATA_DIR?.trim() || join(homedir(), '.clickup-mcp');
+    storeInstance = new ProcessingRuleStore(join(dataDir, 'intelligence', 'processing-rules.json'));
+  }
+  return storeInstance;
+}
@@ -0,0 +1,486 @@
+/**
+ * Declarative Processing Rules
+ *
+ * Rules for the real-time engine as data rather than code: a rule names the
+ * event type it applies to, an optional condition over the event, and the
+ * actions to take, all drawn from a fixed vocabulary and validated by the
+ * schemas below. Nothing in a rule is ever evaluated as JavaScript.
+ *
+ * Conditions read the ClickUp webhook event carried by a RealTimeDataEvent
+ * (its parsed history items for what changed, falling back to task fields for
+ * events that carry a task). Actions are carried out by a RuleActionRunner, so the
+ * same rule can be executed against ClickUp or dry-run against recorded events.
+ *
+ * @package @chykalophia/clickup-intelligence-mcp-server
+ */
+
+import axios from 'axios';
+import { z } from 'zod';
+import { RealTimeDataEvent, REAL_TIME_EVENT_TYPES } from './real-time-data-service.js';
+import { ProcessingRule } from './event-stream-processor.js';
+import { findChange, parseHistoryItems, ParsedHistoryItem } from './webhook-events.js';
+
+// ============================================================================
+// Rule Language
+// ============================================================================
+
+export type RuleCondition =
+  | { type: 'event'; events: string[] }
+  | { type: 'status'; from?: string; to?: string }
+  | { type: 'priority'; in: Array<'urgent' | 'high' | 'normal' | 'low'> }
+  | { type: 'assignee'; userId: string; change: 'added' | 'removed' | 'any' }
+  | { type: 'due_date'; change: 'later' | 'earlier' | 'set' | 'cleared' | 'any'; byMoreThanDays?: number }
+  | {
+      type: 'custom_field';
+      fieldId: string;
+      operator:
+        | 'equals'
+        | 'not_equals'
+        | 'contains'
+        | 'greater_than'
+        | 'less_than'
+        | 'is_set'
+        | 'is_not_set'
+        | 'changed';
+      value?: string | number | boolean;
+    }
+  | { type: 'all'; conditions: RuleCondition[] }
+  | { type: 'any'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition };
+
+/** Placeholders action texts may use; anything else in `{{…}}` is rejected. */
+export const RULE_TEMPLATE_VARIABLES = [
+  'task_id',
+  'event',
+  'event_type',
+  'rule_id',
+  'status_from',
+  'status_to',
+  'priority',
+] as const;
+
+const TEMPLATE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const templateSchema = (max: number) =>
+  z
+    .string()
+    .min(1)
+    .max(max)
+    .refine(
+      text =>
+        [...text.matchAll(TEMPLATE_PATTERN)].every(([, name]) =>
+          (RULE_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+        ),
+      { message: `Unknown placeholder; use one of ${RULE_TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}` }
+    );
+
+const ruleIdSchema = z.union([z.string().min(1), z.number()]).transform(String);
+
+export const RuleConditionSchema: z.ZodType<RuleCondition, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('event'),
+      events: z.array(z.string().min(1)).min(1).describe('ClickUp webhook event names, e.g. taskMoved'),
+    }),
+    z.object({
+      type: z.literal('status'),
+      from: z.string().min(1).optional().describe('Status before the change (case-insensitive)'),
+      to: z.string().min(1).optional().describe('Status after the change (case-insensitive)'),
+    }),
+    z.object({
+      type: z.literal('priority'),
+      in: z.array(z.enum(['urgent', 'high', 'normal', 'low'])).min(1),
+    }),
+    z.object({
+      type: z.literal('assignee'),
+      userId: ruleIdSchema,
+      change: z.enum(['added', 'removed', 'any']).default('any'),
+    }),
+    z.object({
+      type: z.literal('due_date'),
+      change: z.enum(['later', 'earlier', 'set', 'cleared', 'any']).default('any'),
+      byMoreThanDays: z
+        .number()
+        .min(0)
+        .optional()
+        .describe('For later, earlier and any: how far the due date must move'),
+    }),
+    z.object({
+      type: z.literal('custom_field'),
+      fieldId: z.string().min(1),
+      operator: z.enum([
+        'equals',
+        'not_equals',
+        'contains',
+        'greater_than',
+        'less_than',
+        'is_set',
+        'is_not_set',
+        'changed',
+      ]),
+      value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    }),
+    z.object({ type: z.literal('all'), conditions: z.array(RuleConditionSchema).min(1) }),
+    z.object({ type: z.literal('any'), conditions: z.array(RuleConditionSchema).min(1) }),
+    z.object({ type: z.literal('not'), condition: RuleConditionSchema }),
+  ])
+);
+
+export const RuleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('comment'), text: templateSchema(10000) }),
+  z.object({
+    type: z.literal('set_field'),
+    fieldId: z.string().min(1),
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]),
+  }),
+  z.object({ type: z.literal('add_tag'), tag: z.string().min(1).max(100) }),
+  z.object({ type: z.literal('move_list'), listId: ruleIdSchema }),
+  z.object({ type: z.literal('notify_chat'), channelId: z.string().min(1), text: templateSchema(10000) }),
+  z.object({
+    type: z.literal('enqueue_follow_up'),
+    note: templateSchema(1000),
+    delayMinutes: z
+      .number()
+      .int()
+      .min(0)
+      .max(60 * 24 * 90)
+      .default(0),
+  }),
+]);
+
+export const ProcessingRuleDefinitionSchema = z
+  .object({
+    id: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    eventType: z.enum(REAL_TIME_EVENT_TYPES),
+    when: RuleConditionSchema.optional().describe(
+      'Condition the event must meet; omitted matches every event of eventType'
+    ),
+    actions: z.array(RuleActionSchema).min(1).max(10),
+    priority: z.number().default(1),
+    workspaceId: ruleIdSchema.optional().describe('Workspace for move_list and notify_chat actions'),
+  })
+  .superRefine((rule, ctx) => {
+    rule.actions.forEach((action, index) => {
+      if ((action.type === 'move_list' || action.type === 'notify_chat') && !rule.workspaceId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['actions', index],
+          message: `${action.type} needs the rule's workspaceId`,
+        });
+      }
+    });
+  });
+
+export type RuleAction = z.infer<typeof RuleActionSchema>;
+export type ProcessingRuleDefinition = z.infer<typeof ProcessingRuleDefinitionSchema>;
+
+// ============================================================================
+// Reading Events
+// ============================================================================
+
+const historyItems = (event: RealTimeDataEvent): { historyItems: ParsedHistoryItem[] } => ({
+  historyItems: event.webhook?.historyItems ?? parseHistoryItems(event.data?.history_items),
+});
+
+const named = (value: any, key: string): string | undefined => {
+  const name = typeof value === 'string' ? value : value?.[key];
+  return typeof name === 'string' ? name.toLowerCase() : undefined;
+};
+
+/** The status change an event reports, or the task's current status as `to`. */
+export function statusTransition(event: RealTimeDataEvent): { from?: string; to?: string } | undefined {
+  const change = findChange(historyItems(event), 'status');
+  if (change) {
+    return { from: change.from?.toLowerCase(), to: change.to?.toLowerCase() };
+  }
+  const current = named(event.data?.status, 'status');
+  return current ? { to: current } : undefined;
+}
+
+/** The priority an event sets, or the task's current priority. */
+export function eventPriority(event: RealTimeDataEvent): string | undefined {
+  const change = findChange(historyItems(event), 'priority');
+  return change ? change.to?.toLowerCase() : named(event.data?.priority, 'priority');
+}
+
+function assigneeChanges(event: RealTimeDataEvent): { added: string[]; removed: string[]; current: string[] } {
+  const userId = (user: any) => (user?.id !== undefined ? String(user.id) : undefined);
+  const ids = (change: 'added' | 'removed') =>
+    historyItems(event)
+      .historyItems.map(item => (item.kind === 'assignee' && item.change === change ? item.assigneeId : undefined))
+      .filter((id): id is string => !!id);
+  return {
+    added: ids('added'),
+    removed: ids('removed'),
+    current: (Array.isArray(event.data?.assignees) ? event.data.assignees : [])
+      .map((user: any) => (typeof user === 'object' ? userId(user) : String(user)))
+      .filter((id: string | undefined): id is string => !!id),
+  };
+}
+
+function customFieldValue(event: RealTimeDataEvent, fieldId: string): { changed: boolean; value: unknown } {
+  const item = historyItems(event).historyItems.find(
+    entry => entry.kind === 'custom_field' && entry.fieldId === fieldId
+  );
+  if (item?.kind === 'custom_field') {
+    return { changed: true, value: item.to };
+  }
+  const fields = Array.isArray(event.data?.custom_fields) ? event.data.custom_fields : [];
+  return { changed: false, value: fields.find((field: any) => field?.id === fieldId)?.value };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dueDateChanged(condition: Extract<RuleCondition, { type: 'due_date' }>, event: RealTimeDataEvent): boolean {
+  const change = findChange(historyItems(event), 'due_date');
+  if (!change) {
+    return false;
+  }
+  const moved = (shiftMs: number | undefined, sign: number) =>
+    shiftMs !== undefined && shiftMs * sign > (condition.byMoreThanDays ?? 0) * DAY_MS;
+  switch (condition.change) {
+    case 'set':
+      return change.from === undefined && change.to !== undefined;
+    case 'cleared':
+      return change.from !== undefined && change.to === undefined;
+    case 'later':
+      return moved(change.shiftMs, 1);
+    case 'earlier':
+      return moved(change.shiftMs, -1);
+    case 'any':
+      return condition.byMoreThanDays === undefined || moved(change.shiftMs, Math.sign(change.shiftMs ?? 0));
+  }
+}
+
+const isSet = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(entry => sameValue(entry, expected));
+  }
+  if (actual !== null && typeof actual === 'object') {
+    const { id, value } = actual as { id?: unknown; value?: unknown };
+    return sameValue(id, expected) || sameValue(value, expected);
+  }
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  const number = Number(actual);
+  if (typeof expected === 'number' && !Number.isNaN(number)) {
+    return number === expected;
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+function compareCustomField(
+  condition: Extract<RuleCondition, { type: 'custom_field' }>,
+  event: RealTimeDataEvent
+): boolean {
+  const { changed, value } = customFieldValue(event, condition.fieldId);
+  switch (condition.operator) {
+    case 'changed':
+      return changed;
+    case 'is_set':
+      return isSet(value);
+    case 'is_not_set':
+      return !isSet(value);
+    case 'equals':
+      return sameValue(value, condition.value);
+    case 'not_equals':
+      return !sameValue(value, condition.value);
+    case 'contains':
+      return Array.isArray(value)
+        ? sameValue(value, condition.value)
+        : isSet(value) &&
+            String(value)
+              .toLowerCase()
+              .includes(String(condition.value ?? '').toLowerCase());
+    case 'greater_than':
+    case 'less_than': {
+      const number = Number(value);
+      const limit = Number(condition.value);
+      if (!isSet(value) || Number.isNaN(number) || Number.isNaN(limit)) {
+        return false;
+      }
+      return condition.operator === 'greater_than' ? number > limit : number < limit;
+    }
+  }
+}
+
+/** Whether `event` meets `condition`. */
+export function evaluateCondition(condition: RuleCondition, event: RealTimeDataEvent): boolean {
+  switch (condition.type) {
+    case 'event':
+      return condition.events.includes(event.data?.event);
+    case 'status': {
+      const transition = statusTransition(event);
+      return (
+        !!transition &&
+        (!condition.from || transition.from === condition.from.toLowerCase()) &&
+        (!condition.to || transition.to === condition.to.toLowerCase())
+      );
+    }
+    case 'priority': {
+      const priority = eventPriority(event);
+      return !!priority && (condition.in as string[]).includes(priority);
+    }
+    case 'assignee': {
+      const { added, removed, current } = assigneeChanges(event);
+      if (condition.change === 'added') return added.includes(condition.userId);
+      if (condition.change === 'removed') return removed.includes(condition.userId);
+      return added.includes(condition.userId) || current.includes(condition.userId);
+    }
+    case 'due_date':
+      return dueDateChanged(condition, event);
+    case 'custom_field':
+      return compareCustomField(condition, event);
+    case 'all':
+      return condition.conditions.every(entry => evaluateCondition(entry, event));
+    case 'any':
+      return condition.conditions.some(entry => evaluateCondition(entry, event));
+    case 'not':
+      return !evaluateCondition(condition.condition, event);
+  }
+}
+
+/** Whether a rule applies to an event: its event type, then its condition. */
+export const ruleMatches = (rule: ProcessingRuleDefinition, event: RealTimeDataEvent): boolean =>
+  rule.eventType === event.type && (!rule.when || evaluateCondition(rule.when, event));
+
+/** Fill `{{placeholders}}` in an action text from the event. */
+export function renderTemplate(text: string, rule: ProcessingRuleDefinition, event: RealTimeDataEvent): string {
+  const transition = statusTransition(event);
+  const values: Record<(typeof RULE_TEMPLATE_VARIABLES)[number], string | undefined> = {
+    task_id: event.taskId,
+    event: event.data?.event,
+    event_type: event.type,
+    rule_id: rule.id,
+    status_from: transition?.from,
+    status_to: transition?.to,
+    priority: eventPriority(event),
+  };
+  return text.replace(TEMPLATE_PATTERN, (_match, name: keyof typeof values) => values[name] ?? '');
+}
+
+// ============================================================================
+// Running Actions
+// ============================================================================
+
+export interface RuleActionContext {
+  rule: ProcessingRuleDefinition;
+  event: RealTimeDataEvent;
+}
+
+export type RuleActionRunner = (action: RuleAction, context: RuleActionContext) => Promise<void>;
+
+/** An action with its templates filled in, as it would be carried out. */
+export type ResolvedRuleAction = RuleAction & { taskId: string };
+
+export const resolveAction = (action: RuleAction, { rule, event }: RuleActionContext): ResolvedRuleAction => {
+  switch (action.type) {
+    case 'comment':
+    case 'notify_chat':
+      return { ...action, text: renderTemplate(action.text, rule, event), taskId: event.taskId };
+    case 'enqueue_follow_up':
+      return { ...action, note: renderTemplate(action.note, rule, event), taskId: event.taskId };
+    default:
+      return { ...action, taskId: event.taskId };
+  }
+};
+
+export interface FollowUpRequest {
+  ruleId: string;
+  taskId: string;
+  note: string;
+  dueAt: number;
+}
+
+/**
+ * Carries out rule actions against the ClickUp API. Follow-ups are not an
+ * API call; they are handed to `enqueueFollowUp` (the rule store's queue).
+ */
+export class ClickUpRuleActions {
+  private apiToken: string;
+  private baseURL = 'https://api.clickup.com/api';
+
+  constructor(
+    private enqueueFollowUp: (followUp: FollowUpRequest) => void,
+    apiToken = process.env.CLICKUP_API_TOKEN || ''
+  ) {
+    this.apiToken = apiToken;
+  }
+
+  readonly run: RuleActionRunner = async (action, context) => {
+    const resolved = resolveAction(action, context);
+    if (resolved.type === 'enqueue_follow_up') {
+      this.enqueueFollowUp({
+        ruleId: context.rule.id,
+        taskId: resolved.taskId,
+        note: resolved.note,
+        dueAt: context.event.timestamp + resolved.delayMinutes * 60000,
+      });
+      return;
+    }
+    if (!this.apiToken) {
+      throw new Error('CLICKUP_API_TOKEN environment variable is required to run rule actions');
+    }
+    // List, folder, space, goal and key result events carry no task; only chat works for them
+    if (!resolved.taskId && resolved.type !== 'notify_chat') {
+      throw new Error(`Event has no task for the ${resolved.type} action`);
+    }
+
+    const headers = { Authorization: this.apiToken, 'Content-Type': 'application/json' };
+    const task = encodeURIComponent(resolved.taskId);
+    const workspace = encodeURIComponent(context.rule.workspaceId ?? '');
+    switch (resolved.type) {
+      case 'comment':
+        await axios.post(
+          `${this.baseURL}/v2/task/${task}/comment`,
+          { comment_text: resolved.text, notify_all: false },
+          { headers }
+        );
+        break;
+      case 'set_field':
+        await axios.post(
+          `${this.baseURL}/v2/task/${task}/field/${encodeURIComponent(resolved.fieldId)}`,
+          { value: resolved.value },
+          { headers }
+        );
+        break;
+      case 'add_tag':
+        await axios.post(`${this.baseURL}/v2/task/${task}/tag/${encodeURIComponent(resolved.tag)}`, {}, { headers });
+        break;
+      case 'move_list':
+        await axios.put(
+          `${this.baseURL}/v3/workspaces/${workspace}/tasks/${task}/home_list/${encodeURIComponent(resolved.listId)}`,
+          {},
+          { headers }
+        );
+        break;
+      case 'notify_chat':
+        await axios.post(
+          `${this.baseURL}/v3/workspaces/${workspace}/chat/channels/${encodeURIComponent(resolved.channelId)}/messages`,
+          { type: 'message', content: resolved.text, content_format: 'text/md' },
+          { headers }
+        );
+        break;
+    }
+  };
+}
+
+/** A rule in the form the event stream processor runs. Actions run in order; a failing one stops the rest. */
+export function compileProcessingRule(rule: ProcessingRuleDefinition, run: RuleActionRunner): ProcessingRule {
+  return {
+    id: rule.id,
+    eventType: rule.eventType,
+    condition: event => !rule.when || evaluateCondition(rule.when, event),
+    action: async event => {
+      for (const action of rule.actions) {
+        await run(action, { rule, event });
+      }
+    },
+    priority: rule.priority,
+  };
+}
@@ -1,12 +1,28 @@
 import { EventEmitter } from 'events';
 import { WebSocket } from 'ws';
+import { ClickUpWebhookEvent, parseWebhookEvent } from './webhook-events.js';
+
+export const REAL_TIME_EVENT_TYPES = [
+  'task_update',
+  'task_created',
+  'task_deleted',
+  'comment_added',
+  'status_changed',
+  'list_changed',
+  'folder_changed',
+  'space_changed',
+  'goal_changed',
+  'key_result_changed',
+] as const;
 
 export interface RealTimeDataEvent {
-  type: 'task_update' | 'task_created' | 'task_deleted' | 'comment_added' | 'status_changed';
+  type: (typeof REAL_TIME_EVENT_TYPES)[number];
   taskId: string;
   timestamp: number;
   data: any;
   source: 'webhook' | 'polling' | 'websocket';
+  // The typed webhook event, when data is a ClickUp webhook payload
+  webhook?: ClickUpWebhookEvent;
 }
 
 export interface StreamProcessingConfig {
@@ -16,6 +32,37 @@ export interface StreamProcessingConfig {
   enableAnalytics: boolean;
 }
 
+const WEBHOOK_EVENT_TYPES: Record<string, RealTimeDataEvent['type']> = {
+  'taskCreated': 'task_created',
+  'taskUpdated': 'task_update',
+  'taskDeleted': 'task_deleted',
+  'taskCommentPosted': 'comment_added',
+  'taskStatusUpdated': 'status_changed',
+};
+
+/**
+ * The engine's view of a ClickUp webhook payload. Other task events are
+ * task_update; list, folder, space, goal and key result events are
+ * `<resource>_changed`, with the specific event in `webhook.event`.
+ */
+export function toRealTimeDataEvent(
+  payload: any,
+  source: RealTimeDataEvent['source'] = 'webhook',
+  timestamp = Date.now()
+): RealTimeDataEvent {
+  const webhook = parseWebhookEvent(payload);
+  return {
+    type:
+      WEBHOOK_EVENT_TYPES[payload.event] ||
+      (webhook && webhook.resource !== 'task' ? `${webhook.resource}_changed` : 'task_update'),
+    taskId: payload.task_id || payload.id,
+    timestamp,
+    data: payload,
+    source,
+    webhook,
+  };
+}
+
 export class RealTimeDataService extends EventEmitter {
   private wsConnections: Map<string, WebSocket> = new Map();
   private dataCache: Map<string, any> = new Map();
@@ -37,30 +84,13 @@ export class RealTimeDataService extends EventEmitter {
     }
   }
 
-  async processWebhookEvent(payload: any): Promise<void> {
-    const event: RealTimeDataEvent = {
-      type: this.mapEventType(payload.event),
-      taskId: payload.task_id || payload.id,
-      timestamp: Date.now(),
-      data: payload,
-      source: 'webhook',
-    };
+  async processWebhookEvent(payload: any, receivedAt = Date.now()): Promise<void> {
+    const event = toRealTimeDataEvent(payload, 'webhook', receivedAt);
 
     this.queueEvent(event);
     this.emit('data_received', event);
   }
 
-  private mapEventType(eventType: string): RealTimeDataEvent['type'] {
-    const mapping: Record<string, RealTimeDataEvent['type']> = {
-      'taskCreated': 'task_created',
-      'taskUpdated': 'task_update',
-      'taskDeleted': 'task_deleted',
-      'taskCommentPosted': 'comment_added',
-      'taskStatusUpdated': 'status_changed',
-    };
-    return mapping[eventType] || 'task_update';
-  }
-
   private queueEvent(event: RealTimeDataEvent): void {
     this.processingQueue.push(event);
     
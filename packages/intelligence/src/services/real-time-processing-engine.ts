@@ -34,6 +34,8 @@ export class RealTimeProcessingEngine extends EventEmitter {
   private totalEvents: number = 0;
   private successfulDeliveries: number = 0;
   private latencyMeasurements: number[] = [];
+  // Rule processing started by events that have not finished yet
+  private inFlight = new Set<Promise<void>>();
 
   constructor(config: ProcessingEngineConfig = {
     enableWebSocket: true,
@@ -99,12 +101,16 @@ export class RealTimeProcessingEngine extends EventEmitter {
     }
   }
 
-  async processWebhookEvent(payload: any): Promise<{ success: boolean; latency: number }> {
+  /**
+   * Process a ClickUp webhook payload. `receivedAt` stamps the event (default
+   * now); replays pass the recorded time so time-based rule output repeats.
+   */
+  async processWebhookEvent(payload: any, receivedAt?: number): Promise<{ success: boolean; latency: number }> {
     const startTime = Date.now();
     
     try {
       // Process through data service
-      await this.dataService.processWebhookEvent(payload);
+      await this.dataService.processWebhookEvent(payload, receivedAt);
       
       const latency = Date.now() - startTime;
       this.recordLatency(latency);
@@ -126,7 +132,9 @@ export class RealTimeProcessingEngine extends EventEmitter {
     // Data service events
     this.dataService.on('data_received', (event: RealTimeDataEvent) => {
       this.totalEvents++;
-      this.streamProcessor.processEvent(event);
+      const processing = this.streamProcessor.processEvent(event);
+      this.inFlight.add(processing);
+      processing.finally(() => this.inFlight.delete(processing));
       this.emit('event_received', event);
     });
 
@@ -269,6 +277,13 @@ export class RealTimeProcessingEngine extends EventEmitter {
     return this.streamProcessor.removeRule(ruleId);
   }
 
+  /** Resolves once every rule run by the events received so far has finished. */
+  async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
   getCachedData(taskId: string): any {
     return this.config.enableCaching ? this.cacheService.getCachedTask(taskId) : null;
   }
@@ -12,14 +12,6 @@
 import { z } from 'zod';
 
 // Input/Output Schemas
-export const VelocityAnalysisInputSchema = z.object({
-  teamId: z.string().describe('ClickUp team ID for analysis'),
-  lookbackPeriod: z.number().min(1).max(52).default(12).describe('Number of weeks to analyze (1-52)'),
-  includePartialSprints: z.boolean().default(false).describe('Include incomplete sprints in analysis'),
-  adjustForTeamChanges: z.boolean().default(true).describe('Adjust for team composition changes'),
-  seasonalAdjustment: z.boolean().default(true).describe('Apply seasonal variation adjustments'),
-});
-
 export const VelocityTrendSchema = z.object({
   period: z.string().describe('Time period (YYYY-MM-DD to YYYY-MM-DD)'),
   storyPoints: z.number().describe('Story points completed'),
@@ -29,6 +21,18 @@ export const VelocityTrendSchema = z.object({
   confidence: z.number().min(0).max(1).describe('Confidence in data quality'),
 });
 
+export const VelocityAnalysisInputSchema = z.object({
+  teamId: z.string().describe('ClickUp team ID for analysis'),
+  lookbackPeriod: z.number().min(1).max(52).default(12).describe('Number of weeks to analyze (1-52)'),
+  includePartialSprints: z.boolean().default(false).describe('Include incomplete sprints in analysis'),
+  adjustForTeamChanges: z.boolean().default(true).describe('Adjust for team composition changes'),
+  seasonalAdjustment: z.boolean().default(true).describe('Apply seasonal variation adjustments'),
+  historicalTrends: z
+    .array(VelocityTrendSchema)
+    .optional()
+    .describe('Measured history, oldest first (e.g. velocity_history from the core server\'s clickup_get_estimate_accuracy). Used instead of fetched sprint data'),
+});
+
 export const VelocityPredictionSchema = z.object({
   predictedVelocity: z.number().describe('Predicted story points for next sprint'),
   confidenceInterval: z.object({
@@ -100,11 +104,10 @@ export class VelocityAnalysisService {
       // Validate input
       const validatedInput = VelocityAnalysisInputSchema.parse(input);
 
-      // Fetch historical sprint data
-      const historicalData = await this.fetchHistoricalSprintData(validatedInput);
-
-      // Calculate velocity trends
-      const trends = await this.calculateVelocityTrends(historicalData);
+      // Use supplied history when given, otherwise fetch historical sprint data
+      const trends = validatedInput.historicalTrends
+        ? validatedInput.historicalTrends.slice(-validatedInput.lookbackPeriod)
+        : await this.calculateVelocityTrends(await this.fetchHistoricalSprintData(validatedInput));
 
       // Analyze current velocity metrics
       const currentVelocity = this.analyzeCurrentVelocity(trends);
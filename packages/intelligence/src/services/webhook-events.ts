@@ -0,0 +1,325 @@
+/**
+ * ClickUp Webhook Event Model
+ *
+ * A typed view of every ClickUp webhook delivery: one variant per event name
+ * (all 28 events a webhook can subscribe to), discriminated by `event`, each
+ * carrying the IDs of the resource it is about and its `history_items`
+ * parsed into typed changes. Timestamps become Unix ms numbers, users become
+ * their IDs, and date changes carry how far they moved, so rules and analytics
+ * can ask "was the due date moved later by more than 3 days?" without knowing
+ * ClickUp's payload shapes.
+ *
+ * Parsing never throws: unknown fields become `other` changes and unknown
+ * event names return undefined, so a ClickUp API addition degrades to less
+ * detail rather than a dropped event.
+ *
+ * @package @chykalophia/clickup-intelligence-mcp-server
+ */
+
+// ============================================================================
+// Event Names
+// ============================================================================
+
+export const TASK_WEBHOOK_EVENTS = [
+  'taskCreated',
+  'taskUpdated',
+  'taskDeleted',
+  'taskPriorityUpdated',
+  'taskStatusUpdated',
+  'taskAssigneeUpdated',
+  'taskDueDateUpdated',
+  'taskTagUpdated',
+  'taskMoved',
+  'taskCommentPosted',
+  'taskCommentUpdated',
+  'taskTimeEstimateUpdated',
+  'taskTimeTrackedUpdated',
+] as const;
+
+export const LIST_WEBHOOK_EVENTS = ['listCreated', 'listUpdated', 'listDeleted'] as const;
+export const FOLDER_WEBHOOK_EVENTS = ['folderCreated', 'folderUpdated', 'folderDeleted'] as const;
+export const SPACE_WEBHOOK_EVENTS = ['spaceCreated', 'spaceUpdated', 'spaceDeleted'] as const;
+export const GOAL_WEBHOOK_EVENTS = ['goalCreated', 'goalUpdated', 'goalDeleted'] as const;
+export const KEY_RESULT_WEBHOOK_EVENTS = [
+  'keyResultCreated',
+  'keyResultUpdated',
+  'keyResultDeleted',
+] as const;
+
+/** Every event a ClickUp webhook can deliver (the same list as the core server's WEBHOOK_EVENTS, less '*'). */
+export const WEBHOOK_EVENTS = [
+  ...TASK_WEBHOOK_EVENTS,
+  ...LIST_WEBHOOK_EVENTS,
+  ...FOLDER_WEBHOOK_EVENTS,
+  ...SPACE_WEBHOOK_EVENTS,
+  ...GOAL_WEBHOOK_EVENTS,
+  ...KEY_RESULT_WEBHOOK_EVENTS,
+] as const;
+
+export type TaskWebhookEventName = (typeof TASK_WEBHOOK_EVENTS)[number];
+export type ListWebhookEventName = (typeof LIST_WEBHOOK_EVENTS)[number];
+export type FolderWebhookEventName = (typeof FOLDER_WEBHOOK_EVENTS)[number];
+export type SpaceWebhookEventName = (typeof SPACE_WEBHOOK_EVENTS)[number];
+export type GoalWebhookEventName = (typeof GOAL_WEBHOOK_EVENTS)[number];
+export type KeyResultWebhookEventName = (typeof KEY_RESULT_WEBHOOK_EVENTS)[number];
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookResource = 'task' | 'list' | 'folder' | 'space' | 'goal' | 'key_result';
+
+const RESOURCE_EVENTS: Array<[WebhookResource, readonly WebhookEventName[]]> = [
+  ['task', TASK_WEBHOOK_EVENTS],
+  ['list', LIST_WEBHOOK_EVENTS],
+  ['folder', FOLDER_WEBHOOK_EVENTS],
+  ['space', SPACE_WEBHOOK_EVENTS],
+  ['goal', GOAL_WEBHOOK_EVENTS],
+  ['key_result', KEY_RESULT_WEBHOOK_EVENTS],
+];
+
+/** The kind of resource an event is about, or undefined for an unknown event name. */
+export const webhookEventResource = (event: string): WebhookResource | undefined =>
+  RESOURCE_EVENTS.find(([, events]) => (events as readonly string[]).includes(event))?.[0];
+
+// ============================================================================
+// History Items
+// ============================================================================
+
+// Unix ms; shiftMs is to - from when both are set (positive: later)
+interface DateChange {
+  from?: number;
+  to?: number;
+  shiftMs?: number;
+}
+
+export type HistoryChange =
+  | { kind: 'status'; from?: string; to?: string; statusType?: string }
+  | { kind: 'priority'; from?: string; to?: string }
+  | ({ kind: 'due_date' } & DateChange)
+  | ({ kind: 'start_date' } & DateChange)
+  | { kind: 'assignee'; change: 'added' | 'removed'; assigneeId?: string }
+  | { kind: 'tag'; change: 'added' | 'removed'; tags: string[] }
+  | { kind: 'moved'; fromListId?: string; toListId?: string }
+  // Milliseconds
+  | { kind: 'time_estimate'; from?: number; to?: number }
+  | { kind: 'time_tracked'; entryId?: string; durationMs?: number; start?: number; end?: number }
+  | { kind: 'custom_field'; fieldId?: string; fieldName?: string; from: unknown; to: unknown }
+  | { kind: 'comment'; commentId?: string; text?: string }
+  | { kind: 'name'; from?: string; to?: string }
+  | { kind: 'content'; from?: string; to?: string }
+  | { kind: 'other'; from: unknown; to: unknown };
+
+export type ParsedHistoryItem = HistoryChange & {
+  id?: string;
+  // ClickUp's field name, e.g. assignee_add or section_moved
+  field: string;
+  // Unix ms
+  date?: number;
+  // Who made the change
+  userId?: string;
+};
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== ''
+    ? value
+    : typeof value === 'number'
+      ? String(value)
+      : undefined;
+
+const id = (value: any): string | undefined => text(value?.id);
+
+const millis = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const named = (value: any, key: string): string | undefined =>
+  typeof value === 'string' ? text(value) : text(value?.[key]);
+
+const tagNames = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .map(tag => named(tag, 'name'))
+    .filter((name): name is string => !!name);
+
+function parseChange(item: any): HistoryChange {
+  const { before, after } = item;
+  switch (item.field) {
+    case 'status':
+      return {
+        kind: 'status',
+        from: named(before, 'status'),
+        to: named(after, 'status'),
+        statusType: after?.type,
+      };
+    case 'priority':
+      return { kind: 'priority', from: named(before, 'priority'), to: named(after, 'priority') };
+    case 'due_date':
+    case 'start_date': {
+      const from = millis(before);
+      const to = millis(after);
+      return {
+        kind: item.field,
+        from,
+        to,
+        shiftMs: from !== undefined && to !== undefined ? to - from : undefined,
+      };
+    }
+    case 'assignee_add':
+      return { kind: 'assignee', change: 'added', assigneeId: id(after) };
+    case 'assignee_rem':
+      return { kind: 'assignee', change: 'removed', assigneeId: id(before) };
+    case 'tag':
+      return { kind: 'tag', change: 'added', tags: tagNames(after) };
+    case 'tag_removed':
+      return { kind: 'tag', change: 'removed', tags: tagNames(before) };
+    case 'section_moved':
+      return { kind: 'moved', fromListId: id(before), toListId: id(after) };
+    case 'time_estimate':
+      return { kind: 'time_estimate', from: millis(before), to: millis(after) };
+    case 'time_spent':
+      return {
+        kind: 'time_tracked',
+        entryId: id(after),
+        durationMs: millis(after?.time),
+        start: millis(after?.start),
+        end: millis(after?.end),
+      };
+    case 'custom_field':
+      return {
+        kind: 'custom_field',
+        fieldId: id(item.custom_field),
+        fieldName: text(item.custom_field?.name),
+        from: before,
+        to: after,
+      };
+    case 'comment':
+      return {
+        kind: 'comment',
+        commentId: id(item.comment) ?? text(after),
+        text: text(item.comment?.text_content),
+      };
+    case 'name':
+    case 'content':
+      return { kind: item.field, from: text(before), to: text(after) };
+    default:
+      return { kind: 'other', from: before, to: after };
+  }
+}
+
+/** Parse a delivery's `history_items`; entries that are not objects are skipped. */
+export function parseHistoryItems(items: unknown): ParsedHistoryItem[] {
+  return (Array.isArray(items) ? items : [])
+    .filter(item => item !== null && typeof item === 'object')
+    .map(item => ({
+      id: text(item.id),
+      field: text(item.field) ?? '',
+      date: millis(item.date),
+      userId: id(item.user),
+      ...parseChange(item),
+    }));
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+interface WebhookEventBase<E extends WebhookEventName> {
+  event: E;
+  webhookId?: string;
+  historyItems: ParsedHistoryItem[];
+  // The delivery as received
+  payload: Record<string, any>;
+}
+
+export interface TaskWebhookEvent<E extends TaskWebhookEventName = TaskWebhookEventName>
+  extends WebhookEventBase<E> {
+  resource: 'task';
+  taskId: string;
+}
+
+export interface ListWebhookEvent<E extends ListWebhookEventName = ListWebhookEventName>
+  extends WebhookEventBase<E> {
+  resource: 'list';
+  listId: string;
+}
+
+export interface FolderWebhookEvent<E extends FolderWebhookEventName = FolderWebhookEventName>
+  extends WebhookEventBase<E> {
+  resource: 'folder';
+  folderId: string;
+}
+
+export interface SpaceWebhookEvent<E extends SpaceWebhookEventName = SpaceWebhookEventName>
+  extends WebhookEventBase<E> {
+  resource: 'space';
+  spaceId: string;
+}
+
+export interface GoalWebhookEvent<E extends GoalWebhookEventName = GoalWebhookEventName>
+  extends WebhookEventBase<E> {
+  resource: 'goal';
+  goalId: string;
+}
+
+export interface KeyResultWebhookEvent<
+  E extends KeyResultWebhookEventName = KeyResultWebhookEventName,
+> extends WebhookEventBase<E> {
+  resource: 'key_result';
+  keyResultId: string;
+  goalId?: string;
+}
+
+/** One variant per webhook event; narrow on `event` (or on `resource` for the IDs). */
+export type ClickUpWebhookEvent =
+  | { [E in TaskWebhookEventName]: TaskWebhookEvent<E> }[TaskWebhookEventName]
+  | { [E in ListWebhookEventName]: ListWebhookEvent<E> }[ListWebhookEventName]
+  | { [E in FolderWebhookEventName]: FolderWebhookEvent<E> }[FolderWebhookEventName]
+  | { [E in SpaceWebhookEventName]: SpaceWebhookEvent<E> }[SpaceWebhookEventName]
+  | { [E in GoalWebhookEventName]: GoalWebhookEvent<E> }[GoalWebhookEventName]
+  | { [E in KeyResultWebhookEventName]: KeyResultWebhookEvent<E> }[KeyResultWebhookEventName];
+
+/** The typed event for a webhook payload, or undefined when its event name is not a ClickUp webhook event. */
+export function parseWebhookEvent(payload: any): ClickUpWebhookEvent | undefined {
+  const resource = webhookEventResource(payload?.event);
+  if (!resource) {
+    return undefined;
+  }
+  const base = {
+    event: payload.event,
+    webhookId: text(payload.webhook_id),
+    historyItems: parseHistoryItems(payload.history_items),
+    payload,
+  };
+  // Some deliveries carry the resource as an object rather than an ID field
+  const resourceId = (key: string, object: string) =>
+    text(payload[key]) ?? id(payload[object]) ?? '';
+  switch (resource) {
+    case 'task':
+      return { ...base, resource, taskId: resourceId('task_id', 'task') };
+    case 'list':
+      return { ...base, resource, listId: resourceId('list_id', 'list') };
+    case 'folder':
+      return { ...base, resource, folderId: resourceId('folder_id', 'folder') };
+    case 'space':
+      return { ...base, resource, spaceId: resourceId('space_id', 'space') };
+    case 'goal':
+      return { ...base, resource, goalId: resourceId('goal_id', 'goal') };
+    case 'key_result':
+      return {
+        ...base,
+        resource,
+        keyResultId: resourceId('key_result_id', 'key_result'),
+        goalId: text(payload.goal_id),
+      };
+  }
+}
+
+/** The first change of a kind in an event, typed to that kind. */
+export const findChange = <K extends HistoryChange['kind']>(
+  event: { historyItems: ParsedHistoryItem[] } | undefined,
+  kind: K
+): Extract<ParsedHistoryItem, { kind: K }> | undefined =>
+  event?.historyItems.find(
+    (item): item is Extract<ParsedHistoryItem, { kind: K }> => item.kind === kind
+  );
@@ -0,0 +1,52 @@
+/**
+ * Webhook Replay
+ *
+ * Feeds webhook fixtures recorded by the core server's receiver
+ * (CLICKUP_WEBHOOK_RECORD_DIR) into a RealTimeProcessingEngine, so rule
+ * behaviour can be regression-tested against real delivery sequences. The
+ * fixture format, parser and pacing live in @chykalophia/clickup-mcp-shared.
+ *
+ * Events are stamped with their recorded time and every delivery's rules
+ * finish before the next one is sent, so a replay produces the same actions
+ * in the same order on every run.
+ *
+ * @package @chykalophia/clickup-intelligence-mcp-server
+ */
+
+import {
+  parseWebhookFixture,
+  readWebhookFixture,
+  replayWebhookDeliveries,
+  type ReplayPacing,
+  type WebhookFixtureDelivery,
+} from '@chykalophia/clickup-mcp-shared';
+import type { RealTimeProcessingEngine } from './real-time-processing-engine.js';
+
+export { parseWebhookFixture, readWebhookFixture };
+export type { WebhookFixtureDelivery };
+
+export interface ReplayResult {
+  index: number;
+  event: string;
+  success: boolean;
+  latency: number;
+}
+
+export type ReplayOptions = ReplayPacing;
+
+/** Replay deliveries into the engine in order, waiting between them according to `speed`. */
+export function replayWebhookFixture(
+  engine: RealTimeProcessingEngine,
+  deliveries: WebhookFixtureDelivery[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult[]> {
+  return replayWebhookDeliveries(
+    deliveries,
+    async (delivery, index) => {
+      const result = await engine.processWebhookEvent(delivery.payload, delivery.received_at);
+      await engine.drain();
+      return { index, event: delivery.payload.event, ...result };
+    },
+    options
+  );
+}
@@ -1,10 +1,38 @@
 /* eslint-disable no-console */
 import { z } from 'zod';
 import { RealTimeProcessingEngine } from '../services/real-time-processing-engine.js';
-import { ProcessingRule } from '../services/event-stream-processor.js';
+import { toRealTimeDataEvent } from '../services/real-time-data-service.js';
+import {
+  ClickUpRuleActions,
+  compileProcessingRule,
+  ProcessingRuleDefinition,
+  ProcessingRuleDefinitionSchema,
+  resolveAction,
+  ruleMatches,
+} from '../services/processing-rules.js';
+import { createProcessingRuleStore } from '../services/processing-rule-store.js';
 
 // Global engine instance
 let engineInstance: RealTimeProcessingEngine | null = null;
+let ruleActions: ClickUpRuleActions | null = null;
+
+/** Install a stored rule in the running engine, replacing any earlier version. */
+function installRule(engine: RealTimeProcessingEngine, rule: ProcessingRuleDefinition): void {
+  if (!ruleActions) {
+    const store = createProcessingRuleStore();
+    ruleActions = new ClickUpRuleActions(followUp => store.enqueueFollowUp(followUp));
+  }
+  engine.removeProcessingRule(rule.id);
+  engine.addProcessingRule(compileProcessingRule(rule, ruleActions.run));
+}
+
+/** Validation errors as `path: message` pairs rather than zod's JSON dump. */
+function describeError(error: any): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => `${issue.path.join('.') || '(rule)'}: ${issue.message}`).join('; ');
+  }
+  return error.message;
+}
 
 export const startRealTimeEngineSchema = z.object({
   enableWebSocket: z.boolean().optional().default(true),
@@ -22,12 +50,22 @@ export const processWebhookSchema = z.object({
   secret: z.string().optional(),
 });
 
-export const addProcessingRuleSchema = z.object({
+export const addProcessingRuleSchema = ProcessingRuleDefinitionSchema;
+
+export const removeProcessingRuleSchema = z.object({
   id: z.string(),
-  eventType: z.enum(['task_update', 'task_created', 'task_deleted', 'comment_added', 'status_changed']),
-  condition: z.string().describe('JavaScript condition function as string'),
-  action: z.string().describe('JavaScript action function as string'),
-  priority: z.number().default(1),
+});
+
+export const testProcessingRuleSchema = z.object({
+  rule: z.any().optional().describe('A rule definition to test, in the clickup_add_processing_rule format'),
+  ruleId: z.string().optional().describe('ID of a saved rule to test instead'),
+  events: z.array(z.any()).min(1).max(500).describe('Recorded ClickUp webhook payloads'),
+});
+
+export const getFollowUpsSchema = z.object({
+  includeNotDue: z.boolean().optional().default(false),
+  includeDone: z.boolean().optional().default(false),
+  complete: z.array(z.string()).optional().describe('Follow-up IDs to mark done'),
 });
 
 export const getRealTimeMetricsSchema = z.object({
@@ -57,6 +95,10 @@ export async function startRealTimeEngine(params: z.infer<typeof startRealTimeEn
 
     await engineInstance.start();
 
+    // Rules saved earlier, including in previous runs
+    const storedRules = createProcessingRuleStore().getRules();
+    storedRules.forEach(rule => installRule(engineInstance!, rule));
+
     // Set up event listeners for monitoring
     engineInstance.on('event_received', (event) => {
       console.log(`[Real-Time Engine] Event received: ${event.type} for task ${event.taskId}`);
@@ -78,6 +120,7 @@ export async function startRealTimeEngine(params: z.infer<typeof startRealTimeEn
         text: JSON.stringify({
           status: 'started',
           config: params,
+          processingRules: storedRules.map(rule => rule.id),
           initialMetrics: metrics,
           timestamp: new Date().toISOString(),
         }, null, 2),
@@ -137,42 +180,166 @@ export async function processWebhookEvent(params: z.infer<typeof processWebhookS
   }
 }
 
-export async function addProcessingRule(params: z.infer<typeof addProcessingRuleSchema>) {
+export async function addProcessingRule(params: unknown) {
   try {
-    if (!engineInstance) {
-      return {
-        content: [{
-          type: 'text',
-          text: 'Real-time processing engine is not running. Start it first with startRealTimeEngine.',
-        }],
-        isError: true,
-      };
+    const rule = ProcessingRuleDefinitionSchema.parse(params);
+    const replaced = createProcessingRuleStore().saveRule(rule);
+    if (engineInstance) {
+      installRule(engineInstance, rule);
     }
 
-    // Create the rule with safer function parsing
-    // eslint-disable-next-line no-new-func
-    const conditionFn = new Function('_event', `return ${params.condition}`) as any;
-    // eslint-disable-next-line no-new-func
-    const actionFn = new Function('_event', params.action) as any;
-
-    const rule: ProcessingRule = {
-      id: params.id,
-      eventType: params.eventType,
-      condition: conditionFn,
-      action: actionFn,
-      priority: params.priority,
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          status: replaced ? 'rule_replaced' : 'rule_added',
+          ruleId: rule.id,
+          eventType: rule.eventType,
+          priority: rule.priority,
+          active: engineInstance !== null,
+          timestamp: new Date().toISOString(),
+        }, null, 2),
+      }],
+    };
+
+  } catch (error: any) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error adding processing rule: ${describeError(error)}`,
+      }],
+      isError: true,
+    };
+  }
+}
+
+export async function listProcessingRules() {
+  try {
+    const store = createProcessingRuleStore();
+    const invalidRules = store.getInvalidRules();
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          rules: store.getRules(),
+          // Stored but not run: they failed validation (e.g. written by a newer version)
+          ...(invalidRules.length > 0 && { invalidRules }),
+          active: engineInstance !== null,
+        }, null, 2),
+      }],
+    };
+
+  } catch (error: any) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error listing processing rules: ${error.message}`,
+      }],
+      isError: true,
     };
+  }
+}
 
-    engineInstance.addProcessingRule(rule);
+export async function removeProcessingRule(params: z.infer<typeof removeProcessingRuleSchema>) {
+  try {
+    const removed = createProcessingRuleStore().removeRule(params.id);
+    engineInstance?.removeProcessingRule(params.id);
 
     return {
       content: [{
         type: 'text',
         text: JSON.stringify({
-          status: 'rule_added',
+          status: removed ? 'rule_removed' : 'rule_not_found',
           ruleId: params.id,
-          eventType: params.eventType,
-          priority: params.priority,
+          timestamp: new Date().toISOString(),
+        }, null, 2),
+      }],
+      ...(!removed && { isError: true }),
+    };
+
+  } catch (error: any) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error removing processing rule: ${error.message}`,
+      }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Run a rule against recorded webhook payloads without carrying out its
+ * actions: which events match, and what each action would do.
+ */
+export async function testProcessingRule(params: z.infer<typeof testProcessingRuleSchema>) {
+  try {
+    const { rule: draft, ruleId, events } = testProcessingRuleSchema.parse(params);
+    let rule: ProcessingRuleDefinition | undefined;
+    if (draft !== undefined) {
+      rule = ProcessingRuleDefinitionSchema.parse(draft);
+    } else if (ruleId) {
+      rule = createProcessingRuleStore().getRule(ruleId);
+      if (!rule) {
+        throw new Error(`No saved rule with ID "${ruleId}"`);
+      }
+    } else {
+      throw new Error('Provide either rule or ruleId');
+    }
+
+    const results = events.map((payload, index) => {
+      const event = toRealTimeDataEvent(payload);
+      const matched = ruleMatches(rule!, event);
+      return {
+        index,
+        event: payload?.event,
+        eventType: event.type,
+        taskId: event.taskId,
+        matched,
+        ...(matched && { actions: rule!.actions.map(action => resolveAction(action, { rule: rule!, event })) }),
+      };
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ruleId: rule.id,
+          eventsTested: results.length,
+          eventsMatched: results.filter(result => result.matched).length,
+          results,
+        }, null, 2),
+      }],
+    };
+
+  } catch (error: any) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error testing processing rule: ${describeError(error)}`,
+      }],
+      isError: true,
+    };
+  }
+}
+
+export async function getFollowUps(params: z.infer<typeof getFollowUpsSchema>) {
+  try {
+    const store = createProcessingRuleStore();
+    const completed = params.complete?.length ? store.completeFollowUps(params.complete) : [];
+    const followUps = store.getFollowUps({ includeDone: params.includeDone, includeNotDue: params.includeNotDue });
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          followUps: followUps.map(followUp => ({
+            ...followUp,
+            dueAt: new Date(followUp.dueAt).toISOString(),
+            createdAt: new Date(followUp.createdAt).toISOString(),
+            ...(followUp.doneAt !== undefined && { doneAt: new Date(followUp.doneAt).toISOString() }),
+          })),
+          ...(completed.length > 0 && { completed }),
           timestamp: new Date().toISOString(),
         }, null, 2),
       }],
@@ -182,7 +349,7 @@ export async function addProcessingRule(params: z.infer<typeof addProcessingRule
     return {
       content: [{
         type: 'text',
-        text: `Error adding processing rule: ${error.message}`,
+        text: `Error getting follow-ups: ${error.message}`,
       }],
       isError: true,
     };
@@ -0,0 +1,52 @@
+import { join } from 'path';
+import {
+  parseWebhookFixture,
+  readWebhookFixture,
+  replayWebhookDeliveries,
+} from '../utils/webhook-fixtures';
+
+// The one fixture directory the core and intelligence tests read from
+const lifecycle = () =>
+  readWebhookFixture(join(process.cwd(), 'fixtures', 'webhooks', 'task-lifecycle.jsonl'));
+
+describe('Webhook fixtures', () => {
+  it('reads recorded deliveries and reports the line that is not one', () => {
+    const deliveries = lifecycle();
+    expect(deliveries.length).toBeGreaterThan(1);
+    expect(deliveries[0].payload.event).toBe('taskCreated');
+
+    expect(() => parseWebhookFixture('{"received_at":1,"payload":{}}')).toThrow(
+      'Fixture line 1 is not a webhook delivery: payload has no event'
+    );
+    expect(() =>
+      parseWebhookFixture('\n{"received_at":"soon","payload":{"event":"taskCreated"}}')
+    ).toThrow('Fixture line 2 is not a webhook delivery: received_at is not a number');
+    expect(() =>
+      parseWebhookFixture('{"received_at":1,"payload":{"event":"taskCreated"}}', () => {
+        throw new Error('not a ClickUp payload');
+      })
+    ).toThrow('Fixture line 1 is not a webhook delivery: not a ClickUp payload');
+  });
+
+  it('replays in order, waiting the recorded gaps divided by speed', async () => {
+    const deliveries = parseWebhookFixture(
+      [1000, 3000, 3000, 7000]
+        .map(at => JSON.stringify({ received_at: at, payload: { event: 'taskUpdated' } }))
+        .join('\n')
+    );
+    const waits: number[] = [];
+    const sleep = async (ms: number) => {
+      waits.push(ms);
+    };
+
+    const order = await replayWebhookDeliveries(deliveries, (delivery, index) => index, {
+      speed: 2,
+      sleep,
+    });
+    expect(order).toEqual([0, 1, 2, 3]);
+    expect(waits).toEqual([1000, 2000]);
+
+    await replayWebhookDeliveries(deliveries, () => undefined, { sleep });
+    expect(waits).toHaveLength(2);
+  });
+});
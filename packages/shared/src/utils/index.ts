@@ -36,3 +36,5 @@ export function isValidClickUpId(id: string): boolean {
   // ClickUp IDs are typically alphanumeric strings
   return /^[a-zA-Z0-9]+$/.test(id) && id.length > 0;
 }
+
+export * from './webhook-fixtures.js';
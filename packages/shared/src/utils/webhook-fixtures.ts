@@ -0,0 +1,91 @@
+// Webhook fixtures: recorded ClickUp webhook deliveries, one JSON object per line
+//
+//   {"received_at":1760869800000,"headers":{"content-type":"application/json"},"payload":{...}}
+//
+// The core server's receiver records them (CLICKUP_WEBHOOK_RECORD_DIR); core
+// replays them into processWebhook and the receiver, and the intelligence
+// server into its real-time engine. Both read and pace them through here.
+
+import { readFileSync } from 'fs';
+
+export interface WebhookFixturePayload {
+  event: string;
+  [key: string]: unknown;
+}
+
+export interface WebhookFixtureDelivery<P = WebhookFixturePayload> {
+  // Unix ms
+  received_at: number;
+  headers: Record<string, string>;
+  payload: P;
+}
+
+export interface ReplayPacing {
+  // 1 replays at the recorded pace, 10 ten times faster; 0 (the default) does not wait
+  speed?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const parseFixturePayload = (payload: unknown): WebhookFixturePayload => {
+  const event = (payload as Partial<WebhookFixturePayload> | null)?.event;
+  if (typeof event !== 'string' || event === '') {
+    throw new Error('payload has no event');
+  }
+  return payload as WebhookFixturePayload;
+};
+
+/**
+ * Parse fixture text. `parsePayload` validates each payload (and may throw);
+ * by default a payload only needs an event name.
+ */
+export function parseWebhookFixture<P = WebhookFixturePayload>(
+  text: string,
+  parsePayload: (payload: unknown) => P = parseFixturePayload as (payload: unknown) => P
+): WebhookFixtureDelivery<P>[] {
+  return text
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, number }) => {
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry?.received_at !== 'number') {
+          throw new Error('received_at is not a number');
+        }
+        return { received_at: entry.received_at, headers: entry.headers ?? {}, payload: parsePayload(entry.payload) };
+      } catch (error) {
+        throw new Error(
+          `Fixture line ${number} is not a webhook delivery: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    });
+}
+
+export function readWebhookFixture<P = WebhookFixturePayload>(
+  filePath: string,
+  parsePayload?: (payload: unknown) => P
+): WebhookFixtureDelivery<P>[] {
+  return parseWebhookFixture(readFileSync(filePath, 'utf8'), parsePayload);
+}
+
+/**
+ * Feed deliveries to `deliver` in order, one at a time, waiting between them
+ * according to `speed`. Returns what `deliver` returned for each.
+ */
+export async function replayWebhookDeliveries<P, T>(
+  deliveries: WebhookFixtureDelivery<P>[],
+  deliver: (delivery: WebhookFixtureDelivery<P>, index: number) => Promise<T> | T,
+  options: ReplayPacing = {}
+): Promise<T[]> {
+  const speed = options.speed ?? 0;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const results: T[] = [];
+  for (const [index, delivery] of deliveries.entries()) {
+    const gap = index > 0 ? delivery.received_at - deliveries[index - 1].received_at : 0;
+    if (speed > 0 && gap > 0) {
+      await sleep(gap / speed);
+    }
+    results.push(await deliver(delivery, index));
+  }
+  return results;
+}